@@ -0,0 +1,202 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type Redlock from 'redlock';
+import { createServiceBroker } from '../../service-broker/index.js';
+import { wrapMixin, wrapService } from '../../types/index.js';
+import { LeaderElection } from '../leader-election.js';
+import {
+  LEADER_CHANGED_EVENT,
+  LeaderElectionMixin,
+} from '../leader-election.mixin.js';
+
+/**
+ * Redlock holding a single lock in memory.
+ */
+function createFakeRedlock() {
+  let holder: Redlock.Lock | null = null;
+  const redlock = {
+    acquire: vi.fn(async () => {
+      if (holder) {
+        throw new Error('Locked');
+      }
+      const lock = {
+        extend: vi.fn(async () => {
+          if (holder !== lock) {
+            throw new Error('Lost');
+          }
+          return lock;
+        }),
+        unlock: vi.fn(async () => {
+          if (holder === lock) {
+            holder = null;
+          }
+        }),
+      } as unknown as Redlock.Lock;
+      holder = lock;
+      return lock;
+    }),
+    expire: () => {
+      holder = null;
+    },
+  };
+  return redlock;
+}
+
+describe('LeaderElection', () => {
+  const logger = { warn: vi.fn() } as never;
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createElection = (redlock: ReturnType<typeof createFakeRedlock>) => {
+    const onChange = vi.fn(async () => {});
+    const election = new LeaderElection({
+      key: 'leader',
+      ttl: 3000,
+      retryInterval: 1000,
+      getRedlock: () => redlock as unknown as Redlock,
+      onChange,
+      logger,
+    });
+    return { election, onChange };
+  };
+
+  it('should elect one node and renew its lease', async () => {
+    vi.useFakeTimers();
+    const redlock = createFakeRedlock();
+    const first = createElection(redlock);
+    const second = createElection(redlock);
+
+    first.election.start();
+    second.election.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(first.election.isLeader).toBe(true);
+    expect(second.election.isLeader).toBe(false);
+    expect(first.onChange).toHaveBeenCalledWith(true);
+
+    const lock = await redlock.acquire.mock.results[0].value;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(lock.extend).toHaveBeenCalledWith(3000);
+    expect(second.election.isLeader).toBe(false);
+
+    await first.election.stop();
+    await second.election.stop();
+  });
+
+  it('should demote a leader losing its lease and elect another node', async () => {
+    vi.useFakeTimers();
+    const redlock = createFakeRedlock();
+    const first = createElection(redlock);
+    const second = createElection(redlock);
+
+    first.election.start();
+    await vi.advanceTimersByTimeAsync(0);
+    // The lease expires before being renewed
+    redlock.expire();
+    second.election.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(second.election.isLeader).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(first.election.isLeader).toBe(false);
+    expect(first.onChange).toHaveBeenLastCalledWith(false);
+
+    await first.election.stop();
+    await second.election.stop();
+  });
+
+  it('should renew the lease while a hook is pending', async () => {
+    vi.useFakeTimers();
+    const redlock = createFakeRedlock();
+    const { election, onChange } = createElection(redlock);
+    let endHook = () => {};
+    onChange.mockImplementationOnce(
+      () => new Promise<void>(resolve => (endHook = resolve)),
+    );
+
+    election.start();
+    await vi.advanceTimersByTimeAsync(0);
+    const lock = await redlock.acquire.mock.results[0].value;
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(lock.extend).toHaveBeenCalledTimes(2);
+    expect(election.isLeader).toBe(true);
+
+    endHook();
+    await election.stop();
+    expect(onChange.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should release the lease on stop', async () => {
+    const redlock = createFakeRedlock();
+    const first = createElection(redlock);
+    const second = createElection(redlock);
+
+    first.election.start();
+    await first.election.stop();
+    expect(first.onChange.mock.calls).toEqual([[true], [false]]);
+
+    second.election.start();
+    await second.election.stop();
+    expect(second.onChange.mock.calls).toEqual([[true], [false]]);
+  });
+});
+
+describe('LeaderElectionMixin', () => {
+  it('should call the hooks and broadcast the changes', async () => {
+    const redlock = createFakeRedlock();
+    const onElected = vi.fn();
+    const onDemoted = vi.fn();
+    const listener = vi.fn();
+    const broker = createServiceBroker();
+    broker.createService({
+      name: 'listener',
+      events: { [LEADER_CHANGED_EVENT]: listener },
+    });
+    const svc = broker.createService(
+      wrapService({
+        name: 'leader',
+        mixins: [
+          wrapMixin({
+            methods: {
+              getRedlock() {
+                return redlock;
+              },
+            },
+          }),
+          LeaderElectionMixin({ onElected, onDemoted }),
+        ],
+      }),
+    );
+
+    await broker.start();
+    await vi.waitFor(() => expect(svc.isLeader()).toBe(true));
+    expect(onElected).toHaveBeenCalledWith(svc);
+    const onLateElected = vi.fn();
+    svc.addLeadershipListener({ onElected: onLateElected });
+    await vi.waitFor(() => expect(onLateElected).toHaveBeenCalled());
+
+    await broker.stop();
+    expect(onDemoted).toHaveBeenCalledWith(svc);
+    expect(svc.isLeader()).toBe(false);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: {
+          key: 'leader-election:leader',
+          service: 'leader',
+          nodeID: broker.nodeID,
+          leader: true,
+        },
+      }),
+    );
+  });
+
+  it('should require the RedlockMixin', () => {
+    const broker = createServiceBroker();
+
+    expect(() =>
+      broker.createService(
+        wrapService({ name: 'leader', mixins: [LeaderElectionMixin()] }),
+      ),
+    ).toThrow('did you add the RedlockMixin?');
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createServiceBroker } from '../../service-broker/index.js';
+import { wrapMixin, wrapService } from '../../types/index.js';
+import { QueueStaticRepeatableJobs } from '../queue/queue-static-repeatable-jobs.mixin.js';
+import type { LeadershipListener } from '../leader-election.mixin.js';
+
+const jobs = [{ name: 'job', every: 1000 }];
+
+/**
+ * Service registering the jobs without Redis.
+ */
+function createService(leaderOnly: boolean) {
+  const listeners: LeadershipListener[] = [];
+  const broker = createServiceBroker();
+  const svc = broker.createService(
+    wrapService({
+      name: 'jobs',
+      mixins: [
+        // Same method as the LeaderElectionMixin
+        wrapMixin({
+          methods: {
+            addLeadershipListener(listener: LeadershipListener) {
+              listeners.push(listener);
+            },
+          },
+        }),
+        QueueStaticRepeatableJobs('queue', jobs, {
+          brokerURL: 'redis://localhost',
+          leaderOnly,
+        }),
+      ],
+    }),
+  );
+  const registerRepeatableJobs = vi
+    .spyOn(svc, 'registerRepeatableJobs')
+    .mockResolvedValue(undefined);
+  return { broker, listeners, registerRepeatableJobs };
+}
+
+describe('QueueStaticRepeatableJobs', () => {
+  it('should register the jobs once the broker is started', async () => {
+    const { broker, listeners, registerRepeatableJobs } = createService(false);
+
+    await broker.start();
+    await vi.waitFor(() => expect(registerRepeatableJobs).toHaveBeenCalled());
+    expect(listeners).toHaveLength(0);
+    await broker.stop();
+  });
+
+  it('should register the jobs each time the node is elected with leaderOnly', async () => {
+    const { broker, listeners, registerRepeatableJobs } = createService(true);
+
+    await broker.start();
+    await vi.waitFor(() => expect(listeners).toHaveLength(1));
+    expect(registerRepeatableJobs).not.toHaveBeenCalled();
+
+    await listeners[0].onElected?.();
+    listeners[0].onDemoted?.();
+    await listeners[0].onElected?.();
+    expect(registerRepeatableJobs).toHaveBeenCalledTimes(2);
+    await broker.stop();
+  });
+
+  it('should require the LeaderElectionMixin with leaderOnly', () => {
+    const broker = createServiceBroker();
+
+    expect(() =>
+      broker.createService(
+        wrapService({
+          name: 'jobs',
+          mixins: [
+            QueueStaticRepeatableJobs('queue', jobs, {
+              brokerURL: 'redis://localhost',
+              leaderOnly: true,
+            }),
+          ],
+        }),
+      ),
+    ).toThrow('did you add the LeaderElectionMixin?');
+  });
+});
@@ -1,15 +1,37 @@
 export * from './database/actions/index.js';
 export * from './database/actions/ajv.js';
+export * from './database/actions/client.js';
+export * from './database/actions/cursor.js';
 export * from './database/actions/helpers.js';
 export * from './database/actions/shared.js';
+export * from './database/actions/transfer.js';
 export * from './database/actions/types.js';
 export * from './database/actions/zod.js';
+export * from './database/advisor.js';
+export * from './database/aggregate.js';
+export * from './database/cache.js';
+export * from './database/change-stream.js';
 export * from './database/connection.js';
+export * from './database/context-registry.js';
+export * from './database/driver.js';
+export * from './database/encryption.js';
 export * from './database/errors.js';
 export * from './database/indexes/index.js';
 export * from './database/indexes/types.js';
 export * from './database/indexes/utils.js';
+export * from './database/memory/client.js';
+export * from './database/memory/collection.js';
+export * from './database/memory/cursor.js';
 export * from './database/helpers.js';
+export * from './database/history.js';
 export * from './database/methods.js';
+export * from './database/migrations/index.js';
+export * from './database/migrations/types.js';
+export * from './database/migrations/utils.js';
 export * from './database/mixin-types.js';
+export * from './database/relations.js';
+export * from './database/search.js';
+export * from './database/session.js';
+export * from './database/transaction.js';
 export * from './database/types.js';
+export * from './database/virtuals.js';
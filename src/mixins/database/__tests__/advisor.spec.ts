@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DatabaseQueryAdvisor,
+  getDeclaredIndexForShape,
+  getQueryPlanIssues,
+  getQueryShape,
+} from '../advisor.js';
+
+describe('DB Mixin V2 query advisor', () => {
+  describe('getQueryShape', () => {
+    it('should collect filtered fields without values', () => {
+      expect(
+        getQueryShape(
+          'find',
+          {
+            foo: 'bar',
+            deletedAt: null,
+            $or: [{ a: 1 }, { $and: [{ b: { $gt: 2 } }, { foo: 'rab' }] }],
+            $text: { $search: 'test' },
+          },
+          { createdAt: -1, _id: 1 },
+        ),
+      ).toEqual({
+        operation: 'find',
+        filter: ['a', 'b', 'deletedAt', 'foo'],
+        sort: [
+          ['createdAt', -1],
+          ['_id', 1],
+        ],
+      });
+    });
+  });
+
+  describe('getDeclaredIndexForShape', () => {
+    const indexes: Array<[Record<string, 1 | -1>, { name?: string }?]> = [
+      [{ foo: 1, createdAt: -1 }],
+      [{ createdAt: 1 }, { name: 'by_date' }],
+    ];
+
+    it('should match on the first key of the index', () => {
+      expect(
+        getDeclaredIndexForShape(
+          getQueryShape('find', { foo: 'bar' }),
+          indexes,
+        ),
+      ).toBe('foo_1_createdAt_-1');
+      expect(
+        getDeclaredIndexForShape(
+          getQueryShape('find', {}, { createdAt: 1 }),
+          indexes,
+        ),
+      ).toBe('by_date');
+      expect(
+        getDeclaredIndexForShape(getQueryShape('count', { bar: 1 }), indexes),
+      ).toBeNull();
+    });
+  });
+
+  describe('getQueryPlanIssues', () => {
+    it('should find collection scans and in-memory sorts', () => {
+      expect(
+        getQueryPlanIssues({
+          queryPlanner: {
+            winningPlan: {
+              stage: 'SORT',
+              inputStage: { stage: 'COLLSCAN' },
+            },
+          },
+        }),
+      ).toEqual({ collectionScan: true, inMemorySort: true });
+    });
+
+    it('should read plans of the slot based engine', () => {
+      expect(
+        getQueryPlanIssues({
+          queryPlanner: {
+            winningPlan: {
+              queryPlan: {
+                stage: 'FETCH',
+                inputStage: { stage: 'IXSCAN' },
+              },
+            },
+          },
+        }),
+      ).toEqual({ collectionScan: false, inMemorySort: false });
+    });
+  });
+
+  describe('DatabaseQueryAdvisor', () => {
+    it('should group queries by shape and list issues first', () => {
+      const advisor = new DatabaseQueryAdvisor([[{ foo: 1 }]], 2);
+      const noIssue = { collectionScan: false, inMemorySort: false };
+
+      advisor.record(getQueryShape('find', { foo: 'a' }), noIssue);
+      advisor.record(getQueryShape('find', { foo: 'b' }), noIssue);
+      advisor.record(getQueryShape('count', { bar: 1 }), {
+        collectionScan: true,
+        inMemorySort: false,
+      });
+      // Ignored, maxShapes is reached
+      expect(
+        advisor.record(getQueryShape('find', { baz: 1 }), noIssue),
+      ).toBeNull();
+
+      expect(advisor.getReport()).toEqual([
+        expect.objectContaining({
+          operation: 'count',
+          filter: ['bar'],
+          collectionScan: true,
+          declaredIndex: null,
+          count: 1,
+        }),
+        expect.objectContaining({
+          operation: 'find',
+          filter: ['foo'],
+          collectionScan: false,
+          declaredIndex: 'foo_1',
+          count: 2,
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Collection } from 'mongodb';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import type { DatabaseMethodsOptions } from '../mixin-types.js';
+import {
+  assertNoWriteStages,
+  guardLookupStages,
+  prependMatchStage,
+  registerDatabaseCollection,
+} from '../aggregate.js';
+
+describe('DB Mixin V2 aggregate', () => {
+  describe('prependMatchStage', () => {
+    it('should add the $match stage first', () => {
+      expect(
+        prependMatchStage([{ $sort: { a: 1 } }], { tenant: 't1' }),
+      ).toEqual([{ $match: { tenant: 't1' } }, { $sort: { a: 1 } }]);
+    });
+
+    it('should keep stages that must be first', () => {
+      expect(
+        prependMatchStage([{ $search: { text: {} } }, { $limit: 1 }], {
+          deletedAt: null,
+        }),
+      ).toEqual([
+        { $search: { text: {} } },
+        { $match: { deletedAt: null } },
+        { $limit: 1 },
+      ]);
+    });
+
+    it('should do nothing with an empty filter', () => {
+      const pipeline = [{ $limit: 1 }];
+      expect(prependMatchStage(pipeline, {})).toBe(pipeline);
+    });
+  });
+
+  describe('guardLookupStages', () => {
+    registerDatabaseCollection('db', 'shops', {
+      tenantField: 'shopId',
+      softDelete: true,
+    });
+    registerDatabaseCollection('db', 'users', {
+      tenantField: false,
+      softDelete: false,
+    });
+
+    it('should guard lookups on registered collections', () => {
+      expect(
+        guardLookupStages(
+          [
+            { $match: { a: 1 } },
+            {
+              $lookup: {
+                from: 'shops',
+                localField: 'shop',
+                foreignField: '_id',
+                as: 'shop',
+              },
+            },
+            {
+              $lookup: {
+                from: 'users',
+                localField: 'user',
+                foreignField: '_id',
+                as: 'user',
+              },
+            },
+          ],
+          'db',
+          't1',
+        ),
+      ).toEqual([
+        { $match: { a: 1 } },
+        {
+          $lookup: {
+            from: 'shops',
+            localField: 'shop',
+            foreignField: '_id',
+            as: 'shop',
+            pipeline: [{ $match: { shopId: 't1', deletedAt: null } }],
+          },
+        },
+        {
+          $lookup: {
+            from: 'users',
+            localField: 'user',
+            foreignField: '_id',
+            as: 'user',
+          },
+        },
+      ]);
+    });
+
+    it('should guard nested lookups', () => {
+      expect(
+        guardLookupStages(
+          [
+            {
+              $lookup: {
+                from: 'users',
+                as: 'users',
+                pipeline: [
+                  { $lookup: { from: 'shops', as: 'shops', pipeline: [] } },
+                ],
+              },
+            },
+          ],
+          'db',
+          't1',
+        ),
+      ).toEqual([
+        {
+          $lookup: {
+            from: 'users',
+            as: 'users',
+            pipeline: [
+              {
+                $lookup: {
+                  from: 'shops',
+                  as: 'shops',
+                  pipeline: [{ $match: { shopId: 't1', deletedAt: null } }],
+                },
+              },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should guard $facet, $unionWith and $graphLookup stages', () => {
+      expect(
+        guardLookupStages(
+          [
+            {
+              $facet: {
+                shops: [{ $lookup: { from: 'shops', as: 'shops' } }],
+              },
+            },
+            { $unionWith: 'shops' },
+            { $unionWith: 'users' },
+            {
+              $unionWith: {
+                coll: 'users',
+                pipeline: [{ $unionWith: { coll: 'shops' } }],
+              },
+            },
+            {
+              $graphLookup: {
+                from: 'shops',
+                startWith: '$parent',
+                connectFromField: 'parent',
+                connectToField: '_id',
+                as: 'parents',
+                restrictSearchWithMatch: { open: true },
+              },
+            },
+          ],
+          'db',
+          't1',
+        ),
+      ).toEqual([
+        {
+          $facet: {
+            shops: [
+              {
+                $lookup: {
+                  from: 'shops',
+                  as: 'shops',
+                  pipeline: [{ $match: { shopId: 't1', deletedAt: null } }],
+                },
+              },
+            ],
+          },
+        },
+        {
+          $unionWith: {
+            coll: 'shops',
+            pipeline: [{ $match: { shopId: 't1', deletedAt: null } }],
+          },
+        },
+        { $unionWith: 'users' },
+        {
+          $unionWith: {
+            coll: 'users',
+            pipeline: [
+              {
+                $unionWith: {
+                  coll: 'shops',
+                  pipeline: [{ $match: { shopId: 't1', deletedAt: null } }],
+                },
+              },
+            ],
+          },
+        },
+        {
+          $graphLookup: {
+            from: 'shops',
+            startWith: '$parent',
+            connectFromField: 'parent',
+            connectToField: '_id',
+            as: 'parents',
+            restrictSearchWithMatch: {
+              $and: [{ open: true }, { shopId: 't1', deletedAt: null }],
+            },
+          },
+        },
+      ]);
+    });
+
+    it('should require the tenant value', () => {
+      const pipeline = [{ $lookup: { from: 'shops', as: 'shops' } }];
+
+      expect(() => guardLookupStages(pipeline, 'db', undefined)).toThrow(
+        'Missing tenant value for the $lookup on "shops"',
+      );
+      expect(guardLookupStages(pipeline, 'db', undefined, false)).toEqual([
+        {
+          $lookup: {
+            from: 'shops',
+            as: 'shops',
+            pipeline: [{ $match: { deletedAt: null } }],
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('assertNoWriteStages', () => {
+    it('should reject $out and $merge', () => {
+      expect(() => assertNoWriteStages([{ $match: {} }])).not.toThrow();
+      expect(() =>
+        assertNoWriteStages([{ $match: {} }, { $out: 'other' }]),
+      ).toThrow('Stage $out is not allowed');
+      expect(() =>
+        assertNoWriteStages([{ $merge: { into: 'other' } }]),
+      ).toThrow('Stage $merge is not allowed');
+    });
+  });
+
+  describe('aggregate methods', () => {
+    const broker = createServiceBroker();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const opts: DatabaseMethodsOptions<any, any> = {
+      softDelete: false,
+      timestamps: false,
+      tenantField: false,
+    };
+    const svc = broker.createService(
+      wrapService({
+        name: 'aggregate',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'aggregate',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin(opts),
+        ],
+      }),
+    );
+    const col = svc.getCollection() as Collection;
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    beforeEach(async () => {
+      await col.deleteMany({});
+      opts.tenantField = false;
+      opts.softDelete = false;
+    });
+
+    it('should apply tenant and soft delete filters', async () => {
+      opts.softDelete = true;
+      opts.tenantField = 'foo';
+      await col.insertMany([
+        { foo: 'bar', test: 1 },
+        { foo: 'bar', test: 2 },
+        { foo: 'bar', test: 3, deletedAt: new Date() },
+        { foo: 'rab', test: 4 },
+      ]);
+
+      const res = await svc._aggregate(
+        [{ $group: { _id: '$foo', total: { $sum: '$test' } } }],
+        { foo: 'bar' },
+      );
+
+      expect(res).toEqual([{ _id: 'bar', total: 3 }]);
+    });
+
+    it('should stream results', async () => {
+      await col.insertMany([{ test: 1 }, { test: 2 }]);
+
+      const docs = await svc
+        ._aggregateStream(
+          [{ $sort: { test: -1 } }, { $project: { _id: 0 } }],
+          null,
+        )
+        .toArray();
+
+      expect(docs).toEqual([{ test: 2 }, { test: 1 }]);
+    });
+  });
+});
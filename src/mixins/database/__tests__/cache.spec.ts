@@ -0,0 +1,267 @@
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+import { type Collection, ObjectId } from 'mongodb';
+import type { Redis } from 'ioredis';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import {
+  DATABASE_CACHE_EVICT_EVENT,
+  DatabaseDocumentCache,
+  getDatabaseCacheId,
+  getDatabaseCacheVariant,
+} from '../cache.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+
+describe('DB Mixin V2 cache', () => {
+  describe('DatabaseDocumentCache', () => {
+    const createCache = () =>
+      new DatabaseDocumentCache({
+        store: 'memory',
+        key: 'test',
+        ttl: 1000,
+        maxEntries: 2,
+      });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should serialize ids with their type', () => {
+      expect(getDatabaseCacheId(1)).not.toBe(getDatabaseCacheId('1'));
+      expect(getDatabaseCacheId(new ObjectId('65a000000000000000000000'))).toBe(
+        getDatabaseCacheId(new ObjectId('65a000000000000000000000')),
+      );
+      expect(getDatabaseCacheVariant(undefined, 'no-deleted')).not.toBe(
+        getDatabaseCacheVariant('t1', 'no-deleted'),
+      );
+    });
+
+    it('should return copies of the documents with BSON types', async () => {
+      const cache = createCache();
+      const doc = { _id: new ObjectId(), date: new Date(0), tags: ['a'] };
+      await cache.set('a', 'v', doc);
+      doc.tags.push('b');
+
+      const res = await cache.get('a', 'v');
+      expect(res).toEqual({ _id: doc._id, date: new Date(0), tags: ['a'] });
+      expect(res?._id).toBeInstanceOf(ObjectId);
+      expect(await cache.get('a', 'other')).toBeNull();
+    });
+
+    it('should expire entries and evict the least recently read', async () => {
+      vi.useFakeTimers();
+      const cache = createCache();
+      await cache.set('a', 'v', { _id: 'a' });
+      await cache.set('b', 'v', { _id: 'b' });
+      // Read a so b is evicted first
+      await cache.get('a', 'v');
+      await cache.set('c', 'v', { _id: 'c' });
+
+      expect(await cache.get('a', 'v')).toEqual({ _id: 'a' });
+      expect(await cache.get('b', 'v')).toBeNull();
+
+      vi.advanceTimersByTime(1000);
+      expect(await cache.get('a', 'v')).toBeNull();
+    });
+
+    it('should evict every variant of a document', async () => {
+      const cache = createCache();
+      await cache.set('a', 'v1', { _id: 'a' });
+      await cache.set('a', 'v2', { _id: 'a' });
+      await cache.evict(['a']);
+
+      expect(await cache.get('a', 'v1')).toBeNull();
+      expect(await cache.get('a', 'v2')).toBeNull();
+    });
+
+    it('should store a document variants in a Redis hash', async () => {
+      const exec = vi.fn();
+      const multi = { hset: vi.fn(), pexpire: vi.fn(), exec };
+      multi.hset.mockReturnValue(multi);
+      multi.pexpire.mockReturnValue(multi);
+      const redis = {
+        hget: vi.fn().mockResolvedValue('{"_id":"a"}'),
+        multi: () => multi,
+        del: vi.fn(),
+      };
+      const cache = new DatabaseDocumentCache({
+        store: 'redis',
+        getRedis: () => redis as unknown as Redis,
+        key: 'test',
+        ttl: 1000,
+        maxEntries: 2,
+      });
+
+      await cache.set('a', 'v', { _id: 'a' });
+      expect(multi.hset).toHaveBeenCalledWith('test:a', 'v', '{"_id":"a"}');
+      expect(multi.pexpire).toHaveBeenCalledWith('test:a', 1000);
+      expect(await cache.get('a', 'v')).toEqual({ _id: 'a' });
+      expect(redis.hget).toHaveBeenCalledWith('test:a', 'v');
+      await cache.evict(['a', 'b']);
+      expect(redis.del).toHaveBeenCalledWith('test:a', 'test:b');
+    });
+  });
+
+  describe('cache option', () => {
+    type Venue = {
+      _id: string;
+      tenantId: string;
+      name: string;
+      deletedAt?: Date;
+    };
+
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'cached',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'cached',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Venue, 'tenantId'>({
+            tenantField: 'tenantId',
+            softDelete: true,
+            timestamps: false,
+            cache: {},
+          }),
+        ],
+      }),
+    );
+    const ctx = { emit: vi.fn() };
+    const col = svc.getCollection() as Collection<Venue>;
+    const params = { tenantId: 't1' };
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    beforeEach(async () => {
+      await col.deleteMany({});
+      await col.insertOne({ _id: 'a', tenantId: 't1', name: 'A' });
+      (svc.databaseCache as DatabaseDocumentCache).clear();
+    });
+
+    it('should cache documents read by _id', async () => {
+      const findSpy = vi.spyOn(col.constructor.prototype, 'find');
+
+      expect(await svc._findOne({ _id: 'a' }, params)).toMatchObject({
+        name: 'A',
+      });
+      expect(
+        await svc._findOne({ _id: 'a' }, params, { fields: ['name'] }),
+      ).toEqual({ _id: 'a', name: 'A' });
+      expect(findSpy).toHaveBeenCalledTimes(1);
+      findSpy.mockRestore();
+
+      // Other tenants and scopes are other entries
+      expect(await svc._findOne({ _id: 'a' }, { tenantId: 't2' })).toBeNull();
+      await col.updateOne({ _id: 'a' }, { $set: { name: 'Outside' } });
+      expect(await svc._findOne({ _id: 'a' }, params)).toMatchObject({
+        name: 'A',
+      });
+      expect(
+        await svc._findOne({ _id: 'a' }, params, { scope: 'include-deleted' }),
+      ).toMatchObject({ name: 'Outside' });
+    });
+
+    it('should still require the tenant on cached reads', async () => {
+      await svc._findOne({ _id: 'a' }, params);
+
+      await expect(svc._findOne({ _id: 'a' }, null)).rejects.toThrow();
+    });
+
+    it('should evict documents on writes', async () => {
+      await svc._findOne({ _id: 'a' }, params);
+      await svc._updateOne(ctx, { _id: 'a' }, params, {
+        $set: { name: 'B' },
+      });
+      expect(await svc._findOne({ _id: 'a' }, params)).toMatchObject({
+        name: 'B',
+      });
+
+      await svc._updateMany({}, params, { $set: { name: 'C' } });
+      expect(await svc._findOne({ _id: 'a' }, params)).toMatchObject({
+        name: 'C',
+      });
+
+      await svc._deleteOne(ctx, { _id: 'a' }, params);
+      expect(await svc._findOne({ _id: 'a' }, params)).toBeNull();
+    });
+
+    it('should only read the _id of the documents written by many', async () => {
+      const proto = col.constructor.prototype;
+      const findSpy = vi.spyOn(proto, 'find');
+      const updateSpy = vi.spyOn(proto, 'updateMany');
+
+      await svc._deleteMany({ name: 'A' }, params);
+      expect(findSpy).toHaveBeenCalledWith(expect.any(Object), {
+        session: undefined,
+        projection: { _id: 1 },
+      });
+      // The write keeps the filter
+      expect(updateSpy.mock.calls[0][0]).not.toHaveProperty('_id');
+      findSpy.mockRestore();
+      updateSpy.mockRestore();
+    });
+
+    it('should evict documents again after the commit of a transaction', async () => {
+      const txCtx = { meta: {}, emit: vi.fn() };
+      const cache = svc.databaseCache as DatabaseDocumentCache;
+      const id = getDatabaseCacheId('a');
+      const variant = getDatabaseCacheVariant('t1', 'no-deleted');
+
+      await svc.withTransaction(txCtx, async () => {
+        await svc._updateOne(txCtx, { _id: 'a' }, params, {
+          $set: { name: 'B' },
+        });
+        // Read outside of the transaction before the commit
+        await svc._findOne({ _id: 'a' }, params);
+        expect(await cache.get(id, variant)).toBeTruthy();
+      });
+      expect(await cache.get(id, variant)).toBeFalsy();
+    });
+
+    it('should evict purged documents', async () => {
+      await col.updateOne(
+        { _id: 'a' },
+        { $set: { deletedAt: new Date(Date.now() - 1000) } },
+      );
+      const scope = 'include-deleted';
+      expect(await svc._findOne({ _id: 'a' }, params, { scope })).toBeTruthy();
+
+      expect(await svc._purgeDeleted({ olderThan: 0 })).toBe(1);
+      expect(await svc._findOne({ _id: 'a' }, params, { scope })).toBeNull();
+    });
+
+    it('should evict documents of the broadcast event', async () => {
+      await svc._findOne({ _id: 'a' }, params);
+      await col.updateOne({ _id: 'a' }, { $set: { name: 'Outside' } });
+
+      await broker.broadcast(DATABASE_CACHE_EVICT_EVENT, {
+        service: 'other',
+        ids: [getDatabaseCacheId('a')],
+      });
+      expect(await svc._findOne({ _id: 'a' }, params)).toMatchObject({
+        name: 'A',
+      });
+
+      await broker.broadcast(DATABASE_CACHE_EVICT_EVENT, {
+        service: svc.fullName,
+        ids: [getDatabaseCacheId('a')],
+      });
+      expect(await svc._findOne({ _id: 'a' }, params)).toMatchObject({
+        name: 'Outside',
+      });
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { ChangeStreamDocument, Collection } from 'mongodb';
+import type { Redis } from 'ioredis';
+import {
+  DatabaseChangeStreamPublisher,
+  getDatabaseEventFromChange,
+} from '../change-stream.js';
+
+// Only the fields read by getDatabaseEventFromChange
+const change = (doc: Record<string, unknown>) =>
+  doc as unknown as ChangeStreamDocument;
+
+/**
+ * Redis with the commands used by the lease and the resume token (expiration is ignored).
+ */
+function createFakeRedis() {
+  const store = new Map<string, string>();
+  return {
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string, ...args: unknown[]) => {
+      if (args.includes('NX') && store.has(key)) {
+        return null;
+      }
+      store.set(key, value);
+      return 'OK';
+    },
+    del: async (key: string) => Number(store.delete(key)),
+    // Renew and release scripts
+    eval: async (script: string, _: number, key: string, value: string) => {
+      if (store.get(key) !== value) {
+        return 0;
+      }
+      return script.includes('pexpire') ? 1 : Number(store.delete(key));
+    },
+  };
+}
+
+/**
+ * Collection whose change streams never send changes until they are closed.
+ */
+function createFakeCollection() {
+  return {
+    watch: vi.fn(() => {
+      let end = () => {};
+      const closed = new Promise<void>(resolve => (end = resolve));
+      return {
+        close: vi.fn(async () => end()),
+        [Symbol.asyncIterator]: () => ({
+          next: async () => {
+            await closed;
+            return { done: true, value: undefined };
+          },
+        }),
+      };
+    }),
+  };
+}
+
+describe('DB Mixin V2 change stream', () => {
+  describe('getDatabaseEventFromChange', () => {
+    const document = { _id: 'a', test: 1 };
+
+    it('should convert inserts and replaces', () => {
+      expect(
+        getDatabaseEventFromChange(
+          change({ operationType: 'insert', fullDocument: document }),
+          false,
+        ),
+      ).toEqual({
+        event: 'created',
+        payload: { type: 'insert', document },
+      });
+      expect(
+        getDatabaseEventFromChange(
+          change({ operationType: 'replace', fullDocument: document }),
+          false,
+        ),
+      ).toEqual({
+        event: 'updated',
+        payload: { type: 'replace', document },
+      });
+    });
+
+    it('should convert updates with the looked up document', () => {
+      expect(
+        getDatabaseEventFromChange(
+          change({
+            operationType: 'update',
+            fullDocument: document,
+            updateDescription: { updatedFields: { test: 1 } },
+          }),
+          false,
+        ),
+      ).toEqual({
+        event: 'updated',
+        payload: { type: 'update', document },
+      });
+      expect(
+        getDatabaseEventFromChange(
+          change({
+            operationType: 'update',
+            fullDocument: null,
+            updateDescription: { updatedFields: { test: 1 } },
+          }),
+          false,
+        ),
+      ).toBeNull();
+    });
+
+    it('should convert soft deletes and restores', () => {
+      const deletedAt = new Date();
+
+      expect(
+        getDatabaseEventFromChange(
+          change({
+            operationType: 'update',
+            fullDocument: { ...document, deletedAt },
+            updateDescription: { updatedFields: { deletedAt } },
+          }),
+          true,
+        ),
+      ).toEqual({
+        event: 'deleted',
+        payload: { type: 'delete', document: { ...document, deletedAt } },
+      });
+      expect(
+        getDatabaseEventFromChange(
+          change({
+            operationType: 'update',
+            fullDocument: document,
+            updateDescription: {
+              updatedFields: {},
+              removedFields: ['deletedAt'],
+            },
+          }),
+          true,
+        ),
+      ).toEqual({
+        event: 'restored',
+        payload: { type: 'restore', document },
+      });
+    });
+
+    it('should use pre-images on deletes when available', () => {
+      expect(
+        getDatabaseEventFromChange(
+          change({ operationType: 'delete', documentKey: { _id: 'a' } }),
+          false,
+        ),
+      ).toEqual({
+        event: 'deleted',
+        payload: { type: 'delete', document: { _id: 'a' } },
+      });
+      expect(
+        getDatabaseEventFromChange(
+          change({
+            operationType: 'delete',
+            documentKey: { _id: 'a' },
+            fullDocumentBeforeChange: document,
+          }),
+          false,
+        ),
+      ).toEqual({
+        event: 'deleted',
+        payload: { type: 'delete', document },
+      });
+    });
+
+    it('should ignore other changes', () => {
+      expect(
+        getDatabaseEventFromChange(change({ operationType: 'drop' }), false),
+      ).toBeNull();
+    });
+  });
+
+  describe('DatabaseChangeStreamPublisher', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const createPublisher = (
+      redis: ReturnType<typeof createFakeRedis>,
+      nodeID: string,
+    ) => {
+      const collection = createFakeCollection();
+      const publisher = new DatabaseChangeStreamPublisher({
+        collection: collection as unknown as Collection,
+        getRedis: () => redis as unknown as Redis,
+        key: 'change-stream',
+        nodeID,
+        leaseTTL: 3000,
+        preImages: false,
+        softDelete: false,
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } as never,
+        emit: vi.fn(),
+      });
+      return { publisher, collection };
+    };
+
+    it('should only watch the collection from the leader', async () => {
+      vi.useFakeTimers();
+      const redis = createFakeRedis();
+      const first = createPublisher(redis, 'node-1');
+      const second = createPublisher(redis, 'node-2');
+
+      first.publisher.start();
+      second.publisher.start();
+      await vi.advanceTimersByTimeAsync(0);
+      expect(first.collection.watch).toHaveBeenCalledTimes(1);
+      expect(await redis.get('change-stream:leader')).toBe('node-1');
+
+      // Renewals don't reopen the stream
+      await vi.advanceTimersByTimeAsync(3000);
+      expect(first.collection.watch).toHaveBeenCalledTimes(1);
+      expect(second.collection.watch).not.toHaveBeenCalled();
+
+      await first.publisher.stop();
+      expect(
+        first.collection.watch.mock.results[0].value.close,
+      ).toHaveBeenCalled();
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(second.collection.watch).toHaveBeenCalledTimes(1);
+      expect(await redis.get('change-stream:leader')).toBe('node-2');
+
+      await second.publisher.stop();
+      expect(await redis.get('change-stream:leader')).toBeNull();
+    });
+  });
+});
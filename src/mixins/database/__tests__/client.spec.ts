@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, expectTypeOf, it } from 'vitest';
+import type { Context } from 'moleculer';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { createDatabaseClient } from '../actions/client.js';
+import type {
+  DatabaseActionCursorListResult,
+  DatabaseActionFindResult,
+} from '../actions/types.js';
+import type { DatabaseActionOptions } from '../mixin-types.js';
+
+type Venue = { _id: string; tenantId: string; name: string };
+
+describe('DB Mixin V2 client', () => {
+  const broker = createServiceBroker();
+  broker.createService(
+    wrapService({
+      name: 'venues',
+      version: 1,
+      actions: {
+        find: (ctx: Context) => [{ _id: 'a', params: ctx.params }],
+        list: (ctx: Context) => ({ rows: [], params: ctx.params }),
+      },
+    }),
+  );
+  const ctx = broker.ContextFactory.create(broker);
+
+  beforeAll(async () => {
+    await broker.start();
+    return () => broker.stop();
+  });
+
+  const venueActions = {
+    find: { visibility: 'public' },
+    list: { visibility: 'published', pagination: 'cursor' },
+  } satisfies DatabaseActionOptions<Venue>;
+
+  it('should call the actions of the service', async () => {
+    const venues = createDatabaseClient<Venue, 'tenantId'>('v1.venues');
+
+    expect(await venues.find(ctx, { tenantId: 't', limit: 1 })).toEqual([
+      { _id: 'a', params: { tenantId: 't', limit: 1 } },
+    ]);
+  });
+
+  it('should only have the enabled actions', () => {
+    const venues = createDatabaseClient<Venue, 'tenantId', typeof venueActions>(
+      'v1.venues',
+      venueActions,
+    );
+
+    expect(Object.keys(venues)).toEqual(['find', 'list']);
+    expectTypeOf(venues.find).returns.resolves.toEqualTypeOf<
+      DatabaseActionFindResult<Venue>
+    >();
+    expectTypeOf(venues.list).returns.resolves.toEqualTypeOf<
+      DatabaseActionCursorListResult<Venue>
+    >();
+    expectTypeOf(venues).not.toHaveProperty('get');
+  });
+});
@@ -0,0 +1,297 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { BSON, type Collection, ObjectId } from 'mongodb';
+import { Context } from 'moleculer';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { addQueryOps } from '../actions/ajv.js';
+import { QueryOp } from '../actions/shared.js';
+import type { DatabaseActionCursorListResult } from '../actions/types.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import {
+  createCursorFilter,
+  decodeListCursor,
+  encodeListCursor,
+  getCursorSort,
+  reverseSort,
+} from '../actions/cursor.js';
+
+describe('DB Mixin V2 list cursor', () => {
+  describe('getCursorSort', () => {
+    it('should add _id at the end', () => {
+      expect(getCursorSort()).toEqual(['_id']);
+      expect(getCursorSort(['-createdAt'])).toEqual(['-createdAt', '_id']);
+    });
+
+    it('should keep _id direction and drop fields after it', () => {
+      expect(getCursorSort(['a', '-_id', 'b'])).toEqual(['a', '-_id']);
+    });
+  });
+
+  describe('reverseSort', () => {
+    it('should invert every field', () => {
+      expect(reverseSort(['a', '-b', '_id'])).toEqual(['-a', 'b', '-_id']);
+    });
+  });
+
+  describe('encode/decode', () => {
+    it('should keep bson types', () => {
+      const _id = new ObjectId();
+      const createdAt = new Date('2024-01-02');
+      const sort = ['-createdAt', 'info.name', '_id'];
+
+      const cursor = encodeListCursor(
+        { _id, createdAt, info: { name: 'foo' } },
+        sort,
+        'next',
+      );
+
+      expect(decodeListCursor(cursor, sort)).toEqual({
+        d: 'next',
+        s: sort,
+        v: [createdAt, 'foo', _id],
+      });
+    });
+
+    it('should use null for missing values', () => {
+      const cursor = encodeListCursor({ _id: 'a' }, ['name', '_id'], 'prev');
+
+      expect(decodeListCursor(cursor, ['name', '_id']).v).toEqual([null, 'a']);
+    });
+
+    it('should throw on invalid cursor', () => {
+      expect(() => decodeListCursor('not-a-cursor', ['_id'])).toThrow(
+        'Invalid cursor format',
+      );
+      expect(() =>
+        decodeListCursor(
+          Buffer.from(JSON.stringify({ d: 'up', s: [], v: [] })).toString(
+            'base64url',
+          ),
+          [],
+        ),
+      ).toThrow('Invalid cursor format');
+    });
+
+    it('should throw on values that are not scalars', () => {
+      const encode = (v: unknown[]) =>
+        Buffer.from(BSON.EJSON.stringify({ d: 'next', s: ['n'], v })).toString(
+          'base64url',
+        );
+
+      expect(decodeListCursor(encode([new Date(0)]), ['n']).v).toEqual([
+        new Date(0),
+      ]);
+      expect(() => decodeListCursor(encode([{ $ne: null }]), ['n'])).toThrow(
+        'Invalid cursor format',
+      );
+      expect(() => decodeListCursor(encode([['a']]), ['n'])).toThrow(
+        'Invalid cursor format',
+      );
+      expect(() => decodeListCursor(encode([/a/]), ['n'])).toThrow(
+        'Invalid cursor format',
+      );
+    });
+
+    it('should throw if sort changed', () => {
+      const cursor = encodeListCursor({ _id: 'a', n: 1 }, ['n', '_id'], 'next');
+
+      expect(() => decodeListCursor(cursor, ['-n', '_id'])).toThrow(
+        'Cursor does not match the current sort',
+      );
+    });
+  });
+
+  describe('createCursorFilter', () => {
+    it('should create a keyset filter for next page', () => {
+      expect(
+        createCursorFilter({ d: 'next', s: ['a', '-b', '_id'], v: [1, 2, 3] }),
+      ).toEqual({
+        $or: [
+          { a: { $gt: 1 } },
+          { a: 1, b: { $lt: 2 } },
+          { a: 1, b: null },
+          { a: 1, b: 2, _id: { $gt: 3 } },
+        ],
+      });
+    });
+
+    it('should create a keyset filter for previous page', () => {
+      expect(
+        createCursorFilter({ d: 'prev', s: ['a', '-b', '_id'], v: [1, 2, 3] }),
+      ).toEqual({
+        $or: [
+          { a: { $lt: 1 } },
+          { a: null },
+          { a: 1, b: { $gt: 2 } },
+          { a: 1, b: 2, _id: { $lt: 3 } },
+        ],
+      });
+    });
+
+    it('should match the null values', () => {
+      expect(
+        createCursorFilter({
+          d: 'next',
+          s: ['a', '-b', '_id'],
+          v: [null, null, 3],
+        }),
+      ).toEqual({
+        $or: [{ a: { $ne: null } }, { a: null, b: null, _id: { $gt: 3 } }],
+      });
+      expect(
+        createCursorFilter({ d: 'prev', s: ['a', '_id'], v: [null, 3] }),
+      ).toEqual({ $or: [{ a: null, _id: { $lt: 3 } }] });
+    });
+  });
+
+  describe('list action', () => {
+    type Item = { _id: string; count?: number | null };
+    type Result = DatabaseActionCursorListResult<Item>;
+
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'cursor',
+        version: 1,
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'cursor',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Item>({
+            softDelete: false,
+            timestamps: false,
+            tenantField: false,
+            sQuerySchema: {
+              type: 'object',
+              additionalProperties: false,
+              required: [],
+              properties: {
+                count: addQueryOps<number>({ type: 'number' }, [
+                  QueryOp.GT,
+                  QueryOp.LT,
+                ]),
+              },
+            },
+            actions: {
+              schema: {
+                type: 'object',
+                additionalProperties: false,
+                required: [],
+                properties: {
+                  _id: { type: 'string' },
+                  count: { type: 'number', nullable: true },
+                },
+              },
+              list: {
+                visibility: 'public',
+                pagination: 'cursor',
+                defaultPageSize: 2,
+              },
+            },
+          }),
+        ],
+      }),
+    );
+    const col = svc.getCollection() as Collection<Item>;
+    const ctx = Context.create(broker);
+    const list = (params: object) =>
+      ctx.call<Result, object>('v1.cursor.list', params);
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    beforeEach(async () => {
+      await col.deleteMany({});
+    });
+
+    it('should paginate forward and backward', async () => {
+      await col.insertMany(
+        [1, 2, 3, 4, 5].map(count => ({ _id: `${count}`, count })),
+      );
+      const sort = ['-count'];
+
+      const page1 = await list({ sort });
+      expect(page1.rows.map(r => r.count)).toEqual([5, 4]);
+      expect(page1.prevCursor).toBeNull();
+      expect(page1.nextCursor).toEqual(expect.any(String));
+      expect(page1.total).toBeUndefined();
+
+      const page2 = await list({ sort, cursor: page1.nextCursor });
+      expect(page2.rows.map(r => r.count)).toEqual([3, 2]);
+
+      const page3 = await list({ sort, cursor: page2.nextCursor });
+      expect(page3.rows.map(r => r.count)).toEqual([1]);
+      expect(page3.nextCursor).toBeNull();
+
+      const back1 = await list({ sort, cursor: page3.prevCursor });
+      expect(back1.rows.map(r => r.count)).toEqual([3, 2]);
+      expect(back1.nextCursor).toEqual(expect.any(String));
+
+      const back2 = await list({ sort, cursor: back1.prevCursor });
+      expect(back2.rows.map(r => r.count)).toEqual([5, 4]);
+      expect(back2.prevCursor).toBeNull();
+    });
+
+    it('should page through the null and missing values', async () => {
+      await col.insertMany([
+        { _id: 'a', count: 2 },
+        { _id: 'b', count: null },
+        { _id: 'c' },
+        { _id: 'd', count: 1 },
+        { _id: 'e', count: 3 },
+      ]);
+      const listAll = async (sort: string[]) => {
+        const ids: string[] = [];
+        let cursor: string | null | undefined;
+        do {
+          const page = await list({ sort, cursor });
+          ids.push(...page.rows.map(r => r._id));
+          cursor = page.nextCursor;
+        } while (cursor);
+        return ids;
+      };
+
+      // Null and missing values sort first
+      expect(await listAll(['count'])).toEqual(['b', 'c', 'd', 'a', 'e']);
+      expect(await listAll(['-count'])).toEqual(['e', 'a', 'd', 'b', 'c']);
+
+      const page1 = await list({ sort: ['count'] });
+      const page2 = await list({ sort: ['count'], cursor: page1.nextCursor });
+      const back = await list({ sort: ['count'], cursor: page2.prevCursor });
+      expect(back.rows.map(r => r._id)).toEqual(['b', 'c']);
+    });
+
+    it('should count documents only if asked', async () => {
+      await col.insertMany([
+        { _id: 'a', count: 1 },
+        { _id: 'b', count: 2 },
+        { _id: 'c', count: 4 },
+      ]);
+
+      const res = await list({
+        withTotal: true,
+        sQuery: JSON.stringify({ count: { $gt: 1 } }),
+      });
+      expect(res.total).toEqual(2);
+      expect(res.rows).toHaveLength(2);
+      expect(res.nextCursor).toBeNull();
+    });
+
+    it('should throw if sort changed', async () => {
+      await col.insertMany([
+        { _id: 'a', count: 1 },
+        { _id: 'b', count: 2 },
+        { _id: 'c', count: 4 },
+      ]);
+
+      const res = await list({ sort: ['count'] });
+      await expect(
+        list({ sort: ['-count'], cursor: res.nextCursor }),
+      ).rejects.toThrow('Cursor does not match the current sort');
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { BSON, Document } from 'mongodb';
+import {
+  assertNoEncryptedFieldsInFilter,
+  assertNoEncryptedFieldsInSort,
+  decryptDocumentFields,
+  encryptDocumentFields,
+  encryptUpdateFields,
+} from '../encryption.js';
+
+// Fake reversible "encryption" for tests
+const encrypt = async (data: string) => Buffer.from(`enc:${data}`);
+const decrypt = async (data: Uint8Array) =>
+  Buffer.from(Buffer.from(data).toString('utf8').replace(/^enc:/, ''));
+
+// Mongo returns Binary instances for stored buffers
+const toStored = (value: unknown) => new BSON.Binary(value as Buffer);
+
+describe('DB Mixin V2 encryption', () => {
+  describe('encrypt/decrypt document', () => {
+    it('should encrypt fields without mutating the document', async () => {
+      const doc = {
+        _id: 'a',
+        iban: 'FR76',
+        address: { line1: '1 rue', city: 'Paris' },
+      };
+
+      const res = await encryptDocumentFields(
+        doc,
+        ['iban', 'address.line1'],
+        encrypt,
+      );
+
+      expect(res).toEqual({
+        _id: 'a',
+        iban: Buffer.from('enc:"FR76"'),
+        address: { line1: Buffer.from('enc:"1 rue"'), city: 'Paris' },
+      });
+      expect(doc.iban).toEqual('FR76');
+    });
+
+    it('should handle arrays, missing and null values', async () => {
+      const doc = {
+        addresses: [{ line1: 'a' }, { city: 'b' }],
+        iban: null,
+      };
+
+      const res = await encryptDocumentFields(
+        doc,
+        ['iban', 'addresses.line1', 'missing.field'],
+        encrypt,
+      );
+
+      expect(res).toEqual({
+        addresses: [{ line1: Buffer.from('enc:"a"') }, { city: 'b' }],
+        iban: null,
+      });
+    });
+
+    it('should decrypt stored values and keep types', async () => {
+      const date = new Date('2024-01-01');
+      const encrypted = await encryptDocumentFields(
+        { birthDate: date, iban: 'FR76', legacy: 'clear' },
+        ['birthDate', 'iban'],
+        encrypt,
+      );
+
+      const res = await decryptDocumentFields(
+        {
+          birthDate: toStored(encrypted.birthDate),
+          iban: toStored(encrypted.iban),
+          legacy: 'clear',
+        },
+        ['birthDate', 'iban', 'legacy'],
+        decrypt,
+      );
+
+      expect(res).toEqual({ birthDate: date, iban: 'FR76', legacy: 'clear' });
+    });
+  });
+
+  describe('encryptUpdateFields', () => {
+    const fields = ['iban', 'address.line1'];
+
+    it('should encrypt $set and $setOnInsert values', async () => {
+      const res = await encryptUpdateFields(
+        {
+          $set: { iban: 'FR76', name: 'foo' },
+          $setOnInsert: { address: { line1: 'a', city: 'b' } },
+          $inc: { count: 1 },
+        },
+        fields,
+        encrypt,
+      );
+
+      expect(res).toEqual({
+        $set: { iban: Buffer.from('enc:"FR76"'), name: 'foo' },
+        $setOnInsert: {
+          address: { line1: Buffer.from('enc:"a"'), city: 'b' },
+        },
+        $inc: { count: 1 },
+      });
+    });
+
+    it('should allow $unset', async () => {
+      const changes = { $unset: { iban: '' } };
+      expect(await encryptUpdateFields(changes, fields, encrypt)).toEqual(
+        changes,
+      );
+    });
+
+    it.each([
+      [
+        { $inc: { iban: 1 } },
+        'Encrypted field "iban" can\'t be updated with $inc',
+      ],
+      [
+        { $set: { 'iban.x': 1 } },
+        'Encrypted field "iban" can\'t be partially updated',
+      ],
+      [
+        { $rename: { address: 'addr' } },
+        'Encrypted field "address.line1" can\'t be updated with $rename',
+      ],
+      [
+        [{ $set: { iban: 'a' } }],
+        'Encrypted field "iban" can\'t be updated with an aggregation pipeline',
+      ],
+    ])('should reject invalid updates %#', async (changes, message) => {
+      await expect(
+        encryptUpdateFields<Document>(changes, fields, encrypt),
+      ).rejects.toThrow(message);
+    });
+  });
+
+  describe('assertNoEncryptedFieldsInFilter', () => {
+    const fields = ['iban', 'addresses.line1'];
+
+    it('should accept filters without encrypted fields', () => {
+      expect(() =>
+        assertNoEncryptedFieldsInFilter(
+          {
+            name: 'a',
+            $or: [{ age: 1 }, { 'addresses.city': 'Paris' }],
+            addresses: { $elemMatch: { city: 'Paris' } },
+          },
+          fields,
+        ),
+      ).not.toThrow();
+    });
+
+    it.each([
+      [{ iban: 'FR76' }],
+      [{ 'iban.x': 1 }],
+      [{ $and: [{ $or: [{ iban: 'a' }] }] }],
+      [{ 'addresses.0.line1': 'a' }],
+      [{ addresses: { $elemMatch: { line1: 'a' } } }],
+      [{ addresses: [] }],
+    ])('should reject encrypted fields %#', filter => {
+      expect(() => assertNoEncryptedFieldsInFilter(filter, fields)).toThrow(
+        "can't be used in filters",
+      );
+    });
+  });
+
+  describe('assertNoEncryptedFieldsInSort', () => {
+    it('should reject encrypted fields', () => {
+      expect(() =>
+        assertNoEncryptedFieldsInSort(['name', '-iban'], ['iban']),
+      ).toThrow('Encrypted field "iban" can\'t be used to sort');
+      expect(() =>
+        assertNoEncryptedFieldsInSort(['name', '-_id'], ['iban']),
+      ).not.toThrow();
+    });
+  });
+});
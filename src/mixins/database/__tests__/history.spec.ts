@@ -0,0 +1,424 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type Collection, ObjectId } from 'mongodb';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import type { DatabaseMethodsOptions } from '../mixin-types.js';
+import {
+  getFieldsProjection,
+  getPublishedFields,
+  hasUnprojectedFields,
+  isPathProjected,
+  projectDocument,
+} from '../helpers.js';
+import { diffDocuments, projectHistoryRecord } from '../history.js';
+
+describe('DB Mixin V2 history', () => {
+  describe('diffDocuments', () => {
+    it('should list added, removed and replaced fields', () => {
+      expect(
+        diffDocuments({ a: 1, b: 'foo', c: true }, { a: 2, c: true, d: null }),
+      ).toEqual([
+        { op: 'replace', path: 'a', value: 2, oldValue: 1 },
+        { op: 'remove', path: 'b', oldValue: 'foo' },
+        { op: 'add', path: 'd', value: null },
+      ]);
+    });
+
+    it('should go through nested objects but compare arrays as a whole', () => {
+      expect(
+        diffDocuments(
+          { info: { name: 'a', age: 1 }, tags: ['a', 'b'] },
+          { info: { name: 'b', age: 1 }, tags: ['a', 'b', 'c'] },
+        ),
+      ).toEqual([
+        { op: 'replace', path: 'info.name', value: 'b', oldValue: 'a' },
+        {
+          op: 'replace',
+          path: 'tags',
+          value: ['a', 'b', 'c'],
+          oldValue: ['a', 'b'],
+        },
+      ]);
+    });
+
+    it('should compare bson values', () => {
+      const id = new ObjectId();
+      const date = new Date('2024-01-01');
+
+      expect(
+        diffDocuments(
+          { ref: id, at: date },
+          { ref: new ObjectId(id.toHexString()), at: new Date(date) },
+        ),
+      ).toEqual([]);
+      expect(diffDocuments({ ref: id }, { ref: new ObjectId() })).toEqual([
+        expect.objectContaining({ op: 'replace', path: 'ref' }),
+      ]);
+    });
+
+    it('should handle inserts and deletes', () => {
+      expect(diffDocuments(null, { _id: 'a' })).toEqual([
+        { op: 'add', path: '_id', value: 'a' },
+      ]);
+      expect(diffDocuments({ _id: 'a' }, null)).toEqual([
+        { op: 'remove', path: '_id', oldValue: 'a' },
+      ]);
+    });
+  });
+
+  describe('projectDocument', () => {
+    const doc = { _id: 'a', name: 'foo', info: { age: 1, city: 'Paris' } };
+
+    it('should return the document without fields', () => {
+      expect(projectDocument(doc)).toBe(doc);
+    });
+
+    it('should include fields and keep _id', () => {
+      expect(projectDocument(doc, ['name', 'info.age'])).toEqual({
+        _id: 'a',
+        name: 'foo',
+        info: { age: 1 },
+      });
+      expect(projectDocument(doc, ['name', '-_id'])).toEqual({ name: 'foo' });
+    });
+
+    it('should exclude fields', () => {
+      expect(projectDocument(doc, ['-info.city', '-name'])).toEqual({
+        _id: 'a',
+        info: { age: 1 },
+      });
+    });
+  });
+
+  describe('getPublishedFields', () => {
+    it('should exclude the hidden fields from the requested ones', () => {
+      expect(getPublishedFields()).toBeUndefined();
+      expect(getPublishedFields(['password'])).toEqual(['-password']);
+      expect(getPublishedFields(['password'], undefined, ['-name'])).toEqual([
+        '-name',
+        '-password',
+      ]);
+      expect(
+        getPublishedFields(['info.secret'], undefined, ['name', 'info.age']),
+      ).toEqual(['name', 'info.age']);
+      expect(getPublishedFields(['password'], undefined, ['password'])).toEqual(
+        ['_id'],
+      );
+    });
+
+    it('should exclude the hidden children of the included fields', () => {
+      expect(
+        getPublishedFields(['info.secret'], undefined, ['name', 'info']),
+      ).toEqual(['name', 'info', '-info.secret']);
+      expect(getPublishedFields(['info.secret'], ['info'])).toEqual([
+        'info',
+        '-info.secret',
+      ]);
+    });
+
+    it('should restrict the requested fields to the public ones', () => {
+      const publicFields = ['name', 'info'];
+      expect(getPublishedFields([], publicFields)).toEqual(publicFields);
+      expect(
+        getPublishedFields([], publicFields, ['info.age', 'other']),
+      ).toEqual(['info.age']);
+      expect(getPublishedFields(['info'], publicFields, ['-name'])).toEqual([
+        'name',
+      ]);
+    });
+  });
+
+  describe('getFieldsProjection', () => {
+    it('should only project the inclusions in inclusion mode', () => {
+      const fields = ['name', 'info', '-info.secret', '-_id'];
+
+      expect(hasUnprojectedFields(fields)).toBe(true);
+      expect(getFieldsProjection(fields)).toEqual({ name: 1, info: 1, _id: 0 });
+      expect(
+        projectDocument(
+          { _id: 'a', name: 'foo', info: { age: 1, secret: 'x' } },
+          fields,
+        ),
+      ).toEqual({ name: 'foo', info: { age: 1 } });
+    });
+
+    it('should keep the other fields lists', () => {
+      expect(hasUnprojectedFields(['name', '-_id'])).toBe(false);
+      expect(hasUnprojectedFields(['-info.secret'])).toBe(false);
+      expect(getFieldsProjection(['-info.secret'])).toEqual({
+        'info.secret': 0,
+      });
+      expect(getFieldsProjection()).toBeUndefined();
+    });
+  });
+
+  describe('isPathProjected', () => {
+    it('should follow the fields list', () => {
+      expect(isPathProjected('name')).toBe(true);
+      expect(isPathProjected('info.age', ['info'])).toBe(true);
+      expect(isPathProjected('info', ['info.age'])).toBe(false);
+      expect(isPathProjected('_id', ['name'])).toBe(true);
+      expect(isPathProjected('info.age', ['-info'])).toBe(false);
+      expect(isPathProjected('name', ['-info'])).toBe(true);
+    });
+  });
+
+  describe('projectHistoryRecord', () => {
+    it('should project the snapshots and the diff', () => {
+      const record = {
+        _id: new ObjectId(),
+        documentId: 'a',
+        version: 2,
+        operation: 'update' as const,
+        before: { _id: 'a', name: 'foo', password: 'x' },
+        after: { _id: 'a', name: 'bar', password: 'y' },
+        diff: [
+          { op: 'replace' as const, path: 'name', value: 'bar' },
+          { op: 'replace' as const, path: 'password', value: 'y' },
+        ],
+        createdAt: new Date(),
+      };
+      expect(projectHistoryRecord(record, ['-password'])).toEqual({
+        ...record,
+        before: { _id: 'a', name: 'foo' },
+        after: { _id: 'a', name: 'bar' },
+        diff: [record.diff[0]],
+      });
+    });
+  });
+
+  describe('history option', () => {
+    type Item = { _id: string; externalId: string; name: string };
+
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'history',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'history',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Item>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            history: {},
+            upsertKeys: ['externalId'],
+          }),
+        ],
+      }),
+    );
+    const ctx = { emit: vi.fn() };
+    const col = svc.getCollection() as Collection<Item>;
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    it('should record the before version returned by the write', async () => {
+      const writeSpy = vi.spyOn(col.constructor.prototype, 'findOneAndUpdate');
+
+      const created = await svc._upsertOne(ctx, {
+        _id: 'a',
+        externalId: 'x',
+        name: 'A',
+      });
+      expect(created).toEqual({
+        document: { _id: 'a', externalId: 'x', name: 'A' },
+        created: true,
+      });
+      const updated = await svc._upsertOne(ctx, {
+        externalId: 'x',
+        name: 'B',
+      });
+      expect(updated.created).toBe(false);
+      expect(writeSpy).toHaveBeenCalledTimes(2);
+      expect(writeSpy).toHaveBeenLastCalledWith(
+        { externalId: 'x' },
+        expect.any(Object),
+        expect.objectContaining({ upsert: true, returnDocument: 'before' }),
+      );
+      writeSpy.mockRestore();
+
+      // Newest first
+      expect(await svc._findHistory('a', null)).toEqual([
+        expect.objectContaining({
+          operation: 'update',
+          before: { _id: 'a', externalId: 'x', name: 'A' },
+          after: { _id: 'a', externalId: 'x', name: 'B' },
+        }),
+        expect.objectContaining({
+          operation: 'insert',
+          after: { _id: 'a', externalId: 'x', name: 'A' },
+        }),
+      ]);
+    });
+
+    it('should record the bulk upserts', async () => {
+      expect(
+        await svc._bulkUpsert(ctx, [
+          { _id: 'b', externalId: 'y', name: 'A' },
+          { externalId: 'x', name: 'C' },
+          { name: 'D' } as Item,
+        ]),
+      ).toEqual([
+        {
+          success: true,
+          document: { _id: 'b', externalId: 'y', name: 'A' },
+          created: true,
+        },
+        {
+          success: true,
+          document: { _id: 'a', externalId: 'x', name: 'C' },
+          created: false,
+        },
+        {
+          success: false,
+          error: expect.objectContaining({ name: 'MissingUpsertKeyError' }),
+        },
+      ]);
+
+      expect(await svc._findHistory('a', null)).toEqual([
+        expect.objectContaining({
+          operation: 'update',
+          before: { _id: 'a', externalId: 'x', name: 'B' },
+          after: { _id: 'a', externalId: 'x', name: 'C' },
+        }),
+        expect.anything(),
+        expect.anything(),
+      ]);
+      expect(await svc._findHistory('b', null)).toEqual([
+        expect.objectContaining({ operation: 'insert' }),
+      ]);
+    });
+  });
+
+  describe('history methods', () => {
+    const broker = createServiceBroker();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const opts: DatabaseMethodsOptions<any, any> = {
+      softDelete: false,
+      timestamps: false,
+      tenantField: false,
+    };
+    const svc = broker.createService(
+      wrapService({
+        name: 'history-methods',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'history-methods',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin(opts),
+        ],
+      }),
+    );
+    const ctx = { emit: vi.fn() };
+    const col = svc.getCollection() as Collection;
+    const historyCol = svc._getHistoryCollection() as unknown as Collection;
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    beforeEach(async () => {
+      await col.deleteMany({});
+      await historyCol.deleteMany({});
+    });
+
+    it('should record snapshots of each write', async () => {
+      opts.history = {};
+      const doc = await svc._insertOne(ctx, { test: 1 });
+      await svc._updateOne(ctx, { _id: doc._id }, null, {
+        $set: { test: 2 },
+      });
+      await svc._deleteOne(ctx, { _id: doc._id }, null);
+
+      const history = await svc._findHistory(doc._id, null);
+
+      expect(history).toEqual([
+        expect.objectContaining({
+          documentId: doc._id,
+          version: 3,
+          operation: 'delete',
+          before: { _id: doc._id, test: 2 },
+        }),
+        expect.objectContaining({
+          version: 2,
+          operation: 'update',
+          before: { _id: doc._id, test: 1 },
+          after: { _id: doc._id, test: 2 },
+        }),
+        expect.objectContaining({
+          version: 1,
+          operation: 'insert',
+          after: { _id: doc._id, test: 1 },
+        }),
+      ]);
+    });
+
+    it('should record diffs', async () => {
+      opts.history = { mode: 'diff' };
+      const doc = await svc._insertOne(ctx, { test: 1, foo: 'bar' });
+      await svc._replaceOne(ctx, { _id: doc._id }, null, {
+        _id: doc._id,
+        test: 2,
+      });
+
+      const [last] = await svc._findHistory(doc._id, null, { limit: 1 });
+
+      expect(last).toEqual(
+        expect.objectContaining({
+          version: 2,
+          operation: 'replace',
+          diff: [
+            { op: 'replace', path: 'test', value: 2, oldValue: 1 },
+            { op: 'remove', path: 'foo', oldValue: 'bar' },
+          ],
+        }),
+      );
+    });
+
+    it('should keep projection on returned documents', async () => {
+      opts.history = {};
+      const doc = await svc._insertOne(ctx, { test: 1, foo: 'bar' });
+
+      const res = await svc._updateOne(
+        ctx,
+        { _id: doc._id },
+        null,
+        { $set: { test: 2 } },
+        { fields: ['test'] },
+      );
+
+      expect(res).toEqual({ _id: doc._id, test: 2 });
+      const [last] = await svc._findHistory(doc._id, null, { limit: 1 });
+      expect(last.after).toEqual({ _id: doc._id, test: 2, foo: 'bar' });
+    });
+
+    it('should record updateMany changes', async () => {
+      opts.history = {};
+      await col.insertMany([{ test: 2 }, { test: 3 }]);
+
+      await svc._updateMany({ test: { $gte: 3 } }, null, {
+        $set: { foo: 'bar' },
+      });
+
+      const records = await historyCol.find({}).toArray();
+      expect(records).toEqual([
+        expect.objectContaining({
+          version: 1,
+          operation: 'update',
+          before: { _id: expect.any(ObjectId), test: 3 },
+          after: { _id: expect.any(ObjectId), test: 3, foo: 'bar' },
+        }),
+      ]);
+    });
+  });
+});
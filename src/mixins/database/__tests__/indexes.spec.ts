@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getIndexSyncOperations,
+  getTemporaryIndex,
+  isIndexEqual,
+} from '../indexes/utils.js';
+import { type IndexState, IndexStatus } from '../indexes/types.js';
+
+describe('DB Mixin V2 indexes', () => {
+  const states: IndexState[] = [
+    { type: 'index', status: IndexStatus.MISSING, declaredIndex: [{ a: 1 }] },
+    {
+      type: 'index',
+      status: IndexStatus.NOT_DECLARED,
+      index: { key: { b: 1 }, name: 'b_1' },
+    },
+    {
+      type: 'index',
+      status: IndexStatus.OUTDATED,
+      index: { key: { c: 1 }, name: 'c_1' },
+      declaredIndex: [{ c: 1 }, { unique: true }],
+    },
+    {
+      type: 'searchIndex',
+      name: 'default',
+      status: IndexStatus.OUTDATED,
+      searchIndex: { mappings: { dynamic: true } },
+      declaredSearchIndex: { mappings: { dynamic: false } },
+    },
+  ];
+
+  describe('getIndexSyncOperations', () => {
+    it('should plan every operation', () => {
+      expect(
+        getIndexSyncOperations(states, {
+          createIndexes: true,
+          dropIndexes: true,
+          rebuildIndexes: true,
+        }).map(o => o.operation),
+      ).toEqual(['create', 'drop', 'rebuild', 'update']);
+    });
+
+    it('should not rebuild classic indexes by default', () => {
+      expect(
+        getIndexSyncOperations(states, {
+          createIndexes: true,
+          dropIndexes: false,
+        }).map(o => o.operation),
+      ).toEqual(['create', 'update']);
+    });
+
+    it('should not plan anything without create and drop', () => {
+      expect(
+        getIndexSyncOperations(states, {
+          createIndexes: false,
+          dropIndexes: false,
+          rebuildIndexes: true,
+        }),
+      ).toEqual([]);
+    });
+  });
+
+  describe('getTemporaryIndex', () => {
+    it('should keep the constraints of the index with another key pattern', () => {
+      expect(
+        getTemporaryIndex({
+          key: { a: 1, b: -1 },
+          name: 'a_1_b_-1',
+          unique: true,
+          expireAfterSeconds: 10,
+        }),
+      ).toEqual([
+        { a: 1, b: -1, __rebuild: 1 },
+        { name: 'a_1_b_-1_rebuild', unique: true },
+      ]);
+    });
+  });
+
+  describe('isIndexEqual', () => {
+    it('should compare text indexes with their weights', () => {
+      const dbIdx = {
+        key: { tenantId: 1, _fts: 'text', _ftsx: 1 } as const,
+        name: 'text',
+        weights: { name: 10, description: 1 },
+      };
+
+      expect(
+        isIndexEqual(dbIdx, [
+          { tenantId: 1, name: 'text', description: 'text' },
+          { name: 'text', weights: { name: 10 } },
+        ]),
+      ).toBe(true);
+      expect(
+        isIndexEqual(dbIdx, [
+          { tenantId: 1, name: 'text', description: 'text' },
+          { name: 'text' },
+        ]),
+      ).toBe(false);
+    });
+  });
+});
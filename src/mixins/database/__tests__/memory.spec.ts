@@ -0,0 +1,370 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  Binary,
+  type Collection,
+  MongoBulkWriteError,
+  MongoServerError,
+  ObjectId,
+} from 'mongodb';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapMixin, wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import { MemoryMongoClient } from '../memory/client.js';
+import { MemoryCollection } from '../memory/collection.js';
+
+type Item = {
+  _id: ObjectId;
+  name: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+  version?: number;
+};
+
+describe('DB Mixin V2 memory driver', () => {
+  const client = new MemoryMongoClient('mongodb://localhost:27017/memory');
+  const col = client.db().collection('test');
+
+  beforeEach(async () => {
+    client.clear();
+    await col.insertMany([
+      { _id: 1, name: 'a', tags: ['x', 'y'], count: 1, nested: { value: 1 } },
+      { _id: 2, name: 'b', tags: ['y'], count: 5, items: [{ qty: 3 }] },
+      { _id: 3, name: 'c', count: null },
+    ]);
+  });
+
+  describe('filters', () => {
+    it('should match equalities, arrays and nested paths', async () => {
+      expect(await col.distinct('_id', { tags: 'y' })).toEqual([1, 2]);
+      expect(await col.distinct('_id', { 'nested.value': 1 })).toEqual([1]);
+      expect(await col.distinct('_id', { 'items.qty': { $gt: 2 } })).toEqual([
+        2,
+      ]);
+      expect(await col.distinct('_id', { count: null })).toEqual([3]);
+      expect(await col.distinct('_id', { missing: null })).toEqual([1, 2, 3]);
+    });
+
+    it('should support the query operators', async () => {
+      expect(
+        await col.distinct('_id', {
+          $or: [{ count: { $gte: 5 } }, { name: { $in: ['a'] } }],
+        }),
+      ).toEqual([1, 2]);
+      expect(await col.distinct('_id', { tags: { $exists: false } })).toEqual([
+        3,
+      ]);
+      expect(await col.distinct('_id', { name: /^[ab]$/ })).toEqual([1, 2]);
+      expect(await col.distinct('_id', { tags: { $all: ['x', 'y'] } })).toEqual(
+        [1],
+      );
+      expect(
+        await col.distinct('_id', { $expr: { $gt: ['$count', 2] } }),
+      ).toEqual([2]);
+      // Comparisons only match values of the same type
+      expect(await col.distinct('_id', { count: { $lt: 10 } })).toEqual([1, 2]);
+    });
+
+    it('should throw on unsupported operators', async () => {
+      await expect(
+        col.find({ $text: { $search: 'a' } }).toArray(),
+      ).rejects.toThrow('Query operator $text is not supported');
+    });
+  });
+
+  describe('cursors', () => {
+    it('should sort, skip, limit and project', async () => {
+      expect(
+        await col
+          .find({}, { projection: { name: 1 } })
+          .sort({ count: -1 })
+          .skip(1)
+          .limit(1)
+          .toArray(),
+      ).toEqual([{ _id: 1, name: 'a' }]);
+      expect(
+        await col.findOne({ _id: 1 }, { projection: { tags: 0, nested: 0 } }),
+      ).toEqual({ _id: 1, name: 'a', count: 1 });
+    });
+
+    it('should return copies of the documents', async () => {
+      const doc = await col.findOne({ _id: 1 });
+      doc!.tags.push('z');
+
+      expect((await col.findOne({ _id: 1 }))!.tags).toEqual(['x', 'y']);
+    });
+  });
+
+  describe('updates', () => {
+    it('should apply the update operators', async () => {
+      await col.updateOne(
+        { _id: 1 },
+        {
+          $set: { 'nested.other': 2 },
+          $inc: { count: 2 },
+          $push: { tags: 'z' },
+          $pull: { tags: 'x' },
+          $unset: { name: '' },
+          $currentDate: { updatedAt: true },
+        },
+      );
+
+      expect(await col.findOne({ _id: 1 })).toEqual({
+        _id: 1,
+        tags: ['y', 'z'],
+        count: 3,
+        nested: { value: 1, other: 2 },
+        updatedAt: expect.any(Date),
+      });
+    });
+
+    it('should apply update pipelines', async () => {
+      const res = await col.findOneAndUpdate(
+        { _id: 2 },
+        [
+          { $set: { total: { $add: ['$count', 1] } } },
+          { $set: { at: '$$NOW' } },
+        ],
+        { returnDocument: 'after' },
+      );
+
+      expect(res).toMatchObject({ _id: 2, total: 6, at: expect.any(Date) });
+    });
+
+    it('should upsert from the filter equalities', async () => {
+      const res = await col.findOneAndUpdate(
+        { name: 'd', count: { $eq: 1 }, tags: { $in: ['x'] } },
+        { $setOnInsert: { created: true } },
+        { upsert: true, returnDocument: 'after', includeResultMetadata: true },
+      );
+
+      expect(res).toEqual({
+        ok: 1,
+        value: {
+          _id: expect.any(ObjectId),
+          name: 'd',
+          count: 1,
+          created: true,
+        },
+        lastErrorObject: {
+          n: 1,
+          updatedExisting: false,
+          upserted: res?.value?._id,
+        },
+      });
+    });
+
+    it('should refuse to modify _id', async () => {
+      await expect(
+        col.updateOne({ _id: 1 }, { $set: { _id: 4 } }),
+      ).rejects.toMatchObject({ code: 66 });
+    });
+  });
+
+  describe('unique indexes', () => {
+    it('should throw duplicate key errors', async () => {
+      await col.createIndex(
+        { name: 1 },
+        { unique: true, partialFilterExpression: { count: { $gt: 0 } } },
+      );
+
+      await expect(col.insertOne({ name: 'a', count: 1 })).rejects.toThrow(
+        MongoServerError,
+      );
+      await expect(
+        col.insertOne({ name: 'a', count: 1 }),
+      ).rejects.toMatchObject({ code: 11000, keyValue: { name: 'a' } });
+      // Not in the partial index
+      await col.insertOne({ name: 'a', count: 0 });
+      expect(await col.indexes()).toEqual([
+        { v: 2, key: { _id: 1 }, name: '_id_' },
+        {
+          v: 2,
+          key: { name: 1 },
+          name: 'name_1',
+          unique: true,
+          partialFilterExpression: { count: { $gt: 0 } },
+        },
+      ]);
+    });
+
+    it('should continue unordered bulk writes after errors', async () => {
+      const err = await col
+        .bulkWrite(
+          [
+            { insertOne: { document: { _id: 1 } } },
+            { insertOne: { document: { _id: 4 } } },
+          ],
+          { ordered: false },
+        )
+        .catch((e: unknown) => e);
+
+      expect(err).toBeInstanceOf(MongoBulkWriteError);
+      expect((err as MongoBulkWriteError).writeErrors).toEqual([
+        expect.objectContaining({ index: 0, code: 11000 }),
+      ]);
+      expect((err as MongoBulkWriteError).result.insertedIds).toEqual({
+        1: 4,
+      });
+    });
+  });
+
+  describe('aggregations', () => {
+    it('should run the pipeline stages', async () => {
+      expect(
+        await col
+          .aggregate([
+            { $unwind: '$tags' },
+            { $group: { _id: '$tags', total: { $sum: '$count' } } },
+            { $sort: { _id: 1 } },
+          ])
+          .toArray(),
+      ).toEqual([
+        { _id: 'x', total: 1 },
+        { _id: 'y', total: 6 },
+      ]);
+      expect(
+        await col
+          .aggregate([
+            {
+              $facet: {
+                rows: [{ $skip: 2 }, { $project: { _id: 1 } }],
+                total: [{ $count: 'count' }],
+              },
+            },
+          ])
+          .toArray(),
+      ).toEqual([{ rows: [{ _id: 3 }], total: [{ count: 3 }] }]);
+    });
+
+    it('should lookup other collections', async () => {
+      await client.db().collection('others').insertOne({ _id: 'o', testId: 2 });
+
+      expect(
+        await col
+          .aggregate([
+            { $match: { _id: 2 } },
+            {
+              $lookup: {
+                from: 'others',
+                localField: '_id',
+                foreignField: 'testId',
+                as: 'others',
+              },
+            },
+            { $project: { others: 1 } },
+          ])
+          .toArray(),
+      ).toEqual([{ _id: 2, others: [{ _id: 'o', testId: 2 }] }]);
+    });
+  });
+
+  describe('transactions', () => {
+    it('should restore the data on abort', async () => {
+      const session = client.startSession();
+
+      await expect(
+        session.withTransaction(async () => {
+          await col.deleteMany({});
+          throw new Error('Abort');
+        }),
+      ).rejects.toThrow('Abort');
+      expect(await col.countDocuments()).toBe(3);
+    });
+  });
+
+  describe('DatabaseConnectionMixin driver option', () => {
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'memory',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'memory',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Item>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: true,
+            versioning: true,
+          }),
+        ],
+      }),
+    );
+    const encryptedSvc = broker.createService(
+      wrapService({
+        name: 'memory-encrypted',
+        mixins: [
+          // Fake reversible "encryption" of the EncryptorMixin
+          wrapMixin({
+            methods: {
+              async encrypt(data: string) {
+                return Buffer.from(`enc:${data}`);
+              },
+              async decrypt(data: Uint8Array) {
+                return Buffer.from(
+                  Buffer.from(data).toString('utf8').replace(/^enc:/, ''),
+                );
+              },
+            },
+          }),
+          DatabaseConnectionMixin({
+            collectionName: 'memory-encrypted',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<{ _id: ObjectId; name: string; iban: string }>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            encryptedFields: ['iban'],
+          }),
+        ],
+      }),
+    );
+    const ctx = { emit: vi.fn() };
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    it('should use the memory driver', async () => {
+      expect(svc.getCollection()).toBeInstanceOf(MemoryCollection);
+
+      const created = await svc._insertOne(ctx, { name: 'a' });
+      expect(created).toEqual({
+        _id: expect.any(ObjectId),
+        name: 'a',
+        createdAt: expect.any(Date),
+        updatedAt: expect.any(Date),
+        version: 1,
+      });
+
+      const updated = await svc._updateOne(ctx, { _id: created._id }, null, {
+        $set: { name: 'b' },
+      });
+      expect(updated).toMatchObject({ name: 'b', version: 2 });
+      expect(await (svc.getCollection() as Collection).countDocuments()).toBe(
+        1,
+      );
+    });
+
+    it('should store the encrypted fields as binaries', async () => {
+      const created = await encryptedSvc._insertOne(ctx, {
+        name: 'a',
+        iban: 'FR76',
+      });
+      const stored = await (encryptedSvc.getCollection() as Collection).findOne(
+        { _id: created._id },
+      );
+
+      expect(stored?.iban).toBeInstanceOf(Binary);
+      expect(await encryptedSvc._findOne({ _id: created._id }, null)).toEqual({
+        _id: created._id,
+        name: 'a',
+        iban: 'FR76',
+      });
+    });
+  });
+});
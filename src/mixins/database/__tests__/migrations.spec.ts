@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assertValidMigrations,
+  getMigrationsState,
+} from '../migrations/utils.js';
+import { MigrationStatus } from '../migrations/types.js';
+
+describe('DB Mixin V2 migrations', () => {
+  const up = async () => {};
+  const appliedAt = new Date('2024-01-01T00:00:00Z');
+
+  describe('assertValidMigrations', () => {
+    it('should accept unique ids', () => {
+      expect(() =>
+        assertValidMigrations([
+          { id: '001-a', up },
+          { id: '002-b', up },
+        ]),
+      ).not.toThrow();
+    });
+
+    it('should throw on duplicated ids', () => {
+      expect(() =>
+        assertValidMigrations([
+          { id: '001-a', up },
+          { id: '001-a', up },
+        ]),
+      ).toThrow("Migration '001-a' is declared twice");
+    });
+  });
+
+  describe('getMigrationsState', () => {
+    it('should keep the declared order and list not declared migrations last', () => {
+      expect(
+        getMigrationsState(
+          [
+            { id: '001-a', up },
+            { id: '002-b', up },
+            { id: '003-c', up },
+          ],
+          [
+            {
+              collectionName: 'test',
+              migrationId: '000-old',
+              appliedAt,
+              durationMs: 1,
+            },
+            {
+              collectionName: 'test',
+              migrationId: '002-b',
+              appliedAt,
+              durationMs: 1,
+            },
+          ],
+        ),
+      ).toEqual([
+        { id: '001-a', status: MigrationStatus.PENDING },
+        { id: '002-b', status: MigrationStatus.APPLIED, appliedAt },
+        { id: '003-c', status: MigrationStatus.PENDING },
+        { id: '000-old', status: MigrationStatus.NOT_DECLARED, appliedAt },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { ObjectId } from 'mongodb';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod/v4';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { zodObjectId } from '../../../zod/zod-helpers.js';
+import { AjvActionSchemaFactory } from '../actions/ajv.js';
+import { parseAndValidateQuery, resolveQueryOps } from '../actions/helpers.js';
+import { type ActionQueryFields, QueryOp } from '../actions/shared.js';
+import { ZodActionSchemaFactory } from '../actions/zod.js';
+
+describe('DB Mixin V2 generated sQuery', () => {
+  const broker = createServiceBroker();
+  const queryFields: ActionQueryFields = {
+    name: [QueryOp.CONTAINS],
+    count: [QueryOp.GTE, QueryOp.LT],
+    tags: [QueryOp.IN],
+    'address.city': [],
+  };
+  const factoryOpts = {
+    timestamps: false,
+    softDelete: false,
+    tenantField: false as const,
+    queryFields,
+  };
+
+  const factories = {
+    ajv: new AjvActionSchemaFactory({
+      ...factoryOpts,
+      schema: {
+        type: 'object',
+        additionalProperties: false,
+        required: [],
+        properties: {
+          _id: { type: 'string' },
+          name: { type: 'string' },
+          count: { type: 'number' },
+          tags: { type: 'array', items: { type: 'string' } },
+          address: {
+            type: 'object',
+            required: [],
+            properties: { city: { type: 'string' } },
+          },
+        },
+      },
+    }),
+    zod: new ZodActionSchemaFactory({
+      ...factoryOpts,
+      schema: z.object({
+        _id: zodObjectId.optional(),
+        name: z.string(),
+        count: z.number().optional(),
+        tags: z.array(z.string()).optional(),
+        address: z.object({ city: z.string() }).nullable().optional(),
+      }),
+    }),
+  };
+
+  describe.each(Object.entries(factories))('%s factory', (_, factory) => {
+    const schema = factory.createQuerySchema()!;
+    const parse = (query: unknown) =>
+      parseAndValidateQuery(broker.validator!, schema, JSON.stringify(query));
+
+    it('should accept the declared fields and operators', () => {
+      expect(
+        parse({
+          name: { $contains: 'a.b' },
+          count: { $gte: 1, $lt: 10 },
+          tags: 'x',
+          'address.city': 'Paris',
+        }),
+      ).toEqual({
+        name: { $regex: 'a\\.b', $options: 'i' },
+        count: { $gte: 1, $lt: 10 },
+        tags: 'x',
+        'address.city': 'Paris',
+      });
+    });
+
+    it('should reject unknown fields and operators', () => {
+      expect(() => parse({ other: 1 })).toThrow();
+      expect(() => parse({ $where: 'true' })).toThrow();
+      expect(() => parse({ $expr: { $eq: ['$count', 1] } })).toThrow();
+      expect(() => parse({ count: { $ne: 1 } })).toThrow();
+      expect(() => parse({ name: { $regex: '.*' } })).toThrow();
+    });
+  });
+
+  it('should throw on fields missing from the schema', () => {
+    expect(() =>
+      new ZodActionSchemaFactory({
+        ...factoryOpts,
+        queryFields: { other: [] },
+        schema: z.object({ _id: zodObjectId }),
+      }).createQuerySchema(),
+    ).toThrow('Unknown query field other');
+  });
+
+  it('should describe the grammar on the sQuery param', () => {
+    const params = factories.ajv.createCountParams({
+      queryType: 'stringified',
+    });
+    expect(params.properties.sQuery.description).toContain(
+      '- count: $gte, $lt',
+    );
+  });
+
+  describe('resolveQueryOps', () => {
+    it('should escape the text operators', () => {
+      const _id = new ObjectId();
+      expect(
+        resolveQueryOps({
+          _id,
+          name: { $startsWith: '(a' },
+          count: { $gt: 1 },
+        }),
+      ).toEqual({ _id, name: { $regex: '^\\(a' }, count: { $gt: 1 } });
+      expect(() =>
+        resolveQueryOps({ name: { $contains: 'a', $startsWith: 'b' } }),
+      ).toThrow('Only one of $contains and $startsWith can be used on name');
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ObjectId, type Collection } from 'mongodb';
+import { z } from 'zod/v4';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import type { DatabaseMethodsOptions } from '../mixin-types.js';
+import { assignRelation, collectRelationIds } from '../relations.js';
+
+type Venue = { _id: string; name: string; secret: string };
+type Shop = { _id: string; venueId: string };
+
+describe('DB Mixin V2 relations', () => {
+  const venueId = new ObjectId();
+
+  describe('collectRelationIds', () => {
+    it('should return distinct ids', () => {
+      expect(
+        collectRelationIds(
+          [
+            { venueId },
+            { venueId: new ObjectId(venueId.toHexString()) },
+            { venueId: null },
+            {},
+          ],
+          { field: 'venueId', action: 'v1.venues.find' },
+        ),
+      ).toEqual([venueId]);
+    });
+
+    it('should handle nested fields and arrays of ids', () => {
+      expect(
+        collectRelationIds(
+          [{ info: { tags: ['a', 'b'] } }, { info: { tags: ['b', 'c'] } }],
+          { field: 'info.tags', action: 'v1.tags.find', many: true },
+        ),
+      ).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('assignRelation', () => {
+    it('should set related documents on the relation name', () => {
+      const docs = [
+        { _id: 1, venueId },
+        { _id: 2, venueId: new ObjectId() },
+      ];
+
+      assignRelation(docs, 'venue', { field: 'venueId', action: 'a' }, [
+        { _id: venueId, name: 'foo' },
+      ]);
+
+      expect(docs).toEqual([
+        { _id: 1, venueId, venue: { _id: venueId, name: 'foo' } },
+        { _id: 2, venueId: expect.any(ObjectId) },
+      ]);
+    });
+
+    it('should keep the order of arrays and use foreignField', () => {
+      const docs = [{ tags: ['b', 'x', 'a'] }, {}];
+
+      assignRelation(
+        docs,
+        'tagList',
+        { field: 'tags', action: 'a', foreignField: 'code', many: true },
+        [{ code: 'a' }, { code: 'b' }],
+      );
+
+      expect(docs).toEqual([
+        { tags: ['b', 'x', 'a'], tagList: [{ code: 'b' }, { code: 'a' }] },
+        { tagList: [] },
+      ]);
+    });
+  });
+
+  describe('relations option', () => {
+    const broker = createServiceBroker();
+    const venues = broker.createService(
+      wrapService({
+        name: 'venues',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'venues',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Venue>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            actions: {
+              schema: z.object({
+                _id: z.string(),
+                name: z.string(),
+                secret: z.string(),
+              }),
+              hiddenFields: ['secret'],
+              find: { visibility: 'public' },
+            },
+          }),
+        ],
+      }),
+    );
+    const svc = broker.createService(
+      wrapService({
+        name: 'shops',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'shops',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Shop>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            relations: {
+              venue: { field: 'venueId', action: 'venues.find' },
+            },
+            actions: {
+              schema: z.object({ _id: z.string(), venueId: z.string() }),
+              get: { visibility: 'published' },
+              getInternal: { visibility: 'public' },
+            },
+          }),
+        ],
+      }),
+    );
+
+    beforeAll(async () => {
+      await broker.start();
+      await (venues.getCollection() as Collection<Venue>).insertOne({
+        _id: 'v1',
+        name: 'Venue',
+        secret: 's',
+      });
+      await (svc.getCollection() as Collection<Shop>).insertOne({
+        _id: 's1',
+        venueId: 'v1',
+      });
+      return () => broker.stop();
+    });
+
+    it('should populate the published actions with the published related documents', async () => {
+      expect(
+        await broker.call('shops.get', { _id: 's1', populate: ['venue'] }),
+      ).toEqual({
+        _id: 's1',
+        venueId: 'v1',
+        venue: { _id: 'v1', name: 'Venue' },
+      });
+
+      expect(
+        await broker.call('shops.getInternal', {
+          _id: 's1',
+          populate: ['venue'],
+        }),
+      ).toEqual({
+        _id: 's1',
+        venueId: 'v1',
+        venue: { _id: 'v1', name: 'Venue', secret: 's' },
+      });
+    });
+  });
+
+  describe('populate method', () => {
+    const broker = createServiceBroker();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const opts: DatabaseMethodsOptions<any, any> = {
+      softDelete: false,
+      timestamps: false,
+      tenantField: false,
+    };
+    const svc = broker.createService(
+      wrapService({
+        name: 'populate',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'populate',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin(opts),
+        ],
+      }),
+    );
+    const ctx = { emit: vi.fn() };
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    beforeEach(() => {
+      opts.tenantField = false;
+      opts.relations = undefined;
+    });
+
+    it('should load relations with one call per relation', async () => {
+      opts.tenantField = 'shop';
+      opts.relations = {
+        venue: { field: 'venueId', action: 'v1.venues.find', fields: ['_id'] },
+      };
+      const call = vi.fn().mockResolvedValue([{ _id: 'v1' }]);
+      const docs = [
+        { _id: 'a', venueId: 'v1' },
+        { _id: 'b', venueId: 'v1' },
+      ];
+
+      await svc._populate({ call }, docs, ['venue'], { shop: 's1' });
+
+      expect(call).toHaveBeenCalledTimes(1);
+      expect(call).toHaveBeenCalledWith('v1.venues.find', {
+        query: { _id: { $in: ['v1'] } },
+        fields: ['_id'],
+        shop: 's1',
+      });
+      expect(docs).toEqual([
+        { _id: 'a', venueId: 'v1', venue: { _id: 'v1' } },
+        { _id: 'b', venueId: 'v1', venue: { _id: 'v1' } },
+      ]);
+    });
+
+    it('should throw on unknown relations', async () => {
+      await expect(
+        svc._populate(ctx, [{ _id: 'a' }], ['venue'], null),
+      ).rejects.toThrow('Unknown relation "venue"');
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import { createSearchPipeline, parseSearchResult } from '../search.js';
+
+describe('DB Mixin V2 search', () => {
+  const filter = { tenantId: 'a', deletedAt: null };
+
+  describe('createSearchPipeline', () => {
+    it('should search on the Atlas index then apply the filters', () => {
+      const pipeline = createSearchPipeline({
+        mode: 'atlas',
+        index: 'default',
+        paths: ['name'],
+        query: 'foo',
+        filter,
+        facets: ['tags'],
+        highlight: true,
+        skip: 10,
+        limit: 5,
+      });
+
+      expect(pipeline).toEqual([
+        {
+          $search: {
+            index: 'default',
+            text: { query: 'foo', path: ['name'] },
+            highlight: { path: ['name'] },
+          },
+        },
+        { $match: filter },
+        {
+          $addFields: {
+            __searchScore: { $meta: 'searchScore' },
+            __searchHighlights: { $meta: 'searchHighlights' },
+          },
+        },
+        {
+          $facet: {
+            rows: [{ $skip: 10 }, { $limit: 5 }],
+            total: [{ $count: 'count' }],
+            facet0: [
+              { $unwind: '$tags' },
+              { $sortByCount: '$tags' },
+              { $limit: 20 },
+            ],
+          },
+        },
+      ]);
+    });
+
+    it('should use $text in the first stage in text mode', () => {
+      const [first, ...rest] = createSearchPipeline({
+        mode: 'text',
+        index: 'default',
+        query: 'foo',
+        filter,
+      });
+
+      expect(first).toEqual({
+        $match: { ...filter, $text: { $search: 'foo' } },
+      });
+      expect(rest.slice(0, 2)).toEqual([
+        { $addFields: { __searchScore: { $meta: 'textScore' } } },
+        { $sort: { __searchScore: -1 } },
+      ]);
+    });
+  });
+
+  describe('parseSearchResult', () => {
+    it('should extract scores, total and facets', () => {
+      expect(
+        parseSearchResult(
+          {
+            rows: [{ _id: '1', name: 'foo', __searchScore: 1.5 }],
+            total: [{ count: 1 }],
+            facet0: [{ _id: 'bar', count: 1 }],
+          },
+          ['tags'],
+        ),
+      ).toEqual({
+        rows: [{ document: { _id: '1', name: 'foo' }, score: 1.5 }],
+        total: 1,
+        facets: { tags: [{ value: 'bar', count: 1 }] },
+      });
+    });
+
+    it('should handle empty results', () => {
+      expect(parseSearchResult(undefined)).toEqual({
+        rows: [],
+        total: 0,
+        facets: {},
+      });
+    });
+  });
+
+  describe('_search', () => {
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'search',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'search',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<{ _id: string; name: string; secret: string }>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            search: { paths: ['name', 'secret'] },
+            actions: { hiddenFields: ['secret'] },
+          }),
+        ],
+      }),
+    );
+
+    it('should remove the highlights of the fields not returned', async () => {
+      const raw = {
+        rows: [
+          {
+            _id: '1',
+            name: 'foo',
+            secret: 'bar',
+            __searchScore: 1,
+            __searchHighlights: [
+              { path: 'name', score: 1, texts: [] },
+              { path: 'secret', score: 1, texts: [] },
+            ],
+          },
+        ],
+        total: [{ count: 1 }],
+      };
+      vi.spyOn(svc, '_getDatabaseMixinCollection').mockReturnValue({
+        aggregate: () => ({ toArray: async () => [raw] }),
+      });
+
+      const res = await svc._search('foo', null, {
+        highlight: true,
+        publishedAction: 'search',
+      });
+      expect(res.rows).toEqual([
+        {
+          document: { _id: '1', name: 'foo' },
+          score: 1,
+          highlights: [{ path: 'name', score: 1, texts: [] }],
+        },
+      ]);
+    });
+  });
+});
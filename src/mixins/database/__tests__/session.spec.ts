@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ClientSession, MongoClient } from 'mongodb';
+import { Context } from 'moleculer';
+import {
+  DATABASE_CAUSAL_SESSION_META_KEY,
+  DatabaseCausalSession,
+  getDatabaseCausalSession,
+} from '../session.js';
+
+describe('DB Mixin V2 causal session', () => {
+  const client = {} as MongoClient;
+  const session = {} as ClientSession;
+
+  function createCtx() {
+    return { meta: {} } as unknown as Context;
+  }
+
+  describe('getDatabaseCausalSession', () => {
+    it('should return undefined without session', () => {
+      expect(getDatabaseCausalSession(createCtx(), client)).toBeUndefined();
+      expect(getDatabaseCausalSession(undefined, client)).toBeUndefined();
+    });
+
+    it('should find the session of an attached context', () => {
+      const ctx = createCtx();
+      const causalSession = new DatabaseCausalSession(client, session);
+      causalSession.attach(ctx);
+
+      expect(getDatabaseCausalSession(ctx, client)).toBe(causalSession);
+
+      // Child contexts get a copy of the parent meta
+      const child = createCtx();
+      Object.assign(child.meta, ctx.meta);
+      expect(getDatabaseCausalSession(child, client)).toBe(causalSession);
+
+      causalSession.detach(ctx);
+      expect(ctx.meta).not.toHaveProperty(DATABASE_CAUSAL_SESSION_META_KEY);
+      expect(getDatabaseCausalSession(child, client)).toBeUndefined();
+    });
+
+    it('should ignore sessions of another client', () => {
+      const ctx = createCtx();
+      const causalSession = new DatabaseCausalSession(client, session);
+      causalSession.attach(ctx);
+
+      expect(getDatabaseCausalSession(ctx, {} as MongoClient)).toBeUndefined();
+      causalSession.detach(ctx);
+    });
+  });
+});
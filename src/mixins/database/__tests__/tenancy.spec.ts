@@ -0,0 +1,175 @@
+import { beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Collection } from 'mongodb';
+import type { Context } from 'moleculer';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapMixin, wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+
+type Item = { _id: string; name: string; tenantId?: string };
+
+describe('DB Mixin V2 tenancy', () => {
+  const broker = createServiceBroker();
+  const tenancy = { resolve: (tenant: string) => `tenant-${tenant}` };
+
+  const svcMeta = broker.createService(
+    wrapService({
+      name: 'tenancy-meta',
+      mixins: [
+        DatabaseConnectionMixin({
+          databaseName: 'shared',
+          collectionName: 'tenancy-meta',
+          driver: 'memory',
+          tenancy: { ...tenancy, metaKey: 'tenant' },
+        }),
+        DatabaseMethodsMixin<Item>({
+          tenantField: false,
+          softDelete: false,
+          timestamps: false,
+        }),
+      ],
+    }),
+  );
+  const svcField = broker.createService(
+    wrapService({
+      name: 'tenancy-field',
+      mixins: [
+        DatabaseConnectionMixin({
+          databaseName: 'shared',
+          collectionName: 'tenancy-field',
+          driver: 'memory',
+          tenancy,
+        }),
+        DatabaseMethodsMixin<Item, 'tenantId'>({
+          tenantField: 'tenantId',
+          softDelete: false,
+          timestamps: false,
+        }),
+      ],
+    }),
+  );
+
+  const ctx = { meta: { tenant: 'acme' } } as unknown as Context;
+  const metaShared = svcMeta.getCollection() as Collection<Item>;
+  const metaAcme = svcMeta.getCollection(undefined, 'acme') as Collection<Item>;
+  const fieldShared = svcField.getCollection() as Collection<Item>;
+  const fieldAcme = svcField.getCollection(
+    undefined,
+    'acme',
+  ) as Collection<Item>;
+
+  beforeAll(async () => {
+    await broker.start();
+    return () => broker.stop();
+  });
+
+  beforeEach(async () => {
+    await Promise.all(
+      [metaShared, metaAcme, fieldShared, fieldAcme].map(col =>
+        col.deleteMany({}),
+      ),
+    );
+  });
+
+  it('should resolve the database of the tenant', () => {
+    const prefix = globalThis.__MONGO_DB_NAME__;
+    expect(metaShared.dbName).toBe(prefix ? `${prefix}-shared` : 'shared');
+    expect(metaAcme.dbName).toBe(
+      prefix ? `${prefix}-tenant-acme` : 'tenant-acme',
+    );
+    // Same URI, same client
+    expect(svcMeta.getMongoClient('acme')).toBe(svcMeta.getMongoClient());
+  });
+
+  it('should read the tenant in ctx.meta', () => {
+    expect(svcMeta.getContextTenant(ctx)).toBe('acme');
+    expect(svcMeta.getContextTenant({ meta: {} } as unknown as Context)).toBe(
+      undefined,
+    );
+  });
+
+  it('should read the documents written with the tenant of ctx.meta', async () => {
+    const doc = await svcMeta._insertOne(ctx, { _id: 'a', name: 'A' });
+    expect(await metaAcme.countDocuments()).toBe(1);
+    expect(await metaShared.countDocuments()).toBe(0);
+
+    expect(await svcMeta._findOne({ _id: 'a' }, null, { ctx })).toEqual(doc);
+    expect(await svcMeta._find({}, null, { ctx })).toEqual([doc]);
+    expect(await svcMeta._countDocuments({}, null, { ctx })).toBe(1);
+    expect(
+      await svcMeta._aggregate([{ $project: { name: 1 } }], null, { ctx }),
+    ).toEqual([{ _id: 'a', name: 'A' }]);
+  });
+
+  it('should throw if the tenant database is not resolved', async () => {
+    await expect(svcMeta._findOne({ _id: 'a' }, null)).rejects.toThrow(
+      'Unable to resolve the tenant database',
+    );
+    await expect(
+      svcField._find({}, { tenantId: { $in: ['acme'] } } as never, {
+        strictTenantFilter: false,
+      }),
+    ).rejects.toThrow('Unable to resolve the tenant database');
+  });
+
+  it('should write many documents with the tenant of ctx.meta', async () => {
+    await svcMeta._insertOne(ctx, { _id: 'a', name: 'A' });
+
+    const res = await svcMeta._updateMany(
+      {},
+      null,
+      { $set: { name: 'B' } },
+      { ctx },
+    );
+    expect(res.modifiedCount).toBe(1);
+    expect(await metaAcme.findOne({ _id: 'a' })).toMatchObject({ name: 'B' });
+
+    expect(await svcMeta._deleteMany({}, null, { ctx })).toBe(1);
+    expect(await metaAcme.countDocuments()).toBe(0);
+  });
+
+  it('should resolve the tenant of params before optimizing the filter', async () => {
+    await svcField._insertOne(ctx, { _id: 'a', name: 'A', tenantId: 'acme' });
+    expect(await fieldAcme.countDocuments()).toBe(1);
+
+    const query = { $or: [{ name: 'A' }, { name: 'B' }] };
+    expect(
+      await svcField._updateOne(
+        ctx,
+        query,
+        { tenantId: 'acme' },
+        { $set: { name: 'B' } },
+      ),
+    ).toMatchObject({ _id: 'a', name: 'B' });
+    expect(
+      await svcField._deleteOne(ctx, query, { tenantId: 'acme' }),
+    ).toMatchObject({ _id: 'a', name: 'B' });
+    expect(await fieldAcme.countDocuments()).toBe(0);
+  });
+
+  it('should refuse the changeStream event source', () => {
+    expect(() =>
+      createServiceBroker().createService(
+        wrapService({
+          name: 'tenancy-change-stream',
+          mixins: [
+            // Same method as the RedisMixin
+            wrapMixin({ methods: { getRedis() {} } }),
+            DatabaseConnectionMixin({
+              collectionName: 'tenancy-change-stream',
+              driver: 'memory',
+              tenancy,
+            }),
+            DatabaseMethodsMixin<Item>({
+              tenantField: false,
+              softDelete: false,
+              timestamps: false,
+              eventPrefix: 'items',
+              eventSource: 'changeStream',
+            }),
+          ],
+        }),
+      ),
+    ).toThrow("The changeStream event source can't be used");
+  });
+});
@@ -0,0 +1,168 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { ClientSession, type Collection, MongoClient } from 'mongodb';
+import { Context } from 'moleculer';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import {
+  DATABASE_TRANSACTION_META_KEY,
+  DatabaseTransaction,
+  getDatabaseTransaction,
+} from '../transaction.js';
+
+describe('DB Mixin V2 transaction', () => {
+  const client = {} as MongoClient;
+  const session = {} as ClientSession;
+
+  function createCtx() {
+    return { meta: {}, emit: vi.fn() } as unknown as Context & {
+      emit: ReturnType<typeof vi.fn>;
+    };
+  }
+
+  describe('events', () => {
+    it('should only emit events when asked, in order', () => {
+      const ctxA = createCtx();
+      const ctxB = createCtx();
+      const tx = new DatabaseTransaction(client, session);
+
+      tx.deferEvent(ctxA, 'test.created', { a: 1 });
+      tx.deferEvent(ctxB, 'test.updated', { b: 1 });
+      expect(ctxA.emit).not.toHaveBeenCalled();
+
+      tx.attach(ctxA);
+      tx.emitEvents();
+      expect(ctxA.meta).not.toHaveProperty(DATABASE_TRANSACTION_META_KEY);
+      expect(ctxA.emit).toHaveBeenCalledWith('test.created', { a: 1 });
+      expect(ctxB.emit).toHaveBeenCalledWith('test.updated', { b: 1 });
+
+      // Buffer is emptied after emit
+      tx.emitEvents();
+      expect(ctxA.emit).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop events when cleared', () => {
+      const ctx = createCtx();
+      const tx = new DatabaseTransaction(client, session);
+
+      tx.deferEvent(ctx, 'test.created', { a: 1 });
+      tx.clearEvents();
+      tx.emitEvents();
+
+      expect(ctx.emit).not.toHaveBeenCalled();
+    });
+
+    it('should run the commit callbacks once, unless cleared', async () => {
+      const tx = new DatabaseTransaction(client, session);
+      const callback = vi.fn(async () => {});
+
+      tx.onCommit(callback);
+      tx.clearEvents();
+      await tx.runCommitCallbacks();
+      expect(callback).not.toHaveBeenCalled();
+
+      tx.onCommit(callback);
+      await tx.runCommitCallbacks();
+      await tx.runCommitCallbacks();
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getDatabaseTransaction', () => {
+    it('should return undefined without transaction', () => {
+      expect(getDatabaseTransaction(createCtx(), client)).toBeUndefined();
+      expect(getDatabaseTransaction(undefined, client)).toBeUndefined();
+    });
+
+    it('should find the transaction of an attached context', () => {
+      const ctx = createCtx();
+      const tx = new DatabaseTransaction(client, session);
+      tx.attach(ctx);
+
+      expect(getDatabaseTransaction(ctx, client)).toBe(tx);
+
+      // Child contexts get a copy of the parent meta
+      const child = createCtx();
+      Object.assign(child.meta, ctx.meta);
+      expect(getDatabaseTransaction(child, client)).toBe(tx);
+
+      tx.detach(ctx);
+      expect(ctx.meta).not.toHaveProperty(DATABASE_TRANSACTION_META_KEY);
+      expect(getDatabaseTransaction(child, client)).toBeUndefined();
+    });
+
+    it('should ignore transactions of another client', () => {
+      const ctx = createCtx();
+      const tx = new DatabaseTransaction(client, session);
+      tx.attach(ctx);
+
+      expect(getDatabaseTransaction(ctx, {} as MongoClient)).toBeUndefined();
+      tx.detach(ctx);
+    });
+  });
+
+  describe('withTransaction', () => {
+    type Item = { _id: string; name: string };
+
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'transaction',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'transaction',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<Item>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            eventPrefix: 'items',
+          }),
+        ],
+      }),
+    );
+    const col = svc.getCollection() as Collection<Item>;
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    it('should emit the events after the commit, outside of the transaction', async () => {
+      const ctx = createCtx();
+      const metaOnEmit: unknown[] = [];
+      ctx.emit.mockImplementation(() => {
+        metaOnEmit.push({ ...ctx.meta });
+      });
+
+      await svc.withTransaction(ctx, async () => {
+        await svc._insertOne(ctx, { _id: 'a', name: 'A' });
+        await svc._updateOne(ctx, { _id: 'a' }, null, { $set: { name: 'B' } });
+        expect(ctx.emit).not.toHaveBeenCalled();
+      });
+
+      expect(ctx.emit.mock.calls.map(([name]) => name)).toEqual([
+        'items.created',
+        'items.updated',
+      ]);
+      expect(metaOnEmit).toEqual([{}, {}]);
+    });
+
+    it('should drop the events on abort', async () => {
+      const ctx = createCtx();
+
+      await expect(
+        svc.withTransaction(ctx, async () => {
+          await svc._insertOne(ctx, { _id: 'b', name: 'B' });
+          throw new Error('Abort');
+        }),
+      ).rejects.toThrow('Abort');
+
+      expect(ctx.emit).not.toHaveBeenCalled();
+      expect(ctx.meta).not.toHaveProperty(DATABASE_TRANSACTION_META_KEY);
+      expect(await col.findOne({ _id: 'b' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { Readable } from 'stream';
+import { type Collection, ObjectId } from 'mongodb';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import {
+  createExportStream,
+  type DatabaseImportRow,
+  type DatabaseTransferFormat,
+  readImportRows,
+} from '../actions/transfer.js';
+
+async function exportDocs(
+  docs: object[],
+  format: DatabaseTransferFormat,
+  fields?: string[],
+): Promise<string> {
+  let res = '';
+  for await (const chunk of Readable.from(docs).pipe(
+    createExportStream(format, fields),
+  )) {
+    res += chunk;
+  }
+  return res;
+}
+
+async function importRows(
+  content: string,
+  format: DatabaseTransferFormat,
+): Promise<DatabaseImportRow[]> {
+  const rows: DatabaseImportRow[] = [];
+  for await (const row of readImportRows(Readable.from([content]), format)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('DB Mixin V2 export and import', () => {
+  const _id = new ObjectId('65a000000000000000000001');
+  const createdAt = new Date('2024-01-01T00:00:00Z');
+
+  describe('createExportStream', () => {
+    it('should write one JSON document per line', async () => {
+      expect(await exportDocs([{ _id, a: 1 }, { b: 'c' }], 'ndjson')).toBe(
+        `{"_id":"${_id.toHexString()}","a":1}\n{"b":"c"}\n`,
+      );
+    });
+
+    it('should write CSV with the fields of the first document', async () => {
+      expect(
+        await exportDocs(
+          [
+            { _id, name: 'a, "b"', createdAt, tags: ['x'] },
+            { _id, name: 'c' },
+          ],
+          'csv',
+        ),
+      ).toBe(
+        [
+          '_id,name,createdAt,tags',
+          `${_id.toHexString()},"a, ""b""",2024-01-01T00:00:00.000Z,"[""x""]"`,
+          `${_id.toHexString()},c,,`,
+          '',
+        ].join('\n'),
+      );
+    });
+
+    it('should use the given fields as CSV columns', async () => {
+      expect(
+        await exportDocs([{ name: 'a', address: { city: 'Paris' } }], 'csv', [
+          'address.city',
+          'name',
+        ]),
+      ).toBe('address.city,name\nParis,a\n');
+      expect(await exportDocs([], 'csv', ['name'])).toBe('name\n');
+    });
+  });
+
+  describe('readImportRows', () => {
+    it('should read NDJSON lines and report invalid ones', async () => {
+      expect(await importRows('{"a":1}\n\n{"a":\n[1]\n', 'ndjson')).toEqual([
+        { line: 1, document: { a: 1 } },
+        { line: 3, error: 'Invalid JSON' },
+        { line: 4, error: 'Line is not a JSON object' },
+      ]);
+    });
+
+    it('should read CSV records, including quoted line breaks', async () => {
+      expect(
+        await importRows(
+          'name,address.city,tags\r\n"a\nb",Paris,"[""x""]"\nc,,\n"d',
+          'csv',
+        ),
+      ).toEqual([
+        {
+          line: 2,
+          document: { name: 'a\nb', address: { city: 'Paris' }, tags: ['x'] },
+        },
+        { line: 4, document: { name: 'c' } },
+        { line: 5, error: 'Unterminated quoted value' },
+      ]);
+    });
+
+    it('should export and import the same documents', async () => {
+      const docs = [{ name: 'a, "b"', count: '1', tags: ['x', 'y'] }];
+      expect(await importRows(await exportDocs(docs, 'csv'), 'csv')).toEqual([
+        { line: 2, document: docs[0] },
+      ]);
+    });
+  });
+
+  describe('import action', () => {
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'import',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'import',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<{ _id: string; name: string }>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            actions: {
+              schema: {
+                type: 'object',
+                additionalProperties: false,
+                required: ['name'],
+                properties: {
+                  _id: { type: 'string' },
+                  name: { type: 'string' },
+                },
+              },
+              import: {
+                visibility: 'public',
+                allowClientId: true,
+                upsert: true,
+              },
+            },
+          }),
+        ],
+      }),
+    );
+    const col = svc.getCollection() as Collection<{ _id: string }>;
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    const importFile = (content: string) =>
+      broker.call('import.import', {}, { stream: Readable.from([content]) });
+
+    it('should upsert the rows so a file can be imported again', async () => {
+      const file =
+        '{"_id":"a","name":"A"}\n{"_id":"b","name":"B"}\n{"name":"C"}\n';
+
+      expect(await importFile(file)).toEqual({
+        total: 3,
+        inserted: 2,
+        updated: 0,
+        errors: [
+          {
+            line: 3,
+            error: expect.objectContaining({ name: 'MissingUpsertKeyError' }),
+          },
+        ],
+      });
+      expect(
+        await importFile('{"_id":"a","name":"A2"}\n{"_id":"c","name":"C"}\n'),
+      ).toMatchObject({ total: 2, inserted: 1, updated: 1, errors: [] });
+      expect(await col.find({}, { sort: { _id: 1 } }).toArray()).toEqual([
+        { _id: 'a', name: 'A2' },
+        { _id: 'b', name: 'B' },
+        { _id: 'c', name: 'C' },
+      ]);
+    });
+
+    it('should upsert each batch with one bulk write', async () => {
+      const bulkWrite = vi.spyOn(col.constructor.prototype, 'bulkWrite');
+
+      expect(
+        await importFile('{"_id":"d","name":"D"}\n{"_id":"b","name":"B2"}\n'),
+      ).toMatchObject({ total: 2, inserted: 1, updated: 1, errors: [] });
+      expect(bulkWrite).toHaveBeenCalledTimes(1);
+      bulkWrite.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,313 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Collection } from 'mongodb';
+import { z } from 'zod/v4';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { AjvActionSchemaFactory } from '../actions/ajv.js';
+import { ZodActionSchemaFactory } from '../actions/zod.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import { getVirtualsReadFields } from '../virtuals.js';
+
+type User = {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  secret?: string;
+  address?: { city: string; zip: string };
+};
+
+describe('DB Mixin V2 virtuals', () => {
+  describe('getVirtualsReadFields', () => {
+    const virtuals = {
+      fullName: { resolve: () => [], dependsOn: ['firstName', 'lastName'] },
+      city: { resolve: () => [], dependsOn: ['address'] },
+    };
+
+    it('should add the dependencies to the included fields', () => {
+      expect(
+        getVirtualsReadFields(virtuals, ['fullName'], ['fullName', 'lastName']),
+      ).toEqual(['fullName', 'lastName', 'firstName']);
+      // Included children would collide with their parent in the projection
+      expect(
+        getVirtualsReadFields(virtuals, ['city'], ['city', 'address.zip']),
+      ).toEqual(['city', 'address']);
+    });
+
+    it('should remove the dependencies from the excluded fields', () => {
+      expect(
+        getVirtualsReadFields(
+          virtuals,
+          ['fullName', 'city'],
+          ['-firstName', '-address.zip', '-secret'],
+        ),
+      ).toEqual(['-secret']);
+      expect(
+        getVirtualsReadFields(virtuals, ['fullName'], ['-firstName']),
+      ).toBeUndefined();
+    });
+
+    it('should return the same list without missing dependencies', () => {
+      const fields = ['fullName', 'firstName', 'lastName'];
+
+      expect(getVirtualsReadFields(virtuals, ['fullName'], fields)).toBe(
+        fields,
+      );
+      expect(getVirtualsReadFields(virtuals, ['fullName'])).toBeUndefined();
+    });
+  });
+
+  describe('schemas', () => {
+    const factoryOpts = {
+      timestamps: false,
+      softDelete: false,
+      tenantField: false as const,
+      hiddenFields: ['secret'],
+    };
+
+    it('should add the virtuals as optional fields with ajv', () => {
+      const schema = new AjvActionSchemaFactory<
+        Pick<User, '_id' | 'firstName'>
+      >({
+        ...factoryOpts,
+        schema: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['firstName'],
+          properties: {
+            _id: { type: 'string' },
+            firstName: { type: 'string' },
+          },
+        },
+        virtuals: {
+          fullName: { schema: { type: 'string' } },
+          other: {},
+          secret: { schema: { type: 'string' } },
+        },
+      }).createSchemaWithDbFields();
+
+      expect(schema.properties).toEqual({
+        _id: { type: 'string' },
+        firstName: { type: 'string' },
+        fullName: { type: 'string' },
+        other: {},
+      });
+      expect(schema.required).toEqual(['firstName', '_id']);
+    });
+
+    it('should add the virtuals as optional fields with zod', () => {
+      const schema = new ZodActionSchemaFactory({
+        ...factoryOpts,
+        schema: z.object({ _id: z.string(), firstName: z.string() }),
+        virtuals: {
+          fullName: { schema: z.string() },
+          secret: { schema: z.string() },
+        },
+      }).createSchemaWithDbFields();
+
+      expect(schema.parse({ _id: 'a', firstName: 'A', secret: 's' })).toEqual({
+        _id: 'a',
+        firstName: 'A',
+      });
+      expect(
+        schema.safeParse({ _id: 'a', firstName: 'A', fullName: 1 }).success,
+      ).toBe(false);
+    });
+
+    it('should not query the virtuals', () => {
+      const virtuals = { fullName: {} };
+      const ajvFactory = (queryFields: Record<string, []>) =>
+        new AjvActionSchemaFactory<Pick<User, '_id' | 'firstName'>>({
+          ...factoryOpts,
+          schema: {
+            type: 'object',
+            additionalProperties: false,
+            required: ['firstName'],
+            properties: {
+              _id: { type: 'string' },
+              firstName: { type: 'string' },
+            },
+          },
+          virtuals,
+          queryFields,
+        });
+      const zodFactory = (queryFields: Record<string, []>) =>
+        new ZodActionSchemaFactory({
+          ...factoryOpts,
+          schema: z.object({ _id: z.string(), firstName: z.string() }),
+          virtuals,
+          queryFields,
+        });
+
+      expect(
+        Object.keys(
+          ajvFactory({ firstName: [] }).createQuerySchema()!.properties,
+        ),
+      ).toEqual(['firstName']);
+      expect(() => ajvFactory({ fullName: [] }).createQuerySchema()).toThrow(
+        "Virtual field fullName can't be queried",
+      );
+      expect(() => zodFactory({ fullName: [] }).createQuerySchema()).toThrow(
+        "Virtual field fullName can't be queried",
+      );
+    });
+
+    it('should only keep the public fields', () => {
+      const ajvSchema = new AjvActionSchemaFactory<
+        Pick<User, '_id' | 'firstName' | 'lastName' | 'address'>
+      >({
+        ...factoryOpts,
+        schema: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['firstName', 'lastName'],
+          properties: {
+            _id: { type: 'string' },
+            firstName: { type: 'string' },
+            lastName: { type: 'string' },
+            address: { type: 'object', required: [], nullable: true },
+          },
+        },
+        virtuals: { fullName: { schema: { type: 'string' } } },
+        publicFields: ['firstName', 'fullName', 'address.city'],
+      }).createSchemaWithDbFields();
+
+      expect(Object.keys(ajvSchema.properties)).toEqual([
+        '_id',
+        'firstName',
+        'fullName',
+        'address',
+      ]);
+      expect(ajvSchema.required).toEqual(['firstName', '_id']);
+
+      const zodSchema = new ZodActionSchemaFactory({
+        ...factoryOpts,
+        schema: z.object({
+          _id: z.string(),
+          firstName: z.string(),
+          lastName: z.string(),
+        }),
+        publicFields: ['lastName'],
+      }).createSchemaWithDbFields();
+
+      expect(
+        zodSchema.parse({ _id: 'a', firstName: 'A', lastName: 'B' }),
+      ).toEqual({ _id: 'a', lastName: 'B' });
+    });
+  });
+
+  describe('virtuals option', () => {
+    const resolveFullName = vi.fn(async (docs: User[]) =>
+      docs.map(doc => `${doc.firstName} ${doc.lastName}`),
+    );
+    const broker = createServiceBroker();
+    const svc = broker.createService(
+      wrapService({
+        name: 'virtuals',
+        mixins: [
+          DatabaseConnectionMixin({
+            collectionName: 'virtuals',
+            driver: 'memory',
+          }),
+          DatabaseMethodsMixin<User>({
+            tenantField: false,
+            softDelete: false,
+            timestamps: false,
+            actions: {
+              hiddenFields: ['secret'],
+              virtuals: {
+                fullName: {
+                  resolve: resolveFullName,
+                  dependsOn: ['firstName', 'lastName'],
+                },
+                hasSecret: {
+                  resolve: docs => docs.map(doc => !!doc.secret),
+                  dependsOn: ['secret'],
+                },
+              },
+            },
+          }),
+        ],
+      }),
+    );
+    const col = svc.getCollection() as Collection<User>;
+
+    beforeAll(async () => {
+      await broker.start();
+      return () => broker.stop();
+    });
+
+    beforeEach(async () => {
+      resolveFullName.mockClear();
+      await col.deleteMany({});
+      await col.insertMany([
+        { _id: 'a', firstName: 'Ada', lastName: 'Lovelace', secret: 's' },
+        { _id: 'b', firstName: 'Alan', lastName: 'Turing' },
+      ]);
+    });
+
+    it('should resolve the virtuals once per page', async () => {
+      expect(await svc._find({}, null, { sort: ['_id'] })).toEqual([
+        {
+          _id: 'a',
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          secret: 's',
+          fullName: 'Ada Lovelace',
+          hasSecret: true,
+        },
+        {
+          _id: 'b',
+          firstName: 'Alan',
+          lastName: 'Turing',
+          fullName: 'Alan Turing',
+          hasSecret: false,
+        },
+      ]);
+      expect(resolveFullName).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only resolve the requested virtuals', async () => {
+      expect(
+        await svc._findOne({ _id: 'a' }, null, { fields: ['fullName'] }),
+      ).toEqual({ _id: 'a', fullName: 'Ada Lovelace' });
+
+      expect(
+        await svc._findOne({ _id: 'a' }, null, {
+          fields: ['-fullName', '-lastName'],
+        }),
+      ).toEqual({ _id: 'a', firstName: 'Ada', secret: 's', hasSecret: true });
+      expect(resolveFullName).toHaveBeenCalledTimes(1);
+    });
+
+    it('should read hidden dependencies of published actions', async () => {
+      expect(
+        await svc._find({ _id: 'a' }, null, { publishedAction: 'list' }),
+      ).toEqual([
+        {
+          _id: 'a',
+          firstName: 'Ada',
+          lastName: 'Lovelace',
+          fullName: 'Ada Lovelace',
+          hasSecret: true,
+        },
+      ]);
+    });
+
+    it('should resolve the virtuals of streamed documents', async () => {
+      const docs: User[] = [];
+      for await (const doc of svc._findStream({}, null, {
+        fields: ['fullName'],
+        sort: ['_id'],
+      })) {
+        docs.push(doc);
+      }
+
+      expect(docs).toEqual([
+        { _id: 'a', fullName: 'Ada Lovelace' },
+        { _id: 'b', fullName: 'Alan Turing' },
+      ]);
+      expect(resolveFullName).toHaveBeenCalledTimes(1);
+    });
+  });
+});
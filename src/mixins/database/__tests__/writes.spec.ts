@@ -0,0 +1,324 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type Collection, ObjectId } from 'mongodb';
+import { createServiceBroker } from '../../../service-broker/index.js';
+import { wrapService } from '../../../types/index.js';
+import { DatabaseConnectionMixin } from '../connection.js';
+import { DatabaseMethodsMixin } from '../methods.js';
+import type { DatabaseMethodsOptions } from '../mixin-types.js';
+import { VersionConflictError } from '../errors.js';
+
+describe('DB Mixin V2 writes', () => {
+  const broker = createServiceBroker();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const opts: DatabaseMethodsOptions<any, any> = {
+    softDelete: false,
+    timestamps: false,
+    tenantField: false,
+  };
+  const svc = broker.createService(
+    wrapService({
+      name: 'writes',
+      mixins: [
+        DatabaseConnectionMixin({ collectionName: 'writes', driver: 'memory' }),
+        DatabaseMethodsMixin(opts),
+      ],
+    }),
+  );
+  const ctx = { emit: vi.fn() };
+  const col = svc.getCollection() as Collection;
+
+  beforeAll(async () => {
+    await broker.start();
+    return () => broker.stop();
+  });
+
+  beforeEach(async () => {
+    await col.deleteMany({});
+    opts.tenantField = false;
+    opts.softDelete = false;
+    opts.timestamps = false;
+    opts.versioning = false;
+    opts.upsertKeys = undefined;
+  });
+
+  describe('versioning', () => {
+    it('should increment version and ignore caller changes', () => {
+      opts.versioning = true;
+
+      expect(
+        svc._prepareUpdateFilter(
+          { $set: { foo: 'bar', version: 3 }, $inc: { count: 1 } },
+          'update',
+        ),
+      ).toEqual({
+        $set: { foo: 'bar' },
+        $inc: { count: 1, version: 1 },
+      });
+    });
+
+    it('should compute version in pipelines', () => {
+      opts.versioning = true;
+      const version = { $add: [{ $ifNull: ['$version', 0] }, 1] };
+
+      expect(
+        svc._prepareUpdateFilter([{ $set: { foo: 'bar' } }], 'update'),
+      ).toEqual([{ $set: { foo: 'bar' } }, { $set: { version } }]);
+      expect(
+        svc._prepareUpdateFilter(
+          [{ $replaceWith: { $literal: { foo: 'bar' } } }],
+          'replace',
+        ),
+      ).toEqual([
+        {
+          $replaceWith: {
+            $mergeObjects: [{ $literal: { foo: 'bar' } }, { version }],
+          },
+        },
+      ]);
+    });
+
+    it('should set version on insert and increment it on updates', async () => {
+      opts.versioning = true;
+
+      const doc = await svc._insertOne(ctx, { test: 1 });
+      expect(doc).toEqual({ _id: expect.any(ObjectId), test: 1, version: 1 });
+
+      const res = await svc._replaceOne(
+        ctx,
+        { _id: doc._id },
+        null,
+        { _id: doc._id, test: 2, version: 10 },
+        { expectedVersion: 1 },
+      );
+      expect(res).toEqual({ _id: doc._id, test: 2, version: 2 });
+    });
+
+    it('should throw a conflict error on version mismatch', async () => {
+      opts.versioning = true;
+      const doc = await svc._insertOne(ctx, { test: 1 });
+      await svc._updateOne(ctx, { _id: doc._id }, null, { $set: { test: 2 } });
+
+      await expect(
+        svc._updateOne(
+          ctx,
+          { _id: doc._id },
+          null,
+          { $set: { test: 3 } },
+          { expectedVersion: 1 },
+        ),
+      ).rejects.toThrow(VersionConflictError);
+      expect(await col.findOne({ _id: doc._id })).toEqual({
+        _id: doc._id,
+        test: 2,
+        version: 2,
+      });
+    });
+
+    it('should return null if the document does not exist', async () => {
+      opts.versioning = true;
+
+      const res = await svc._updateOne(
+        ctx,
+        { _id: new ObjectId() },
+        null,
+        { $set: { test: 3 } },
+        { expectedVersion: 1 },
+      );
+      expect(res).toBeNull();
+    });
+  });
+
+  describe('upsertOne method', () => {
+    it('should insert then update the document with the same keys', async () => {
+      opts.upsertKeys = ['externalId'];
+      opts.eventPrefix = 'test';
+
+      const created = await svc._upsertOne(ctx, { externalId: 'a', test: 1 });
+      expect(created).toEqual({
+        document: { _id: expect.any(ObjectId), externalId: 'a', test: 1 },
+        created: true,
+      });
+      expect(ctx.emit).toHaveBeenLastCalledWith('test.created', {
+        type: 'insert',
+        document: created.document,
+      });
+
+      const updated = await svc._upsertOne(ctx, {
+        _id: 'ignored',
+        externalId: 'a',
+        test: 2,
+      });
+      expect(updated).toEqual({
+        document: { _id: created.document._id, externalId: 'a', test: 2 },
+        created: false,
+      });
+      expect(ctx.emit).toHaveBeenLastCalledWith('test.updated', {
+        type: 'update',
+        document: updated.document,
+      });
+      expect(await col.countDocuments()).toEqual(1);
+      opts.eventPrefix = undefined;
+    });
+
+    it('should match the keys in the tenant only', async () => {
+      opts.upsertKeys = ['externalId'];
+      opts.tenantField = 'foo';
+      await col.insertOne({ foo: 'bar', externalId: 'a', test: 1 });
+
+      const res = await svc._upsertOne(ctx, {
+        foo: 'rab',
+        externalId: 'a',
+        test: 2,
+      });
+
+      expect(res.created).toBe(true);
+      expect(await col.countDocuments({ externalId: 'a' })).toEqual(2);
+    });
+
+    it('should keep createdAt on updates', async () => {
+      opts.upsertKeys = ['externalId'];
+      opts.timestamps = true;
+
+      const { document } = await svc._upsertOne(ctx, { externalId: 'a' });
+      const res = await svc._upsertOne(ctx, { externalId: 'a', test: 1 });
+
+      expect(res.document.createdAt).toEqual(document.createdAt);
+      expect(res.document.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('should throw without keys', async () => {
+      await expect(svc._upsertOne(ctx, { test: 1 })).rejects.toThrow(
+        'Missing upsert keys (see upsertKeys option)',
+      );
+      opts.upsertKeys = ['externalId'];
+      await expect(svc._upsertOne(ctx, { test: 1 })).rejects.toThrow(
+        'Missing upsert key "externalId"',
+      );
+    });
+  });
+
+  describe('restore and purge methods', () => {
+    it('should throw if soft delete is disabled', async () => {
+      await expect(svc._restoreOne(ctx, {}, null)).rejects.toThrow(
+        'Restore requires the softDelete option',
+      );
+      await expect(svc._purgeDeleted({ olderThan: 0 })).rejects.toThrow(
+        'Purge requires the softDelete option',
+      );
+    });
+
+    it('should restore a deleted document and send an event', async () => {
+      opts.softDelete = true;
+      opts.eventPrefix = 'test';
+      const doc = await svc._insertOne(ctx, { test: 1 });
+      await svc._deleteOne(ctx, { _id: doc._id }, null);
+      ctx.emit.mockClear();
+
+      const res = await svc._restoreOne(ctx, { _id: doc._id }, null);
+
+      expect(res).toEqual({ _id: doc._id, test: 1 });
+      expect(ctx.emit).toHaveBeenCalledWith('test.restored', {
+        type: 'restore',
+        document: res,
+      });
+      expect(await svc._restoreOne(ctx, { _id: doc._id }, null)).toBeNull();
+      opts.eventPrefix = undefined;
+    });
+
+    it('should restore many documents of the tenant', async () => {
+      opts.softDelete = true;
+      opts.tenantField = 'foo';
+      await col.insertMany([
+        { foo: 'bar', test: 1, deletedAt: new Date() },
+        { foo: 'bar', test: 2, deletedAt: new Date() },
+        { foo: 'rab', test: 3, deletedAt: new Date() },
+        { foo: 'bar', test: 4 },
+      ]);
+
+      expect(await svc._restoreMany({}, { foo: 'bar' })).toEqual(2);
+      expect(await col.countDocuments({ deletedAt: null })).toEqual(3);
+    });
+
+    it('should purge documents deleted before the retention period', async () => {
+      opts.softDelete = true;
+      const now = Date.now();
+      await col.insertMany([
+        { test: 1, deletedAt: new Date(now - 10 * 86400000) },
+        { test: 2, deletedAt: new Date(now - 3600000) },
+        { test: 3 },
+      ]);
+
+      expect(await svc._purgeDeleted({ olderThan: 86400000 })).toEqual(1);
+      expect(
+        (await col.find({}).toArray()).map(doc => doc.test).sort(),
+      ).toEqual([2, 3]);
+      expect(await svc._purgeDeleted({ olderThan: new Date() })).toEqual(1);
+    });
+  });
+
+  describe('bulk methods', () => {
+    it('should insert documents and report failing ones', async () => {
+      const id = new ObjectId();
+      await col.insertOne({ _id: id, test: 0 });
+
+      const res = await svc._bulkInsert(ctx, [
+        { test: 1 },
+        { _id: id, test: 2 },
+      ]);
+
+      expect(res).toEqual([
+        {
+          success: true,
+          document: { _id: expect.any(ObjectId), test: 1 },
+        },
+        {
+          success: false,
+          error: expect.objectContaining({ code: 11000 }),
+        },
+      ]);
+      expect(await col.countDocuments()).toEqual(2);
+    });
+
+    it('should update documents one by one', async () => {
+      const [a, b] = [new ObjectId(), new ObjectId()];
+      await col.insertOne({ _id: a, test: 1 });
+
+      const res = await svc._bulkUpdate(ctx, [
+        { _id: a, params: null, changes: { $set: { test: 2 } } },
+        { _id: b, params: null, changes: { $set: { test: 3 } } },
+      ]);
+
+      expect(res).toEqual([
+        { success: true, document: { _id: a, test: 2 } },
+        {
+          success: false,
+          error: expect.objectContaining({
+            code: 404,
+            type: 'ENTITY_NOT_FOUND',
+          }),
+        },
+      ]);
+    });
+
+    it('should respect the tenant filter on delete', async () => {
+      opts.tenantField = 'tenant';
+      const [a, b] = [new ObjectId(), new ObjectId()];
+      await col.insertMany([
+        { _id: a, tenant: 't1' },
+        { _id: b, tenant: 't2' },
+      ]);
+
+      const res = await svc._bulkDelete(ctx, [
+        { _id: a, params: { tenant: 't1' } },
+        { _id: b, params: { tenant: 't1' } },
+      ]);
+
+      expect(res.map((r: { success: boolean }) => r.success)).toEqual([
+        true,
+        false,
+      ]);
+      expect(await col.find({}).toArray()).toEqual([{ _id: b, tenant: 't2' }]);
+    });
+  });
+});
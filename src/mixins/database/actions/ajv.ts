@@ -1,19 +1,31 @@
 import type { Document } from 'mongodb';
 import {
   COERCE_ARRAY_ATTRIBUTE,
+  DATE_TYPE,
   type JSONSchemaType,
   OBJECTID_TYPE,
+  omitFields,
+  pickFields,
   SCHEMA_REF_NAME,
 } from '../../../json-schema/index.js';
 import type { ValidationSchema } from '../../../validator/types.js';
+import { isZodSchema } from '../../../zod/zod-helpers.js';
 import { removeMongoId } from '../helpers.js';
+import { DATABASE_TRANSFER_FORMATS } from './transfer.js';
 import {
+  type ActionBulkParamsOptions,
   type ActionCountParamsOptions,
+  type ActionCreateManyParamsOptions,
   type ActionCreateParamsOptions,
   type ActionGetParamsOptions,
   type ActionListParamsOptions,
+  type ActionListResponseOptions,
+  type ActionSearchParamsOptions,
   type ActionSchemaFactory,
   type ActionSchemaFactoryOptions,
+  type ActionVirtualSchemaOptions,
+  getQueryDescription,
+  getTopLevelFields,
   QueryOp,
 } from './shared.js';
 
@@ -46,7 +58,23 @@ export class AjvActionSchemaFactory<
   }
 
   createSchemaWithDbFields(): ValidationSchema {
-    const { timestamps, schema, schemaName } = this.opts;
+    return this.createDbFieldsSchema(this.opts.virtuals);
+  }
+
+  /**
+   * Schema with db fields, and the given virtuals as optional fields.
+   */
+  private createDbFieldsSchema(
+    virtuals?: Record<string, ActionVirtualSchemaOptions>,
+  ): ValidationSchema {
+    const {
+      timestamps,
+      versioning,
+      schema,
+      schemaName,
+      hiddenFields,
+      publicFields,
+    } = this.opts;
     if (!schema) {
       throw new Error('Schema is not defined');
     }
@@ -58,11 +86,114 @@ export class AjvActionSchemaFactory<
       requiredSet.add('createdAt');
       requiredSet.add('updatedAt');
     }
-    return {
+    if (versioning) {
+      requiredSet.add('version');
+    }
+    const refName = schemaName ? `Full${schemaName}` : undefined;
+    const res: ValidationSchema = {
       ...schema,
-      [SCHEMA_REF_NAME]: schemaName ? `Full${schemaName}` : undefined,
+      [SCHEMA_REF_NAME]: refName,
       required: [...requiredSet.values()],
     };
+    if (virtuals && Object.keys(virtuals).length) {
+      const properties: Record<string, unknown> = {};
+      for (const [name, virtual] of Object.entries(virtuals)) {
+        properties[name] =
+          virtual.schema && !isZodSchema(virtual.schema) ? virtual.schema : {};
+      }
+      res.properties = { ...schema.properties, ...properties };
+    }
+    const visible = hiddenFields?.length
+      ? omitFields(res, hiddenFields, refName)
+      : res;
+    return publicFields
+      ? pickFields(visible, getTopLevelFields(publicFields), refName)
+      : visible;
+  }
+
+  createSchemaWithRelations(): ValidationSchema {
+    const { relations, schemaName } = this.opts;
+    const schema = this.createSchemaWithDbFields();
+    if (!relations || !Object.keys(relations).length) {
+      return schema;
+    }
+
+    const properties: Record<string, unknown> = {};
+    for (const [name, relation] of Object.entries(relations)) {
+      const item =
+        relation.schema && !isZodSchema(relation.schema)
+          ? relation.schema
+          : { type: 'object', additionalProperties: true };
+      properties[name] = relation.many ? { type: 'array', items: item } : item;
+    }
+    return {
+      ...schema,
+      [SCHEMA_REF_NAME]: schemaName ? `Populated${schemaName}` : undefined,
+      properties: { ...schema.properties, ...properties },
+    };
+  }
+
+  /**
+   * Populate param, only if there are relations.
+   */
+  private createPopulateProperty(): Record<string, unknown> {
+    const { relations } = this.opts;
+    if (!relations || !Object.keys(relations).length) {
+      return {};
+    }
+    return {
+      populate: {
+        type: 'array',
+        items: { type: 'string', enum: Object.keys(relations) },
+        [COERCE_ARRAY_ATTRIBUTE]: true,
+      },
+    };
+  }
+
+  /**
+   * Stringified query param, with its grammar when the query schema is generated.
+   */
+  private createSQueryProperty(): ValidationSchema {
+    const { queryFields } = this.opts;
+    return {
+      type: 'string',
+      ...(queryFields ? { description: getQueryDescription(queryFields) } : {}),
+    };
+  }
+
+  createQuerySchema(): ValidationSchema | undefined {
+    const { queryFields, virtuals } = this.opts;
+    if (!queryFields) {
+      return undefined;
+    }
+    // Virtuals are not stored, they can't be filtered
+    const schema = this.createDbFieldsSchema();
+
+    const properties: Record<string, unknown> = {};
+    for (const [field, queryOps = []] of Object.entries(queryFields)) {
+      if (virtuals && field.split('.')[0] in virtuals) {
+        throw new Error(`Virtual field ${field} can't be queried`);
+      }
+      let fieldSchema: ValidationSchema | undefined = schema;
+      for (const key of field.split('.')) {
+        fieldSchema = fieldSchema?.properties?.[key];
+      }
+      if (!fieldSchema) {
+        throw new Error(`Unknown query field ${field}`);
+      }
+      // Filtering an array on a value matches the documents containing it
+      if (fieldSchema.type === 'array' && fieldSchema.items) {
+        fieldSchema = fieldSchema.items as ValidationSchema;
+      }
+      properties[field] = addQueryOps(fieldSchema, queryOps);
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required: [],
+      properties,
+    };
   }
 
   createFindParams(): ValidationSchema {
@@ -93,6 +224,40 @@ export class AjvActionSchemaFactory<
         limit: { type: 'integer', minimum: 0 },
         offset: { type: 'integer', minimum: 0 },
         collation: { type: 'object' },
+        published: { type: 'boolean' },
+        ...this.createPopulateProperty(),
+        ...additionalProps,
+      },
+    };
+  }
+
+  createAggregateParams(): ValidationSchema {
+    const { tenantField, softDelete } = this.opts;
+    const { tenantFieldType } = this;
+
+    const additionalProps: Record<string, unknown> = {};
+    const required: string[] = ['pipeline'];
+    if (tenantField && tenantFieldType) {
+      required.push(tenantField);
+      additionalProps[tenantField] = tenantFieldType;
+    }
+    if (softDelete) {
+      additionalProps.scope = {
+        type: 'string',
+        enum: ['include-deleted', 'only-deleted', 'no-deleted'],
+      };
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required,
+      properties: {
+        pipeline: {
+          type: 'array',
+          items: { type: 'object', additionalProperties: true, required: [] },
+        },
+        collation: { type: 'object' },
         ...additionalProps,
       },
     };
@@ -126,6 +291,7 @@ export class AjvActionSchemaFactory<
       required,
       properties: {
         _id: _idFieldType || OBJECTID_TYPE,
+        ...this.createPopulateProperty(),
         ...additionalProps,
       },
     };
@@ -150,7 +316,7 @@ export class AjvActionSchemaFactory<
     }
 
     if (queryType === 'stringified') {
-      properties.sQuery = { type: 'string' };
+      properties.sQuery = this.createSQueryProperty();
     } else if (queryType === 'object') {
       properties.query = { type: 'object', additionalProperties: true };
     }
@@ -166,7 +332,7 @@ export class AjvActionSchemaFactory<
   createListParams(params: ActionListParamsOptions): ValidationSchema {
     const { tenantField, softDelete } = this.opts;
     const { tenantFieldType } = this;
-    const { queryType, maxPageSize } = params;
+    const { queryType, maxPageSize, pagination } = params;
 
     const additionalProperties: Record<string, unknown> = {};
     const required: string[] = [];
@@ -182,7 +348,7 @@ export class AjvActionSchemaFactory<
     }
 
     if (queryType === 'stringified') {
-      additionalProperties.sQuery = { type: 'string' };
+      additionalProperties.sQuery = this.createSQueryProperty();
     } else if (queryType === 'object') {
       additionalProperties.query = {
         type: 'object',
@@ -190,12 +356,17 @@ export class AjvActionSchemaFactory<
       };
     }
 
+    const paginationProperties: Record<string, unknown> =
+      pagination === 'cursor'
+        ? { cursor: { type: 'string' }, withTotal: { type: 'boolean' } }
+        : { page: { type: 'integer', minimum: 0 } };
+
     return {
       type: 'object',
       additionalProperties: false,
       required,
       properties: {
-        page: { type: 'integer', minimum: 0 },
+        ...paginationProperties,
         pageSize: {
           type: 'integer',
           minimum: 1,
@@ -206,22 +377,125 @@ export class AjvActionSchemaFactory<
           items: { type: 'string' },
           [COERCE_ARRAY_ATTRIBUTE]: true,
         },
+        ...this.createPopulateProperty(),
         ...additionalProperties,
       },
     };
   }
 
-  createListResponse(): ValidationSchema {
+  createListResponse(params: ActionListResponseOptions): ValidationSchema {
+    if (params.pagination === 'cursor') {
+      return {
+        type: 'object',
+        required: ['rows', 'pageSize', 'nextCursor', 'prevCursor'],
+        additionalProperties: false,
+        properties: {
+          rows: { type: 'array', items: this.createSchemaWithRelations() },
+          pageSize: { type: 'integer', minimum: 1 },
+          nextCursor: { type: 'string', nullable: true },
+          prevCursor: { type: 'string', nullable: true },
+          total: { type: 'integer', minimum: 0 },
+        },
+      };
+    }
     return {
       type: 'object',
       required: ['rows', 'page', 'pageSize', 'total', 'totalPages'],
       additionalProperties: false,
       properties: {
-        rows: { type: 'array', items: this.createSchemaWithDbFields() },
+        rows: { type: 'array', items: this.createSchemaWithRelations() },
+        page: { type: 'integer', minimum: 0 },
+        pageSize: { type: 'integer', minimum: 1 },
+        total: { type: 'integer', minimum: 0 },
+        totalPages: { type: 'integer', minimum: 0 },
+      },
+    };
+  }
+
+  createSearchParams(params: ActionSearchParamsOptions): ValidationSchema {
+    const { tenantField, softDelete } = this.opts;
+    const { tenantFieldType } = this;
+    const { maxPageSize, facets } = params;
+
+    const additionalProperties: Record<string, unknown> = {};
+    const required: string[] = ['q'];
+    if (tenantField && tenantFieldType) {
+      required.push(tenantField);
+      additionalProperties[tenantField] = tenantFieldType;
+    }
+    if (softDelete) {
+      additionalProperties.scope = {
+        type: 'string',
+        enum: ['include-deleted', 'only-deleted', 'no-deleted'],
+      };
+    }
+    if (facets?.length) {
+      additionalProperties.facets = {
+        type: 'array',
+        items: { type: 'string', enum: facets },
+        [COERCE_ARRAY_ATTRIBUTE]: true,
+      };
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required,
+      properties: {
+        q: { type: 'string', minLength: 1 },
+        page: { type: 'integer', minimum: 0 },
+        pageSize: {
+          type: 'integer',
+          minimum: 1,
+          maximum: maxPageSize || 100,
+        },
+        highlight: { type: 'boolean' },
+        ...additionalProperties,
+      },
+    };
+  }
+
+  createSearchResponse(): ValidationSchema {
+    return {
+      type: 'object',
+      required: ['rows', 'page', 'pageSize', 'total', 'totalPages', 'facets'],
+      additionalProperties: false,
+      properties: {
+        rows: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['document', 'score'],
+            additionalProperties: false,
+            properties: {
+              document: this.createSchemaWithDbFields(),
+              score: { type: 'number' },
+              highlights: {
+                type: 'array',
+                items: { type: 'object', additionalProperties: true },
+              },
+            },
+          },
+        },
         page: { type: 'integer', minimum: 0 },
         pageSize: { type: 'integer', minimum: 1 },
         total: { type: 'integer', minimum: 0 },
         totalPages: { type: 'integer', minimum: 0 },
+        facets: {
+          type: 'object',
+          additionalProperties: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['value', 'count'],
+              additionalProperties: false,
+              properties: {
+                value: {},
+                count: { type: 'integer', minimum: 1 },
+              },
+            },
+          },
+        },
       },
     };
   }
@@ -241,7 +515,7 @@ export class AjvActionSchemaFactory<
   }
 
   createUpdateParams(): ValidationSchema {
-    const { tenantField, schema } = this.opts;
+    const { tenantField, versioning, schema } = this.opts;
     if (!schema) {
       throw new Error('Schema is not defined');
     }
@@ -250,9 +524,33 @@ export class AjvActionSchemaFactory<
     if (tenantField) {
       required.push(tenantField);
     }
+    if (versioning) {
+      // Expected version of the document to update
+      required.push('version');
+      return {
+        ...schema,
+        required,
+        properties: {
+          ...schema.properties,
+          version: { type: 'integer', minimum: 1 },
+        },
+      };
+    }
     return { ...schema, required };
   }
 
+  createUpsertResponse(): ValidationSchema {
+    return {
+      type: 'object',
+      required: ['document', 'created'],
+      additionalProperties: false,
+      properties: {
+        document: this.createSchemaWithDbFields(),
+        created: { type: 'boolean' },
+      },
+    };
+  }
+
   createRemoveParams(): ValidationSchema {
     const { tenantFieldType, _idFieldType } = this;
     const { tenantField } = this.opts;
@@ -274,6 +572,271 @@ export class AjvActionSchemaFactory<
       },
     };
   }
+
+  createCreateManyParams(
+    params: ActionCreateManyParamsOptions,
+  ): ValidationSchema {
+    const { maxItems, ...createParams } = params;
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required: ['items'],
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          maxItems: maxItems || 100,
+          items: this.createCreateParams(createParams),
+        },
+      },
+    };
+  }
+
+  createUpdateManyParams(params: ActionBulkParamsOptions): ValidationSchema {
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required: ['items'],
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          maxItems: params.maxItems || 100,
+          items: this.createUpdateParams(),
+        },
+      },
+    };
+  }
+
+  createRemoveManyParams(params: ActionBulkParamsOptions): ValidationSchema {
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required: ['items'],
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          maxItems: params.maxItems || 100,
+          items: this.createRemoveParams(),
+        },
+      },
+    };
+  }
+
+  createBulkResponse(): ValidationSchema {
+    return {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['success'],
+        additionalProperties: false,
+        properties: {
+          success: { type: 'boolean' },
+          document: this.createSchemaWithDbFields(),
+          error: {
+            type: 'object',
+            required: ['name', 'message'],
+            properties: {
+              name: { type: 'string' },
+              message: { type: 'string' },
+              code: { type: 'integer' },
+              type: { type: 'string' },
+              data: {},
+            },
+          },
+        },
+      },
+    };
+  }
+
+  createExportParams(): ValidationSchema {
+    const { tenantField, softDelete } = this.opts;
+    const { tenantFieldType } = this;
+
+    const additionalProperties: Record<string, unknown> = {};
+    const required: string[] = [];
+    if (tenantField && tenantFieldType) {
+      required.push(tenantField);
+      additionalProperties[tenantField] = tenantFieldType;
+    }
+    if (softDelete) {
+      additionalProperties.scope = {
+        type: 'string',
+        enum: ['include-deleted', 'only-deleted', 'no-deleted'],
+      };
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required,
+      properties: {
+        format: { type: 'string', enum: [...DATABASE_TRANSFER_FORMATS] },
+        fields: {
+          type: 'array',
+          items: { type: 'string' },
+          [COERCE_ARRAY_ATTRIBUTE]: true,
+        },
+        sQuery: this.createSQueryProperty(),
+        sort: {
+          type: 'array',
+          items: { type: 'string' },
+          [COERCE_ARRAY_ATTRIBUTE]: true,
+        },
+        ...additionalProperties,
+      },
+    };
+  }
+
+  createImportParams(): ValidationSchema {
+    const { tenantField } = this.opts;
+    const { tenantFieldType } = this;
+
+    const additionalProperties: Record<string, unknown> = {};
+    const required: string[] = [];
+    if (tenantField && tenantFieldType) {
+      required.push(tenantField);
+      additionalProperties[tenantField] = tenantFieldType;
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required,
+      properties: {
+        format: { type: 'string', enum: [...DATABASE_TRANSFER_FORMATS] },
+        ...additionalProperties,
+      },
+    };
+  }
+
+  createImportResponse(): ValidationSchema {
+    return {
+      type: 'object',
+      required: ['total', 'inserted', 'updated', 'errors'],
+      additionalProperties: false,
+      properties: {
+        total: { type: 'integer', minimum: 0 },
+        inserted: { type: 'integer', minimum: 0 },
+        updated: { type: 'integer', minimum: 0 },
+        errors: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['line', 'error'],
+            additionalProperties: false,
+            properties: {
+              line: { type: 'integer', minimum: 1 },
+              error: {
+                type: 'object',
+                required: ['name', 'message'],
+                properties: {
+                  name: { type: 'string' },
+                  message: { type: 'string' },
+                  code: { type: 'integer' },
+                  type: { type: 'string' },
+                  data: {},
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  createHistoryRecordSchema(): ValidationSchema {
+    const { _idFieldType, tenantFieldType } = this;
+    const { tenantField, schemaName } = this.opts;
+
+    const additionalProps: Record<string, unknown> = {};
+    if (tenantField && tenantFieldType) {
+      additionalProps[tenantField] = tenantFieldType;
+    }
+    const snapshot = this.createSchemaWithDbFields();
+
+    return {
+      type: 'object',
+      [SCHEMA_REF_NAME]: schemaName ? `${schemaName}History` : undefined,
+      required: ['_id', 'documentId', 'version', 'operation', 'createdAt'],
+      properties: {
+        _id: OBJECTID_TYPE,
+        documentId: _idFieldType || OBJECTID_TYPE,
+        version: { type: 'integer', minimum: 1 },
+        operation: {
+          type: 'string',
+          enum: ['insert', 'update', 'replace', 'delete', 'restore'],
+        },
+        before: snapshot,
+        after: snapshot,
+        diff: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['op', 'path'],
+            properties: {
+              op: { type: 'string', enum: ['add', 'remove', 'replace'] },
+              path: { type: 'string' },
+              value: {},
+              oldValue: {},
+            },
+          },
+        },
+        actor: { type: 'object', additionalProperties: true },
+        requestID: { type: 'string' },
+        createdAt: DATE_TYPE,
+        ...additionalProps,
+      },
+    };
+  }
+
+  createGetHistoryParams(): ValidationSchema {
+    const { _idFieldType, tenantFieldType } = this;
+    const { tenantField } = this.opts;
+
+    const required = ['_id'];
+    const additionalProps: Record<string, unknown> = {};
+    if (tenantField && tenantFieldType) {
+      required.push(tenantField);
+      additionalProps[tenantField] = tenantFieldType;
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required,
+      properties: {
+        _id: _idFieldType || OBJECTID_TYPE,
+        limit: { type: 'integer', minimum: 1, maximum: 100 },
+        offset: { type: 'integer', minimum: 0 },
+        ...additionalProps,
+      },
+    };
+  }
+
+  createGetVersionParams(): ValidationSchema {
+    const { _idFieldType, tenantFieldType } = this;
+    const { tenantField } = this.opts;
+
+    const required = ['_id', 'version'];
+    const additionalProps: Record<string, unknown> = {};
+    if (tenantField && tenantFieldType) {
+      required.push(tenantField);
+      additionalProps[tenantField] = tenantFieldType;
+    }
+
+    return {
+      type: 'object',
+      additionalProperties: false,
+      required,
+      properties: {
+        _id: _idFieldType || OBJECTID_TYPE,
+        version: { type: 'integer', minimum: 1 },
+        ...additionalProps,
+      },
+    };
+  }
 }
 
 export function addQueryOps<T>(
@@ -294,8 +857,18 @@ export function addQueryOps<T>(
           ...(ops[QueryOp.LT] ? { $lt: schema } : {}),
           ...(ops[QueryOp.LTE] ? { $lte: schema } : {}),
           ...(ops[QueryOp.IN] ? { $in: { type: 'array', items: schema } } : {}),
+          ...(ops[QueryOp.NIN]
+            ? { $nin: { type: 'array', items: schema } }
+            : {}),
           ...(ops[QueryOp.EQ] ? { $eq: schema } : {}),
           ...(ops[QueryOp.NE] ? { $ne: schema } : {}),
+          ...(ops[QueryOp.EXISTS] ? { $exists: { type: 'boolean' } } : {}),
+          ...(ops[QueryOp.CONTAINS]
+            ? { $contains: { type: 'string', minLength: 1 } }
+            : {}),
+          ...(ops[QueryOp.STARTS_WITH]
+            ? { $startsWith: { type: 'string', minLength: 1 } }
+            : {}),
         },
       },
     ],
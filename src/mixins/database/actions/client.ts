@@ -0,0 +1,163 @@
+import type { Document, ObjectId } from 'mongodb';
+import type { CallingOptions, Context } from 'moleculer';
+import type { Readable } from 'stream';
+import type { DatabaseActionOptions, KeyString } from '../mixin-types.js';
+import type {
+  DatabaseActionCountInternalParams,
+  DatabaseActionCountParams,
+  DatabaseActionCreateParams,
+  DatabaseActionCursorListParams,
+  DatabaseActionCursorListResult,
+  DatabaseActionEntityResult,
+  DatabaseActionFindParams,
+  DatabaseActionFindResult,
+  DatabaseActionGetInternalParams,
+  DatabaseActionGetParams,
+  DatabaseActionListParams,
+  DatabaseActionListResult,
+  DatabaseActionRemoveParams,
+  DatabaseActionUpdateParams,
+} from './types.js';
+
+export const DATABASE_CLIENT_ACTIONS = [
+  'find',
+  'findStream',
+  'getInternal',
+  'get',
+  'countInternal',
+  'count',
+  'list',
+  'create',
+  'update',
+  'remove',
+] as const;
+
+export type DatabaseClientActionNames =
+  (typeof DATABASE_CLIENT_ACTIONS)[number];
+
+// Params and result of the list action, depending on its pagination mode
+type DatabaseClientList<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false,
+  TOptions,
+> =
+  NonNullable<TOptions> extends { pagination: 'cursor' }
+    ? {
+        params: DatabaseActionCursorListParams<TSchema, TenantField>;
+        result: DatabaseActionCursorListResult<TSchema>;
+      }
+    : NonNullable<TOptions> extends { pagination?: 'page' }
+      ? {
+          params: DatabaseActionListParams<TSchema, TenantField>;
+          result: DatabaseActionListResult<TSchema>;
+        }
+      : {
+          params:
+            | DatabaseActionListParams<TSchema, TenantField>
+            | DatabaseActionCursorListParams<TSchema, TenantField>;
+          result:
+            | DatabaseActionListResult<TSchema>
+            | DatabaseActionCursorListResult<TSchema>;
+        };
+
+type DatabaseClientSignatures<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false,
+  TActions extends DatabaseActionOptions<TSchema>,
+> = {
+  find: {
+    params: DatabaseActionFindParams<TSchema, TenantField>;
+    result: DatabaseActionFindResult<TSchema>;
+  };
+  findStream: {
+    params: DatabaseActionFindParams<TSchema, TenantField>;
+    result: Readable;
+  };
+  getInternal: {
+    params: DatabaseActionGetInternalParams<TSchema, TenantField>;
+    result: DatabaseActionEntityResult<TSchema> | null;
+  };
+  get: {
+    params: DatabaseActionGetParams<TSchema, TenantField>;
+    result: DatabaseActionEntityResult<TSchema>;
+  };
+  countInternal: {
+    params: DatabaseActionCountInternalParams<TSchema, TenantField>;
+    result: number;
+  };
+  count: {
+    params: DatabaseActionCountParams<TSchema, TenantField>;
+    result: number;
+  };
+  list: DatabaseClientList<TSchema, TenantField, TActions['list']>;
+  create: {
+    params: DatabaseActionCreateParams<TSchema>;
+    result: DatabaseActionEntityResult<TSchema>;
+  };
+  update: {
+    params: DatabaseActionUpdateParams<TSchema, TenantField>;
+    result: DatabaseActionEntityResult<TSchema>;
+  };
+  remove: {
+    params: DatabaseActionRemoveParams<TSchema, TenantField>;
+    result: DatabaseActionEntityResult<TSchema>;
+  };
+};
+
+/**
+ * Typed wrappers around ctx.call for the actions of a service using the DatabaseMethodsMixin.
+ * Only the actions present in TActions are available.
+ */
+export type DatabaseClient<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+  TActions extends DatabaseActionOptions<TSchema> =
+    DatabaseActionOptions<TSchema>,
+> = {
+  [key in DatabaseClientActionNames as key extends keyof TActions
+    ? key
+    : never]: (
+    ctx: Context,
+    params: DatabaseClientSignatures<
+      TSchema,
+      TenantField,
+      TActions
+    >[key]['params'],
+    opts?: CallingOptions,
+  ) => Promise<
+    DatabaseClientSignatures<TSchema, TenantField, TActions>[key]['result']
+  >;
+};
+
+/**
+ * Create a typed client calling the database actions of another service (e.g. `v1.venues`).
+ *
+ * Give the `actions` option of the service (declared with `satisfies DatabaseActionOptions<TSchema>`
+ * to keep its keys) to only have the enabled actions, and the result of list matching its pagination:
+ *
+ * @example
+ * const venueActions = { get: { visibility: 'public' }, list: { visibility: 'public', pagination: 'cursor' } } satisfies DatabaseActionOptions<Venue>;
+ * const venues = createDatabaseClient<Venue, 'tenantId', typeof venueActions>('v1.venues', venueActions);
+ * const { rows, nextCursor } = await venues.list(ctx, { tenantId });
+ *
+ * Without actions, every supported action is available.
+ */
+export function createDatabaseClient<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+  TActions extends DatabaseActionOptions<TSchema> =
+    DatabaseActionOptions<TSchema>,
+>(
+  serviceName: string,
+  actions?: TActions,
+): DatabaseClient<TSchema, TenantField, TActions> {
+  return Object.fromEntries(
+    DATABASE_CLIENT_ACTIONS.filter(name => !actions || actions[name]).map(
+      name => [
+        name,
+        (ctx: Context, params: Document, opts?: CallingOptions) =>
+          ctx.call(`${serviceName}.${name}`, params, opts),
+      ],
+    ),
+  ) as unknown as DatabaseClient<TSchema, TenantField, TActions>;
+}
@@ -0,0 +1,171 @@
+import { get, isEqual } from 'es-toolkit/compat';
+import { BSON, type Document, type Filter } from 'mongodb';
+import { Errors } from 'moleculer';
+
+export type ListCursorDirection = 'next' | 'prev';
+
+/**
+ * Decoded content of a list cursor.
+ * Keys are kept short as the cursor is sent back and forth in query strings.
+ */
+export type ListCursorPayload = {
+  // Direction of the page the cursor points to.
+  d: ListCursorDirection;
+  // Sort used when the cursor was created.
+  s: string[];
+  // Values of the sort fields of the reference document (same order as `s`).
+  v: unknown[];
+};
+
+/**
+ * Return the sort used for cursor pagination.
+ * `_id` is added as the last sort field (if not already present) to have a stable order
+ * even if the requested sort fields are not unique.
+ */
+export function getCursorSort(sort: string[] = []): string[] {
+  const idPos = sort.findIndex(field => field === '_id' || field === '-_id');
+  if (idPos !== -1) {
+    // Fields after _id are useless as _id is unique
+    return sort.slice(0, idPos + 1);
+  }
+  return [...sort, '_id'];
+}
+
+/**
+ * Invert the direction of each field of a sort list.
+ */
+export function reverseSort(sort: string[]): string[] {
+  return sort.map(field =>
+    field.startsWith('-') ? field.slice(1) : `-${field}`,
+  );
+}
+
+/**
+ * Create an opaque cursor pointing after (`next`) or before (`prev`) the given document.
+ * Extended JSON is used to keep types like Date or ObjectId.
+ */
+export function encodeListCursor(
+  doc: Document,
+  sort: string[],
+  direction: ListCursorDirection,
+): string {
+  const payload: ListCursorPayload = {
+    d: direction,
+    s: sort,
+    v: sort.map(field => get(doc, field.replace(/^-/, '')) ?? null),
+  };
+  return Buffer.from(
+    BSON.EJSON.stringify(payload, { relaxed: false }),
+  ).toString('base64url');
+}
+
+// BSON types compared by value in a filter (BSONRegExp or Code would not be)
+const CURSOR_BSON_TYPES = new Set([
+  'ObjectId',
+  'Decimal128',
+  'Long',
+  'Int32',
+  'Double',
+  'Timestamp',
+  'Binary',
+  'MinKey',
+  'MaxKey',
+]);
+
+/**
+ * Return true if a cursor value can be used as is in a filter: a scalar, a Date or a BSON scalar.
+ * Cursors come from the client, so objects and arrays are refused as they could contain operators.
+ */
+function isCursorValue(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') {
+    return true;
+  }
+  if (value instanceof Date) {
+    return true;
+  }
+  const { _bsontype } = value as { _bsontype?: unknown };
+  return typeof _bsontype === 'string' && CURSOR_BSON_TYPES.has(_bsontype);
+}
+
+/**
+ * Decode a cursor created by encodeListCursor.
+ * Throws a ValidationError if the cursor is malformed (including values that are not scalars)
+ * or if it was created with another sort.
+ */
+export function decodeListCursor(
+  cursor: string,
+  sort: string[],
+): ListCursorPayload {
+  let payload: ListCursorPayload;
+  try {
+    payload = BSON.EJSON.parse(
+      Buffer.from(cursor, 'base64url').toString('utf8'),
+      { relaxed: false },
+    ) as ListCursorPayload;
+  } catch {
+    throw new Errors.ValidationError('Invalid cursor format');
+  }
+
+  if (
+    !payload ||
+    (payload.d !== 'next' && payload.d !== 'prev') ||
+    !Array.isArray(payload.s) ||
+    !Array.isArray(payload.v) ||
+    payload.s.length !== payload.v.length ||
+    !payload.v.every(isCursorValue)
+  ) {
+    throw new Errors.ValidationError('Invalid cursor format');
+  }
+  if (!isEqual(payload.s, sort)) {
+    throw new Errors.ValidationError('Cursor does not match the current sort');
+  }
+  return payload;
+}
+
+/**
+ * Create the keyset filter matching documents after (or before) the cursor.
+ * For a sort `[a, -b, _id]`, a `next` cursor gives:
+ * `{ $or: [{ a: { $gt: va } }, { a: va, b: { $lt: vb } }, { a: va, b: null }, { a: va, b: vb, _id: { $gt: vid } }] }`
+ *
+ * Like in Mongo sorts, missing/null values come before any other value: as $gt/$lt don't match them,
+ * they have their own branch (`{ b: null }` above), and a null cursor value is followed by any non-null one.
+ */
+export function createCursorFilter<TSchema extends Document>(
+  payload: ListCursorPayload,
+): Filter<TSchema> {
+  const { d: direction, s: sort, v: values } = payload;
+  const fields = sort.map(field => field.replace(/^-/, ''));
+
+  return {
+    $or: sort.flatMap((field, i) => {
+      const isDesc = field.startsWith('-');
+      const isBefore = isDesc === (direction === 'next');
+
+      const predicate: Document = {};
+      for (let j = 0; j < i; j += 1) {
+        predicate[fields[j]] = values[j];
+      }
+      if (!isBefore) {
+        return [
+          {
+            ...predicate,
+            [fields[i]]:
+              values[i] === null ? { $ne: null } : { $gt: values[i] },
+          },
+        ];
+      }
+      // Nothing comes before null values
+      if (values[i] === null) {
+        return [];
+      }
+      const before: Document[] = [
+        { ...predicate, [fields[i]]: { $lt: values[i] } },
+      ];
+      // _id is never null
+      if (fields[i] !== '_id') {
+        before.push({ ...predicate, [fields[i]]: null });
+      }
+      return before;
+    }),
+  } as Filter<TSchema>;
+}
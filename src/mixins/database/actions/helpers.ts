@@ -1,8 +1,10 @@
+import { escapeRegExp, isPlainObject } from 'es-toolkit';
 import { type Validators, Errors } from 'moleculer';
 import type { Filter, Document } from 'mongodb';
 import type { ZodType } from 'zod/v4';
 import type { ValidationSchema } from '../../../validator/types.js';
 import { isZodSchema } from '../../../zod/zod-helpers.js';
+import { QueryOp } from './shared.js';
 
 export function parseStringifiedQuery<TSchema extends Document>(
   sQuery?: string,
@@ -21,6 +23,55 @@ export function parseStringifiedQuery<TSchema extends Document>(
   return query;
 }
 
+/**
+ * Convert the operators that don't exist in MongoDB ($contains, $startsWith)
+ * to $regex, escaping the value so it can't be used as a pattern.
+ */
+export function resolveQueryOps<TSchema extends Document>(
+  query: Filter<TSchema>,
+): Filter<TSchema> {
+  const res: Document = {};
+  for (const [field, value] of Object.entries(query)) {
+    if (!isPlainObject(value)) {
+      res[field] = value;
+      continue;
+    }
+    const {
+      [QueryOp.CONTAINS]: contains,
+      [QueryOp.STARTS_WITH]: startsWith,
+      ...ops
+    } = value as Record<string, unknown>;
+    if (contains !== undefined && startsWith !== undefined) {
+      throw new Errors.ValidationError(
+        `Only one of ${QueryOp.CONTAINS} and ${QueryOp.STARTS_WITH} can be used on ${field}`,
+      );
+    }
+    if (typeof contains === 'string') {
+      ops.$regex = escapeRegExp(contains);
+      ops.$options = 'i';
+    } else if (typeof startsWith === 'string') {
+      ops.$regex = `^${escapeRegExp(startsWith)}`;
+    }
+    res[field] = ops;
+  }
+  return res as Filter<TSchema>;
+}
+
+/**
+ * Validate a document against a schema, returning the transformed document.
+ */
+export function validateDocument<TSchema extends Document>(
+  validator: Validators.Base,
+  schema: ValidationSchema | ZodType,
+  doc: TSchema,
+): TSchema {
+  if (isZodSchema(schema)) {
+    return validator.validate(doc, schema) as TSchema;
+  }
+  validator.validate(doc, schema);
+  return doc;
+}
+
 export function parseAndValidateQuery<TSchema extends Document>(
   validator: Validators.Base,
   schema: ValidationSchema | ZodType | undefined,
@@ -37,5 +88,5 @@ export function parseAndValidateQuery<TSchema extends Document>(
     validator.validate(query, schema);
   }
 
-  return query;
+  return resolveQueryOps(query);
 }
@@ -1,6 +1,6 @@
-import type { Document, ObjectId } from 'mongodb';
-import type { Context, Service } from 'moleculer';
-import type { Readable } from 'stream';
+import type { Document, ObjectId, OptionalId } from 'mongodb';
+import { type Context, Errors, type Service } from 'moleculer';
+import { pipeline, type Readable } from 'stream';
 import { createOpenAPIResponses } from '../../../openapi/index.js';
 import type {
   DatabaseActionNames,
@@ -10,25 +10,62 @@ import type {
   TenantParams,
 } from '../mixin-types.js';
 import type {
+  DatabaseActionAggregateParams,
+  DatabaseActionBulkResult,
   DatabaseActionCountInternalParams,
   DatabaseActionCountParams,
+  DatabaseActionCreateManyParams,
   DatabaseActionCreateParams,
+  DatabaseActionCursorListParams,
+  DatabaseActionCursorListResult,
   DatabaseActionFindParams,
   DatabaseActionFindResult,
+  DatabaseActionGetHistoryParams,
   DatabaseActionGetInternalParams,
   DatabaseActionGetParams,
+  DatabaseActionGetVersionParams,
   DatabaseActionEntityResult,
+  DatabaseActionExportParams,
+  DatabaseActionImportParams,
+  DatabaseActionImportResult,
   DatabaseActionListParams,
   DatabaseActionListResult,
+  DatabaseActionRemoveManyParams,
   DatabaseActionRemoveParams,
+  DatabaseActionRestoreParams,
+  DatabaseActionSearchParams,
+  DatabaseActionSearchResult,
+  DatabaseActionUpdateManyParams,
   DatabaseActionUpdateParams,
+  DatabaseActionUpsertParams,
+  DatabaseActionUpsertResult,
 } from './types.js';
 import { DatabaseMethodsMixin } from '../methods.js';
+import { assertNoWriteStages } from '../aggregate.js';
 import { EntityNotFoundError } from '../errors.js';
+import { projectDocument, toBulkItemError } from '../helpers.js';
+import type { DatabaseBulkItemResult } from '../types.js';
+import {
+  type DatabaseHistoryRecord,
+  projectHistoryRecord,
+} from '../history.js';
 import type { CustomActionSchema } from '../../../types/actions.js';
+import type { QueryAdvice } from '../advisor.js';
 import { AjvActionSchemaFactory } from './ajv.js';
-import { parseAndValidateQuery } from './helpers.js';
+import {
+  createCursorFilter,
+  decodeListCursor,
+  encodeListCursor,
+  getCursorSort,
+  reverseSort,
+} from './cursor.js';
+import { parseAndValidateQuery, validateDocument } from './helpers.js';
 import { ActionSchemaFactory } from './shared.js';
+import {
+  createExportStream,
+  DATABASE_TRANSFER_CONTENT_TYPES,
+  readImportRows,
+} from './transfer.js';
 import { ZodActionSchemaFactory } from './zod.js';
 import { isZodSchema } from '../../../zod/zod-helpers.js';
 
@@ -44,24 +81,60 @@ const PUBLISHABLE_ACTIONS: DatabaseActionPublishedNames[] = [
   'list',
   'create',
   'update',
+  'upsert',
   'remove',
+  'createMany',
+  'updateMany',
+  'removeMany',
+  'restore',
+  'search',
+  'export',
+  'import',
+  'getHistory',
+  'getVersion',
 ];
 
+/**
+ * Remove the fields that a published action must not return from the documents of bulk results.
+ */
+function projectBulkResults<T extends Document>(
+  results: DatabaseBulkItemResult<T>[],
+  fields?: string[],
+): DatabaseBulkItemResult<T>[] {
+  return results.map(res =>
+    res.success
+      ? { ...res, document: projectDocument(res.document, fields) }
+      : res,
+  );
+}
+
 /**
  * Create the actions for the database mixin.
  * Read operations:
  * - find (max public)
  * - findStream (max public)
+ * - aggregate (max public)
+ * - queryAdvisorReport (max public, requires queryAdvisor option)
  * - getInternal (max public)
  * - get
  * - countInternal (max public)
  * - count
  * - list
+ * - search (requires search option)
+ * - export (NDJSON or CSV stream)
+ * - getHistory (requires history option)
+ * - getVersion (requires history option)
  *
  * Write operations:
  * - create
  * - update
+ * - upsert (requires upsertKeys option)
  * - remove
+ * - createMany
+ * - updateMany
+ * - removeMany
+ * - restore (requires softDelete option)
+ * - import (NDJSON or CSV stream, inserted or upserted with the upsert option)
  *
  * If some actions are not provided here, it probably means that they are not necessary.
  * For example, there is no `findAllStream` or `updateMany` actions. This is because they are not used
@@ -75,23 +148,50 @@ export function createActions<
 ): Partial<Record<DatabaseActionNames, CustomActionSchema>> {
   const actions: Partial<Record<DatabaseActionNames, CustomActionSchema>> = {};
 
-  const factory: ActionSchemaFactory =
-    opts.actions?.schemaFactory ||
-    (isZodSchema(opts.actions?.schema)
+  // Schemas restricted to publicFields are not named, the named ones have every field
+  const createFactory = (publicFields?: string[]): ActionSchemaFactory =>
+    isZodSchema(opts.actions?.schema)
       ? new ZodActionSchemaFactory({
-          schemaName: opts.actions.schemaName,
+          schemaName: publicFields ? undefined : opts.actions.schemaName,
           schema: opts.actions.schema,
           timestamps: opts.timestamps,
           softDelete: opts.softDelete,
+          versioning: opts.versioning,
           tenantField: opts.tenantField,
+          relations: opts.relations,
+          queryFields: opts.sQueryFields,
+          hiddenFields: opts.actions?.hiddenFields,
+          virtuals: opts.actions?.virtuals,
+          publicFields,
         })
       : new AjvActionSchemaFactory<TSchema>({
-          schemaName: opts.actions?.schemaName,
+          schemaName: publicFields ? undefined : opts.actions?.schemaName,
           schema: opts.actions?.schema,
           timestamps: opts.timestamps,
           softDelete: opts.softDelete,
+          versioning: opts.versioning,
           tenantField: opts.tenantField,
-        }));
+          relations: opts.relations,
+          queryFields: opts.sQueryFields,
+          hiddenFields: opts.actions?.hiddenFields,
+          virtuals: opts.actions?.virtuals,
+          publicFields,
+        });
+  const factory: ActionSchemaFactory =
+    opts.actions?.schemaFactory || createFactory();
+  // Factory of the response schemas of an action, with its publicFields (a custom factory is used as is)
+  const getResponseFactory = (
+    action: DatabaseActionPublishedNames,
+  ): ActionSchemaFactory => {
+    const actionOptions = opts.actions?.[action];
+    return actionOptions &&
+      'publicFields' in actionOptions &&
+      actionOptions.publicFields &&
+      !opts.actions?.schemaFactory
+      ? createFactory(actionOptions.publicFields)
+      : factory;
+  };
+  const sQuerySchema = opts.sQuerySchema || factory.createQuerySchema();
 
   // Check that we have what we need in options
   for (const action of PUBLISHABLE_ACTIONS) {
@@ -108,6 +208,33 @@ export function createActions<
     }
   }
 
+  if ((opts.actions?.getHistory || opts.actions?.getVersion) && !opts.history) {
+    throw new Error('History option is required for history actions');
+  }
+  if (opts.actions?.restore && !opts.softDelete) {
+    throw new Error('SoftDelete option is required for restore action');
+  }
+  if (opts.actions?.upsert && !opts.upsertKeys?.length) {
+    throw new Error('UpsertKeys option is required for upsert action');
+  }
+  if (
+    opts.actions?.import?.upsert &&
+    !opts.upsertKeys?.length &&
+    !opts.actions.import.allowClientId
+  ) {
+    throw new Error(
+      'UpsertKeys or allowClientId option is required for import upsert',
+    );
+  }
+  if (opts.actions?.search && !opts.search) {
+    throw new Error('Search option is required for search action');
+  }
+  if (opts.actions?.queryAdvisorReport && !opts.queryAdvisor) {
+    throw new Error(
+      'QueryAdvisor option is required for queryAdvisorReport action',
+    );
+  }
+
   const schemaName = opts.actions?.schemaName;
 
   if (opts.actions?.find) {
@@ -118,7 +245,16 @@ export function createActions<
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionFindParams<TSchema, TenantField>>,
       ): Promise<DatabaseActionFindResult<TSchema>> {
-        const { query, fields, offset, sort, limit, collation } = ctx.params;
+        const {
+          query,
+          fields,
+          offset,
+          sort,
+          limit,
+          collation,
+          populate,
+          published,
+        } = ctx.params;
 
         let params: TenantParams<TSchema, TenantField> = null;
         if (opts.tenantField) {
@@ -126,15 +262,19 @@ export function createActions<
           params = { [opts.tenantField]: ctx.params[opts.tenantField] };
         }
 
-        return this._find(query || {}, params, {
+        const docs = await this._find(query || {}, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.find),
           fields,
           sort,
           limit,
           skip: offset,
           collation,
+          publishedAction: published ? 'get' : undefined,
           // @ts-expect-error Scope is not always here and TS doesn't like it
           scope: ctx.params.scope,
         });
+        return this._populate(ctx, docs, populate, params, published);
       },
     };
   }
@@ -147,7 +287,8 @@ export function createActions<
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionFindParams<TSchema, TenantField>>,
       ): Promise<Readable> {
-        const { query, fields, offset, sort, limit, collation } = ctx.params;
+        const { query, fields, offset, sort, limit, collation, published } =
+          ctx.params;
 
         let params: TenantParams<TSchema, TenantField> = null;
         if (opts.tenantField) {
@@ -156,11 +297,14 @@ export function createActions<
         }
 
         return this._findStream(query || {}, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.findStream),
           fields,
           sort,
           limit,
           skip: offset,
           collation,
+          publishedAction: published ? 'get' : undefined,
           // @ts-expect-error Scope is not always here and TS doesn't like it
           scope: ctx.params.scope,
         });
@@ -176,7 +320,7 @@ export function createActions<
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionGetInternalParams<TSchema, TenantField>>,
       ): Promise<DatabaseActionEntityResult<TSchema>> {
-        const { fields, _id } = ctx.params;
+        const { fields, _id, populate } = ctx.params;
 
         let params: TenantParams<TSchema, TenantField> = null;
         if (opts.tenantField) {
@@ -186,6 +330,8 @@ export function createActions<
 
         // @ts-expect-error mongo require weird typing for _id making it fail
         const res = await this._findOne({ _id }, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.getInternal),
           fields,
           // @ts-expect-error Scope is not always here and TS doesn't like it
           scope: ctx.params.scope,
@@ -194,6 +340,7 @@ export function createActions<
         if (!res) {
           throw new EntityNotFoundError(_id.toString());
         }
+        await this._populate(ctx, [res], populate, params);
         return res;
       },
     };
@@ -202,14 +349,16 @@ export function createActions<
   if (opts.actions?.get) {
     actions.get = {
       rest: 'GET /:_id',
-      openapi: createOpenAPIResponses(factory.createSchemaWithDbFields()),
+      openapi: createOpenAPIResponses(
+        getResponseFactory('get').createSchemaWithRelations(),
+      ),
       visibility: opts.actions.get.visibility,
       params: factory.createGetParams({ allowFields: false }),
       async handler(
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionGetParams<TSchema, TenantField>>,
       ): Promise<DatabaseActionEntityResult<TSchema>> {
-        const { _id } = ctx.params;
+        const { _id, populate } = ctx.params;
 
         let params: TenantParams<TSchema, TenantField> = null;
         if (opts.tenantField) {
@@ -219,6 +368,9 @@ export function createActions<
 
         // @ts-expect-error mongo require weird typing for _id making it fail
         const res = await this._findOne({ _id }, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.get),
+          publishedAction: 'get',
           // @ts-expect-error Scope is not always here and TS doesn't like it
           scope: ctx.params.scope,
         });
@@ -226,11 +378,119 @@ export function createActions<
         if (!res) {
           throw new EntityNotFoundError(_id.toString());
         }
+        await this._populate(ctx, [res], populate, params, true);
         return res;
       },
     };
   }
 
+  if (opts.actions?.getHistory) {
+    actions.getHistory = {
+      rest: 'GET /:_id/history',
+      openapi: createOpenAPIResponses({
+        type: 'array',
+        items: getResponseFactory('getHistory').createHistoryRecordSchema(),
+      }),
+      visibility: opts.actions.getHistory.visibility,
+      params: factory.createGetHistoryParams(),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionGetHistoryParams<TSchema, TenantField>>,
+      ): Promise<DatabaseHistoryRecord<TSchema>[]> {
+        const { _id, limit = 20, offset } = ctx.params;
+
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+
+        const records = await this._findHistory(_id, params, {
+          limit,
+          skip: offset,
+          ctx,
+        });
+        const fields = this._getPublishedFields('getHistory');
+        return records.map(record => projectHistoryRecord(record, fields));
+      },
+    };
+  }
+
+  if (opts.actions?.getVersion) {
+    actions.getVersion = {
+      rest: 'GET /:_id/history/:version',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('getVersion').createHistoryRecordSchema(),
+      ),
+      visibility: opts.actions.getVersion.visibility,
+      params: factory.createGetVersionParams(),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionGetVersionParams<TSchema, TenantField>>,
+      ): Promise<DatabaseHistoryRecord<TSchema>> {
+        const { _id, version } = ctx.params;
+
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+
+        const [res] = await this._findHistory(_id, params, {
+          version,
+          limit: 1,
+          ctx,
+        });
+        if (!res) {
+          throw new EntityNotFoundError(_id.toString());
+        }
+        return projectHistoryRecord(
+          res,
+          this._getPublishedFields('getVersion'),
+        );
+      },
+    };
+  }
+
+  if (opts.actions?.aggregate) {
+    actions.aggregate = {
+      visibility: opts.actions.aggregate.visibility,
+      params: factory.createAggregateParams(),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionAggregateParams<TSchema, TenantField>>,
+      ): Promise<Document[]> {
+        const { pipeline, collation } = ctx.params;
+        assertNoWriteStages(pipeline);
+
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+
+        return this._aggregate<Document>(pipeline, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.aggregate),
+          collation,
+          // @ts-expect-error Scope is not always here and TS doesn't like it
+          scope: ctx.params.scope,
+        });
+      },
+    };
+  }
+
+  if (opts.actions?.queryAdvisorReport) {
+    actions.queryAdvisorReport = {
+      visibility: opts.actions.queryAdvisorReport.visibility,
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+      ): Promise<QueryAdvice[]> {
+        return this._getQueryAdvisorReport();
+      },
+    };
+  }
+
   if (opts.actions?.countInternal) {
     actions.countInternal = {
       visibility: opts.actions.countInternal.visibility,
@@ -247,6 +507,8 @@ export function createActions<
           params = { [opts.tenantField]: ctx.params[opts.tenantField] };
         }
         return this._countDocuments(query || {}, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.countInternal),
           // @ts-expect-error Scope is not always here and TS doesn't like it
           scope: ctx.params.scope,
         });
@@ -268,7 +530,7 @@ export function createActions<
 
         const query = parseAndValidateQuery(
           this.broker.validator!,
-          opts.sQuerySchema,
+          sQuerySchema,
           sQuery,
         );
 
@@ -278,21 +540,226 @@ export function createActions<
           params = { [opts.tenantField]: ctx.params[opts.tenantField] };
         }
         return this._countDocuments(query, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.count),
+          // @ts-expect-error Scope is not always here and TS doesn't like it
+          scope: ctx.params.scope,
+        });
+      },
+    };
+  }
+
+  if (opts.actions?.search) {
+    actions.search = {
+      rest: 'GET /search',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('search').createSearchResponse(),
+      ),
+      visibility: opts.actions.search.visibility,
+      params: factory.createSearchParams({
+        maxPageSize: opts.actions.search.maxPageSize,
+        facets: opts.search?.facets,
+      }),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionSearchParams<TSchema, TenantField>>,
+      ): Promise<DatabaseActionSearchResult<TSchema>> {
+        const { q, facets, highlight } = ctx.params;
+
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+        const page = ctx.params.page || 0;
+        const pageSize =
+          ctx.params.pageSize || opts.actions?.search?.defaultPageSize || 10;
+
+        const res = await this._search(q, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.search),
+          publishedAction: 'search',
+          facets,
+          highlight,
+          limit: pageSize,
+          skip: page * pageSize,
+          // @ts-expect-error Scope is not always here and TS doesn't like it
+          scope: ctx.params.scope,
+        });
+
+        return {
+          ...res,
+          page,
+          pageSize,
+          totalPages: Math.floor((res.total + pageSize - 1) / pageSize),
+        };
+      },
+    };
+  }
+
+  if (opts.actions?.export) {
+    actions.export = {
+      rest: 'GET /export',
+      visibility: opts.actions.export.visibility,
+      params: factory.createExportParams(),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<
+          DatabaseActionExportParams<TSchema, TenantField>,
+          Record<string, unknown>
+        >,
+      ): Promise<Readable> {
+        const { format = 'ndjson', fields, sQuery, sort } = ctx.params;
+
+        const query = parseAndValidateQuery<TSchema>(
+          this.broker.validator!,
+          sQuerySchema,
+          sQuery,
+        );
+
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+
+        const docs = this._findStream(query, params, {
+          ctx,
+          ...this._getReadOptions(ctx, opts.actions?.export),
+          publishedAction: 'export',
+          fields,
+          sort,
           // @ts-expect-error Scope is not always here and TS doesn't like it
           scope: ctx.params.scope,
         });
+
+        // Used by moleculer-web to send the stream as a file
+        ctx.meta.$responseType = DATABASE_TRANSFER_CONTENT_TYPES[format];
+        ctx.meta.$responseHeaders = {
+          'Content-Disposition': `attachment; filename="${this.name}.${format}"`,
+        };
+        return pipeline(docs, createExportStream(format, fields), err => {
+          if (err) {
+            this.logger.error('Export failed', err);
+          }
+        });
       },
     };
   }
 
-  if (opts.actions?.list) {
+  if (opts.actions?.list?.pagination === 'cursor') {
+    actions.list = {
+      rest: 'GET /',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('list').createListResponse({ pagination: 'cursor' }),
+      ),
+      visibility: opts.actions.list.visibility,
+      params: factory.createListParams({
+        queryType: 'stringified',
+        maxPageSize: opts.actions.list.maxPageSize,
+        pagination: 'cursor',
+      }),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionCursorListParams<TSchema, TenantField>>,
+      ): Promise<DatabaseActionCursorListResult<TSchema>> {
+        const {
+          sQuery,
+          sort = opts.actions?.list?.defaultSort,
+          cursor,
+          withTotal,
+          collation,
+          populate,
+        } = ctx.params;
+
+        const query = parseAndValidateQuery<TSchema>(
+          this.broker.validator!,
+          sQuerySchema,
+          sQuery,
+        );
+
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+        const pageSize =
+          ctx.params.pageSize || opts.actions?.list?.defaultPageSize || 10;
+
+        const cursorSort = getCursorSort(sort);
+        const payload = cursor
+          ? decodeListCursor(cursor, cursorSort)
+          : undefined;
+        const isPrev = payload?.d === 'prev';
+
+        const [docs, total] = await Promise.all([
+          this._find(
+            payload
+              ? {
+                  ...query,
+                  $and: [...(query.$and || []), createCursorFilter(payload)],
+                }
+              : query,
+            params,
+            {
+              ctx,
+              ...this._getReadOptions(ctx, opts.actions?.list),
+              publishedAction: 'list',
+              // Fetch one more document to know if there is another page
+              limit: pageSize + 1,
+              sort: isPrev ? reverseSort(cursorSort) : cursorSort,
+              // @ts-expect-error Scope is not always here and TS doesn't like it
+              scope: ctx.params.scope,
+              collation,
+            },
+          ),
+          withTotal
+            ? this._countDocuments(query, params, {
+                ctx,
+                ...this._getReadOptions(ctx, opts.actions?.list),
+                // @ts-expect-error Scope is not always here and TS doesn't like it
+                scope: ctx.params.scope,
+                collation,
+              })
+            : undefined,
+        ]);
+
+        const hasMore = docs.length > pageSize;
+        const rows = docs.slice(0, pageSize);
+        if (isPrev) {
+          rows.reverse();
+        }
+        const first = rows[0];
+        const last = rows[rows.length - 1];
+        await this._populate(ctx, rows, populate, params, true);
+
+        return {
+          rows,
+          pageSize,
+          // Going backward means there is always a next page
+          nextCursor:
+            last && (isPrev || hasMore)
+              ? encodeListCursor(last, cursorSort, 'next')
+              : null,
+          prevCursor:
+            first && (isPrev ? hasMore : !!payload)
+              ? encodeListCursor(first, cursorSort, 'prev')
+              : null,
+          ...(total !== undefined ? { total } : {}),
+        };
+      },
+    };
+  } else if (opts.actions?.list) {
     actions.list = {
       rest: 'GET /',
-      openapi: createOpenAPIResponses(factory.createListResponse()),
+      openapi: createOpenAPIResponses(
+        getResponseFactory('list').createListResponse({ pagination: 'page' }),
+      ),
       visibility: opts.actions.list.visibility,
       params: factory.createListParams({
         queryType: 'stringified',
         maxPageSize: opts.actions.list.maxPageSize,
+        pagination: 'page',
       }),
       async handler(
         this: DatabaseActionThis<TSchema, TenantField>,
@@ -302,11 +769,12 @@ export function createActions<
           sQuery,
           sort = opts.actions?.list?.defaultSort,
           collation,
+          populate,
         } = ctx.params;
 
         const query = parseAndValidateQuery(
           this.broker.validator!,
-          opts.sQuerySchema,
+          sQuerySchema,
           sQuery,
         );
 
@@ -321,6 +789,9 @@ export function createActions<
 
         const [rows, total] = await Promise.all([
           this._find(query, params, {
+            ctx,
+            ...this._getReadOptions(ctx, opts.actions?.list),
+            publishedAction: 'list',
             limit: pageSize,
             skip: page * pageSize,
             sort,
@@ -329,12 +800,16 @@ export function createActions<
             collation,
           }),
           this._countDocuments(query, params, {
+            ctx,
+            ...this._getReadOptions(ctx, opts.actions?.list),
             // @ts-expect-error Scope is not always here and TS doesn't like it
             scope: ctx.params.scope,
             collation,
           }),
         ]);
 
+        await this._populate(ctx, rows, populate, params, true);
+
         return {
           rows,
           page,
@@ -349,17 +824,20 @@ export function createActions<
   if (opts.actions?.create) {
     actions.create = {
       rest: 'POST /',
-      openapi: createOpenAPIResponses(factory.createSchemaWithDbFields()),
+      openapi: createOpenAPIResponses(
+        getResponseFactory('create').createSchemaWithDbFields(),
+      ),
       visibility: opts.actions.create.visibility,
       bodySchemaRefName: schemaName && `Create${schemaName}`,
       params: factory.createCreateParams({
         allowClientId: opts.actions.create.allowClientId,
       }),
-      handler(
+      async handler(
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionCreateParams<TSchema>>,
       ): Promise<DatabaseActionEntityResult<TSchema>> {
-        return this._insertOne(ctx, ctx.params);
+        const res = await this._insertOne(ctx, ctx.params);
+        return this._projectPublishedDocument('create', res);
       },
     };
   }
@@ -367,10 +845,12 @@ export function createActions<
   if (opts.actions?.update) {
     actions.update = {
       rest: 'PATCH /:_id',
-      openapi: createOpenAPIResponses(factory.createSchemaWithDbFields()),
+      openapi: createOpenAPIResponses(
+        getResponseFactory('update').createSchemaWithDbFields(),
+      ),
       visibility: opts.actions.update.visibility,
       params: factory.createUpdateParams(),
-      handler(
+      async handler(
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionUpdateParams<TSchema, TenantField>>,
       ): Promise<DatabaseActionEntityResult<TSchema>> {
@@ -380,10 +860,41 @@ export function createActions<
           params = { [opts.tenantField]: ctx.params[opts.tenantField] };
         }
 
+        const res = await this._updateOne(
+          ctx,
+          // @ts-expect-error mongo require weird typing for _id making it fail
+          { _id: ctx.params._id },
+          params,
+          { $set: ctx.params },
+          // The version field is removed from $set by _prepareUpdateFilter
+          { expectedVersion: opts.versioning ? ctx.params.version : undefined },
+        );
         // @ts-expect-error TenantField is not always here and TS doesn't like it
-        return this._updateOne(ctx, { _id: ctx.params._id }, params, {
-          $set: ctx.params,
-        });
+        return res && this._projectPublishedDocument('update', res);
+      },
+    };
+  }
+
+  if (opts.actions?.upsert) {
+    actions.upsert = {
+      rest: 'PUT /',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('upsert').createUpsertResponse(),
+      ),
+      visibility: opts.actions.upsert.visibility,
+      bodySchemaRefName: schemaName && `Upsert${schemaName}`,
+      params: factory.createCreateParams({
+        allowClientId: opts.actions.upsert.allowClientId,
+      }),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionUpsertParams<TSchema>>,
+      ): Promise<DatabaseActionUpsertResult<TSchema>> {
+        const { document, created } = await this._upsertOne(ctx, ctx.params);
+        return {
+          document: await this._projectPublishedDocument('upsert', document),
+          created,
+        };
       },
     };
   }
@@ -391,10 +902,12 @@ export function createActions<
   if (opts.actions?.remove) {
     actions.remove = {
       rest: 'DELETE /:_id',
-      openapi: createOpenAPIResponses(factory.createSchemaWithDbFields()),
+      openapi: createOpenAPIResponses(
+        getResponseFactory('remove').createSchemaWithDbFields(),
+      ),
       visibility: opts.actions.remove.visibility,
       params: factory.createRemoveParams(),
-      handler(
+      async handler(
         this: DatabaseActionThis<TSchema, TenantField>,
         ctx: Context<DatabaseActionRemoveParams<TSchema>>,
       ): Promise<DatabaseActionEntityResult<TSchema>> {
@@ -405,7 +918,250 @@ export function createActions<
         }
 
         // @ts-expect-error For some reason, _id is not correctly typed by mongo in some cases
-        return this._deleteOne(ctx, { _id: ctx.params._id }, params);
+        const res = await this._deleteOne(ctx, { _id: ctx.params._id }, params);
+        // @ts-expect-error Removed document can be null
+        return res && this._projectPublishedDocument('remove', res);
+      },
+    };
+  }
+
+  if (opts.actions?.restore) {
+    actions.restore = {
+      rest: 'POST /:_id/restore',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('restore').createSchemaWithDbFields(),
+      ),
+      visibility: opts.actions.restore.visibility,
+      params: factory.createRemoveParams(),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionRestoreParams<TSchema>>,
+      ): Promise<DatabaseActionEntityResult<TSchema>> {
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error TenantField is not always here and TS doesn't like it
+          params = { [opts.tenantField]: ctx.params[opts.tenantField] };
+        }
+
+        const { _id } = ctx.params;
+        // @ts-expect-error For some reason, _id is not correctly typed by mongo in some cases
+        const res = await this._restoreOne(ctx, { _id }, params);
+        if (!res) {
+          throw new EntityNotFoundError(_id.toString());
+        }
+        return this._projectPublishedDocument('restore', res);
+      },
+    };
+  }
+
+  if (opts.actions?.import) {
+    const { batchSize = 100, upsert } = opts.actions.import;
+    // Without upsertKeys, rows are upserted by their _id
+    const upsertKeys = opts.upsertKeys?.length ? undefined : ['_id'];
+    // Same schema object for every row, so it is only compiled once by the validator
+    const rowSchema = factory.createCreateParams({
+      allowClientId: opts.actions.import.allowClientId,
+    });
+
+    actions.import = {
+      rest: 'POST /import',
+      openapi: createOpenAPIResponses(factory.createImportResponse()),
+      visibility: opts.actions.import.visibility,
+      params: factory.createImportParams(),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionImportParams<TSchema, TenantField>>,
+      ): Promise<DatabaseActionImportResult> {
+        if (!ctx.stream) {
+          throw new Errors.ValidationError('Missing file to import');
+        }
+        const { format = 'ndjson' } = ctx.params;
+        // Rows are plain documents until they are validated
+        const tenantField: string | false = opts.tenantField;
+        const tenant: unknown = tenantField
+          ? // @ts-expect-error TenantField is not always here and TS doesn't like it
+            ctx.params[tenantField]
+          : undefined;
+
+        const result: DatabaseActionImportResult = {
+          total: 0,
+          inserted: 0,
+          updated: 0,
+          errors: [],
+        };
+        let batch: Array<{ line: number; document: OptionalId<TSchema> }> = [];
+        const upsertBatch = async () => {
+          const results = await this._bulkUpsert(
+            ctx,
+            batch.map(item => item.document),
+            { keys: upsertKeys },
+          );
+          results.forEach((res, i) => {
+            if (!res.success) {
+              result.errors.push({ line: batch[i].line, error: res.error });
+            } else if (res.created) {
+              result.inserted += 1;
+            } else {
+              result.updated += 1;
+            }
+          });
+          batch = [];
+        };
+        const insertBatch = async () => {
+          const results = await this._bulkInsert(
+            ctx,
+            batch.map(item => item.document),
+          );
+          results.forEach((res, i) => {
+            if (res.success) {
+              result.inserted += 1;
+            } else {
+              result.errors.push({ line: batch[i].line, error: res.error });
+            }
+          });
+          batch = [];
+        };
+        const writeBatch = upsert ? upsertBatch : insertBatch;
+
+        for await (const row of readImportRows(
+          ctx.stream as Readable,
+          format,
+        )) {
+          result.total += 1;
+          try {
+            if ('error' in row) {
+              throw new Errors.ValidationError(row.error);
+            }
+            if (tenantField) {
+              row.document[tenantField] ??= tenant;
+            }
+            const document = validateDocument(
+              this.broker.validator!,
+              rowSchema,
+              row.document,
+            );
+            if (
+              tenantField &&
+              String(document[tenantField]) !== String(tenant)
+            ) {
+              throw new Errors.ValidationError(
+                `Invalid ${tenantField}, expected ${String(tenant)}`,
+              );
+            }
+            batch.push({
+              line: row.line,
+              document: document as OptionalId<TSchema>,
+            });
+          } catch (err) {
+            result.errors.push({ line: row.line, error: toBulkItemError(err) });
+          }
+
+          if (batch.length >= batchSize) {
+            await writeBatch();
+          }
+        }
+        if (batch.length) {
+          await writeBatch();
+        }
+        return result;
+      },
+    };
+  }
+
+  if (opts.actions?.createMany) {
+    actions.createMany = {
+      rest: 'POST /bulk/create',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('createMany').createBulkResponse(),
+      ),
+      visibility: opts.actions.createMany.visibility,
+      bodySchemaRefName: schemaName && `CreateMany${schemaName}`,
+      params: factory.createCreateManyParams({
+        allowClientId: opts.actions.createMany.allowClientId,
+        maxItems: opts.actions.createMany.maxItems,
+      }),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionCreateManyParams<TSchema>>,
+      ): Promise<DatabaseActionBulkResult<TSchema>> {
+        const results = await this._bulkInsert(ctx, ctx.params.items);
+        return projectBulkResults(
+          results,
+          this._getPublishedFields('createMany'),
+        );
+      },
+    };
+  }
+
+  if (opts.actions?.updateMany) {
+    actions.updateMany = {
+      rest: 'POST /bulk/update',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('updateMany').createBulkResponse(),
+      ),
+      visibility: opts.actions.updateMany.visibility,
+      params: factory.createUpdateManyParams({
+        maxItems: opts.actions.updateMany.maxItems,
+      }),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionUpdateManyParams<TSchema, TenantField>>,
+      ): Promise<DatabaseActionBulkResult<TSchema>> {
+        const results = await this._bulkUpdate(
+          ctx,
+          ctx.params.items.map(item => {
+            let params: TenantParams<TSchema, TenantField> = null;
+            if (opts.tenantField) {
+              // @ts-expect-error TenantField is not always here and TS doesn't like it
+              params = { [opts.tenantField]: item[opts.tenantField] };
+            }
+            return {
+              // _id is required by the params schema
+              _id: item._id!,
+              params,
+              changes: { $set: item },
+              // The version field is removed from $set by _prepareUpdateFilter
+              expectedVersion: opts.versioning ? item.version : undefined,
+            };
+          }),
+        );
+        return projectBulkResults(
+          results,
+          this._getPublishedFields('updateMany'),
+        );
+      },
+    };
+  }
+
+  if (opts.actions?.removeMany) {
+    actions.removeMany = {
+      rest: 'POST /bulk/remove',
+      openapi: createOpenAPIResponses(
+        getResponseFactory('removeMany').createBulkResponse(),
+      ),
+      visibility: opts.actions.removeMany.visibility,
+      params: factory.createRemoveManyParams({
+        maxItems: opts.actions.removeMany.maxItems,
+      }),
+      async handler(
+        this: DatabaseActionThis<TSchema, TenantField>,
+        ctx: Context<DatabaseActionRemoveManyParams<TSchema, TenantField>>,
+      ): Promise<DatabaseActionBulkResult<TSchema>> {
+        const results = await this._bulkDelete(
+          ctx,
+          ctx.params.items.map(item => {
+            let params: TenantParams<TSchema, TenantField> = null;
+            if (opts.tenantField) {
+              // @ts-expect-error TenantField is not always here and TS doesn't like it
+              params = { [opts.tenantField]: item[opts.tenantField] };
+            }
+            return { _id: item._id, params };
+          }),
+        );
+        return projectBulkResults(
+          results,
+          this._getPublishedFields('removeMany'),
+        );
       },
     };
   }
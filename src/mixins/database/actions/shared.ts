@@ -9,27 +9,106 @@ export enum QueryOp {
   LT = '$lt',
   LTE = '$lte',
   IN = '$in',
+  NIN = '$nin',
   EQ = '$eq',
   NE = '$ne',
+  EXISTS = '$exists',
+  // Case insensitive substring, converted to an escaped $regex (see resolveQueryOps)
+  CONTAINS = '$contains',
+  // Prefix, converted to an escaped $regex (see resolveQueryOps)
+  STARTS_WITH = '$startsWith',
+}
+
+/**
+ * Fields that can be filtered in sQuery, with their allowed operators (equality is always allowed).
+ * Nested fields use the dot notation (e.g. `address.city`).
+ */
+export type ActionQueryFields = Partial<Record<string, QueryOp[]>>;
+
+/**
+ * Return the top-level fields of a fields list (dot notation allowed), with _id as it is always returned.
+ */
+export function getTopLevelFields(fields: string[]): string[] {
+  return [...new Set(['_id', ...fields.map(f => f.split('.')[0])])];
+}
+
+/**
+ * Describe the sQuery grammar of the given fields, used in OpenAPI.
+ */
+export function getQueryDescription(fields: ActionQueryFields): string {
+  const lines = Object.entries(fields).map(([field, ops = []]) =>
+    ops.length ? `- ${field}: ${ops.join(', ')}` : `- ${field}`,
+  );
+  return [
+    'JSON encoded filter. Fields and operators (besides equality):',
+    ...lines,
+    'Other fields and operators are rejected.',
+  ].join('\n');
 }
 
 export type ActionGetParamsOptions = { allowFields?: boolean };
 
 export type ActionCountParamsOptions = { queryType: 'object' | 'stringified' };
 
+/**
+ * Pagination mode of the list action:
+ * - page: page/pageSize params with skip, always returns the total
+ * - cursor: opaque cursors based on the sort fields (keyset pagination), total is optional
+ */
+export type ListPaginationMode = 'page' | 'cursor';
+
 export type ActionListParamsOptions = {
   queryType: 'object' | 'stringified';
   maxPageSize?: number;
+  pagination?: ListPaginationMode;
+};
+
+export type ActionListResponseOptions = { pagination?: ListPaginationMode };
+
+export type ActionSearchParamsOptions = {
+  maxPageSize?: number;
+  // Fields that can be requested as facets (see search option)
+  facets?: string[];
 };
 
 export type ActionCreateParamsOptions = { allowClientId?: boolean };
 
+export type ActionBulkParamsOptions = { maxItems?: number };
+
+export type ActionCreateManyParamsOptions = ActionCreateParamsOptions &
+  ActionBulkParamsOptions;
+
+/**
+ * Relation that can be populated (see DatabaseRelation), only what is needed for the schemas.
+ */
+export type ActionRelationSchemaOptions = {
+  many?: boolean;
+  schema?: ValidationSchema | ZodType;
+};
+
+/**
+ * Virtual field (see DatabaseVirtual), only what is needed for the schemas.
+ */
+export type ActionVirtualSchemaOptions = {
+  schema?: ValidationSchema | ZodType;
+};
+
 export type ActionSchemaFactoryOptions<S, TSchema extends Document> = {
   schemaName?: string;
   schema?: S;
   timestamps: boolean;
   softDelete: boolean;
+  versioning?: boolean;
   tenantField: KeyString<TSchema> | false;
+  relations?: Record<string, ActionRelationSchemaOptions>;
+  // Fields of the generated sQuery schema (see createQuerySchema)
+  queryFields?: ActionQueryFields;
+  // Top-level fields removed from the response schemas (see hiddenFields action option)
+  hiddenFields?: string[];
+  // Optional fields added to the response schemas (see virtuals action option)
+  virtuals?: Record<string, ActionVirtualSchemaOptions>;
+  // Only fields of the response schemas, the top-level field of each path is kept (see publicFields action option)
+  publicFields?: string[];
 };
 
 export interface ActionSchemaFactory<
@@ -40,14 +119,26 @@ export interface ActionSchemaFactory<
 
   /**
    * Function that make auto generated fields mandatory.
+   * Virtual fields are added as optional fields, only the publicFields are kept if given.
    */
   createSchemaWithDbFields(): S;
 
+  /**
+   * Schema with db fields and the relations that can be populated (see relations option).
+   * Same as createSchemaWithDbFields without relations.
+   */
+  createSchemaWithRelations(): S;
+
   /**
    * Create the params for the find action.
    */
   createFindParams(): S;
 
+  /**
+   * Create the params for the aggregate action.
+   */
+  createAggregateParams(): S;
+
   /**
    * Create get AND getInternal action params.
    */
@@ -66,7 +157,23 @@ export interface ActionSchemaFactory<
   /**
    * Create list action result JSON schema.
    */
-  createListResponse(): S;
+  createListResponse(params: ActionListResponseOptions): S;
+
+  /**
+   * Create the sQuery schema from the queryFields option and the document schema,
+   * undefined without queryFields.
+   */
+  createQuerySchema(): S | undefined;
+
+  /**
+   * Create search action params.
+   */
+  createSearchParams(params: ActionSearchParamsOptions): S;
+
+  /**
+   * Create search action result JSON schema.
+   */
+  createSearchResponse(): S;
 
   /**
    * Create 'create' action params.
@@ -78,8 +185,63 @@ export interface ActionSchemaFactory<
    */
   createUpdateParams(): S;
 
+  /**
+   * Create 'upsert' action result JSON schema (params are the same as create).
+   */
+  createUpsertResponse(): S;
+
   /**
    * Create 'remove' action params.
    */
   createRemoveParams(): S;
+
+  /**
+   * Create 'createMany' action params.
+   */
+  createCreateManyParams(params: ActionCreateManyParamsOptions): S;
+
+  /**
+   * Create 'updateMany' action params.
+   */
+  createUpdateManyParams(params: ActionBulkParamsOptions): S;
+
+  /**
+   * Create 'removeMany' action params.
+   */
+  createRemoveManyParams(params: ActionBulkParamsOptions): S;
+
+  /**
+   * Create bulk actions (createMany, updateMany, removeMany) result JSON schema.
+   */
+  createBulkResponse(): S;
+
+  /**
+   * Create 'export' action params.
+   */
+  createExportParams(): S;
+
+  /**
+   * Create 'import' action params (the file is the context stream).
+   */
+  createImportParams(): S;
+
+  /**
+   * Create 'import' action result JSON schema.
+   */
+  createImportResponse(): S;
+
+  /**
+   * Create the JSON schema of a history record (see history option).
+   */
+  createHistoryRecordSchema(): S;
+
+  /**
+   * Create 'getHistory' action params.
+   */
+  createGetHistoryParams(): S;
+
+  /**
+   * Create 'getVersion' action params.
+   */
+  createGetVersionParams(): S;
 }
@@ -0,0 +1,189 @@
+import { createInterface } from 'node:readline';
+import { type Readable, Transform } from 'stream';
+import { get, set } from 'es-toolkit/compat';
+import { type Document, ObjectId } from 'mongodb';
+
+export const DATABASE_TRANSFER_FORMATS = ['ndjson', 'csv'] as const;
+
+/**
+ * Format of the export and import actions:
+ * - ndjson: one JSON document per line
+ * - csv: a header line with the fields, then one document per line.
+ *   Objects and arrays are written as JSON, nested fields can be used as columns (e.g. `address.city`).
+ */
+export type DatabaseTransferFormat = (typeof DATABASE_TRANSFER_FORMATS)[number];
+
+export const DATABASE_TRANSFER_CONTENT_TYPES: Record<
+  DatabaseTransferFormat,
+  string
+> = {
+  ndjson: 'application/x-ndjson',
+  csv: 'text/csv',
+};
+
+/**
+ * Row read from an imported file, with its line number (starting at 1).
+ */
+export type DatabaseImportRow =
+  | { line: number; document: Document }
+  | { line: number; error: string };
+
+function getCsvCell(value: unknown): string {
+  let str: string;
+  if (value === undefined || value === null) {
+    return '';
+  } else if (value instanceof Date) {
+    str = value.toISOString();
+  } else if (value instanceof ObjectId) {
+    str = value.toHexString();
+  } else if (typeof value === 'object') {
+    str = JSON.stringify(value);
+  } else {
+    str = String(value);
+  }
+  return /[",\r\n]/.test(str) ? `"${str.replaceAll('"', '""')}"` : str;
+}
+
+/**
+ * Create a stream converting documents to the export format.
+ * CSV columns are the given fields, or the fields of the first document.
+ */
+export function createExportStream(
+  format: DatabaseTransferFormat,
+  fields?: string[],
+): Transform {
+  let columns = fields?.length ? fields : undefined;
+  let hasHeader = false;
+  const getHeader = (cols: string[]) => {
+    hasHeader = true;
+    return `${cols.map(getCsvCell).join(',')}\n`;
+  };
+
+  return new Transform({
+    writableObjectMode: true,
+    transform(doc: Document, _encoding, callback) {
+      if (format === 'ndjson') {
+        callback(null, `${JSON.stringify(doc)}\n`);
+        return;
+      }
+      columns ||= Object.keys(doc);
+      const header = hasHeader ? '' : getHeader(columns);
+      const row = columns.map(col => getCsvCell(get(doc, col))).join(',');
+      callback(null, `${header}${row}\n`);
+    },
+    flush(callback) {
+      // Keep the header of empty exports when the fields are known
+      callback(
+        null,
+        format === 'csv' && columns && !hasHeader ? getHeader(columns) : null,
+      );
+    },
+  });
+}
+
+function parseCsvRecord(record: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < record.length; i += 1) {
+    const char = record[i];
+    if (quoted) {
+      if (char === '"' && record[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+}
+
+function createCsvDocument(header: string[], cells: string[]): Document {
+  const doc: Document = {};
+  header.forEach((field, i) => {
+    const cell = cells[i];
+    // Empty cells are missing fields
+    if (!cell) {
+      return;
+    }
+    let value: unknown = cell;
+    if (/^[[{]/.test(cell)) {
+      try {
+        value = JSON.parse(cell);
+      } catch {
+        // Not JSON, keep the string
+      }
+    }
+    set(doc, field, value);
+  });
+  return doc;
+}
+
+/**
+ * Read the rows of an imported file. Invalid lines are returned with an error
+ * so the import can continue and report them.
+ * CSV values are strings (objects and arrays excepted), they are converted by the validator.
+ */
+export async function* readImportRows(
+  input: Readable,
+  format: DatabaseTransferFormat,
+): AsyncGenerator<DatabaseImportRow> {
+  const lines = createInterface({ input, crlfDelay: Infinity });
+  let lineNumber = 0;
+  let header: string[] | undefined;
+  let record = '';
+  let recordLine = 0;
+
+  for await (const line of lines) {
+    lineNumber += 1;
+
+    if (format === 'ndjson') {
+      if (!line.trim()) {
+        continue;
+      }
+      let doc: unknown;
+      try {
+        doc = JSON.parse(line);
+      } catch {
+        yield { line: lineNumber, error: 'Invalid JSON' };
+        continue;
+      }
+      yield doc && typeof doc === 'object' && !Array.isArray(doc)
+        ? { line: lineNumber, document: doc as Document }
+        : { line: lineNumber, error: 'Line is not a JSON object' };
+      continue;
+    }
+
+    record = record ? `${record}\n${line}` : line;
+    recordLine ||= lineNumber;
+    // Quoted values can contain line breaks, wait for the closing quote
+    if ((record.match(/"/g)?.length || 0) % 2) {
+      continue;
+    }
+    const cells = parseCsvRecord(record);
+    const start = recordLine;
+    record = '';
+    recordLine = 0;
+
+    if (!header) {
+      header = cells;
+    } else if (cells.some(Boolean)) {
+      yield { line: start, document: createCsvDocument(header, cells) };
+    }
+  }
+
+  if (record) {
+    yield { line: recordLine, error: 'Unterminated quoted value' };
+  }
+}
@@ -7,10 +7,29 @@ import type {
 } from 'mongodb';
 import type { KeyString } from '../mixin-types.js';
 import type {
+  DatabaseBulkItemError,
+  DatabaseBulkItemResult,
   DatabaseSoftDeleteScope,
   WithDbFields,
   WithOptionalId,
 } from '../types.js';
+import type { DatabaseSearchResult } from '../search.js';
+import type { DatabaseTransferFormat } from './transfer.js';
+
+export type DatabaseActionAggregateParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  // Aggregation pipeline, tenant and soft delete filters are added
+  pipeline: Document[];
+  // Collation
+  collation?: CollationOptions;
+} & (TSchema extends { deletedAt?: Date }
+  ? { scope?: DatabaseSoftDeleteScope }
+  : NonNullable<unknown>) &
+  (TenantField extends KeyString<TSchema>
+    ? { [key in TenantField]: TSchema[TenantField] }
+    : NonNullable<unknown>);
 
 export type DatabaseActionFindParams<
   TSchema extends Document & { _id: ObjectId | string },
@@ -27,6 +46,10 @@ export type DatabaseActionFindParams<
   offset?: number;
   // Collation
   collation?: CollationOptions;
+  // Relations to populate (see relations option)
+  populate?: string[];
+  // Return the documents as the get action does (see hiddenFields and publicFields), used by _populate
+  published?: boolean;
 } & (TSchema extends { deletedAt?: Date }
   ? { scope?: DatabaseSoftDeleteScope }
   : NonNullable<unknown>) &
@@ -45,6 +68,8 @@ export type DatabaseActionGetInternalParams<
   _id: InferIdType<TSchema>;
   // Fields projection
   fields?: string[];
+  // Relations to populate (see relations option)
+  populate?: string[];
 } & (TSchema extends { deletedAt?: Date }
   ? { scope?: DatabaseSoftDeleteScope }
   : NonNullable<unknown>) &
@@ -60,6 +85,8 @@ export type DatabaseActionGetParams<
   TenantField extends KeyString<TSchema> | false = false,
 > = {
   _id: InferIdType<TSchema>;
+  // Relations to populate (see relations option)
+  populate?: string[];
 } & (TSchema extends { deletedAt?: Date }
   ? { scope?: DatabaseSoftDeleteScope }
   : NonNullable<unknown>) &
@@ -106,6 +133,8 @@ export type DatabaseActionListParams<
   pageSize?: number;
   // Collation
   collation?: CollationOptions;
+  // Relations to populate (see relations option)
+  populate?: string[];
 } & (TSchema extends { deletedAt?: Date }
   ? { scope?: DatabaseSoftDeleteScope }
   : NonNullable<unknown>) &
@@ -121,6 +150,65 @@ export type DatabaseActionListResult<TSchema extends Document> = {
   totalPages: number;
 };
 
+export type DatabaseActionCursorListParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  // Stringified MongoDB Query
+  sQuery?: string;
+  // Sort option
+  sort?: string[];
+  // Pagination
+  cursor?: string;
+  pageSize?: number;
+  // Also count the documents matching the query (disabled by default)
+  withTotal?: boolean;
+  // Collation
+  collation?: CollationOptions;
+  // Relations to populate (see relations option)
+  populate?: string[];
+} & (TSchema extends { deletedAt?: Date }
+  ? { scope?: DatabaseSoftDeleteScope }
+  : NonNullable<unknown>) &
+  (TenantField extends KeyString<TSchema>
+    ? { [key in TenantField]: TSchema[TenantField] }
+    : NonNullable<unknown>);
+
+export type DatabaseActionCursorListResult<TSchema extends Document> = {
+  rows: Array<TSchema>;
+  pageSize: number;
+  nextCursor: string | null;
+  prevCursor: string | null;
+  total?: number;
+};
+
+export type DatabaseActionSearchParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  // Searched text
+  q: string;
+  // Pagination
+  page?: number;
+  pageSize?: number;
+  // Fields to return the most frequent values of (see search option)
+  facets?: string[];
+  // Return the highlights of the matched terms (Atlas only)
+  highlight?: boolean;
+} & (TSchema extends { deletedAt?: Date }
+  ? { scope?: DatabaseSoftDeleteScope }
+  : NonNullable<unknown>) &
+  (TenantField extends KeyString<TSchema>
+    ? { [key in TenantField]: TSchema[TenantField] }
+    : NonNullable<unknown>);
+
+export type DatabaseActionSearchResult<TSchema extends Document> =
+  DatabaseSearchResult<TSchema> & {
+    page: number;
+    pageSize: number;
+    totalPages: number;
+  };
+
 export type DatabaseActionCreateParams<
   TSchema extends Document & { _id: ObjectId | string },
 > = WithOptionalId<TSchema>;
@@ -133,9 +221,104 @@ export type DatabaseActionUpdateParams<
     ? { [key in TenantField]: TSchema[TenantField] }
     : NonNullable<unknown>);
 
+export type DatabaseActionUpsertParams<
+  TSchema extends Document & { _id: ObjectId | string },
+> = DatabaseActionCreateParams<TSchema>;
+
+export type DatabaseActionUpsertResult<TSchema extends Document> = {
+  document: DatabaseActionEntityResult<TSchema>;
+  // True if the document was inserted, false if an existing one was updated
+  created: boolean;
+};
+
 export type DatabaseActionRemoveParams<
   TSchema extends Document & { _id: ObjectId | string },
   TenantField extends KeyString<TSchema> | false = false,
 > = { _id: InferIdType<TSchema> } & (TenantField extends KeyString<TSchema>
   ? { [key in TenantField]: TSchema[TenantField] }
   : NonNullable<unknown>);
+
+// Same params as remove, the document must be deleted
+export type DatabaseActionRestoreParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = DatabaseActionRemoveParams<TSchema, TenantField>;
+
+export type DatabaseActionCreateManyParams<
+  TSchema extends Document & { _id: ObjectId | string },
+> = { items: DatabaseActionCreateParams<TSchema>[] };
+
+export type DatabaseActionUpdateManyParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = { items: DatabaseActionUpdateParams<TSchema, TenantField>[] };
+
+export type DatabaseActionRemoveManyParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = { items: DatabaseActionRemoveParams<TSchema, TenantField>[] };
+
+// One result per item, in the same order
+export type DatabaseActionBulkResult<TSchema extends Document> = Array<
+  DatabaseBulkItemResult<WithDbFields<TSchema>>
+>;
+
+export type DatabaseActionExportParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  // Default: ndjson
+  format?: DatabaseTransferFormat;
+  // Exported fields (default: all of them), they are the CSV columns
+  fields?: string[];
+  // Stringified MongoDB Query
+  sQuery?: string;
+  sort?: string[];
+} & (TSchema extends { deletedAt?: Date }
+  ? { scope?: DatabaseSoftDeleteScope }
+  : NonNullable<unknown>) &
+  (TenantField extends KeyString<TSchema>
+    ? { [key in TenantField]: TSchema[TenantField] }
+    : NonNullable<unknown>);
+
+export type DatabaseActionImportParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  // Default: ndjson
+  format?: DatabaseTransferFormat;
+} & (TenantField extends KeyString<TSchema>
+  ? { [key in TenantField]: TSchema[TenantField] }
+  : NonNullable<unknown>);
+
+export type DatabaseActionImportResult = {
+  // Number of read rows
+  total: number;
+  inserted: number;
+  // Existing documents updated by the upsert import option
+  updated: number;
+  // Failing rows, with their line number in the file
+  errors: Array<{ line: number; error: DatabaseBulkItemError }>;
+};
+
+export type DatabaseActionGetHistoryParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  _id: InferIdType<TSchema>;
+  // Pagination (most recent versions first)
+  limit?: number;
+  offset?: number;
+} & (TenantField extends KeyString<TSchema>
+  ? { [key in TenantField]: TSchema[TenantField] }
+  : NonNullable<unknown>);
+
+export type DatabaseActionGetVersionParams<
+  TSchema extends Document & { _id: ObjectId | string },
+  TenantField extends KeyString<TSchema> | false = false,
+> = {
+  _id: InferIdType<TSchema>;
+  version: number;
+} & (TenantField extends KeyString<TSchema>
+  ? { [key in TenantField]: TSchema[TenantField] }
+  : NonNullable<unknown>);
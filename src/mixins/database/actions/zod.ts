@@ -1,19 +1,36 @@
 import type { Document } from 'mongodb';
-import { z, type ZodType, type ZodObject } from 'zod/v4';
+import {
+  z,
+  type ZodArray,
+  type ZodDefault,
+  type ZodNullable,
+  type ZodObject,
+  type ZodOptional,
+  type ZodType,
+} from 'zod/v4';
 import {
   isZodSchema,
   zodCoerceArray,
+  zodDate,
   zodObjectId,
 } from '../../../zod/zod-helpers.js';
 import {
+  type ActionBulkParamsOptions,
   type ActionCountParamsOptions,
+  type ActionCreateManyParamsOptions,
   type ActionCreateParamsOptions,
   type ActionGetParamsOptions,
   type ActionListParamsOptions,
+  type ActionListResponseOptions,
+  type ActionSearchParamsOptions,
   type ActionSchemaFactory,
   type ActionSchemaFactoryOptions,
+  type ActionVirtualSchemaOptions,
+  getQueryDescription,
+  getTopLevelFields,
   QueryOp,
 } from './shared.js';
+import { DATABASE_TRANSFER_FORMATS } from './transfer.js';
 
 const ScopeSchema = z.enum(['include-deleted', 'only-deleted', 'no-deleted']);
 
@@ -26,6 +43,8 @@ export class ZodActionSchemaFactory<
 
   private schemaWithDbFields: ZodType | undefined;
 
+  private schemaWithRelations: ZodType | undefined;
+
   constructor(private opts: ActionSchemaFactoryOptions<ZodType, TSchema>) {
     const { schema, tenantField } = opts;
     if (schema) {
@@ -51,21 +70,137 @@ export class ZodActionSchemaFactory<
     if (this.schemaWithDbFields) {
       return this.schemaWithDbFields;
     }
-    const { timestamps, schema, schemaName } = this.opts;
+    const { schemaName, virtuals } = this.opts;
+    let res = this.createDbFieldsSchema(virtuals);
+    if (schemaName) {
+      res = res.meta({ id: `Full${schemaName}` });
+    }
+    this.schemaWithDbFields = res;
+    return res;
+  }
+
+  /**
+   * Schema with db fields, and the given virtuals as optional fields.
+   */
+  private createDbFieldsSchema(
+    virtuals?: Record<string, ActionVirtualSchemaOptions>,
+  ): ZodObject {
+    const { timestamps, versioning, schema, hiddenFields, publicFields } =
+      this.opts;
     if (!isZodSchema<ZodObject>(schema, 'object')) {
       throw new Error('Schema is not a ZodObject');
     }
     let res = schema.required({ _id: true });
+    if (virtuals && Object.keys(virtuals).length) {
+      const shape: Record<string, ZodType> = {};
+      for (const [name, virtual] of Object.entries(virtuals)) {
+        shape[name] = (
+          isZodSchema(virtual.schema) ? virtual.schema : z.unknown()
+        ).optional();
+      }
+      res = res.extend(shape);
+    }
+    const hidden = hiddenFields?.filter(f => f in res.shape);
+    if (hidden?.length) {
+      res = res.omit(Object.fromEntries(hidden.map(f => [f, true])) as never);
+    }
     if (timestamps) {
       res = res.required({ createdAt: true, updatedAt: true });
     }
+    if (versioning) {
+      res = res.required({ version: true });
+    }
+    if (publicFields) {
+      const picked = getTopLevelFields(publicFields).filter(
+        f => f in res.shape,
+      );
+      res = res.pick(Object.fromEntries(picked.map(f => [f, true])) as never);
+    }
+    return res;
+  }
+
+  createSchemaWithRelations(): ZodType {
+    if (this.schemaWithRelations) {
+      return this.schemaWithRelations;
+    }
+    const { relations, schemaName } = this.opts;
+    const schema = this.createSchemaWithDbFields() as ZodObject;
+    if (!relations || !Object.keys(relations).length) {
+      return schema;
+    }
+
+    const shape: Record<string, ZodType> = {};
+    for (const [name, relation] of Object.entries(relations)) {
+      const item = isZodSchema(relation.schema)
+        ? relation.schema
+        : z.looseObject({});
+      shape[name] = (relation.many ? z.array(item) : item).optional();
+    }
+    let res = schema.extend(shape);
     if (schemaName) {
-      res = res.meta({ id: `Full${schemaName}` });
+      res = res.meta({ id: `Populated${schemaName}` });
     }
-    this.schemaWithDbFields = res;
+    this.schemaWithRelations = res;
     return res;
   }
 
+  /**
+   * Add the populate param to the shape, only if there are relations.
+   */
+  private addPopulateParam(shape: Record<string, ZodType>): void {
+    const { relations } = this.opts;
+    if (relations && Object.keys(relations).length) {
+      shape.populate = zodCoerceArray(
+        z.enum(Object.keys(relations) as [string, ...string[]]),
+      ).optional();
+    }
+  }
+
+  /**
+   * Stringified query param, with its grammar when the query schema is generated.
+   */
+  private createSQueryParam(): ZodType {
+    const { queryFields } = this.opts;
+    const sQuery = z.string();
+    return (
+      queryFields ? sQuery.describe(getQueryDescription(queryFields)) : sQuery
+    ).optional();
+  }
+
+  createQuerySchema(): ZodType | undefined {
+    const { queryFields, virtuals } = this.opts;
+    if (!queryFields) {
+      return undefined;
+    }
+    // Virtuals are not stored, they can't be filtered
+    const schema = this.createDbFieldsSchema();
+
+    const shape: Record<string, ZodType> = {};
+    for (const [field, queryOps = []] of Object.entries(queryFields)) {
+      if (virtuals && field.split('.')[0] in virtuals) {
+        throw new Error(`Virtual field ${field} can't be queried`);
+      }
+      let fieldSchema: ZodType | undefined = schema;
+      for (const key of field.split('.')) {
+        fieldSchema = fieldSchema && unwrapZodSchema(fieldSchema);
+        fieldSchema = isZodSchema<ZodObject>(fieldSchema, 'object')
+          ? fieldSchema.shape[key]
+          : undefined;
+      }
+      if (!fieldSchema) {
+        throw new Error(`Unknown query field ${field}`);
+      }
+      fieldSchema = unwrapZodSchema(fieldSchema);
+      // Filtering an array on a value matches the documents containing it
+      if (isZodSchema<ZodArray>(fieldSchema, 'array')) {
+        fieldSchema = fieldSchema.element as ZodType;
+      }
+      shape[field] = addZodQueryOps(fieldSchema, queryOps).optional();
+    }
+
+    return z.strictObject(shape);
+  }
+
   createFindParams(): ZodType {
     const { tenantField, softDelete } = this.opts;
     const { tenantFieldType } = this;
@@ -77,6 +212,27 @@ export class ZodActionSchemaFactory<
       limit: z.uint32().optional(),
       offset: z.uint32().optional(),
       collation: z.looseObject({}).optional(),
+      published: z.boolean().optional(),
+    };
+    this.addPopulateParam(shape);
+
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType;
+    }
+    if (softDelete) {
+      shape.scope = ScopeSchema.optional();
+    }
+
+    return z.object(shape);
+  }
+
+  createAggregateParams(): ZodType {
+    const { tenantField, softDelete } = this.opts;
+    const { tenantFieldType } = this;
+
+    const shape: Record<string, ZodType> = {
+      pipeline: z.array(z.looseObject({})),
+      collation: z.looseObject({}).optional(),
     };
 
     if (tenantField && tenantFieldType) {
@@ -97,6 +253,7 @@ export class ZodActionSchemaFactory<
     const shape: Record<string, ZodType> = {
       _id: _idFieldType || zodObjectId,
     };
+    this.addPopulateParam(shape);
 
     if (tenantField && tenantFieldType) {
       shape[tenantField] = tenantFieldType;
@@ -119,7 +276,7 @@ export class ZodActionSchemaFactory<
     const shape: Record<string, ZodType> = {};
 
     if (queryType === 'stringified') {
-      shape.sQuery = z.string().optional();
+      shape.sQuery = this.createSQueryParam();
     } else if (queryType === 'object') {
       shape.query = z.looseObject({}).optional();
     }
@@ -137,10 +294,16 @@ export class ZodActionSchemaFactory<
   createListParams(params: ActionListParamsOptions): ZodType {
     const { tenantField, softDelete } = this.opts;
     const { tenantFieldType } = this;
-    const { queryType, maxPageSize } = params;
+    const { queryType, maxPageSize, pagination } = params;
 
     const shape: Record<string, ZodType> = {
-      page: z.coerce.number().int().min(0).optional(),
+      ...(pagination === 'cursor'
+        ? {
+            cursor: z.string().optional(),
+            // Query strings only contain strings, so we accept "true"/"false" too
+            withTotal: z.union([z.boolean(), z.stringbool()]).optional(),
+          }
+        : { page: z.coerce.number().int().min(0).optional() }),
       pageSize: z.coerce
         .number()
         .int()
@@ -149,9 +312,10 @@ export class ZodActionSchemaFactory<
         .optional(),
       sort: zodCoerceArray(z.string()).optional(),
     };
+    this.addPopulateParam(shape);
 
     if (queryType === 'stringified') {
-      shape.sQuery = z.string().optional();
+      shape.sQuery = this.createSQueryParam();
     } else if (queryType === 'object') {
       shape.query = z.looseObject({}).optional();
     }
@@ -166,13 +330,75 @@ export class ZodActionSchemaFactory<
     return z.object(shape);
   }
 
-  createListResponse(): ZodType {
+  createListResponse(params: ActionListResponseOptions): ZodType {
+    if (params.pagination === 'cursor') {
+      return z.strictObject({
+        rows: z.array(this.createSchemaWithRelations()),
+        pageSize: z.int().min(1),
+        nextCursor: z.string().nullable(),
+        prevCursor: z.string().nullable(),
+        total: z.uint32().optional(),
+      });
+    }
+    return z.strictObject({
+      rows: z.array(this.createSchemaWithRelations()),
+      page: z.uint32(),
+      pageSize: z.int().min(1),
+      total: z.uint32(),
+      totalPages: z.uint32(),
+    });
+  }
+
+  createSearchParams(params: ActionSearchParamsOptions): ZodType {
+    const { tenantField, softDelete } = this.opts;
+    const { tenantFieldType } = this;
+    const { maxPageSize, facets } = params;
+
+    const shape: Record<string, ZodType> = {
+      q: z.string().min(1),
+      page: z.coerce.number().int().min(0).optional(),
+      pageSize: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(maxPageSize || 100)
+        .optional(),
+      // Query strings only contain strings, so we accept "true"/"false" too
+      highlight: z.union([z.boolean(), z.stringbool()]).optional(),
+    };
+    if (facets?.length) {
+      shape.facets = zodCoerceArray(
+        z.enum(facets as [string, ...string[]]),
+      ).optional();
+    }
+
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType;
+    }
+    if (softDelete) {
+      shape.scope = ScopeSchema.optional();
+    }
+
+    return z.object(shape);
+  }
+
+  createSearchResponse(): ZodType {
     return z.strictObject({
-      rows: z.array(this.createSchemaWithDbFields()),
+      rows: z.array(
+        z.strictObject({
+          document: this.createSchemaWithDbFields(),
+          score: z.number(),
+          highlights: z.array(z.looseObject({})).optional(),
+        }),
+      ),
       page: z.uint32(),
       pageSize: z.int().min(1),
       total: z.uint32(),
       totalPages: z.uint32(),
+      facets: z.record(
+        z.string(),
+        z.array(z.strictObject({ value: z.unknown(), count: z.int().min(1) })),
+      ),
     });
   }
 
@@ -190,7 +416,7 @@ export class ZodActionSchemaFactory<
   }
 
   createUpdateParams(): ZodType {
-    const { tenantField, schema } = this.opts;
+    const { tenantField, versioning, schema } = this.opts;
     if (!isZodSchema<ZodObject>(schema, 'object')) {
       throw new Error('Schema is not a ZodObject');
     }
@@ -199,7 +425,19 @@ export class ZodActionSchemaFactory<
     if (tenantField) {
       mask[tenantField] = true;
     }
-    return schema.partial().required(mask);
+    const res = schema.partial().required(mask);
+    if (versioning) {
+      // Expected version of the document to update
+      return res.extend({ version: z.int().min(1) });
+    }
+    return res;
+  }
+
+  createUpsertResponse(): ZodType {
+    return z.strictObject({
+      document: this.createSchemaWithDbFields(),
+      created: z.boolean(),
+    });
   }
 
   createRemoveParams(): ZodType {
@@ -215,6 +453,188 @@ export class ZodActionSchemaFactory<
 
     return z.object(shape);
   }
+
+  createCreateManyParams(params: ActionCreateManyParamsOptions): ZodType {
+    const { maxItems, ...createParams } = params;
+    return z.object({
+      items: z
+        .array(this.createCreateParams(createParams))
+        .min(1)
+        .max(maxItems || 100),
+    });
+  }
+
+  createUpdateManyParams(params: ActionBulkParamsOptions): ZodType {
+    return z.object({
+      items: z
+        .array(this.createUpdateParams())
+        .min(1)
+        .max(params.maxItems || 100),
+    });
+  }
+
+  createRemoveManyParams(params: ActionBulkParamsOptions): ZodType {
+    return z.object({
+      items: z
+        .array(this.createRemoveParams())
+        .min(1)
+        .max(params.maxItems || 100),
+    });
+  }
+
+  createBulkResponse(): ZodType {
+    return z.array(
+      z.strictObject({
+        success: z.boolean(),
+        document: this.createSchemaWithDbFields().optional(),
+        error: z
+          .object({
+            name: z.string(),
+            message: z.string(),
+            code: z.int().optional(),
+            type: z.string().optional(),
+            data: z.unknown().optional(),
+          })
+          .optional(),
+      }),
+    );
+  }
+
+  createExportParams(): ZodType {
+    const { tenantField, softDelete } = this.opts;
+    const { tenantFieldType } = this;
+
+    const shape: Record<string, ZodType> = {
+      format: z.enum(DATABASE_TRANSFER_FORMATS).optional(),
+      fields: zodCoerceArray(z.string()).optional(),
+      sQuery: this.createSQueryParam(),
+      sort: zodCoerceArray(z.string()).optional(),
+    };
+
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType;
+    }
+    if (softDelete) {
+      shape.scope = ScopeSchema.optional();
+    }
+
+    return z.object(shape);
+  }
+
+  createImportParams(): ZodType {
+    const { tenantField } = this.opts;
+    const { tenantFieldType } = this;
+
+    const shape: Record<string, ZodType> = {
+      format: z.enum(DATABASE_TRANSFER_FORMATS).optional(),
+    };
+
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType;
+    }
+
+    return z.object(shape);
+  }
+
+  createImportResponse(): ZodType {
+    return z.strictObject({
+      total: z.uint32(),
+      inserted: z.uint32(),
+      updated: z.uint32(),
+      errors: z.array(
+        z.strictObject({
+          line: z.int().min(1),
+          error: z.object({
+            name: z.string(),
+            message: z.string(),
+            code: z.int().optional(),
+            type: z.string().optional(),
+            data: z.unknown().optional(),
+          }),
+        }),
+      ),
+    });
+  }
+
+  createHistoryRecordSchema(): ZodType {
+    const { _idFieldType, tenantFieldType } = this;
+    const { tenantField, schemaName } = this.opts;
+    const snapshot = this.createSchemaWithDbFields();
+
+    const shape: Record<string, ZodType> = {
+      _id: zodObjectId,
+      documentId: _idFieldType || zodObjectId,
+      version: z.int().min(1),
+      operation: z.enum(['insert', 'update', 'replace', 'delete', 'restore']),
+      before: snapshot.optional(),
+      after: snapshot.optional(),
+      diff: z
+        .array(
+          z.object({
+            op: z.enum(['add', 'remove', 'replace']),
+            path: z.string(),
+            value: z.unknown().optional(),
+            oldValue: z.unknown().optional(),
+          }),
+        )
+        .optional(),
+      actor: z.looseObject({}).optional(),
+      requestID: z.string().optional(),
+      createdAt: zodDate,
+    };
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType.optional();
+    }
+
+    const res = z.object(shape);
+    return schemaName ? res.meta({ id: `${schemaName}History` }) : res;
+  }
+
+  createGetHistoryParams(): ZodType {
+    const { tenantFieldType, _idFieldType } = this;
+    const { tenantField } = this.opts;
+
+    const shape: Record<string, ZodType> = {
+      _id: _idFieldType || zodObjectId,
+      limit: z.coerce.number().int().min(1).max(100).optional(),
+      offset: z.coerce.number().int().min(0).optional(),
+    };
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType;
+    }
+
+    return z.object(shape);
+  }
+
+  createGetVersionParams(): ZodType {
+    const { tenantFieldType, _idFieldType } = this;
+    const { tenantField } = this.opts;
+
+    const shape: Record<string, ZodType> = {
+      _id: _idFieldType || zodObjectId,
+      version: z.coerce.number().int().min(1),
+    };
+    if (tenantField && tenantFieldType) {
+      shape[tenantField] = tenantFieldType;
+    }
+
+    return z.object(shape);
+  }
+}
+
+/**
+ * Remove the optional, nullable and default wrappers of a field schema.
+ */
+function unwrapZodSchema(schema: ZodType): ZodType {
+  let res = schema;
+  while (
+    isZodSchema<ZodOptional>(res, 'optional') ||
+    isZodSchema<ZodNullable>(res, 'nullable') ||
+    isZodSchema<ZodDefault>(res, 'default')
+  ) {
+    res = res.unwrap() as ZodType;
+  }
+  return res;
 }
 
 export function addZodQueryOps(
@@ -223,12 +643,17 @@ export function addZodQueryOps(
 ): ZodType {
   const shape: Partial<Record<QueryOp, ZodType>> = {};
   for (const op of queryOps) {
-    if (op === QueryOp.IN) {
-      shape.$in = z.array(fieldValue).optional();
+    if (op === QueryOp.IN || op === QueryOp.NIN) {
+      shape[op] = z.array(fieldValue).optional();
+    } else if (op === QueryOp.EXISTS) {
+      shape.$exists = z.boolean().optional();
+    } else if (op === QueryOp.CONTAINS || op === QueryOp.STARTS_WITH) {
+      shape[op] = z.string().min(1).optional();
     } else {
       shape[op] = fieldValue.optional();
     }
   }
 
-  return z.union([fieldValue, z.object(shape)]);
+  // Strict, like addQueryOps, so unknown operators are rejected and not removed
+  return z.union([fieldValue, z.strictObject(shape)]);
 }
@@ -0,0 +1,164 @@
+import type { Document } from 'mongodb';
+import type { IndexTuple } from './indexes/types.js';
+import { getDefaultIndexName } from './indexes/utils.js';
+
+export const DATABASE_QUERY_ADVISOR_METRIC = 'database.query_advisor.issues';
+
+/**
+ * Fields used by a query, without their values.
+ */
+export type QueryShape = {
+  operation: 'find' | 'count';
+  // Filtered fields (sorted), including the ones in $and/$or/$nor
+  filter: string[];
+  // Sorted fields, in sort order
+  sort: Array<[string, 1 | -1]>;
+};
+
+export type QueryPlanIssues = {
+  // The winning plan reads the whole collection
+  collectionScan: boolean;
+  // The winning plan sorts the documents in memory
+  inMemorySort: boolean;
+};
+
+export type QueryAdvice = QueryShape &
+  QueryPlanIssues & {
+    // Name of the first declared index that can be used by the query, null if none
+    declaredIndex: string | null;
+    // Number of sampled queries with this shape
+    count: number;
+    lastSeenAt: Date;
+  };
+
+function collectFilterFields(filter: Document, fields: Set<string>): void {
+  for (const [key, value] of Object.entries(filter)) {
+    if (['$and', '$or', '$nor'].includes(key) && Array.isArray(value)) {
+      for (const subFilter of value) {
+        collectFilterFields(subFilter, fields);
+      }
+    } else if (!key.startsWith('$')) {
+      fields.add(key);
+    }
+  }
+}
+
+export function getQueryShape(
+  operation: QueryShape['operation'],
+  filter: Document,
+  sort?: Record<string, 1 | -1>,
+): QueryShape {
+  const fields = new Set<string>();
+  collectFilterFields(filter, fields);
+  return {
+    operation,
+    filter: [...fields].sort(),
+    sort: Object.entries(sort || {}),
+  };
+}
+
+/**
+ * Return the name of the first declared index that can be used by the query:
+ * its first key must be filtered, or be the first sorted field when nothing is filtered.
+ * Queries without filter and sort don't need an index and always return null.
+ */
+export function getDeclaredIndexForShape(
+  shape: QueryShape,
+  indexes: IndexTuple[],
+): string | null {
+  const index = indexes.find(([key]) => {
+    const [firstKey] = Object.keys(key);
+    return shape.filter.length
+      ? shape.filter.includes(firstKey)
+      : shape.sort[0]?.[0] === firstKey;
+  });
+  return index ? index[1]?.name || getDefaultIndexName(index[0]) : null;
+}
+
+function collectPlanStages(plan: Document | undefined, stages: string[]): void {
+  if (!plan) {
+    return;
+  }
+  if (typeof plan.stage === 'string') {
+    stages.push(plan.stage);
+  }
+  // Slot based engine wraps the plan in queryPlan
+  collectPlanStages(plan.queryPlan, stages);
+  collectPlanStages(plan.inputStage, stages);
+  for (const inputStage of plan.inputStages || []) {
+    collectPlanStages(inputStage, stages);
+  }
+}
+
+/**
+ * Read the issues of the winning plan of an explain result (queryPlanner verbosity is enough).
+ */
+export function getQueryPlanIssues(explain: Document): QueryPlanIssues {
+  const stages: string[] = [];
+  collectPlanStages(explain.queryPlanner?.winningPlan, stages);
+  return {
+    collectionScan: stages.includes('COLLSCAN'),
+    inMemorySort: stages.includes('SORT'),
+  };
+}
+
+export function hasQueryIssues(advice: QueryAdvice): boolean {
+  return (
+    advice.collectionScan ||
+    advice.inMemorySort ||
+    (!advice.declaredIndex &&
+      Boolean(advice.filter.length || advice.sort.length))
+  );
+}
+
+/**
+ * Keep the advices of the sampled queries of a collection, by query shape.
+ * New shapes are ignored once maxShapes is reached.
+ */
+export class DatabaseQueryAdvisor {
+  private advices = new Map<string, QueryAdvice>();
+
+  constructor(
+    private indexes: IndexTuple[],
+    private maxShapes: number,
+  ) {}
+
+  /**
+   * Record a sampled query and return its advice, null if it's ignored.
+   */
+  record(shape: QueryShape, issues: QueryPlanIssues): QueryAdvice | null {
+    const key = JSON.stringify(shape);
+    let advice = this.advices.get(key);
+    if (!advice) {
+      if (this.advices.size >= this.maxShapes) {
+        return null;
+      }
+      advice = {
+        ...shape,
+        declaredIndex: getDeclaredIndexForShape(shape, this.indexes),
+        collectionScan: false,
+        inMemorySort: false,
+        count: 0,
+        lastSeenAt: new Date(),
+      };
+      this.advices.set(key, advice);
+    }
+    // Plans can change, keep the last one
+    advice.collectionScan = issues.collectionScan;
+    advice.inMemorySort = issues.inMemorySort;
+    advice.count += 1;
+    advice.lastSeenAt = new Date();
+    return advice;
+  }
+
+  /**
+   * Return the advices, the ones with issues first, then by number of sampled queries.
+   */
+  getReport(): QueryAdvice[] {
+    return [...this.advices.values()].sort(
+      (a, b) =>
+        Number(hasQueryIssues(b)) - Number(hasQueryIssues(a)) ||
+        b.count - a.count,
+    );
+  }
+}
@@ -0,0 +1,175 @@
+import type { Document } from 'mongodb';
+import { ForbiddenStageError } from './errors.js';
+
+/**
+ * Features of a collection managed by a DatabaseMethodsMixin,
+ * used to guard the $lookup stages targeting it.
+ */
+export type DatabaseCollectionGuards = {
+  tenantField: string | false;
+  softDelete: boolean;
+};
+
+// Collections managed by a DatabaseMethodsMixin on this process, by `${dbName}.${collectionName}`
+const collections = new Map<string, DatabaseCollectionGuards>();
+
+// Stages that must stay the first stage of a pipeline
+const FIRST_STAGES = ['$geoNear', '$search', '$searchMeta', '$vectorSearch'];
+
+/**
+ * Register a collection so $lookup stages of _aggregate targeting it are guarded.
+ */
+export function registerDatabaseCollection(
+  dbName: string,
+  collectionName: string,
+  guards: DatabaseCollectionGuards,
+): void {
+  collections.set(`${dbName}.${collectionName}`, guards);
+}
+
+export function getDatabaseCollectionGuards(
+  dbName: string,
+  collectionName: string,
+): DatabaseCollectionGuards | undefined {
+  return collections.get(`${dbName}.${collectionName}`);
+}
+
+/**
+ * Add a $match stage at the start of the pipeline (after the stages that must stay first).
+ * Nothing is added for an empty filter.
+ */
+export function prependMatchStage(
+  pipeline: Document[],
+  filter: Document,
+): Document[] {
+  if (!Object.keys(filter).length) {
+    return pipeline;
+  }
+  const position = FIRST_STAGES.some(stage => pipeline[0]?.[stage]) ? 1 : 0;
+  return [
+    ...pipeline.slice(0, position),
+    { $match: filter },
+    ...pipeline.slice(position),
+  ];
+}
+
+/**
+ * Return the tenant and soft delete filter of a collection read by a stage of the pipeline
+ * (empty if the collection is not registered).
+ */
+function getGuardFilter(
+  stage: string,
+  from: unknown,
+  dbName: string,
+  tenantValue: unknown,
+  strictTenantFilter: boolean,
+): Document {
+  const guards =
+    typeof from === 'string'
+      ? getDatabaseCollectionGuards(dbName, from)
+      : undefined;
+  const filter: Document = {};
+  if (guards?.tenantField) {
+    if (tenantValue !== undefined && tenantValue !== null) {
+      filter[guards.tenantField] = tenantValue;
+    } else if (strictTenantFilter) {
+      throw new Error(`Missing tenant value for the ${stage} on "${from}"`);
+    }
+  }
+  if (guards?.softDelete) {
+    filter.deletedAt = null;
+  }
+  return filter;
+}
+
+/**
+ * Add the tenant and soft delete filters of the targeted collections in the stages reading
+ * other collections: $lookup, $unionWith and $graphLookup (with restrictSearchWithMatch).
+ * Sub-pipelines of $lookup, $unionWith and $facet are guarded too. Collections not registered are left untouched.
+ *
+ * The tenant value is the one of the aggregated collection and is matched
+ * on the tenant field of the targeted collection (required unless strictTenantFilter is false).
+ */
+export function guardLookupStages(
+  pipeline: Document[],
+  dbName: string,
+  tenantValue: unknown,
+  strictTenantFilter: boolean = true,
+): Document[] {
+  const guard = (subPipeline: Document[] = []) =>
+    guardLookupStages(subPipeline, dbName, tenantValue, strictTenantFilter);
+  const getFilter = (stage: string, from: unknown) =>
+    getGuardFilter(stage, from, dbName, tenantValue, strictTenantFilter);
+
+  return pipeline.map(stage => {
+    if (stage.$lookup) {
+      const lookup: Document = { ...stage.$lookup };
+      const guardedPipeline = prependMatchStage(
+        guard(lookup.pipeline),
+        getFilter('$lookup', lookup.from),
+      );
+      // Keep the simple $lookup form when nothing changed
+      if (guardedPipeline.length || lookup.pipeline) {
+        lookup.pipeline = guardedPipeline;
+      }
+      return { ...stage, $lookup: lookup };
+    }
+
+    if (stage.$unionWith) {
+      const unionWith: Document =
+        typeof stage.$unionWith === 'string'
+          ? { coll: stage.$unionWith }
+          : { ...stage.$unionWith };
+      const guardedPipeline = prependMatchStage(
+        guard(unionWith.pipeline),
+        getFilter('$unionWith', unionWith.coll),
+      );
+      if (!guardedPipeline.length && !unionWith.pipeline) {
+        return stage;
+      }
+      return {
+        ...stage,
+        $unionWith: { ...unionWith, pipeline: guardedPipeline },
+      };
+    }
+
+    if (stage.$graphLookup) {
+      const graphLookup: Document = { ...stage.$graphLookup };
+      const filter = getFilter('$graphLookup', graphLookup.from);
+      if (!Object.keys(filter).length) {
+        return stage;
+      }
+      graphLookup.restrictSearchWithMatch = graphLookup.restrictSearchWithMatch
+        ? { $and: [graphLookup.restrictSearchWithMatch, filter] }
+        : filter;
+      return { ...stage, $graphLookup: graphLookup };
+    }
+
+    if (stage.$facet) {
+      const facet: Record<string, Document[]> = {};
+      for (const [name, subPipeline] of Object.entries(
+        stage.$facet as Record<string, Document[]>,
+      )) {
+        facet[name] = guard(subPipeline);
+      }
+      return { ...stage, $facet: facet };
+    }
+    return stage;
+  });
+}
+
+// Stages writing the results of the pipeline in a collection
+const WRITE_STAGES = ['$out', '$merge'];
+
+/**
+ * Throw a ForbiddenStageError if the pipeline writes in a collection ($out, $merge),
+ * used by the aggregate action which must stay a read.
+ */
+export function assertNoWriteStages(pipeline: Document[]): void {
+  for (const stage of pipeline) {
+    const writeStage = WRITE_STAGES.find(name => name in stage);
+    if (writeStage) {
+      throw new ForbiddenStageError(writeStage);
+    }
+  }
+}
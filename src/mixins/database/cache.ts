@@ -0,0 +1,138 @@
+import type { Redis } from 'ioredis';
+import { BSON, type Document } from 'mongodb';
+
+/**
+ * Event broadcast by the database mixins to evict documents from the memory caches of the other nodes.
+ */
+export const DATABASE_CACHE_EVICT_EVENT = 'database.cache.evict';
+
+export type DatabaseCacheEvictPayload = {
+  // Full name of the service owning the cache
+  service: string;
+  // Cache ids of the documents (see getDatabaseCacheId)
+  ids: string[];
+};
+
+export type DatabaseDocumentCacheOptions = {
+  store: 'memory' | 'redis';
+  // Called on each Redis operation (the client may not be ready before the service is started)
+  getRedis?: () => Redis;
+  // Prefix of the Redis keys
+  key: string;
+  ttl: number;
+  maxEntries: number;
+};
+
+type MemoryEntry = {
+  expiresAt: number;
+  // Serialized documents by variant (tenant and scope)
+  variants: Map<string, string>;
+};
+
+/**
+ * Return the id of a document in the cache.
+ * Ids are serialized as Extended JSON so the 1 number and '1' string are different entries.
+ */
+export function getDatabaseCacheId(id: unknown): string {
+  return BSON.EJSON.stringify({ id });
+}
+
+/**
+ * Return the variant of a cached document: the same document is cached once per tenant and soft-delete scope,
+ * as they change what the query returns.
+ */
+export function getDatabaseCacheVariant(
+  tenant: string | undefined,
+  scope: string,
+): string {
+  return `${tenant ?? ''}|${scope}`;
+}
+
+/**
+ * Documents read by _id, see DatabaseCacheOptions.
+ *
+ * Entries are grouped by document so every variant of a document is evicted at once:
+ * a Map entry with the memory store, a Redis hash with the redis store.
+ * Documents are stored as Extended JSON, so BSON types are kept and cached documents are never shared.
+ */
+export class DatabaseDocumentCache {
+  private entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly opts: DatabaseDocumentCacheOptions) {}
+
+  get isShared(): boolean {
+    return this.opts.store === 'redis';
+  }
+
+  private getRedisKey(id: string): string {
+    return `${this.opts.key}:${id}`;
+  }
+
+  async get<T extends Document>(
+    id: string,
+    variant: string,
+  ): Promise<T | null> {
+    let raw: string | null | undefined;
+    if (this.opts.store === 'redis') {
+      raw = await this.opts.getRedis!().hget(this.getRedisKey(id), variant);
+    } else {
+      const entry = this.entries.get(id);
+      if (entry && entry.expiresAt <= Date.now()) {
+        this.entries.delete(id);
+      } else if (entry) {
+        // Keep recently read documents at the end, the first ones are evicted first
+        this.entries.delete(id);
+        this.entries.set(id, entry);
+        raw = entry.variants.get(variant);
+      }
+    }
+    return raw ? (BSON.EJSON.parse(raw) as T) : null;
+  }
+
+  async set(id: string, variant: string, doc: Document): Promise<void> {
+    const raw = BSON.EJSON.stringify(doc);
+    if (this.opts.store === 'redis') {
+      const key = this.getRedisKey(id);
+      await this.opts.getRedis!()
+        .multi()
+        .hset(key, variant, raw)
+        .pexpire(key, this.opts.ttl)
+        .exec();
+      return;
+    }
+
+    const entry = this.entries.get(id);
+    if (entry && entry.expiresAt > Date.now()) {
+      entry.variants.set(variant, raw);
+      return;
+    }
+    this.entries.delete(id);
+    this.entries.set(id, {
+      expiresAt: Date.now() + this.opts.ttl,
+      variants: new Map([[variant, raw]]),
+    });
+    while (this.entries.size > this.opts.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  /**
+   * Evict every variant of the documents.
+   */
+  async evict(ids: string[]): Promise<void> {
+    if (!ids.length) {
+      return;
+    }
+    if (this.opts.store === 'redis') {
+      await this.opts.getRedis!().del(...ids.map(id => this.getRedisKey(id)));
+      return;
+    }
+    for (const id of ids) {
+      this.entries.delete(id);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
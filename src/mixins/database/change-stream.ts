@@ -0,0 +1,297 @@
+import {
+  BSON,
+  type ChangeStream,
+  type ChangeStreamDocument,
+  type Collection,
+  type Document,
+} from 'mongodb';
+import type { Redis } from 'ioredis';
+import type { Logger } from 'moleculer';
+import { LeaderElection, type LeaderElectionLock } from '../leader-election.js';
+import type {
+  DatabaseEventDelete,
+  DatabaseEventInsert,
+  DatabaseEventRestore,
+  DatabaseEventUpdate,
+  WithDbFields,
+} from './types.js';
+
+// Mongo error code when the resume token is no longer in the oplog
+const CHANGE_STREAM_HISTORY_LOST = 286;
+
+// Only renew/release the lease if this node still holds it
+const RENEW_LEASE_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LEASE_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0`;
+
+export type DatabaseChangeStreamEvent<TSchema extends Document> =
+  | { event: 'created'; payload: DatabaseEventInsert<TSchema> }
+  | { event: 'updated'; payload: DatabaseEventUpdate<TSchema> }
+  | { event: 'deleted'; payload: DatabaseEventDelete<TSchema> }
+  | { event: 'restored'; payload: DatabaseEventRestore<TSchema> };
+
+/**
+ * Convert a change of the collection to the event the write methods would have sent.
+ * Return null for changes that are not sent (drop, rename, invalidate, etc.) or when
+ * the document can't be known anymore.
+ *
+ * With soft delete, setting/unsetting deletedAt is sent as a deleted/restored event.
+ * Deleted events contain the document before the change when pre-images are available, only its _id otherwise.
+ */
+export function getDatabaseEventFromChange<TSchema extends Document>(
+  change: ChangeStreamDocument<TSchema>,
+  softDelete: boolean,
+): DatabaseChangeStreamEvent<TSchema> | null {
+  switch (change.operationType) {
+    case 'insert':
+      return {
+        event: 'created',
+        payload: {
+          type: 'insert',
+          document: change.fullDocument as WithDbFields<TSchema>,
+        },
+      };
+    case 'replace':
+      return {
+        event: 'updated',
+        payload: {
+          type: 'replace',
+          document: change.fullDocument as WithDbFields<TSchema>,
+        },
+      };
+    case 'update': {
+      // Document was deleted before the lookup
+      if (!change.fullDocument) {
+        return null;
+      }
+      const document = change.fullDocument as WithDbFields<TSchema>;
+      const { updatedFields, removedFields } = change.updateDescription;
+
+      if (softDelete && updatedFields?.deletedAt) {
+        return {
+          event: 'deleted',
+          payload: {
+            type: 'delete',
+            document: (change.fullDocumentBeforeChange ||
+              document) as WithDbFields<TSchema>,
+          },
+        };
+      }
+      if (
+        softDelete &&
+        (removedFields?.includes('deletedAt') ||
+          updatedFields?.deletedAt === null)
+      ) {
+        return { event: 'restored', payload: { type: 'restore', document } };
+      }
+      return { event: 'updated', payload: { type: 'update', document } };
+    }
+    case 'delete':
+      return {
+        event: 'deleted',
+        payload: {
+          type: 'delete',
+          document: (change.fullDocumentBeforeChange ||
+            change.documentKey) as WithDbFields<TSchema>,
+        },
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Lease client of the LeaderElection on a Redis key holding the node ID
+ * (same API as Redlock, which may not be installed with the RedisMixin).
+ */
+function createLeaseClient(getRedis: () => Redis, nodeID: string) {
+  const createLock = (key: string): LeaderElectionLock => ({
+    extend: async ttl => {
+      const renewed = await getRedis().eval(
+        RENEW_LEASE_SCRIPT,
+        1,
+        key,
+        nodeID,
+        ttl,
+      );
+      if (!renewed) {
+        throw new Error(`Lease ${key} is held by another node`);
+      }
+      return createLock(key);
+    },
+    unlock: () => getRedis().eval(RELEASE_LEASE_SCRIPT, 1, key, nodeID),
+  });
+
+  return {
+    acquire: async (key: string, ttl: number) => {
+      if ((await getRedis().set(key, nodeID, 'PX', ttl, 'NX')) !== 'OK') {
+        throw new Error(`Lease ${key} is held by another node`);
+      }
+      return createLock(key);
+    },
+  };
+}
+
+export type DatabaseChangeStreamPublisherOptions = {
+  collection: Collection;
+  // Called once the service is started (the client may not be ready before)
+  getRedis: () => Redis;
+  // Prefix of the Redis keys (lease and resume token)
+  key: string;
+  nodeID: string;
+  leaseTTL: number;
+  preImages: boolean;
+  softDelete: boolean;
+  logger: Logger;
+  emit: (event: DatabaseChangeStreamEvent<Document>) => void;
+};
+
+/**
+ * Watch a collection and send its changes as database events.
+ *
+ * Only one node holds the lease (see LeaderElection) and watches the collection.
+ * The resume token is saved after each change so the next leader (or the same node after a restart)
+ * resumes where it stopped. If the token is too old for the oplog, the stream restarts from now.
+ */
+export class DatabaseChangeStreamPublisher {
+  private readonly election: LeaderElection;
+
+  private stream: ChangeStream | null = null;
+
+  private interval: NodeJS.Timeout | null = null;
+
+  private isOpening = false;
+
+  private isStopped = true;
+
+  private isHistoryLost = false;
+
+  constructor(private readonly opts: DatabaseChangeStreamPublisherOptions) {
+    this.election = new LeaderElection({
+      key: `${opts.key}:leader`,
+      ttl: opts.leaseTTL,
+      retryInterval: opts.leaseTTL / 3,
+      getRedlock: () => createLeaseClient(opts.getRedis, opts.nodeID),
+      logger: opts.logger,
+      onChange: async leader => {
+        opts.logger.info(
+          leader
+            ? `Acquired change stream lease ${opts.key}`
+            : `Lost change stream lease ${opts.key}`,
+        );
+        // Don't risk sending events twice once another node may hold the lease
+        await (leader ? this.ensureStream() : this.closeStream());
+      },
+    });
+  }
+
+  private get tokenKey(): string {
+    return `${this.opts.key}:resume-token`;
+  }
+
+  start(): void {
+    this.isStopped = false;
+    this.election.start();
+    // Restart the stream after an error
+    this.interval = setInterval(
+      () => void this.ensureStream(),
+      this.opts.leaseTTL / 3,
+    );
+  }
+
+  async stop(): Promise<void> {
+    this.isStopped = true;
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    // Closed before releasing the lease, so two nodes never watch at once
+    await this.closeStream();
+    await this.election.stop();
+  }
+
+  /**
+   * Open the stream if this node is the leader and it isn't open yet.
+   */
+  private async ensureStream(): Promise<void> {
+    if (
+      this.isOpening ||
+      this.isStopped ||
+      this.stream ||
+      !this.election.isLeader
+    ) {
+      return;
+    }
+    this.isOpening = true;
+    try {
+      await this.openStream();
+    } catch (err) {
+      this.opts.logger.warn('Unable to open the change stream', { err });
+    } finally {
+      this.isOpening = false;
+    }
+  }
+
+  private async openStream(): Promise<void> {
+    if (this.isHistoryLost) {
+      await this.opts.getRedis().del(this.tokenKey);
+      this.isHistoryLost = false;
+    }
+    const token = await this.opts.getRedis().get(this.tokenKey);
+    // Demoted or stopped while reading the token
+    if (!this.election.isLeader || this.isStopped) {
+      return;
+    }
+    const stream = this.opts.collection.watch([], {
+      fullDocument: 'updateLookup',
+      fullDocumentBeforeChange: this.opts.preImages ? 'whenAvailable' : 'off',
+      resumeAfter: token ? BSON.EJSON.parse(token) : undefined,
+    });
+    this.stream = stream;
+    void this.consume(stream);
+  }
+
+  private async closeStream(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    await stream?.close();
+  }
+
+  private async consume(stream: ChangeStream): Promise<void> {
+    try {
+      for await (const change of stream) {
+        const event = getDatabaseEventFromChange(
+          change as ChangeStreamDocument,
+          this.opts.softDelete,
+        );
+        if (event) {
+          this.opts.emit(event);
+        }
+        await this.opts
+          .getRedis()
+          .set(this.tokenKey, BSON.EJSON.stringify(change._id));
+      }
+    } catch (err) {
+      // Closed on purpose
+      if (this.stream !== stream) {
+        return;
+      }
+      this.opts.logger.error('Change stream error', { err });
+      if ((err as { code?: number }).code === CHANGE_STREAM_HISTORY_LOST) {
+        this.opts.logger.warn(
+          'Resume token is no longer in the oplog, changes were lost',
+        );
+        this.isHistoryLost = true;
+      }
+    }
+    if (this.stream === stream) {
+      // Will be reopened by the next interval
+      this.stream = null;
+    }
+  }
+}
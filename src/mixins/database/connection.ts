@@ -1,12 +1,14 @@
-import {
-  type Collection,
-  type CollectionOptions,
+import type {
+  Collection,
+  CollectionOptions,
   MongoClient,
-  type CreateCollectionOptions,
-  type MongoError,
+  CreateCollectionOptions,
+  MongoError,
 } from 'mongodb';
+import type { Context } from 'moleculer';
 import { wrapMixin } from '../../types/index.js';
 import { GlobalStoreMixin } from '../global-store.mixin.js';
+import { type DatabaseDriver, resolveDatabaseDriver } from './driver.js';
 
 // Declare the global variables used for MongoDB connection
 declare global {
@@ -43,12 +45,54 @@ export type DatabaseConnectionOptions = {
    * OVERRIDDEN by globalThis.__MONGO_URI__ if set, which is useful for tests.
    */
   uri?: string;
+
+  /**
+   * Storage driver: 'mongodb' (default), 'memory' (see memoryDatabaseDriver) or a custom one.
+   * The memory driver keeps the data in the process, which is useful for hermetic tests.
+   *
+   * OVERRIDDEN by process.env.DATABASE_DRIVER ('mongodb' or 'memory') if set.
+   */
+  driver?: 'mongodb' | 'memory' | DatabaseDriver;
+
+  /**
+   * Use a database per tenant instead of the databaseName option.
+   * See DatabaseTenancyOptions.
+   */
+  tenancy?: DatabaseTenancyOptions;
+};
+
+/**
+ * With the tenancy option, each tenant has its own database (and optionally its own server),
+ * resolved on each call from the tenant value (see getCollection).
+ * With the DatabaseMethodsMixin, the tenant value is the one of the tenantField (in params
+ * or documents), or the one in ctx.meta when there is none (read methods take the ctx option).
+ *
+ * Clients are shared between services and tenants by URI, like the default one.
+ * Calls without tenant use the default database (e.g. for shared data).
+ * Note that transactions and causally consistent sessions only work with tenants on the default URI.
+ */
+export type DatabaseTenancyOptions = {
+  /**
+   * Return the database name of a tenant, or its database name and URI to use another server.
+   * The GlobalStoreMixin overrides (e.g. globalThis.__MONGO_DB_NAME__) are applied to the returned name.
+   */
+  resolve: (tenant: string) => string | { databaseName: string; uri?: string };
+  /**
+   * Return every tenant, used to create the collection and to sync indexes
+   * (see DatabaseIndexesMixin) in every tenant database.
+   */
+  listTenants?: () => Promise<string[]>;
+  /**
+   * Key of ctx.meta with the tenant value, used when the tenant can't be found otherwise.
+   */
+  metaKey?: string;
 };
 
 export function DatabaseConnectionMixin<
   TSchema extends Record<string, unknown> = never,
 >(opts: DatabaseConnectionOptions) {
-  const { databaseName, collectionName, createCollectionOptions } = opts;
+  const { databaseName, collectionName, createCollectionOptions, tenancy } =
+    opts;
   const uri =
     globalThis.__MONGO_URI__ ||
     opts.uri ||
@@ -57,25 +101,103 @@ export function DatabaseConnectionMixin<
     'mongodb://localhost:27017';
 
   // Allow override the DB name for testing purposes.
-  const dbName = globalThis.__MONGO_DB_NAME__
-    ? `${globalThis.__MONGO_DB_NAME__}-${databaseName}`
-    : databaseName;
+  const getDbName = (name?: string) =>
+    globalThis.__MONGO_DB_NAME__
+      ? `${globalThis.__MONGO_DB_NAME__}-${name}`
+      : name;
+  const dbName = getDbName(databaseName);
+
+  const driver = resolveDatabaseDriver(opts.driver);
+  // Clients are stored by URI, prefixed by the driver so drivers don't share clients
+  const getClientKey = (clientUri: string) =>
+    driver.name === 'mongodb' ? clientUri : `${driver.name}:${clientUri}`;
+  const key = getClientKey(uri);
 
-  // Key is the uri, but we may want to add other options in the future
-  const key = uri;
+  const resolveTenant = (tenant: string) => {
+    const res = tenancy!.resolve(tenant);
+    const { databaseName: tenantDbName, uri: tenantUri } =
+      typeof res === 'string' ? { databaseName: res, uri: undefined } : res;
+    return {
+      dbName: getDbName(tenantDbName),
+      // Tests always use the same server
+      uri: globalThis.__MONGO_URI__ || tenantUri || uri,
+    };
+  };
 
   return wrapMixin({
     mixins: [GlobalStoreMixin<MongoClient>()],
 
     methods: {
-      getMongoClient(): MongoClient {
-        return this.mongoClient as MongoClient;
+      /**
+       * Return the client of the tenant (see tenancy option), the default one without tenant.
+       */
+      getMongoClient(tenant?: string): MongoClient {
+        if (!tenancy || tenant === undefined) {
+          return this.mongoClient as MongoClient;
+        }
+        const tenantUri = resolveTenant(tenant).uri;
+        const tenantKey = getClientKey(tenantUri);
+        if (tenantKey === key) {
+          return this.mongoClient as MongoClient;
+        }
+
+        let client = this.getFromStore('mongodb', tenantKey);
+        if (!client) {
+          this.logger.info(`Creating a new mongo client for tenant ${tenant}`);
+          const newClient = driver.createClient(tenantUri);
+          this.setClientToStore('mongodb', tenantKey, newClient, async () => {
+            await newClient.close();
+          });
+          newClient.on('error', err => this.logger.error('MongoDB error', err));
+          client = newClient;
+        }
+        (this.mongoTenantKeys as Set<string>).add(tenantKey);
+        return client;
       },
-      getCollection(options?: CollectionOptions): Collection<TSchema> {
-        return this.getMongoClient()
-          .db(dbName)
+      /**
+       * Return the collection in the database of the tenant (see tenancy option),
+       * in the default database without tenant.
+       */
+      getCollection(
+        options?: CollectionOptions,
+        tenant?: string,
+      ): Collection<TSchema> {
+        const db =
+          tenancy && tenant !== undefined
+            ? resolveTenant(tenant).dbName
+            : dbName;
+        return this.getMongoClient(tenant)
+          .db(db)
           .collection<TSchema>(collectionName, options);
       },
+      isTenancyEnabled(): boolean {
+        return Boolean(tenancy);
+      },
+      /**
+       * Return the tenant in ctx.meta (see DatabaseTenancyOptions.metaKey).
+       */
+      getContextTenant(ctx?: Context): string | undefined {
+        if (!tenancy?.metaKey || !ctx) {
+          return undefined;
+        }
+        const tenant = (ctx.meta as Record<string, unknown>)[tenancy.metaKey];
+        return tenant === undefined || tenant === null
+          ? undefined
+          : String(tenant);
+      },
+      /**
+       * Return the collection of the default database and the ones of every tenant
+       * (see DatabaseTenancyOptions.listTenants).
+       */
+      async getTenantsCollections(
+        options?: CollectionOptions,
+      ): Promise<Collection<TSchema>[]> {
+        const tenants = (await tenancy?.listTenants?.()) || [];
+        return [
+          this.getCollection(options),
+          ...tenants.map(tenant => this.getCollection(options, tenant)),
+        ];
+      },
     },
     created() {
       let client = this.getFromStore('mongodb', key);
@@ -86,7 +208,7 @@ export function DatabaseConnectionMixin<
         this.logger.info(
           "Didn't find mongo client in store, creating a new one",
         );
-        client = new MongoClient(uri);
+        client = driver.createClient(uri);
         this.setClientToStore('mongodb', key, client, async () => {
           this.logger.debug('Closing mongoDB connection');
           await client?.close();
@@ -96,25 +218,36 @@ export function DatabaseConnectionMixin<
         client.on('error', err => this.logger.error('MongoDB error', err));
       }
       this.mongoClient = client;
+      this.mongoTenantKeys = new Set<string>();
     },
     async started() {
       // Mongo driver already have a lock that will return the same promise if it's already connecting
       this.logger.debug('Service connecting to mongoDB');
       await this.getMongoClient().connect();
       this.logger.debug('Service connected to mongoDB, creating collection');
-      try {
-        await this.getMongoClient()
-          .db(dbName)
-          .createCollection(collectionName, createCollectionOptions);
-      } catch (err) {
-        // Code 48 === Collection already exists
-        if ((err as MongoError)?.code !== 48) {
-          this.logger.error('Error while creating collection', { err });
+      const collections = await this.getTenantsCollections();
+      for (const collection of collections) {
+        try {
+          await collection.db.createCollection(
+            collectionName,
+            createCollectionOptions,
+          );
+        } catch (err) {
+          // Code 48 === Collection already exists
+          if ((err as MongoError)?.code !== 48) {
+            this.logger.error('Error while creating collection', {
+              err,
+              dbName: collection.dbName,
+            });
+          }
         }
       }
     },
     async stopped() {
       await this.removeServiceFromStore('mongodb', key);
+      for (const tenantKey of this.mongoTenantKeys as Set<string>) {
+        await this.removeServiceFromStore('mongodb', tenantKey);
+      }
     },
   });
 }
@@ -0,0 +1,42 @@
+import type { Context } from 'moleculer';
+
+/**
+ * Objects of this process linked to contexts (and their future child contexts) through their ID in ctx.meta.
+ * Only the ID is stored as meta is serialized on remote calls: services on other nodes
+ * will simply not find the object and run without it.
+ */
+export class ContextRegistry<T extends { readonly id: string }> {
+  private readonly entries = new Map<string, T>();
+
+  constructor(private readonly metaKey: string) {}
+
+  /**
+   * Link the entry to a context.
+   */
+  attach(ctx: Context, entry: T): void {
+    this.entries.set(entry.id, entry);
+    (ctx.meta as Record<string, unknown>)[this.metaKey] = entry.id;
+  }
+
+  /**
+   * Unlink the entry from a context, child contexts don't find it anymore.
+   */
+  detach(ctx: Context, entry: T): void {
+    this.entries.delete(entry.id);
+    this.unlink(ctx);
+  }
+
+  /**
+   * Remove the ID from the meta of a context (e.g. a child context with a copy of the meta).
+   */
+  unlink(ctx: Context): void {
+    delete (ctx.meta as Record<string, unknown>)[this.metaKey];
+  }
+
+  get(ctx: Context | undefined): T | undefined {
+    const id = (ctx?.meta as Record<string, unknown> | undefined)?.[
+      this.metaKey
+    ];
+    return typeof id === 'string' ? this.entries.get(id) : undefined;
+  }
+}
@@ -0,0 +1,49 @@
+import { MongoClient } from 'mongodb';
+import { MemoryMongoClient } from './memory/client.js';
+
+/**
+ * Storage driver of the DatabaseConnectionMixin, creating the clients of the services.
+ */
+export type DatabaseDriver = {
+  // Used in the store key of the clients, so drivers don't share clients
+  name: string;
+  createClient: (uri: string) => MongoClient;
+};
+
+export const mongoDatabaseDriver: DatabaseDriver = {
+  name: 'mongodb',
+  createClient: uri => new MongoClient(uri),
+};
+
+/**
+ * In-memory driver, made for hermetic tests without a MongoDB server.
+ *
+ * It supports the filter, update, projection, sort and aggregation subset used by
+ * the database mixins and their actions, and throws on the rest
+ * (e.g. $search, $text, change streams, positional updates).
+ * Unique indexes are enforced, other index options are only stored.
+ * Transactions are not isolated, see MemorySession.
+ */
+export const memoryDatabaseDriver: DatabaseDriver = {
+  name: 'memory',
+  createClient: uri => new MemoryMongoClient(uri) as unknown as MongoClient,
+};
+
+/**
+ * Return the driver to use, process.env.DATABASE_DRIVER ('mongodb' or 'memory') overrides the option.
+ */
+export function resolveDatabaseDriver(
+  driver: 'mongodb' | 'memory' | DatabaseDriver = 'mongodb',
+): DatabaseDriver {
+  const name = process.env.DATABASE_DRIVER || driver;
+  if (typeof name !== 'string') {
+    return name;
+  }
+  if (name === 'memory') {
+    return memoryDatabaseDriver;
+  }
+  if (name === 'mongodb') {
+    return mongoDatabaseDriver;
+  }
+  throw new Error(`Unknown database driver ${name}`);
+}
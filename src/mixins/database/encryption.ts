@@ -0,0 +1,252 @@
+import { BSON, type Document } from 'mongodb';
+import { EncryptedFieldError } from './errors.js';
+
+export type EncryptFn = (data: string) => Promise<Uint8Array>;
+export type DecryptFn = (data: Uint8Array) => Promise<Uint8Array>;
+
+// Operators allowed on encrypted fields in classic updates.
+// Values of $set/$setOnInsert are encrypted, $unset doesn't need a value.
+const ALLOWED_UPDATE_OPERATORS = new Set(['$set', '$setOnInsert', '$unset']);
+
+/**
+ * Remove positional operators and array indexes from a path,
+ * so `addresses.$.line1` or `addresses.0.line1` can be compared to `addresses.line1`.
+ */
+function normalizePath(path: string): string[] {
+  return path
+    .split('.')
+    .filter(segment => !segment.startsWith('$') && !/^\d+$/.test(segment));
+}
+
+function startsWith(path: string[], prefix: string[]): boolean {
+  return prefix.every((segment, i) => path[i] === segment);
+}
+
+/**
+ * Return a copy of value where the value at the given path has been replaced by fn result.
+ * Objects are copied along the path only, and arrays are traversed (each item is transformed).
+ * Nothing is done if the path doesn't exist or if the value is null.
+ */
+async function transformPath(
+  value: unknown,
+  path: string[],
+  fn: (val: unknown) => Promise<unknown>,
+): Promise<unknown> {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => transformPath(item, path, fn)));
+  }
+  if (!path.length) {
+    return fn(value);
+  }
+  if (typeof value !== 'object' || !(path[0] in value)) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  const obj = value as Record<string, unknown>;
+  return { ...obj, [key]: await transformPath(obj[key], rest, fn) };
+}
+
+async function encryptValue(
+  value: unknown,
+  encrypt: EncryptFn,
+): Promise<Uint8Array> {
+  // Extended JSON keeps the type of the value (Date, ObjectId, etc.)
+  return encrypt(BSON.EJSON.stringify(value, { relaxed: false }));
+}
+
+async function decryptValue(
+  value: unknown,
+  decrypt: DecryptFn,
+): Promise<unknown> {
+  // Values that are not binaries were written before the field was encrypted
+  if (!(value instanceof BSON.Binary)) {
+    return value;
+  }
+  const plain = await decrypt(value.buffer);
+  return BSON.EJSON.parse(Buffer.from(plain).toString('utf8'), {
+    relaxed: false,
+  });
+}
+
+/**
+ * Return a copy of the document with the given fields encrypted.
+ */
+export async function encryptDocumentFields<T extends Document>(
+  doc: T,
+  fields: string[],
+  encrypt: EncryptFn,
+): Promise<T> {
+  let res: unknown = doc;
+  for (const field of fields) {
+    res = await transformPath(res, field.split('.'), val =>
+      encryptValue(val, encrypt),
+    );
+  }
+  return res as T;
+}
+
+/**
+ * Return a copy of the document with the given fields decrypted.
+ */
+export async function decryptDocumentFields<T extends Document>(
+  doc: T,
+  fields: string[],
+  decrypt: DecryptFn,
+): Promise<T> {
+  let res: unknown = doc;
+  for (const field of fields) {
+    res = await transformPath(res, field.split('.'), val =>
+      decryptValue(val, decrypt),
+    );
+  }
+  return res as T;
+}
+
+/**
+ * Return a copy of the update with the values of encrypted fields encrypted.
+ *
+ * Only $set and $setOnInsert can write an encrypted field (or one of its parents),
+ * and $unset can remove it. Any other operator, an update of a sub-path of an encrypted field
+ * or an aggregation pipeline touching an encrypted field will throw.
+ */
+export async function encryptUpdateFields<T extends Document>(
+  changes: T | T[],
+  fields: string[],
+  encrypt: EncryptFn,
+): Promise<T | T[]> {
+  const paths = fields.map(field => ({ field, path: field.split('.') }));
+
+  if (Array.isArray(changes)) {
+    for (const stage of changes) {
+      for (const stageValue of Object.values(stage)) {
+        const keys =
+          typeof stageValue === 'string'
+            ? [stageValue]
+            : Array.isArray(stageValue)
+              ? stageValue
+              : Object.keys(stageValue || {});
+        for (const key of keys) {
+          const keyPath = normalizePath(String(key).replace(/^\$/, ''));
+          const touched = paths.find(
+            p => startsWith(p.path, keyPath) || startsWith(keyPath, p.path),
+          );
+          if (touched) {
+            throw new EncryptedFieldError(
+              touched.field,
+              "can't be updated with an aggregation pipeline",
+            );
+          }
+        }
+      }
+    }
+    return changes;
+  }
+
+  const res: Record<string, unknown> = { ...changes };
+  for (const [operator, operatorValue] of Object.entries(changes)) {
+    if (!operatorValue || typeof operatorValue !== 'object') {
+      continue;
+    }
+    let newValue: Record<string, unknown> | undefined;
+
+    for (const key of Object.keys(operatorValue)) {
+      const keyPath = normalizePath(key);
+      for (const { field, path } of paths) {
+        if (startsWith(keyPath, path) && keyPath.length > path.length) {
+          throw new EncryptedFieldError(field, "can't be partially updated");
+        }
+        if (!startsWith(path, keyPath)) {
+          continue;
+        }
+        if (!ALLOWED_UPDATE_OPERATORS.has(operator)) {
+          throw new EncryptedFieldError(
+            field,
+            `can't be updated with ${operator}`,
+          );
+        }
+        if (operator === '$unset') {
+          continue;
+        }
+        newValue ||= { ...(operatorValue as Record<string, unknown>) };
+        newValue[key] = await transformPath(
+          newValue[key],
+          path.slice(keyPath.length),
+          val => encryptValue(val, encrypt),
+        );
+      }
+    }
+    if (newValue) {
+      res[operator] = newValue;
+    }
+  }
+  return res as T;
+}
+
+/**
+ * Throw if the filter uses an encrypted field (or one of its parents/children),
+ * as encrypted values can't be compared.
+ */
+export function assertNoEncryptedFieldsInFilter(
+  filter: Document,
+  fields: string[],
+): void {
+  const paths = fields.map(field => ({ field, path: field.split('.') }));
+
+  const check = (value: Document, parent: string[]) => {
+    for (const [key, val] of Object.entries(value)) {
+      if (key === '$and' || key === '$or' || key === '$nor') {
+        if (Array.isArray(val)) {
+          val.forEach(sub => check(sub, parent));
+        }
+        continue;
+      }
+      if (key.startsWith('$')) {
+        continue;
+      }
+      const keyPath = [...parent, ...normalizePath(key)];
+      // Filter on the encrypted field itself or one of its children
+      let touched = paths.find(p => startsWith(keyPath, p.path));
+      if (touched) {
+        throw new EncryptedFieldError(
+          touched.field,
+          "can't be used in filters",
+        );
+      }
+      // $elemMatch sub-queries are relative to the field
+      if (val && typeof val === 'object' && '$elemMatch' in val) {
+        check(val.$elemMatch, keyPath);
+        continue;
+      }
+      // Filter on a parent of the encrypted field (comparing the whole sub-document)
+      touched = paths.find(p => startsWith(p.path, keyPath));
+      if (touched) {
+        throw new EncryptedFieldError(
+          touched.field,
+          "can't be used in filters",
+        );
+      }
+    }
+  };
+  check(filter, []);
+}
+
+/**
+ * Throw if the sort uses an encrypted field, as encrypted values can't be compared.
+ */
+export function assertNoEncryptedFieldsInSort(
+  sort: string[],
+  fields: string[],
+): void {
+  for (const el of sort) {
+    const sortPath = normalizePath(el.replace(/^-/, ''));
+    const touched = fields.find(field =>
+      startsWith(sortPath, field.split('.')),
+    );
+    if (touched) {
+      throw new EncryptedFieldError(touched, "can't be used to sort");
+    }
+  }
+}
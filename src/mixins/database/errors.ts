@@ -7,3 +7,35 @@ export class EntityNotFoundError extends MoleculerClientError {
     super('Entity not found', 404, 'ENTITY_NOT_FOUND', { id });
   }
 }
+
+export class EncryptedFieldError extends MoleculerClientError {
+  constructor(field: string, reason: string) {
+    super(`Encrypted field "${field}" ${reason}`, 400, 'ENCRYPTED_FIELD', {
+      field,
+    });
+  }
+}
+
+export class MissingUpsertKeyError extends MoleculerClientError {
+  constructor(field: string) {
+    super(`Missing upsert key "${field}"`, 400, 'MISSING_UPSERT_KEY', {
+      field,
+    });
+  }
+}
+
+export class VersionConflictError extends MoleculerClientError {
+  constructor(id: string, expectedVersion: number, currentVersion?: number) {
+    super('Version conflict', 409, 'VERSION_CONFLICT', {
+      id,
+      expectedVersion,
+      currentVersion,
+    });
+  }
+}
+
+export class ForbiddenStageError extends MoleculerClientError {
+  constructor(stage: string) {
+    super(`Stage ${stage} is not allowed`, 400, 'FORBIDDEN_STAGE', { stage });
+  }
+}
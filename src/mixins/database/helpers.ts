@@ -1,10 +1,12 @@
 import type { Filter, WithId } from 'mongodb';
+import { omit, pick } from 'es-toolkit/compat';
+import { Errors } from 'moleculer';
 import {
   type JSONSchemaType,
   omitFields,
   optionalFields,
 } from '../../json-schema/index.js';
-import type { WithOptionalId } from './types.js';
+import type { DatabaseBulkItemError, WithOptionalId } from './types.js';
 
 export function removeMongoId<T>(
   schema: JSONSchemaType<WithId<T>>,
@@ -62,3 +64,135 @@ export function getQueryFromList<
   });
   return res;
 }
+
+/**
+ * Return true if some fields of a list (same format as the `fields` option) can't be projected by mongo:
+ * exclusions other than _id in inclusion mode (see getPublishedFields).
+ * They must be removed from the read documents with projectDocument.
+ */
+export function hasUnprojectedFields(fields?: string[]): boolean {
+  return (
+    !!fields?.some(f => !f.startsWith('-')) &&
+    fields.some(f => f.startsWith('-') && f !== '-_id')
+  );
+}
+
+/**
+ * Return the mongo projection of a fields list, without the fields it can't project (see hasUnprojectedFields).
+ */
+export function getFieldsProjection(
+  fields?: string[],
+): Record<string, 0 | 1> | undefined {
+  return getQueryFromList(
+    'projection',
+    hasUnprojectedFields(fields)
+      ? fields?.filter(f => !f.startsWith('-') || f === '-_id')
+      : fields,
+  );
+}
+
+/**
+ * Apply a fields list (same format as the `fields` option) on an already fetched document.
+ * Like a mongo projection, _id is kept in inclusion mode unless explicitly excluded.
+ */
+export function projectDocument<T extends Record<string, unknown>>(
+  doc: T,
+  fields?: string[],
+): T {
+  const projection = getQueryFromList('projection', fields);
+  if (!projection) {
+    return doc;
+  }
+  const included = Object.keys(projection).filter(k => projection[k] === 1);
+  const excluded = Object.keys(projection).filter(k => projection[k] === 0);
+
+  let res: Partial<T> = doc;
+  if (included.length) {
+    res = pick(
+      doc,
+      excluded.includes('_id') ? included : ['_id', ...included],
+    ) as Partial<T>;
+  }
+  return omit(res, excluded) as T;
+}
+
+export function isSameOrNestedPath(path: string, parent: string): boolean {
+  return path === parent || path.startsWith(`${parent}.`);
+}
+
+/**
+ * Return the fields list (same format as the `fields` option) of a published action:
+ * the requested fields, restricted to the public ones (if any), without the hidden ones.
+ * When nothing can be returned, only _id is.
+ *
+ * Hidden children of included fields are excluded, see hasUnprojectedFields.
+ */
+export function getPublishedFields(
+  hiddenFields: string[] = [],
+  publicFields?: string[],
+  fields?: string[],
+): string[] | undefined {
+  const isVisible = (field: string) =>
+    !hiddenFields.some(hidden => isSameOrNestedPath(field, hidden));
+  const included = (fields || []).filter(f => !f.startsWith('-'));
+
+  if (publicFields || included.length) {
+    let res = publicFields || included;
+    if (publicFields && included.length) {
+      res = included.filter(f =>
+        publicFields.some(p => isSameOrNestedPath(f, p)),
+      );
+    }
+    res = res.filter(isVisible);
+    if (!res.length) {
+      return ['_id'];
+    }
+    const hiddenChildren = hiddenFields.filter(hidden =>
+      res.some(f => hidden !== f && isSameOrNestedPath(hidden, f)),
+    );
+    return [...res, ...hiddenChildren.map(f => `-${f}`)];
+  }
+
+  const excluded = [...(fields || []), ...hiddenFields.map(f => `-${f}`)];
+  return excluded.length ? excluded : undefined;
+}
+
+/**
+ * Return true if a path (dot notation) is returned with the given fields list.
+ * In inclusion mode, parents of included fields are not (they could contain other fields).
+ */
+export function isPathProjected(path: string, fields?: string[]): boolean {
+  const projection = getQueryFromList('projection', fields);
+  if (!projection) {
+    return true;
+  }
+  const entries = Object.entries(projection);
+  if (entries.some(([f, v]) => v === 0 && isSameOrNestedPath(path, f))) {
+    return false;
+  }
+  const included = entries.filter(([f, v]) => v === 1 && f !== '_id');
+  return (
+    !included.length ||
+    path === '_id' ||
+    included.some(([f]) => isSameOrNestedPath(path, f))
+  );
+}
+
+/**
+ * Convert an error thrown while writing an item of a bulk operation to a serializable error.
+ */
+export function toBulkItemError(err: unknown): DatabaseBulkItemError {
+  if (err instanceof Errors.MoleculerError) {
+    const { name, message, code, type, data } = err;
+    return { name, message, code, type, data };
+  }
+  if (err instanceof Error) {
+    const { code } = err as { code?: unknown };
+    return {
+      name: err.name,
+      message: err.message,
+      ...(typeof code === 'number' ? { code } : {}),
+    };
+  }
+  return { name: 'Error', message: String(err) };
+}
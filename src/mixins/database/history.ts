@@ -0,0 +1,107 @@
+import { isPlainObject } from 'es-toolkit';
+import { BSON, type Document, type ObjectId } from 'mongodb';
+import { isPathProjected, projectDocument } from './helpers.js';
+import type { WithDbFields } from './types.js';
+
+export type DatabaseHistoryOperation =
+  | 'insert'
+  | 'update'
+  | 'replace'
+  | 'delete'
+  | 'restore';
+
+/**
+ * A single change between two versions of a document.
+ * `path` uses dot notation, arrays are compared as a whole.
+ */
+export type DatabaseHistoryChange = {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+  oldValue?: unknown;
+};
+
+/**
+ * Record stored in the history collection for each write on a document.
+ * Depending on the history mode, it contains the before/after snapshots or the diff between them.
+ * The tenant field (if any) is copied on the record to filter history by tenant.
+ */
+export type DatabaseHistoryRecord<TSchema extends Document> = {
+  _id: ObjectId;
+  documentId: TSchema['_id'];
+  // Incremented on each write on the document, starting at 1
+  version: number;
+  operation: DatabaseHistoryOperation;
+  before?: WithDbFields<TSchema>;
+  after?: WithDbFields<TSchema>;
+  diff?: DatabaseHistoryChange[];
+  // Values picked from ctx.meta (see actorMetaKeys option)
+  actor?: Record<string, unknown>;
+  requestID?: string;
+  createdAt: Date;
+} & Document;
+
+/**
+ * Apply a fields list (same format as the `fields` option) on the snapshots and the diff of a record.
+ */
+export function projectHistoryRecord<TSchema extends Document>(
+  record: DatabaseHistoryRecord<TSchema>,
+  fields?: string[],
+): DatabaseHistoryRecord<TSchema> {
+  if (!fields?.length) {
+    return record;
+  }
+  const { before, after, diff } = record;
+  return {
+    ...record,
+    ...(before ? { before: projectDocument(before, fields) } : {}),
+    ...(after ? { after: projectDocument(after, fields) } : {}),
+    ...(diff
+      ? { diff: diff.filter(change => isPathProjected(change.path, fields)) }
+      : {}),
+  };
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  // Extended JSON handles ObjectId, Date, Binary, etc. that can't be compared with ===
+  return (
+    BSON.EJSON.stringify(a, { relaxed: false }) ===
+    BSON.EJSON.stringify(b, { relaxed: false })
+  );
+}
+
+/**
+ * Return the list of changes to go from `before` to `after`.
+ * Plain objects are compared field by field, other values (arrays included) as a whole.
+ */
+export function diffDocuments(
+  before: Document | null | undefined,
+  after: Document | null | undefined,
+  parent: string = '',
+): DatabaseHistoryChange[] {
+  const changes: DatabaseHistoryChange[] = [];
+  const keys = new Set([
+    ...Object.keys(before || {}),
+    ...Object.keys(after || {}),
+  ]);
+
+  for (const key of keys) {
+    const path = parent ? `${parent}.${key}` : key;
+    const oldValue = before?.[key];
+    const value = after?.[key];
+
+    if (oldValue === undefined && value === undefined) {
+      continue;
+    }
+    if (oldValue === undefined) {
+      changes.push({ op: 'add', path, value });
+    } else if (value === undefined) {
+      changes.push({ op: 'remove', path, oldValue });
+    } else if (isPlainObject(oldValue) && isPlainObject(value)) {
+      changes.push(...diffDocuments(oldValue, value, path));
+    } else if (!isSameValue(oldValue, value)) {
+      changes.push({ op: 'replace', path, value, oldValue });
+    }
+  }
+  return changes;
+}
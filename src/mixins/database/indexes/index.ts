@@ -1,16 +1,21 @@
 import { isEqual } from 'es-toolkit';
 import type { Collection } from 'mongodb';
-import type { Context } from 'moleculer';
+import type { ActionVisibility, Context } from 'moleculer';
 import { wrapMixin } from '../../../types/index.js';
 import {
+  getIndexSyncOperations,
+  getTemporaryIndex,
   isIndexEqual,
   isIndexNameEqual,
+  isTextIndex,
   shouldAutoCreateIndexes,
   shouldAutoDropIndexes,
+  shouldAutoRebuildIndexes,
 } from './utils.js';
 import {
   type IndexState,
   IndexStatus,
+  type IndexSyncOperation,
   type IndexTuple,
   type ListSearchIndex,
   type MongoIndex,
@@ -124,29 +129,85 @@ async function getIndexesDifference(
 export type DatabaseIndexesOptions = {
   indexes?: IndexTuple[];
   searchIndexes?: Record<string, SearchIndexDefinition>;
+  actions?: {
+    // Return the state of every index of the collection (see _getIndexesStatus),
+    // in the database of the `tenant` param if given.
+    indexesStatus?: { visibility: Exclude<ActionVisibility, 'published'> };
+  };
 };
 
 export type SyncIndexesOptions = {
   createIndexes: boolean;
   dropIndexes: boolean;
+  // Rebuild outdated classic indexes (see getTemporaryIndex), only with createIndexes.
+  rebuildIndexes?: boolean;
+  // Only return the planned operations, without running them.
+  dryRun?: boolean;
 };
 
+export type SyncIndexesEventParams = Partial<
+  Pick<SyncIndexesOptions, 'dryRun' | 'rebuildIndexes'>
+>;
+
 export const DATABASE_INDEXES_MIXIN_SYNC_EVENT = 'database-indexes-mixin.sync';
 
 export function DatabaseIndexesMixin(opts: DatabaseIndexesOptions) {
   return wrapMixin({
     methods: {
-      async _syncIndexes({
-        dropIndexes,
-        createIndexes,
-      }: SyncIndexesOptions): Promise<void> {
+      _getIndexedCollection(tenant?: string): Collection {
         if (typeof this.getCollection !== 'function') {
           throw new Error(
             'getCollection method not found, did you add the DatabaseConnectionMixin?',
           );
         }
-        const collection = this.getCollection() as Collection;
+        return this.getCollection(undefined, tenant) as Collection;
+      },
+
+      /**
+       * Return the state of the declared indexes and of the ones in the database
+       * (of the tenant, see DatabaseConnectionMixin tenancy option).
+       */
+      async _getIndexesStatus(tenant?: string): Promise<IndexState[]> {
+        return getIndexesDifference(
+          this._getIndexedCollection(tenant),
+          opts.indexes,
+          opts.searchIndexes,
+        );
+      },
+
+      /**
+       * Sync the indexes of the collection, in every tenant database (see DatabaseConnectionMixin tenancy option),
+       * and return the operations done (or planned with dryRun).
+       */
+      async _syncIndexes(
+        options: SyncIndexesOptions,
+      ): Promise<IndexSyncOperation[]> {
+        if (typeof this.getTenantsCollections !== 'function') {
+          throw new Error(
+            'getTenantsCollections method not found, did you add the DatabaseConnectionMixin?',
+          );
+        }
+        const collections =
+          (await this.getTenantsCollections()) as Collection[];
 
+        const operations: IndexSyncOperation[] = [];
+        for (const collection of collections) {
+          operations.push(
+            ...(await this._syncCollectionIndexes(collection, options)),
+          );
+        }
+        return operations;
+      },
+
+      async _syncCollectionIndexes(
+        collection: Collection,
+        {
+          dropIndexes,
+          createIndexes,
+          rebuildIndexes,
+          dryRun,
+        }: SyncIndexesOptions,
+      ): Promise<IndexSyncOperation[]> {
         const states = await getIndexesDifference(
           collection,
           opts.indexes,
@@ -159,33 +220,43 @@ export function DatabaseIndexesMixin(opts: DatabaseIndexesOptions) {
           this.logger.info(
             `Collection ${collection.collectionName} is synced (${states.length} indexes)`,
           );
-          return;
+          return [];
         }
         this.logger.info(
           `Collection ${collection.collectionName} is not synced (${notOkStates.length}/${states.length} indexes are not OK)`,
         );
 
-        const syncableStates = notOkStates.filter(
-          s =>
-            (s.status === IndexStatus.NOT_DECLARED && dropIndexes) ||
-            (s.status === IndexStatus.MISSING && createIndexes) ||
-            (s.status === IndexStatus.OUTDATED && createIndexes),
-        );
+        const operations = getIndexSyncOperations(notOkStates, {
+          createIndexes,
+          dropIndexes,
+          rebuildIndexes,
+        }).map(operation => ({ ...operation, dbName: collection.dbName }));
 
-        for (const state of syncableStates) {
+        if (dryRun) {
+          this.logger.info(`Planned index operations (dry-run)`, {
+            operations,
+          });
+          return operations;
+        }
+
+        for (const operation of operations) {
           try {
-            await this._createIndexFromState(collection, state);
+            await this._runIndexSyncOperation(collection, operation);
           } catch (err) {
-            this.logger.warn('Error while syncing indexes', { err, state });
+            this.logger.warn('Error while syncing indexes', {
+              err,
+              state: operation.state,
+            });
           }
         }
+        return operations;
       },
 
-      async _createIndexFromState(
+      async _runIndexSyncOperation(
         col: Collection,
-        state: IndexState,
+        { operation, state }: IndexSyncOperation,
       ): Promise<void> {
-        if (state.status === IndexStatus.MISSING) {
+        if (operation === 'create' && state.status === IndexStatus.MISSING) {
           this.logger.info(`Creating missing index`, { state });
           if (state.type === 'index') {
             const [definition, options] = state.declaredIndex;
@@ -196,7 +267,10 @@ export function DatabaseIndexesMixin(opts: DatabaseIndexesOptions) {
               definition: state.declaredSearchIndex,
             });
           }
-        } else if (state.status === IndexStatus.NOT_DECLARED) {
+        } else if (
+          operation === 'drop' &&
+          state.status === IndexStatus.NOT_DECLARED
+        ) {
           this.logger.info(`Index is not declared, dropping it`, { state });
           if (state.type === 'index') {
             if (!state.index.name || state.index.name === '_id_') {
@@ -208,28 +282,86 @@ export function DatabaseIndexesMixin(opts: DatabaseIndexesOptions) {
           } else {
             await col.dropSearchIndex(state.name);
           }
-        } else if (state.status === IndexStatus.OUTDATED) {
-          this.logger.info(`Index is outdated, updating it`, { state });
-          if (state.type === 'index') {
-            this.logger.warn(
-              'Updating indexes is not supported, it should be done manually',
-            );
-          } else {
-            await col.updateSearchIndex(state.name, state.declaredSearchIndex);
-          }
+        } else if (
+          operation === 'rebuild' &&
+          state.status === IndexStatus.OUTDATED &&
+          state.type === 'index'
+        ) {
+          this.logger.info(`Index is outdated, rebuilding it`, { state });
+          await this._rebuildIndex(col, state.index, state.declaredIndex);
+        } else if (
+          operation === 'update' &&
+          state.status === IndexStatus.OUTDATED &&
+          state.type === 'searchIndex'
+        ) {
+          this.logger.info(`Search index is outdated, updating it`, { state });
+          await col.updateSearchIndex(state.name, state.declaredSearchIndex);
         } else {
-          this.logger.info(`Index is OK, doing nothing`, { state });
+          throw new Error(
+            `Unable to ${operation} index with status ${state.status}`,
+          );
+        }
+      },
+
+      /**
+       * Replace an index by its new definition while keeping an index with the same keys:
+       * create a temporary index, drop the old one, create the new one and drop the temporary one.
+       * If the new index can't be created, the temporary one is kept and must be dropped manually.
+       * Text indexes are dropped and created again without temporary index.
+       */
+      async _rebuildIndex(
+        col: Collection,
+        index: MongoIndex,
+        declaredIndex: IndexTuple,
+      ): Promise<void> {
+        if (!index.name || index.name === '_id_') {
+          throw new Error(
+            `Unable to rebuild index '${index.name}', invalid name`,
+          );
         }
+        const [definition, options] = declaredIndex;
+        // A collection can only have one text index, so it can't be kept while rebuilding
+        if (isTextIndex(index)) {
+          await col.dropIndex(index.name);
+          await col.createIndex(definition, options);
+          return;
+        }
+
+        const [tmpDefinition, tmpOptions] = getTemporaryIndex(index);
+        await col.createIndex(tmpDefinition, tmpOptions);
+        await col.dropIndex(index.name);
+        await col.createIndex(definition, options);
+        await col.dropIndex(tmpOptions!.name!);
       },
     },
 
+    actions: {
+      indexesStatus: opts.actions?.indexesStatus
+        ? {
+            visibility: opts.actions.indexesStatus.visibility,
+            async handler(
+              ctx: Context<{ tenant?: string } | undefined>,
+            ): Promise<IndexState[]> {
+              return this._getIndexesStatus(ctx.params?.tenant);
+            },
+          }
+        : false,
+    },
+
     events: {
       [DATABASE_INDEXES_MIXIN_SYNC_EVENT]: {
-        async handler(ctx: Context): Promise<void> {
+        async handler(
+          ctx: Context<SyncIndexesEventParams | undefined>,
+        ): Promise<void> {
           ctx.logger.info(
             `Received sync indexes event for service ${this.name}`,
           );
-          await this._syncIndexes({ createIndexes: true, dropIndexes: false });
+          await this._syncIndexes({
+            createIndexes: true,
+            dropIndexes: false,
+            rebuildIndexes: ctx.params?.rebuildIndexes,
+            dryRun: ctx.params?.dryRun,
+          });
         },
       },
       '$broker.started': {
@@ -237,6 +369,7 @@ export function DatabaseIndexesMixin(opts: DatabaseIndexesOptions) {
           await this._syncIndexes({
             createIndexes: shouldAutoCreateIndexes(),
             dropIndexes: shouldAutoDropIndexes(),
+            rebuildIndexes: shouldAutoRebuildIndexes(),
           });
         },
       },
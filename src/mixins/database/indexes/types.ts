@@ -1,8 +1,11 @@
 import type { CollationOptions, Document } from 'mongodb';
 
 export type MongoIndex = {
-  key: Record<string, 1 | -1>;
+  // 'text' fields create a text index (only one per collection), see weights
+  key: Record<string, 1 | -1 | 'text'>;
   name?: string;
+  // Weights of the text fields (default: 1)
+  weights?: Record<string, number>;
   expireAfterSeconds?: number;
   partialFilterExpression?: Record<string, unknown>;
   sparse?: boolean;
@@ -232,3 +235,17 @@ export type IndexState =
       name: string;
       searchIndex: SearchIndexDefinition;
     };
+
+/**
+ * Operation done (or planned in dry-run) by _syncIndexes on an index.
+ * - create: create a missing index
+ * - drop: drop an index that is not declared
+ * - rebuild: replace an outdated classic index (see getTemporaryIndex)
+ * - update: update an outdated search index
+ */
+export type IndexSyncOperation = {
+  operation: 'create' | 'drop' | 'rebuild' | 'update';
+  state: IndexState;
+  // Database of the collection, set by _syncIndexes
+  dbName?: string;
+};
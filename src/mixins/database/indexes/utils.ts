@@ -1,6 +1,12 @@
 import { isEqual, isMatch } from 'es-toolkit/compat';
 import type { Collection } from 'mongodb';
-import type { IndexTuple, MongoIndex } from './types.js';
+import {
+  type IndexState,
+  IndexStatus,
+  type IndexSyncOperation,
+  type IndexTuple,
+  type MongoIndex,
+} from './types.js';
 
 const {
   MONGO_URL = '',
@@ -8,19 +14,88 @@ const {
   SYNC_MONGO_INDEX,
   SYNC_INDEX_AUTO_CREATE,
   SYNC_INDEX_AUTO_DROP,
+  SYNC_INDEX_AUTO_REBUILD,
 } = process.env;
 
-export function getDefaultIndexName(key: Record<string, 1 | -1>): string {
+export function getDefaultIndexName(key: MongoIndex['key']): string {
   return Object.entries(key).flat(1).join('_');
 }
 
+export function isTextIndex(index: MongoIndex): boolean {
+  return Object.values(index.key).includes('text');
+}
+
+/**
+ * MongoDB stores the text fields of a text index in its weights and replaces them
+ * in the key with `_fts: 'text', _ftsx: 1` (at the position of the first text field).
+ */
+export function getStoredTextIndex([keys, opts]: IndexTuple): Pick<
+  MongoIndex,
+  'key' | 'weights'
+> {
+  const key: MongoIndex['key'] = {};
+  const weights: Record<string, number> = {};
+  for (const [field, val] of Object.entries(keys)) {
+    if (val !== 'text') {
+      key[field] = val;
+      continue;
+    }
+    if (!('_fts' in key)) {
+      key._fts = 'text';
+      key._ftsx = 1;
+    }
+    weights[field] = opts?.weights?.[field] || 1;
+  }
+  return { key, weights };
+}
+
+/**
+ * TTL index that lets MongoDB hard-delete soft-deleted documents after `retentionSeconds`.
+ * Only documents with a deletedAt date are expired. Unlike purgeDeleted, it doesn't go
+ * through the database mixin (no history, no events).
+ *
+ * Note that it can't be declared along another index on `{ deletedAt: 1 }`.
+ */
+export function getSoftDeleteTTLIndex(retentionSeconds: number): IndexTuple {
+  return [{ deletedAt: 1 }, { expireAfterSeconds: retentionSeconds }];
+}
+
+/**
+ * Temporary index used while rebuilding an outdated index, so queries still have an index
+ * between the drop of the old one and the creation of the new one.
+ * An extra key is added because MongoDB refuses two indexes with the same key pattern.
+ * As it is never set, it doesn't change the unique constraint.
+ */
+export function getTemporaryIndex(index: MongoIndex): IndexTuple {
+  const { partialFilterExpression, sparse, unique, collation } = index;
+  return [
+    { ...index.key, __rebuild: 1 },
+    {
+      name: `${index.name}_rebuild`,
+      ...(partialFilterExpression && { partialFilterExpression }),
+      ...(sparse && { sparse }),
+      ...(unique && { unique }),
+      ...(collation && { collation }),
+    },
+  ];
+}
+
 export function isIndexNameEqual(dbIdx: MongoIndex, idx: IndexTuple): boolean {
   const [keys, opts] = idx;
   return dbIdx.name === (opts?.name || getDefaultIndexName(keys));
 }
 
 export function isIndexEqual(dbIdx: MongoIndex, idx: IndexTuple): boolean {
-  const [keys, opts] = idx;
+  const [, opts] = idx;
+  let keys = idx[0];
+
+  if (isTextIndex({ key: keys })) {
+    const stored = getStoredTextIndex(idx);
+    if (!isEqual(dbIdx.weights, stored.weights)) {
+      return false;
+    }
+    keys = stored.key;
+  }
 
   // First check keys
   if (Object.keys(dbIdx.key).length !== Object.keys(keys).length) {
@@ -86,6 +161,42 @@ export function shouldAutoDropIndexes(): boolean {
   return !isOnAtlas();
 }
 
+/**
+ * Outdated classic indexes are only rebuilt with SYNC_INDEX_AUTO_REBUILD = 'yes',
+ * as it can take a long time on large collections.
+ */
+export function shouldAutoRebuildIndexes(): boolean {
+  return SYNC_INDEX_AUTO_REBUILD === 'yes';
+}
+
+/**
+ * Return the operations needed to sync the indexes from their states.
+ */
+export function getIndexSyncOperations(
+  states: IndexState[],
+  {
+    createIndexes,
+    dropIndexes,
+    rebuildIndexes,
+  }: { createIndexes: boolean; dropIndexes: boolean; rebuildIndexes?: boolean },
+): IndexSyncOperation[] {
+  const operations: IndexSyncOperation[] = [];
+  for (const state of states) {
+    if (state.status === IndexStatus.MISSING && createIndexes) {
+      operations.push({ operation: 'create', state });
+    } else if (state.status === IndexStatus.NOT_DECLARED && dropIndexes) {
+      operations.push({ operation: 'drop', state });
+    } else if (state.status === IndexStatus.OUTDATED && createIndexes) {
+      if (state.type === 'searchIndex') {
+        operations.push({ operation: 'update', state });
+      } else if (rebuildIndexes) {
+        operations.push({ operation: 'rebuild', state });
+      }
+    }
+  }
+  return operations;
+}
+
 export async function getIndexesDifference({
   collection,
   declaredIdxs,
@@ -0,0 +1,438 @@
+import type { Document } from 'mongodb';
+import { evaluateExpression, type ExpressionVariables } from './expression.js';
+import { matchesFilter } from './filter.js';
+import {
+  cloneValue,
+  compareValues,
+  getPathValues,
+  isEqualValue,
+  isPlainObject,
+  setPath,
+  unsetPath,
+  unsupported,
+} from './values.js';
+
+/**
+ * Context of an aggregation pipeline run.
+ */
+export type PipelineContext = {
+  vars: ExpressionVariables;
+  // Documents of another collection of the database (used by $lookup)
+  getCollectionDocuments?: (name: string) => Document[];
+};
+
+type ProjectionTree = { [key: string]: ProjectionTree | unknown };
+
+function isProjectionFlag(value: unknown): boolean {
+  return typeof value === 'boolean' || value === 0 || value === 1;
+}
+
+function addToTree(tree: ProjectionTree, path: string, value: unknown): void {
+  const [head, ...rest] = path.split('.');
+  if (!rest.length) {
+    tree[head] = value;
+    return;
+  }
+  if (!isPlainObject(tree[head]) || !tree[head]) {
+    tree[head] = {};
+  }
+  addToTree(tree[head] as ProjectionTree, rest.join('.'), value);
+}
+
+function includeTree(
+  value: unknown,
+  tree: ProjectionTree,
+  root: Document,
+  vars: ExpressionVariables,
+): unknown {
+  if (Array.isArray(value)) {
+    return value
+      .filter(el => isPlainObject(el) || Array.isArray(el))
+      .map(el => includeTree(el, tree, root, vars));
+  }
+  if (!isPlainObject(value)) {
+    return undefined;
+  }
+  const res: Document = {};
+  for (const [key, spec] of Object.entries(tree)) {
+    if (isProjectionFlag(spec)) {
+      if (value[key] !== undefined) {
+        res[key] = cloneValue(value[key]);
+      }
+    } else if (isPlainObject(spec) && !Object.keys(spec)[0]?.startsWith('$')) {
+      const sub = includeTree(value[key], spec, root, vars);
+      if (sub !== undefined) {
+        res[key] = sub;
+      }
+    } else {
+      res[key] = evaluateExpression(spec, root, vars);
+    }
+  }
+  return res;
+}
+
+/**
+ * Apply a projection (find projection or $project stage) on a document.
+ * Values other than 0/1/true/false are evaluated as aggregation expressions.
+ */
+export function applyProjection(
+  doc: Document,
+  projection: Document | undefined,
+  vars: ExpressionVariables = {},
+): Document {
+  if (!projection || !Object.keys(projection).length) {
+    return cloneValue(doc);
+  }
+  const entries = Object.entries(projection);
+  const isExclusion = entries.every(
+    ([key, value]) => value === 0 || value === false || key === '_id',
+  );
+  if (entries.some(([key]) => key.split('.').some(p => p.startsWith('$')))) {
+    unsupported('Positional projection');
+  }
+
+  if (isExclusion && entries.some(([, value]) => !value)) {
+    const res = cloneValue(doc);
+    for (const [key, value] of entries) {
+      if (!value) {
+        for (const target of Array.isArray(res) ? res : [res]) {
+          excludePath(target, key);
+        }
+      }
+    }
+    return res;
+  }
+
+  const tree: ProjectionTree = {};
+  const includeId = !entries.some(
+    ([key, value]) => key === '_id' && (value === 0 || value === false),
+  );
+  for (const [key, value] of entries) {
+    if (key !== '_id' || !isProjectionFlag(value)) {
+      addToTree(tree, key, value);
+    }
+  }
+  const res = includeTree(doc, tree, doc, vars) as Document;
+  if (includeId && doc._id !== undefined && !('_id' in res)) {
+    return { _id: cloneValue(doc._id), ...res };
+  }
+  return res;
+}
+
+function excludePath(value: unknown, path: string): void {
+  const [head, ...rest] = path.split('.');
+  if (Array.isArray(value)) {
+    value.forEach(el => excludePath(el, path));
+  } else if (isPlainObject(value)) {
+    if (rest.length) {
+      excludePath(value[head], rest.join('.'));
+    } else {
+      delete value[head];
+    }
+  }
+}
+
+function getSortValue(doc: Document, path: string, direction: number) {
+  const values = getPathValues(doc, path).flatMap(v =>
+    Array.isArray(v) && v.length ? v : [v],
+  );
+  const sorted = values.sort(compareValues);
+  return direction < 0 ? sorted.at(-1) : sorted[0];
+}
+
+/**
+ * Sort documents with a sort specification (e.g. `{ createdAt: -1, _id: 1 }`).
+ * Arrays are sorted by their smallest (ascending) or largest (descending) element.
+ */
+export function sortDocuments<T extends Document>(
+  docs: T[],
+  sort: Document | undefined,
+): T[] {
+  const entries = Object.entries(sort || {});
+  if (!entries.length) {
+    return docs;
+  }
+  if (entries.some(([, direction]) => typeof direction === 'object')) {
+    unsupported('Sort by $meta');
+  }
+  return [...docs].sort((a, b) => {
+    for (const [path, direction] of entries) {
+      const dir = Number(direction) < 0 ? -1 : 1;
+      const res = compareValues(
+        getSortValue(a, path, dir),
+        getSortValue(b, path, dir),
+      );
+      if (res) {
+        return res * dir;
+      }
+    }
+    return 0;
+  });
+}
+
+const ACCUMULATORS = [
+  '$sum',
+  '$avg',
+  '$min',
+  '$max',
+  '$first',
+  '$last',
+  '$push',
+  '$addToSet',
+  '$count',
+];
+
+function accumulate(
+  docs: Document[],
+  spec: Document,
+  vars: ExpressionVariables,
+): unknown {
+  const [operator, expression] = Object.entries(spec)[0];
+  if (!ACCUMULATORS.includes(operator)) {
+    unsupported(`Accumulator ${operator}`);
+  }
+  if (operator === '$count') {
+    return docs.length;
+  }
+  const values = docs.map(doc => evaluateExpression(expression, doc, vars));
+  const defined = values.filter(v => v !== undefined && v !== null);
+  switch (operator) {
+    case '$sum':
+      return defined
+        .filter(v => typeof v === 'number')
+        .reduce<number>((acc, v) => acc + (v as number), 0);
+    case '$avg': {
+      const numbers = defined.filter(v => typeof v === 'number') as number[];
+      return numbers.length
+        ? numbers.reduce((acc, v) => acc + v, 0) / numbers.length
+        : null;
+    }
+    case '$min':
+      return [...defined].sort(compareValues)[0] ?? null;
+    case '$max':
+      return [...defined].sort(compareValues).at(-1) ?? null;
+    case '$first':
+      return values[0] ?? null;
+    case '$last':
+      return values.at(-1) ?? null;
+    case '$push':
+      return values.filter(v => v !== undefined);
+    default:
+      return values.filter(
+        (v, i) =>
+          v !== undefined &&
+          values.findIndex(other => isEqualValue(other, v)) === i,
+      );
+  }
+}
+
+function groupDocuments(
+  docs: Document[],
+  stage: Document,
+  vars: ExpressionVariables,
+): Document[] {
+  const { _id: idExpression, ...fields } = stage;
+  const groups: Array<{ _id: unknown; docs: Document[] }> = [];
+  for (const doc of docs) {
+    const _id = evaluateExpression(idExpression, doc, vars) ?? null;
+    let group = groups.find(g => isEqualValue(g._id, _id));
+    if (!group) {
+      group = { _id, docs: [] };
+      groups.push(group);
+    }
+    group.docs.push(doc);
+  }
+  return groups.map(group => {
+    const res: Document = { _id: group._id };
+    for (const [field, spec] of Object.entries(fields)) {
+      res[field] = accumulate(group.docs, spec as Document, vars);
+    }
+    return res;
+  });
+}
+
+function unwindDocuments(docs: Document[], stage: unknown): Document[] {
+  const {
+    path,
+    preserveNullAndEmptyArrays = false,
+    includeArrayIndex,
+  } = (typeof stage === 'string' ? { path: stage } : stage) as {
+    path: string;
+    preserveNullAndEmptyArrays?: boolean;
+    includeArrayIndex?: string;
+  };
+  const field = path.slice(1);
+  return docs.flatMap(doc => {
+    const value = getPathValues(doc, field)[0];
+    if (!Array.isArray(value) || !value.length) {
+      const keep =
+        (value !== undefined && value !== null && !Array.isArray(value)) ||
+        preserveNullAndEmptyArrays;
+      if (!keep) {
+        return [];
+      }
+      const res = cloneValue(doc);
+      if (Array.isArray(value)) {
+        unsetPath(res, field);
+      }
+      if (includeArrayIndex) {
+        res[includeArrayIndex] = null;
+      }
+      return [res];
+    }
+    return value.map((el, i) => {
+      const res = cloneValue(doc);
+      setPath(res, field, cloneValue(el));
+      if (includeArrayIndex) {
+        res[includeArrayIndex] = i;
+      }
+      return res;
+    });
+  });
+}
+
+function lookupDocuments(
+  docs: Document[],
+  stage: Document,
+  context: PipelineContext,
+): Document[] {
+  const { from, localField, foreignField, as, pipeline, let: lets } = stage;
+  if (!context.getCollectionDocuments) {
+    unsupported('$lookup without database');
+  }
+  const foreignDocs = context.getCollectionDocuments(from as string);
+  return docs.map(doc => {
+    let matched = foreignDocs;
+    if (localField) {
+      const values = getPathValues(doc, localField as string).flatMap(v =>
+        Array.isArray(v) ? v : [v],
+      );
+      matched = matched.filter(foreign =>
+        getPathValues(foreign, foreignField as string).some(f =>
+          (Array.isArray(f) ? f : [f]).some(v =>
+            values.some(
+              value =>
+                isEqualValue(value, v) || (value ?? null) === (v ?? null),
+            ),
+          ),
+        ),
+      );
+    }
+    if (pipeline) {
+      const vars: ExpressionVariables = { ...context.vars };
+      for (const [name, expression] of Object.entries(
+        (lets || {}) as Document,
+      )) {
+        vars[name] = evaluateExpression(expression, doc, context.vars);
+      }
+      matched = runPipeline(matched, pipeline as Document[], {
+        ...context,
+        vars,
+      });
+    }
+    return { ...cloneValue(doc), [as as string]: cloneValue(matched) };
+  });
+}
+
+function runStage(
+  docs: Document[],
+  name: string,
+  stage: unknown,
+  context: PipelineContext,
+): Document[] {
+  const { vars } = context;
+  switch (name) {
+    case '$match':
+      return docs.filter(doc =>
+        matchesFilter(doc, stage as Document, context.vars),
+      );
+    case '$project':
+      return docs.map(doc =>
+        applyProjection(doc, stage as Document, { ...vars, ROOT: doc }),
+      );
+    case '$addFields':
+    case '$set':
+      return docs.map(doc => {
+        const res = cloneValue(doc);
+        for (const [path, expression] of Object.entries(stage as Document)) {
+          const value = evaluateExpression(expression, doc, {
+            ...vars,
+            ROOT: doc,
+          });
+          if (value === undefined) {
+            unsetPath(res, path);
+          } else {
+            setPath(res, path, value);
+          }
+        }
+        return res;
+      });
+    case '$unset':
+      return docs.map(doc => {
+        const res = cloneValue(doc);
+        for (const path of Array.isArray(stage) ? stage : [stage]) {
+          excludePath(res, path as string);
+        }
+        return res;
+      });
+    case '$replaceWith':
+    case '$replaceRoot':
+      return docs.map(doc => {
+        const res = evaluateExpression(
+          name === '$replaceRoot' ? (stage as Document).newRoot : stage,
+          doc,
+          { ...vars, ROOT: doc },
+        );
+        if (!isPlainObject(res)) {
+          throw new Error(`${name} must evaluate to a document`);
+        }
+        return res;
+      });
+    case '$sort':
+      return sortDocuments(docs, stage as Document);
+    case '$skip':
+      return docs.slice(stage as number);
+    case '$limit':
+      return docs.slice(0, stage as number);
+    case '$count':
+      return docs.length ? [{ [stage as string]: docs.length }] : [];
+    case '$unwind':
+      return unwindDocuments(docs, stage);
+    case '$group':
+      return groupDocuments(docs, stage as Document, vars);
+    case '$sortByCount':
+      return sortDocuments(
+        groupDocuments(docs, { _id: stage, count: { $sum: 1 } }, vars),
+        { count: -1 },
+      );
+    case '$facet':
+      return [
+        Object.fromEntries(
+          Object.entries(stage as Document).map(([key, pipeline]) => [
+            key,
+            runPipeline(docs, pipeline as Document[], context),
+          ]),
+        ),
+      ];
+    case '$lookup':
+      return lookupDocuments(docs, stage as Document, context);
+    default:
+      return unsupported(`Aggregation stage ${name}`);
+  }
+}
+
+/**
+ * Run an aggregation pipeline on documents (which are not modified).
+ */
+export function runPipeline(
+  docs: Document[],
+  pipeline: Document[],
+  context: PipelineContext = { vars: {} },
+): Document[] {
+  let res = docs;
+  for (const stage of pipeline) {
+    const [name, value] = Object.entries(stage)[0];
+    res = runStage(res, name, value, context);
+  }
+  return res;
+}
@@ -0,0 +1,201 @@
+import { EventEmitter } from 'node:events';
+import { MongoServerError } from 'mongodb';
+import {
+  MemoryCollection,
+  type MemoryCollectionData,
+  type MemoryDatabase,
+} from './collection.js';
+import { cloneValue } from './values.js';
+
+type MemoryClientData = Map<string, Map<string, MemoryCollectionData>>;
+
+/**
+ * Database of the memory driver. Collections are created on their first write.
+ */
+export class MemoryDb implements MemoryDatabase {
+  constructor(
+    readonly client: MemoryMongoClient,
+    readonly databaseName: string,
+  ) {}
+
+  private get collections(): Map<string, MemoryCollectionData> {
+    return this.client.getDatabaseData(this.databaseName);
+  }
+
+  getCollectionData(name: string, create = false): MemoryCollectionData {
+    let data = this.collections.get(name);
+    if (!data) {
+      data = { documents: [], indexes: [] };
+      if (create) {
+        this.collections.set(name, data);
+      }
+    }
+    return data;
+  }
+
+  collection(name: string): MemoryCollection {
+    return new MemoryCollection(this, name);
+  }
+
+  async createCollection(name: string): Promise<MemoryCollection> {
+    if (this.collections.has(name)) {
+      throw new MongoServerError({
+        message: `Collection ${this.databaseName}.${name} already exists.`,
+        code: 48,
+      });
+    }
+    this.getCollectionData(name, true);
+    return this.collection(name);
+  }
+
+  async dropCollection(name: string): Promise<boolean> {
+    return this.collections.delete(name);
+  }
+
+  async dropDatabase(): Promise<boolean> {
+    this.client.dropDatabaseData(this.databaseName);
+    return true;
+  }
+
+  // Only answers to commands without effect (e.g. ping)
+  async command(): Promise<{ ok: 1 }> {
+    return { ok: 1 };
+  }
+
+  async listCollections() {
+    return [...this.collections.keys()].map(name => ({
+      name,
+      type: 'collection',
+    }));
+  }
+}
+
+/**
+ * Session of the memory driver.
+ *
+ * Transactions are not isolated: writes are visible before the commit, even outside the
+ * transaction. On abort, the whole client is restored to its state at the start of the
+ * transaction, including the writes done outside of it in the meantime.
+ */
+export class MemorySession {
+  private snapshot?: MemoryClientData;
+
+  hasEnded = false;
+
+  constructor(readonly client: MemoryMongoClient) {}
+
+  inTransaction(): boolean {
+    return Boolean(this.snapshot);
+  }
+
+  startTransaction(): void {
+    this.snapshot = this.client.snapshot();
+  }
+
+  async commitTransaction(): Promise<void> {
+    this.snapshot = undefined;
+  }
+
+  async abortTransaction(): Promise<void> {
+    if (this.snapshot) {
+      this.client.restore(this.snapshot);
+      this.snapshot = undefined;
+    }
+  }
+
+  async withTransaction<T>(fn: (session: MemorySession) => Promise<T>) {
+    this.startTransaction();
+    try {
+      const res = await fn(this);
+      await this.commitTransaction();
+      return res;
+    } catch (err) {
+      await this.abortTransaction();
+      throw err;
+    }
+  }
+
+  async endSession(): Promise<void> {
+    await this.abortTransaction();
+    this.hasEnded = true;
+  }
+}
+
+function getUriDatabaseName(uri: string): string {
+  const [, path = ''] = uri.replace(/^[a-z+]+:\/\//, '').split('/');
+  return decodeURIComponent(path.split('?')[0]) || 'test';
+}
+
+/**
+ * MongoClient of the memory driver (see DatabaseConnectionOptions.driver).
+ * Data is kept in the process memory, it is shared by the services using the same
+ * client (same URI) and lost when the process exits.
+ */
+export class MemoryMongoClient extends EventEmitter {
+  private data: MemoryClientData = new Map();
+
+  constructor(readonly uri: string) {
+    super();
+  }
+
+  /**
+   * Return the collections of a database, created if needed.
+   */
+  getDatabaseData(name: string): Map<string, MemoryCollectionData> {
+    let db = this.data.get(name);
+    if (!db) {
+      db = new Map();
+      this.data.set(name, db);
+    }
+    return db;
+  }
+
+  dropDatabaseData(name: string): void {
+    this.data.delete(name);
+  }
+
+  async connect(): Promise<this> {
+    return this;
+  }
+
+  async close(): Promise<void> {}
+
+  /**
+   * Without name, use the database of the URI like MongoClient ('test' by default).
+   */
+  db(name?: string): MemoryDb {
+    return new MemoryDb(this, name || getUriDatabaseName(this.uri));
+  }
+
+  startSession(): MemorySession {
+    return new MemorySession(this);
+  }
+
+  /**
+   * Copy of every database, used to restore the client with `restore`.
+   */
+  snapshot(): MemoryClientData {
+    return new Map(
+      [...this.data].map(([name, collections]) => [
+        name,
+        new Map(
+          [...collections].map(([collection, data]) => [
+            collection,
+            cloneValue(data),
+          ]),
+        ),
+      ]),
+    );
+  }
+
+  restore(snapshot: MemoryClientData): void {
+    this.data = snapshot;
+  }
+
+  /**
+   * Remove every database.
+   */
+  clear(): void {
+    this.data = new Map();
+  }
+}
@@ -0,0 +1,604 @@
+import {
+  type AnyBulkWriteOperation,
+  type BulkWriteResult,
+  type Document,
+  MongoBulkWriteError,
+  MongoServerError,
+  ObjectId,
+  type WriteError,
+} from 'mongodb';
+import type { IndexTuple, MongoIndex } from '../indexes/types.js';
+import {
+  getDefaultIndexName,
+  getStoredTextIndex,
+  isTextIndex,
+} from '../indexes/utils.js';
+import { applyProjection, runPipeline, sortDocuments } from './aggregate.js';
+import { MemoryCursor } from './cursor.js';
+import { matchesFilter } from './filter.js';
+import { applyUpdate, getUpsertBase, isReplacement } from './update.js';
+import {
+  cloneValue,
+  getPathValues,
+  isEqualValue,
+  unsupported,
+} from './values.js';
+
+/**
+ * Documents and indexes of a collection of the memory driver.
+ */
+export type MemoryCollectionData = {
+  documents: Document[];
+  indexes: Document[];
+};
+
+/**
+ * Database of the memory driver, see MemoryDb in client.ts.
+ */
+export interface MemoryDatabase {
+  readonly databaseName: string;
+  getCollectionData(name: string, create?: boolean): MemoryCollectionData;
+  collection(name: string): MemoryCollection;
+}
+
+type FindOptions = {
+  sort?: Document;
+  skip?: number;
+  limit?: number;
+  projection?: Document;
+};
+
+type WriteOptions = {
+  upsert?: boolean;
+  sort?: Document;
+};
+
+type FindOneAndOptions = WriteOptions & {
+  projection?: Document;
+  returnDocument?: 'before' | 'after';
+  includeResultMetadata?: boolean;
+};
+
+type WriteResult = {
+  matchedCount: number;
+  modifiedCount: number;
+  upsertedId: unknown;
+  before: Document | null;
+  after: Document | null;
+};
+
+const ID_INDEX = { v: 2, key: { _id: 1 }, name: '_id_' };
+
+function getIndexKeyValue(doc: Document, key: Document): Document {
+  return Object.fromEntries(
+    Object.keys(key).map(field => [field, getPathValues(doc, field)[0]]),
+  );
+}
+
+function isIndexed(doc: Document, index: Document): boolean {
+  if (
+    index.partialFilterExpression &&
+    !matchesFilter(doc, index.partialFilterExpression as Document)
+  ) {
+    return false;
+  }
+  return (
+    !index.sparse ||
+    Object.values(getIndexKeyValue(doc, index.key as Document)).some(
+      value => value !== undefined,
+    )
+  );
+}
+
+/**
+ * Collection of the memory driver, implementing the subset of the MongoDB Collection API
+ * used by the database mixins. Documents are copied on every read and write.
+ *
+ * Sessions are accepted but ignored, see MemorySession for transactions.
+ */
+export class MemoryCollection {
+  constructor(
+    readonly db: MemoryDatabase,
+    readonly collectionName: string,
+  ) {}
+
+  get dbName(): string {
+    return this.db.databaseName;
+  }
+
+  get namespace(): string {
+    return `${this.dbName}.${this.collectionName}`;
+  }
+
+  private get data(): MemoryCollectionData {
+    return this.db.getCollectionData(this.collectionName, true);
+  }
+
+  /**
+   * Stored documents matching the filter (not copied, must not be returned as is).
+   */
+  private match(filter: Document = {}): Document[] {
+    return this.db
+      .getCollectionData(this.collectionName)
+      .documents.filter(doc => matchesFilter(doc, filter));
+  }
+
+  private checkUniqueIndexes(doc: Document, replaced?: Document): void {
+    const { documents, indexes } = this.data;
+    for (const index of [
+      { ...ID_INDEX, unique: true },
+      ...indexes.filter(i => i.unique),
+    ]) {
+      if (!isIndexed(doc, index)) {
+        continue;
+      }
+      const keyValue = getIndexKeyValue(doc, index.key);
+      const duplicate = documents.some(
+        other =>
+          other !== replaced &&
+          isIndexed(other, index) &&
+          isEqualValue(getIndexKeyValue(other, index.key), keyValue),
+      );
+      if (duplicate) {
+        throw new MongoServerError({
+          message: `E11000 duplicate key error collection: ${this.namespace} index: ${index.name} dup key: ${JSON.stringify(keyValue)}`,
+          code: 11000,
+          keyPattern: index.key,
+          keyValue,
+        });
+      }
+    }
+  }
+
+  private insert(doc: Document): Document {
+    // Same as the driver, the generated _id is set on the given document
+    if (doc._id === undefined || doc._id === null) {
+      doc._id = new ObjectId();
+    }
+    const stored = cloneValue(doc);
+    this.checkUniqueIndexes(stored);
+    this.data.documents.push(stored);
+    return stored;
+  }
+
+  private write(
+    filter: Document,
+    update: Document | Document[] | null,
+    { upsert = false, sort, many = false }: WriteOptions & { many?: boolean },
+  ): WriteResult[] {
+    const now = new Date();
+    let targets = sortDocuments(this.match(filter), sort);
+    if (!many) {
+      targets = targets.slice(0, 1);
+    }
+
+    if (!targets.length) {
+      if (!upsert || !update) {
+        return [];
+      }
+      const doc = applyUpdate(getUpsertBase(filter), update, {
+        isInsert: true,
+        now,
+      });
+      this.checkUniqueIndexes(doc);
+      this.data.documents.push(doc);
+      return [
+        {
+          matchedCount: 0,
+          modifiedCount: 0,
+          upsertedId: doc._id,
+          before: null,
+          after: doc,
+        },
+      ];
+    }
+
+    const { documents } = this.data;
+    return targets.map(target => {
+      const position = documents.indexOf(target);
+      if (!update) {
+        documents.splice(position, 1);
+        return {
+          matchedCount: 1,
+          modifiedCount: 0,
+          upsertedId: null,
+          before: target,
+          after: null,
+        };
+      }
+      const doc = applyUpdate(target, update, { now });
+      this.checkUniqueIndexes(doc, target);
+      documents[position] = doc;
+      return {
+        matchedCount: 1,
+        modifiedCount: isEqualValue(target, doc) ? 0 : 1,
+        upsertedId: null,
+        before: target,
+        after: doc,
+      };
+    });
+  }
+
+  private toUpdateResult(results: WriteResult[]) {
+    const upserted = results.find(res => res.upsertedId !== null);
+    return {
+      acknowledged: true,
+      matchedCount: results.reduce((acc, res) => acc + res.matchedCount, 0),
+      modifiedCount: results.reduce((acc, res) => acc + res.modifiedCount, 0),
+      upsertedCount: upserted ? 1 : 0,
+      upsertedId: upserted ? upserted.upsertedId : null,
+    };
+  }
+
+  private toFindOneAndResult(
+    [res]: WriteResult[],
+    {
+      projection,
+      returnDocument = 'before',
+      includeResultMetadata = false,
+    }: FindOneAndOptions,
+  ) {
+    const doc = returnDocument === 'after' ? res?.after : res?.before;
+    const value = doc ? applyProjection(doc, projection) : null;
+    if (!includeResultMetadata) {
+      return value;
+    }
+    return {
+      ok: 1,
+      value,
+      lastErrorObject: {
+        n: res ? 1 : 0,
+        updatedExisting: Boolean(res?.matchedCount && res.after),
+        ...(res && res.upsertedId !== null && { upserted: res.upsertedId }),
+      },
+    };
+  }
+
+  /**
+   * Copy of every document of the collection, used by $lookup.
+   */
+  getDocuments(): Document[] {
+    return cloneValue(this.db.getCollectionData(this.collectionName).documents);
+  }
+
+  find(filter: Document = {}, options: FindOptions = {}): MemoryCursor {
+    return new MemoryCursor(() => this.match(filter), options);
+  }
+
+  async findOne(
+    filter: Document = {},
+    options: FindOptions = {},
+  ): Promise<Document | null> {
+    return this.find(filter, { ...options, limit: 1 }).next();
+  }
+
+  async countDocuments(
+    filter: Document = {},
+    { skip = 0, limit }: { skip?: number; limit?: number } = {},
+  ): Promise<number> {
+    const count = Math.max(this.match(filter).length - skip, 0);
+    return limit ? Math.min(count, limit) : count;
+  }
+
+  async estimatedDocumentCount(): Promise<number> {
+    return this.match().length;
+  }
+
+  async distinct(key: string, filter: Document = {}): Promise<unknown[]> {
+    const res: unknown[] = [];
+    for (const doc of this.match(filter)) {
+      for (const value of getPathValues(doc, key).flat()) {
+        if (value !== undefined && !res.some(v => isEqualValue(v, value))) {
+          res.push(cloneValue(value));
+        }
+      }
+    }
+    return res;
+  }
+
+  aggregate(pipeline: Document[] = []): MemoryCursor {
+    return new MemoryCursor(() =>
+      runPipeline(this.match(), pipeline, {
+        vars: { NOW: new Date() },
+        getCollectionDocuments: name => this.db.collection(name).getDocuments(),
+      }),
+    );
+  }
+
+  async insertOne(doc: Document) {
+    return { acknowledged: true, insertedId: this.insert(doc)._id };
+  }
+
+  async insertMany(docs: Document[], options: { ordered?: boolean } = {}) {
+    const res = await this.bulkWrite(
+      docs.map(document => ({ insertOne: { document } })),
+      options,
+    );
+    return {
+      acknowledged: true,
+      insertedCount: res.insertedCount,
+      insertedIds: res.insertedIds,
+    };
+  }
+
+  async updateOne(
+    filter: Document,
+    update: Document | Document[],
+    options: WriteOptions = {},
+  ) {
+    if (isReplacement(update)) {
+      throw new Error('Update document requires atomic operators');
+    }
+    return this.toUpdateResult(this.write(filter, update, options));
+  }
+
+  async updateMany(
+    filter: Document,
+    update: Document | Document[],
+    options: WriteOptions = {},
+  ) {
+    if (isReplacement(update)) {
+      throw new Error('Update document requires atomic operators');
+    }
+    return this.toUpdateResult(
+      this.write(filter, update, { ...options, many: true }),
+    );
+  }
+
+  async replaceOne(
+    filter: Document,
+    replacement: Document,
+    options: WriteOptions = {},
+  ) {
+    if (!isReplacement(replacement)) {
+      throw new Error('Replacement document must not contain atomic operators');
+    }
+    return this.toUpdateResult(this.write(filter, replacement, options));
+  }
+
+  async deleteOne(filter: Document = {}) {
+    const res = this.write(filter, null, {});
+    return { acknowledged: true, deletedCount: res.length };
+  }
+
+  async deleteMany(filter: Document = {}) {
+    const res = this.write(filter, null, { many: true });
+    return { acknowledged: true, deletedCount: res.length };
+  }
+
+  async findOneAndUpdate(
+    filter: Document,
+    update: Document | Document[],
+    options: FindOneAndOptions = {},
+  ) {
+    if (isReplacement(update)) {
+      throw new Error('Update document requires atomic operators');
+    }
+    return this.toFindOneAndResult(
+      this.write(filter, update, options),
+      options,
+    );
+  }
+
+  async findOneAndReplace(
+    filter: Document,
+    replacement: Document,
+    options: FindOneAndOptions = {},
+  ) {
+    if (!isReplacement(replacement)) {
+      throw new Error('Replacement document must not contain atomic operators');
+    }
+    return this.toFindOneAndResult(
+      this.write(filter, replacement, options),
+      options,
+    );
+  }
+
+  async findOneAndDelete(filter: Document, options: FindOneAndOptions = {}) {
+    return this.toFindOneAndResult(this.write(filter, null, options), {
+      ...options,
+      returnDocument: 'before',
+    });
+  }
+
+  /**
+   * Run the operations one by one. Like MongoDB, ordered writes stop at the first error
+   * and unordered ones continue, the errors are thrown in a MongoBulkWriteError.
+   */
+  async bulkWrite<TSchema extends Document = Document>(
+    operations: AnyBulkWriteOperation<TSchema>[],
+    { ordered = true }: { ordered?: boolean } = {},
+  ) {
+    const result = {
+      ok: 1,
+      insertedCount: 0,
+      matchedCount: 0,
+      modifiedCount: 0,
+      deletedCount: 0,
+      upsertedCount: 0,
+      insertedIds: {} as Record<number, unknown>,
+      upsertedIds: {} as Record<number, unknown>,
+    };
+    const writeErrors: Array<{ index: number; code: number; errmsg: string }> =
+      [];
+
+    for (const [index, operation] of operations.entries()) {
+      try {
+        if ('insertOne' in operation) {
+          result.insertedIds[index] = this.insert(
+            operation.insertOne.document,
+          )._id;
+          result.insertedCount += 1;
+          continue;
+        }
+        let results: WriteResult[];
+        if ('updateOne' in operation || 'updateMany' in operation) {
+          const { filter, update, upsert } =
+            'updateOne' in operation
+              ? operation.updateOne
+              : operation.updateMany;
+          results = this.write(filter, update as Document | Document[], {
+            upsert,
+            many: 'updateMany' in operation,
+          });
+        } else if ('replaceOne' in operation) {
+          const { filter, replacement, upsert } = operation.replaceOne;
+          results = this.write(filter, replacement, { upsert });
+        } else if ('deleteOne' in operation || 'deleteMany' in operation) {
+          const { filter } =
+            'deleteOne' in operation
+              ? operation.deleteOne
+              : operation.deleteMany;
+          results = this.write(filter, null, {
+            many: 'deleteMany' in operation,
+          });
+          result.deletedCount += results.length;
+          continue;
+        } else {
+          return unsupported('Bulk write operation');
+        }
+        const res = this.toUpdateResult(results);
+        result.matchedCount += res.matchedCount;
+        result.modifiedCount += res.modifiedCount;
+        if (res.upsertedId !== null) {
+          result.upsertedIds[index] = res.upsertedId;
+          result.upsertedCount += 1;
+        }
+      } catch (err) {
+        if (!(err instanceof MongoServerError)) {
+          throw err;
+        }
+        writeErrors.push({
+          index,
+          code: Number(err.code),
+          errmsg: err.message,
+        });
+        if (ordered) {
+          break;
+        }
+      }
+    }
+
+    if (writeErrors.length) {
+      // The driver has WriteError instances, they have the same getters
+      throw new MongoBulkWriteError(
+        {
+          message: writeErrors[0].errmsg,
+          code: writeErrors[0].code,
+          writeErrors: writeErrors as unknown as WriteError[],
+        },
+        result as unknown as BulkWriteResult,
+      );
+    }
+    return result;
+  }
+
+  private getIndexes(): Document[] {
+    return [
+      ID_INDEX,
+      ...this.db.getCollectionData(this.collectionName).indexes,
+    ];
+  }
+
+  async indexes(): Promise<Document[]> {
+    return cloneValue(this.getIndexes());
+  }
+
+  listIndexes(): MemoryCursor {
+    return new MemoryCursor(() => this.getIndexes());
+  }
+
+  async createIndex(
+    keys: MongoIndex['key'],
+    options: Omit<MongoIndex, 'key'> = {},
+  ): Promise<string> {
+    const { name = getDefaultIndexName(keys), ...indexOptions } = options;
+    const index: Document = {
+      v: 2,
+      key: keys,
+      name,
+      ...cloneValue(indexOptions),
+      ...(isTextIndex({ key: keys }) &&
+        getStoredTextIndex([keys, indexOptions] as IndexTuple)),
+    };
+
+    const existing = this.getIndexes().find(
+      i => i.name === name || isEqualValue(i.key, index.key),
+    );
+    if (existing) {
+      if (isEqualValue(existing, index)) {
+        return name;
+      }
+      throw new MongoServerError({
+        message: `An existing index has the same name or key pattern as the requested index: ${name}`,
+        code: 85,
+      });
+    }
+
+    const { documents, indexes } = this.data;
+    indexes.push(index);
+    try {
+      documents.forEach(doc => this.checkUniqueIndexes(doc, doc));
+    } catch (err) {
+      indexes.splice(indexes.indexOf(index), 1);
+      throw err;
+    }
+    return name;
+  }
+
+  async createIndexes(
+    specs: Array<{ key: MongoIndex['key'] } & Omit<MongoIndex, 'key'>>,
+  ): Promise<string[]> {
+    const names: string[] = [];
+    for (const { key, ...options } of specs) {
+      names.push(await this.createIndex(key, options));
+    }
+    return names;
+  }
+
+  async dropIndex(name: string): Promise<Document> {
+    const { indexes } = this.data;
+    const position = indexes.findIndex(i => i.name === name);
+    if (position === -1) {
+      throw new MongoServerError({
+        message: `index not found with name [${name}]`,
+        code: 27,
+      });
+    }
+    indexes.splice(position, 1);
+    return { ok: 1 };
+  }
+
+  async dropIndexes(): Promise<boolean> {
+    this.data.indexes = [];
+    return true;
+  }
+
+  // Like a MongoDB server outside of Atlas (see DatabaseIndexesMixin)
+  listSearchIndexes(): MemoryCursor {
+    return new MemoryCursor(() => unsupported('Search index'));
+  }
+
+  async createSearchIndex(): Promise<string> {
+    return unsupported('Search index');
+  }
+
+  async updateSearchIndex(): Promise<void> {
+    return unsupported('Search index');
+  }
+
+  async dropSearchIndex(): Promise<void> {
+    return unsupported('Search index');
+  }
+
+  watch(): never {
+    return unsupported('Change stream');
+  }
+
+  async drop(): Promise<boolean> {
+    const data = this.data;
+    data.documents = [];
+    data.indexes = [];
+    return true;
+  }
+}
@@ -0,0 +1,160 @@
+import { Readable } from 'node:stream';
+import type { Document } from 'mongodb';
+import { applyProjection, sortDocuments } from './aggregate.js';
+import { cloneValue } from './values.js';
+
+/**
+ * Cursor of the memory driver, with the subset of the FindCursor/AggregationCursor API
+ * used by the database mixins. Documents are loaded on the first read.
+ */
+export class MemoryCursor<T = Document> implements AsyncIterable<T> {
+  private sortSpec?: Document;
+
+  private skipCount = 0;
+
+  private limitCount = 0;
+
+  private projection?: Document;
+
+  private transforms: Array<(doc: unknown) => unknown> = [];
+
+  private buffer?: Document[];
+
+  private position = 0;
+
+  closed = false;
+
+  constructor(
+    private readonly load: () => Document[],
+    options: {
+      sort?: Document;
+      skip?: number;
+      limit?: number;
+      projection?: Document;
+    } = {},
+  ) {
+    this.sortSpec = options.sort;
+    this.skipCount = options.skip ?? 0;
+    this.limitCount = options.limit ?? 0;
+    this.projection = options.projection;
+  }
+
+  sort(sort: Document): this {
+    this.sortSpec = sort;
+    return this;
+  }
+
+  skip(value: number): this {
+    this.skipCount = value;
+    return this;
+  }
+
+  limit(value: number): this {
+    this.limitCount = value;
+    return this;
+  }
+
+  project<TProject = Document>(projection: Document): MemoryCursor<TProject> {
+    this.projection = projection;
+    return this as unknown as MemoryCursor<TProject>;
+  }
+
+  map<TMapped>(transform: (doc: T) => TMapped): MemoryCursor<TMapped> {
+    this.transforms.push(transform as (doc: unknown) => unknown);
+    return this as unknown as MemoryCursor<TMapped>;
+  }
+
+  // Options without effect on an in-memory cursor
+  batchSize(): this {
+    return this;
+  }
+
+  maxTimeMS(): this {
+    return this;
+  }
+
+  comment(): this {
+    return this;
+  }
+
+  hint(): this {
+    return this;
+  }
+
+  private read(): Document[] {
+    if (!this.buffer) {
+      let docs = sortDocuments(this.load(), this.sortSpec).slice(
+        this.skipCount,
+      );
+      // A negative limit is a single batch of this size, same thing here
+      if (this.limitCount) {
+        docs = docs.slice(0, Math.abs(this.limitCount));
+      }
+      this.buffer = docs.map(doc => applyProjection(doc, this.projection));
+    }
+    return this.buffer;
+  }
+
+  private transform(doc: Document): T {
+    return this.transforms.reduce<unknown>(
+      (acc, fn) => fn(acc),
+      cloneValue(doc),
+    ) as T;
+  }
+
+  async hasNext(): Promise<boolean> {
+    return !this.closed && this.position < this.read().length;
+  }
+
+  async next(): Promise<T | null> {
+    if (!(await this.hasNext())) {
+      return null;
+    }
+    const doc = this.read()[this.position];
+    this.position += 1;
+    return this.transform(doc);
+  }
+
+  async tryNext(): Promise<T | null> {
+    return this.next();
+  }
+
+  async toArray(): Promise<T[]> {
+    const res: T[] = [];
+    for await (const doc of this) {
+      res.push(doc);
+    }
+    return res;
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+  }
+
+  rewind(): void {
+    this.buffer = undefined;
+    this.position = 0;
+    this.closed = false;
+  }
+
+  stream(): Readable {
+    return Readable.from(this);
+  }
+
+  async explain(): Promise<Document> {
+    return {
+      queryPlanner: {
+        winningPlan: { stage: 'COLLSCAN' },
+        rejectedPlans: [],
+      },
+    };
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    let doc = await this.next();
+    while (doc !== null) {
+      yield doc;
+      doc = await this.next();
+    }
+  }
+}
@@ -0,0 +1,202 @@
+import type { Document } from 'mongodb';
+import {
+  cloneValue,
+  compareValues,
+  getFieldValue,
+  isEqualValue,
+  isPlainObject,
+  toNumber,
+  unsupported,
+} from './values.js';
+
+/**
+ * Variables of an aggregation expression ($$NOW, $$ROOT, $lookup let variables...).
+ */
+export type ExpressionVariables = Record<string, unknown>;
+
+function isNullish(value: unknown): boolean {
+  return value === undefined || value === null;
+}
+
+/**
+ * Truthiness of an aggregation value (null, undefined, 0 and false are false).
+ */
+export function isTruthyValue(value: unknown): boolean {
+  return !isNullish(value) && value !== false && value !== 0;
+}
+
+function evaluateVariable(
+  name: string,
+  doc: Document,
+  vars: ExpressionVariables,
+): unknown {
+  const [variable, ...path] = name.split('.');
+  let value: unknown;
+  if (variable === 'ROOT' || variable === 'CURRENT') {
+    value = vars.ROOT ?? doc;
+  } else if (variable in vars) {
+    value = vars[variable];
+  } else {
+    unsupported(`Variable $$${variable}`);
+  }
+  return path.length ? getFieldValue(value, path.join('.')) : value;
+}
+
+function getNumbers(values: unknown[]): number[] {
+  return values.filter(v => !isNullish(v)).map(toNumber);
+}
+
+function evaluateOperator(
+  operator: string,
+  arg: unknown,
+  doc: Document,
+  vars: ExpressionVariables,
+): unknown {
+  if (operator === '$literal') {
+    return cloneValue(arg);
+  }
+  const args = Array.isArray(arg)
+    ? arg.map(a => evaluateExpression(a, doc, vars))
+    : [evaluateExpression(arg, doc, vars)];
+
+  switch (operator) {
+    case '$ifNull':
+      return args.find(a => !isNullish(a)) ?? null;
+    case '$add': {
+      if (args.some(isNullish)) {
+        return null;
+      }
+      const date = args.find(a => a instanceof Date) as Date | undefined;
+      const sum = getNumbers(args.filter(a => !(a instanceof Date))).reduce(
+        (acc, n) => acc + n,
+        0,
+      );
+      return date ? new Date(date.getTime() + sum) : sum;
+    }
+    case '$subtract': {
+      const [a, b] = args;
+      if (isNullish(a) || isNullish(b)) {
+        return null;
+      }
+      if (a instanceof Date) {
+        return b instanceof Date
+          ? a.getTime() - b.getTime()
+          : new Date(a.getTime() - toNumber(b));
+      }
+      return toNumber(a) - toNumber(b);
+    }
+    case '$multiply':
+      return args.some(isNullish)
+        ? null
+        : getNumbers(args).reduce((acc, n) => acc * n, 1);
+    case '$divide':
+      return args.some(isNullish)
+        ? null
+        : toNumber(args[0]) / toNumber(args[1]);
+    case '$eq':
+      return isEqualValue(args[0], args[1]);
+    case '$ne':
+      return !isEqualValue(args[0], args[1]);
+    case '$gt':
+      return compareValues(args[0], args[1]) > 0;
+    case '$gte':
+      return compareValues(args[0], args[1]) >= 0;
+    case '$lt':
+      return compareValues(args[0], args[1]) < 0;
+    case '$lte':
+      return compareValues(args[0], args[1]) <= 0;
+    case '$and':
+      return args.every(isTruthyValue);
+    case '$or':
+      return args.some(isTruthyValue);
+    case '$not':
+      return !isTruthyValue(args[0]);
+    case '$cond': {
+      if (Array.isArray(arg)) {
+        return isTruthyValue(args[0]) ? args[1] : args[2];
+      }
+      const { if: condition, then, else: otherwise } = arg as Document;
+      return isTruthyValue(evaluateExpression(condition, doc, vars))
+        ? evaluateExpression(then, doc, vars)
+        : evaluateExpression(otherwise, doc, vars);
+    }
+    case '$in':
+      return (args[1] as unknown[]).some(v => isEqualValue(v, args[0]));
+    case '$size':
+      return (args[0] as unknown[]).length;
+    case '$isArray':
+      return Array.isArray(args[0]);
+    case '$arrayElemAt': {
+      const [arr, index] = args as [unknown[], number];
+      return isNullish(arr) ? null : arr.at(index);
+    }
+    case '$first':
+      return Array.isArray(args[0]) ? args[0][0] : null;
+    case '$last':
+      return Array.isArray(args[0]) ? args[0].at(-1) : null;
+    case '$concat':
+      return args.some(isNullish) ? null : args.join('');
+    case '$toString':
+      return isNullish(args[0]) ? null : String(args[0]);
+    case '$toLower':
+      return isNullish(args[0]) ? '' : String(args[0]).toLowerCase();
+    case '$toUpper':
+      return isNullish(args[0]) ? '' : String(args[0]).toUpperCase();
+    case '$sum':
+    case '$max':
+    case '$min': {
+      const values = (
+        args.length === 1 && Array.isArray(args[0]) ? args[0] : args
+      ).filter(v => !isNullish(v));
+      if (operator === '$sum') {
+        return getNumbers(values).reduce((acc, n) => acc + n, 0);
+      }
+      const sorted = [...values].sort(compareValues);
+      return (operator === '$min' ? sorted[0] : sorted.at(-1)) ?? null;
+    }
+    case '$mergeObjects':
+      return Object.assign(
+        {},
+        ...(args.length === 1 && Array.isArray(args[0]) ? args[0] : args)
+          .filter(isPlainObject)
+          .map(cloneValue),
+      );
+    default:
+      return unsupported(`Expression operator ${operator}`);
+  }
+}
+
+/**
+ * Evaluate an aggregation expression on a document.
+ * Only the operators used by the database mixins (and the most common ones) are supported.
+ */
+export function evaluateExpression(
+  expression: unknown,
+  doc: Document,
+  vars: ExpressionVariables = {},
+): unknown {
+  if (typeof expression === 'string' && expression.startsWith('$$')) {
+    return evaluateVariable(expression.slice(2), doc, vars);
+  }
+  if (typeof expression === 'string' && expression.startsWith('$')) {
+    return cloneValue(getFieldValue(doc, expression.slice(1)));
+  }
+  if (Array.isArray(expression)) {
+    return expression.map(e => evaluateExpression(e, doc, vars));
+  }
+  if (isPlainObject(expression)) {
+    const keys = Object.keys(expression);
+    if (keys.length === 1 && keys[0].startsWith('$')) {
+      return evaluateOperator(keys[0], expression[keys[0]], doc, vars);
+    }
+    const res: Document = {};
+    for (const key of keys) {
+      const value = evaluateExpression(expression[key], doc, vars);
+      if (value !== undefined) {
+        res[key] = value;
+      }
+    }
+    return res;
+  }
+  return cloneValue(expression);
+}
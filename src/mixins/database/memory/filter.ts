@@ -0,0 +1,204 @@
+import { BSONRegExp, type Document, ObjectId } from 'mongodb';
+import {
+  evaluateExpression,
+  type ExpressionVariables,
+  isTruthyValue,
+} from './expression.js';
+import {
+  compareValues,
+  getPathValues,
+  isEqualValue,
+  isPlainObject,
+  isSameTypeOrder,
+  toNumber,
+  unsupported,
+} from './values.js';
+
+/**
+ * Return true if the value is an object of query operators (e.g. `{ $gte: 1 }`).
+ */
+export function isOperatorObject(value: unknown): value is Document {
+  if (!isPlainObject(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length > 0 && keys.every(key => key.startsWith('$'));
+}
+
+function toRegExp(pattern: unknown, options?: string): RegExp {
+  if (pattern instanceof BSONRegExp) {
+    return new RegExp(pattern.pattern, options ?? pattern.options);
+  }
+  if (pattern instanceof RegExp) {
+    return options ? new RegExp(pattern.source, options) : pattern;
+  }
+  return new RegExp(String(pattern), options);
+}
+
+// A value matches an array if it matches the array itself or one of its elements
+function expandArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? [value, ...(value as unknown[])] : [value];
+}
+
+function matchesEquality(candidate: unknown, value: unknown): boolean {
+  if (value instanceof RegExp || value instanceof BSONRegExp) {
+    const regExp = toRegExp(value);
+    return expandArray(candidate).some(
+      v => typeof v === 'string' && regExp.test(v),
+    );
+  }
+  if (value === null) {
+    return (
+      candidate === undefined ||
+      candidate === null ||
+      (Array.isArray(candidate) && candidate.includes(null))
+    );
+  }
+  return expandArray(candidate).some(v => isEqualValue(v, value));
+}
+
+function matchesComparison(
+  candidate: unknown,
+  value: unknown,
+  test: (res: number) => boolean,
+): boolean {
+  return expandArray(candidate).some(
+    v => isSameTypeOrder(v, value) && test(compareValues(v, value)),
+  );
+}
+
+const TYPE_ALIASES: Record<string, (v: unknown) => boolean> = {
+  string: v => typeof v === 'string',
+  number: v => typeof v === 'number',
+  double: v => typeof v === 'number',
+  int: v => Number.isInteger(v),
+  bool: v => typeof v === 'boolean',
+  date: v => v instanceof Date,
+  null: v => v === null,
+  array: v => Array.isArray(v),
+  object: v => isPlainObject(v),
+  objectId: v => v instanceof ObjectId,
+};
+
+function matchesOperator(
+  candidates: unknown[],
+  operator: string,
+  value: unknown,
+  condition: Document,
+): boolean {
+  switch (operator) {
+    case '$eq':
+      return candidates.some(c => matchesEquality(c, value));
+    case '$ne':
+      return !candidates.some(c => matchesEquality(c, value));
+    case '$gt':
+      return candidates.some(c => matchesComparison(c, value, r => r > 0));
+    case '$gte':
+      return candidates.some(c => matchesComparison(c, value, r => r >= 0));
+    case '$lt':
+      return candidates.some(c => matchesComparison(c, value, r => r < 0));
+    case '$lte':
+      return candidates.some(c => matchesComparison(c, value, r => r <= 0));
+    case '$in':
+      return (value as unknown[]).some(v =>
+        candidates.some(c => matchesEquality(c, v)),
+      );
+    case '$nin':
+      return !(value as unknown[]).some(v =>
+        candidates.some(c => matchesEquality(c, v)),
+      );
+    case '$exists':
+      return candidates.some(c => c !== undefined) === Boolean(value);
+    case '$regex': {
+      const regExp = toRegExp(value, condition.$options as string | undefined);
+      return candidates.some(c =>
+        expandArray(c).some(v => typeof v === 'string' && regExp.test(v)),
+      );
+    }
+    case '$options':
+      return true;
+    case '$not':
+      return !matchesCondition(candidates, value);
+    case '$elemMatch':
+      return candidates.some(
+        c =>
+          Array.isArray(c) &&
+          c.some(el =>
+            isOperatorObject(value)
+              ? matchesCondition([el], value)
+              : isPlainObject(el) && matchesFilter(el, value as Document),
+          ),
+      );
+    case '$size':
+      return candidates.some(c => Array.isArray(c) && c.length === value);
+    case '$all':
+      return (value as unknown[]).every(v =>
+        candidates.some(c => matchesEquality(c, v)),
+      );
+    case '$mod': {
+      const [divisor, remainder] = value as [number, number];
+      return candidates.some(c =>
+        expandArray(c).some(
+          v =>
+            typeof v === 'number' &&
+            Math.trunc(v) % toNumber(divisor) === toNumber(remainder),
+        ),
+      );
+    }
+    case '$type': {
+      const types = (Array.isArray(value) ? value : [value]) as string[];
+      return candidates.some(c =>
+        types.some(type =>
+          (TYPE_ALIASES[type] || unsupported(`$type ${type}`))(c),
+        ),
+      );
+    }
+    default:
+      return unsupported(`Query operator ${operator}`);
+  }
+}
+
+function matchesCondition(candidates: unknown[], condition: unknown): boolean {
+  if (!isOperatorObject(condition)) {
+    return matchesOperator(candidates, '$eq', condition, {});
+  }
+  return Object.entries(condition).every(([operator, value]) =>
+    matchesOperator(candidates, operator, value, condition),
+  );
+}
+
+/**
+ * Return true if the document matches the query filter.
+ * Variables are only used by $expr (e.g. the `let` variables of a $lookup).
+ */
+export function matchesFilter(
+  doc: Document,
+  filter: Document = {},
+  vars: ExpressionVariables = {},
+): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as Document[]).every(f =>
+          matchesFilter(doc, f, vars),
+        );
+      case '$or':
+        return (condition as Document[]).some(f => matchesFilter(doc, f, vars));
+      case '$nor':
+        return !(condition as Document[]).some(f =>
+          matchesFilter(doc, f, vars),
+        );
+      case '$expr':
+        return isTruthyValue(
+          evaluateExpression(condition, doc, { NOW: new Date(), ...vars }),
+        );
+      case '$comment':
+        return true;
+      default:
+        if (key.startsWith('$')) {
+          return unsupported(`Query operator ${key}`);
+        }
+        return matchesCondition(getPathValues(doc, key), condition);
+    }
+  });
+}
@@ -0,0 +1,246 @@
+import { type Document, MongoServerError, ObjectId } from 'mongodb';
+import { runPipeline } from './aggregate.js';
+import { isOperatorObject, matchesFilter } from './filter.js';
+import {
+  cloneValue,
+  compareValues,
+  getPathValue,
+  isEqualValue,
+  isPlainObject,
+  setPath,
+  toNumber,
+  unsetPath,
+  unsupported,
+} from './values.js';
+
+/**
+ * Return true if the update is a replacement document (no update operator nor pipeline).
+ */
+export function isReplacement(update: Document | Document[]): boolean {
+  return (
+    !Array.isArray(update) &&
+    !Object.keys(update).some(key => key.startsWith('$'))
+  );
+}
+
+function getArray(doc: Document, path: string, operator: string): unknown[] {
+  const current = getPathValue(doc, path);
+  if (current === undefined) {
+    return [];
+  }
+  if (!Array.isArray(current)) {
+    throw new MongoServerError({
+      message: `${operator} requires the field '${path}' to be an array`,
+      code: 2,
+    });
+  }
+  return current;
+}
+
+function getNumericField(doc: Document, path: string, operator: string) {
+  const current = getPathValue(doc, path);
+  if (current !== undefined && current !== null && isNaN(toNumber(current))) {
+    throw new MongoServerError({
+      message: `Cannot apply ${operator} to a value of non-numeric type`,
+      code: 14,
+    });
+  }
+  return current;
+}
+
+function matchesPullCondition(el: unknown, condition: unknown): boolean {
+  if (isPlainObject(condition) && !isOperatorObject(condition)) {
+    return isPlainObject(el) && matchesFilter(el, condition);
+  }
+  return matchesFilter({ el }, { el: condition });
+}
+
+function applyOperator(
+  doc: Document,
+  operator: string,
+  path: string,
+  value: unknown,
+  now: Date,
+): void {
+  switch (operator) {
+    case '$set':
+      setPath(doc, path, cloneValue(value));
+      return;
+    case '$unset':
+      unsetPath(doc, path);
+      return;
+    case '$inc': {
+      const current = getNumericField(doc, path, operator);
+      setPath(doc, path, toNumber(current ?? 0) + toNumber(value));
+      return;
+    }
+    case '$mul': {
+      const current = getNumericField(doc, path, operator);
+      setPath(doc, path, toNumber(current ?? 0) * toNumber(value));
+      return;
+    }
+    case '$min':
+    case '$max': {
+      const current = getPathValue(doc, path);
+      const res = compareValues(value, current);
+      if (current === undefined || (operator === '$min' ? res < 0 : res > 0)) {
+        setPath(doc, path, cloneValue(value));
+      }
+      return;
+    }
+    case '$currentDate':
+      if (isPlainObject(value) && value.$type === 'timestamp') {
+        unsupported('$currentDate with timestamp type');
+      }
+      setPath(doc, path, new Date(now.getTime()));
+      return;
+    case '$rename': {
+      const current = getPathValue(doc, path);
+      if (current !== undefined) {
+        unsetPath(doc, path);
+        setPath(doc, value as string, current);
+      }
+      return;
+    }
+    case '$push': {
+      const arr = getArray(doc, path, operator);
+      const modifiers: Document =
+        isPlainObject(value) && '$each' in value ? value : { $each: [value] };
+      if (modifiers.$sort !== undefined) {
+        unsupported('$push with $sort');
+      }
+      const position =
+        (modifiers.$position as number | undefined) ?? arr.length;
+      const res = [...arr];
+      res.splice(position, 0, ...cloneValue(modifiers.$each as unknown[]));
+      if (modifiers.$slice !== undefined) {
+        const slice = modifiers.$slice as number;
+        setPath(doc, path, slice < 0 ? res.slice(slice) : res.slice(0, slice));
+      } else {
+        setPath(doc, path, res);
+      }
+      return;
+    }
+    case '$addToSet': {
+      const res = [...getArray(doc, path, operator)];
+      const values =
+        isPlainObject(value) && '$each' in value
+          ? (value.$each as unknown[])
+          : [value];
+      for (const v of values) {
+        if (!res.some(el => isEqualValue(el, v))) {
+          res.push(cloneValue(v));
+        }
+      }
+      setPath(doc, path, res);
+      return;
+    }
+    case '$pull':
+      if (getPathValue(doc, path) !== undefined) {
+        setPath(
+          doc,
+          path,
+          getArray(doc, path, operator).filter(
+            el => !matchesPullCondition(el, value),
+          ),
+        );
+      }
+      return;
+    case '$pullAll':
+      if (getPathValue(doc, path) !== undefined) {
+        setPath(
+          doc,
+          path,
+          getArray(doc, path, operator).filter(
+            el => !(value as unknown[]).some(v => isEqualValue(el, v)),
+          ),
+        );
+      }
+      return;
+    case '$pop':
+      if (getPathValue(doc, path) !== undefined) {
+        const arr = getArray(doc, path, operator);
+        setPath(doc, path, Number(value) < 0 ? arr.slice(1) : arr.slice(0, -1));
+      }
+      return;
+    default:
+      unsupported(`Update operator ${operator}`);
+  }
+}
+
+/**
+ * Return the document created by an upsert before applying the update:
+ * the equality conditions of the filter (like MongoDB does).
+ */
+export function getUpsertBase(filter: Document = {}): Document {
+  const base: Document = {};
+  const addConditions = (conditions: Document) => {
+    for (const [key, condition] of Object.entries(conditions)) {
+      if (key === '$and') {
+        (condition as Document[]).forEach(addConditions);
+      } else if (!key.startsWith('$')) {
+        if (!isOperatorObject(condition)) {
+          setPath(base, key, cloneValue(condition));
+        } else if ('$eq' in condition) {
+          setPath(base, key, cloneValue(condition.$eq));
+        }
+      }
+    }
+  };
+  addConditions(filter);
+  return base;
+}
+
+/**
+ * Apply an update (update operators, aggregation pipeline or replacement document)
+ * on a copy of the document and return it.
+ * Positional operators ($, $[], $[<id>]) are not supported.
+ */
+export function applyUpdate(
+  doc: Document,
+  update: Document | Document[],
+  { isInsert = false, now = new Date() }: { isInsert?: boolean; now?: Date },
+): Document {
+  let res: Document;
+  if (Array.isArray(update)) {
+    [res] = runPipeline([doc], update, { vars: { NOW: now } });
+  } else if (isReplacement(update)) {
+    res = { _id: doc._id, ...cloneValue(update) };
+  } else {
+    res = cloneValue(doc);
+    for (const [operator, fields] of Object.entries(update)) {
+      if (operator === '$setOnInsert' && !isInsert) {
+        continue;
+      }
+      for (const [path, value] of Object.entries(fields as Document)) {
+        if (path.split('.').some(part => part.startsWith('$'))) {
+          unsupported('Positional update operator');
+        }
+        applyOperator(
+          res,
+          operator === '$setOnInsert' ? '$set' : operator,
+          path,
+          value,
+          now,
+        );
+      }
+    }
+  }
+
+  if (res._id === undefined) {
+    // Keep _id as the first field
+    delete res._id;
+    res = { _id: doc._id ?? new ObjectId(), ...res };
+  } else if (
+    !isInsert &&
+    doc._id !== undefined &&
+    !isEqualValue(res._id, doc._id)
+  ) {
+    throw new MongoServerError({
+      message:
+        "Performing an update on the path '_id' would modify the immutable field '_id'",
+      code: 66,
+    });
+  }
+  return res;
+}
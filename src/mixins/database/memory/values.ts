@@ -0,0 +1,318 @@
+import {
+  Binary,
+  BSONRegExp,
+  Decimal128,
+  type Document,
+  Double,
+  Int32,
+  Long,
+  ObjectId,
+  Timestamp,
+} from 'mongodb';
+
+/**
+ * Throw the error of a feature the memory driver doesn't implement.
+ */
+export function unsupported(feature: string): never {
+  throw new Error(`${feature} is not supported by the memory driver`);
+}
+
+export function isPlainObject(value: unknown): value is Document {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const proto: unknown = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Deep copy of a value: plain objects, arrays and dates are copied,
+ * other BSON values (ObjectId, Binary...) are immutable and kept.
+ * Buffers are copied as Binary, like the driver reads them back.
+ */
+export function cloneValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue) as T;
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T;
+  }
+  if (value instanceof Uint8Array) {
+    return new Binary(Buffer.from(value)) as T;
+  }
+  if (isPlainObject(value)) {
+    const res: Document = {};
+    for (const [key, val] of Object.entries(value)) {
+      res[key] = cloneValue(val);
+    }
+    return res as T;
+  }
+  return value;
+}
+
+function isNumeric(value: unknown): boolean {
+  return (
+    typeof value === 'number' ||
+    typeof value === 'bigint' ||
+    value instanceof Long ||
+    value instanceof Double ||
+    value instanceof Int32 ||
+    value instanceof Decimal128
+  );
+}
+
+export function toNumber(value: unknown): number {
+  if (value instanceof Long) {
+    return value.toNumber();
+  }
+  if (value instanceof Double || value instanceof Int32) {
+    return value.valueOf();
+  }
+  return Number(value instanceof Decimal128 ? value.toString() : value);
+}
+
+// Comparison/sort order of the BSON types (https://www.mongodb.com/docs/manual/reference/bson-type-comparison-order/)
+function getTypeOrder(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 1;
+  }
+  if (isNumeric(value)) {
+    return 2;
+  }
+  if (typeof value === 'string') {
+    return 3;
+  }
+  if (Array.isArray(value)) {
+    return 5;
+  }
+  if (
+    value instanceof Binary ||
+    value instanceof Uint8Array ||
+    value instanceof ArrayBuffer
+  ) {
+    return 6;
+  }
+  if (value instanceof ObjectId) {
+    return 7;
+  }
+  if (typeof value === 'boolean') {
+    return 8;
+  }
+  if (value instanceof Date) {
+    return 9;
+  }
+  if (value instanceof Timestamp) {
+    return 10;
+  }
+  if (value instanceof RegExp || value instanceof BSONRegExp) {
+    return 11;
+  }
+  return 4;
+}
+
+export function isSameTypeOrder(a: unknown, b: unknown): boolean {
+  return getTypeOrder(a) === getTypeOrder(b);
+}
+
+function sign(n: number): number {
+  if (n > 0) {
+    return 1;
+  }
+  return n < 0 ? -1 : 0;
+}
+
+function toBuffer(value: unknown): Buffer {
+  if (value instanceof Binary) {
+    return Buffer.from(value.buffer);
+  }
+  return Buffer.from(value as Uint8Array);
+}
+
+/**
+ * Compare two values with the BSON comparison order, returns -1, 0 or 1.
+ * Strings are compared without collation.
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const typeDiff = getTypeOrder(a) - getTypeOrder(b);
+  if (typeDiff) {
+    return sign(typeDiff);
+  }
+
+  switch (getTypeOrder(a)) {
+    case 1:
+      return 0;
+    case 2:
+      return sign(toNumber(a) - toNumber(b));
+    case 3:
+      return a === b ? 0 : (a as string) < (b as string) ? -1 : 1;
+    case 4: {
+      const entriesA = Object.entries(a as Document);
+      const entriesB = Object.entries(b as Document);
+      for (let i = 0; i < Math.min(entriesA.length, entriesB.length); i += 1) {
+        const res =
+          compareValues(entriesA[i][0], entriesB[i][0]) ||
+          compareValues(entriesA[i][1], entriesB[i][1]);
+        if (res) {
+          return res;
+        }
+      }
+      return sign(entriesA.length - entriesB.length);
+    }
+    case 5: {
+      const arrA = a as unknown[];
+      const arrB = b as unknown[];
+      for (let i = 0; i < Math.min(arrA.length, arrB.length); i += 1) {
+        const res = compareValues(arrA[i], arrB[i]);
+        if (res) {
+          return res;
+        }
+      }
+      return sign(arrA.length - arrB.length);
+    }
+    case 6:
+      return sign(Buffer.compare(toBuffer(a), toBuffer(b)));
+    case 7:
+      return compareValues(
+        (a as ObjectId).toHexString(),
+        (b as ObjectId).toHexString(),
+      );
+    case 8:
+      return sign(Number(a) - Number(b));
+    case 9:
+      return sign((a as Date).getTime() - (b as Date).getTime());
+    case 10:
+      return sign((a as Timestamp).compare(b as Timestamp));
+    default:
+      return compareValues(String(a), String(b));
+  }
+}
+
+export function isEqualValue(a: unknown, b: unknown): boolean {
+  return compareValues(a, b) === 0;
+}
+
+function isIndex(part: string): boolean {
+  return /^\d+$/.test(part);
+}
+
+function collectPathValues(
+  value: unknown,
+  parts: string[],
+  out: unknown[],
+): void {
+  if (!parts.length) {
+    out.push(value);
+    return;
+  }
+  const [part, ...rest] = parts;
+  if (Array.isArray(value)) {
+    if (isIndex(part)) {
+      collectPathValues(value[Number(part)], rest, out);
+      return;
+    }
+    // Fields of the documents in the array
+    const docs = value.filter(el => isPlainObject(el));
+    if (!docs.length) {
+      out.push(undefined);
+    }
+    for (const el of docs) {
+      collectPathValues(el[part], rest, out);
+    }
+    return;
+  }
+  collectPathValues(isPlainObject(value) ? value[part] : undefined, rest, out);
+}
+
+/**
+ * Return the values of a path (dot notation) used to match queries: arrays on the path
+ * are traversed, so a path can have multiple values. A missing value is undefined.
+ */
+export function getPathValues(doc: unknown, path: string): unknown[] {
+  const out: unknown[] = [];
+  collectPathValues(doc, path.split('.'), out);
+  return out;
+}
+
+/**
+ * Return the value of a path (dot notation) like aggregation field paths:
+ * the path on an array of documents is the array of their values.
+ */
+export function getFieldValue(doc: unknown, path: string): unknown {
+  let value: unknown = doc;
+  for (const part of path.split('.')) {
+    if (Array.isArray(value)) {
+      value = value
+        .filter(el => isPlainObject(el))
+        .map(el => getFieldValue(el, part))
+        .filter(el => el !== undefined);
+    } else if (isPlainObject(value)) {
+      value = value[part];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Set a value on a path (dot notation), creating the missing documents on the way.
+ */
+export function setPath(doc: Document, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let current: Document = doc;
+  parts.slice(0, -1).forEach(part => {
+    const key = Array.isArray(current) && isIndex(part) ? Number(part) : part;
+    let next: unknown = current[key];
+    if (next === undefined || next === null) {
+      next = {};
+      current[key] = next;
+    } else if (!isPlainObject(next) && !Array.isArray(next)) {
+      throw new Error(
+        `Cannot create field '${part}' in element {${part}: ${JSON.stringify(next)}}`,
+      );
+    }
+    current = next as Document;
+  });
+  const last = parts[parts.length - 1];
+  current[Array.isArray(current) && isIndex(last) ? Number(last) : last] =
+    value;
+}
+
+/**
+ * Remove the value of a path (dot notation), array elements are set to null like $unset.
+ */
+export function unsetPath(doc: Document, path: string): void {
+  const parts = path.split('.');
+  let current: unknown = doc;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(current) && !Array.isArray(current)) {
+      return;
+    }
+    current = (current as Document)[part];
+  }
+  const last = parts[parts.length - 1];
+  if (Array.isArray(current)) {
+    if (isIndex(last) && Number(last) < current.length) {
+      current[Number(last)] = null;
+    }
+  } else if (isPlainObject(current)) {
+    delete current[last];
+  }
+}
+
+/**
+ * Return the value of a path (dot notation) without traversing arrays, used by updates.
+ */
+export function getPathValue(doc: unknown, path: string): unknown {
+  let value: unknown = doc;
+  for (const part of path.split('.')) {
+    if (Array.isArray(value) && isIndex(part)) {
+      value = value[Number(part)];
+    } else if (isPlainObject(value)) {
+      value = value[part];
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
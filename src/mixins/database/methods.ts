@@ -1,18 +1,39 @@
 import type {
+  AggregationCursor,
+  ClientSession,
   Collection,
   CollectionOptions,
   Filter,
   FindCursor,
+  FindOneAndDeleteOptions,
+  FindOneAndUpdateOptions,
+  MongoClient,
+  MongoServerError,
+  TransactionOptions,
   UpdateFilter,
   UpdateResult,
   Document,
   ObjectId,
   OptionalId,
+  WithoutId,
 } from 'mongodb';
-import type { Readable } from 'stream';
+import { MongoBulkWriteError } from 'mongodb';
+import { Readable } from 'stream';
+import type { Redis } from 'ioredis';
+import { get, pick, set } from 'es-toolkit/compat';
 import type { Context } from 'moleculer';
-import { optimizeQuery, getQueryFromList } from './helpers.js';
+import {
+  optimizeQuery,
+  getFieldsProjection,
+  getPublishedFields,
+  getQueryFromList,
+  hasUnprojectedFields,
+  isPathProjected,
+  projectDocument,
+  toBulkItemError,
+} from './helpers.js';
 import type {
+  DatabaseAggregateOptions,
   DatabaseCountOptions,
   DatabaseDeleteManyOptions,
   DatabaseDeleteOneOptions,
@@ -22,18 +43,90 @@ import type {
   DatabaseReplaceOneOptions,
   DatabaseUpdateManyOptions,
   DatabaseUpdateOneOptions,
+  DatabaseUpsertOneOptions,
+  DatabaseUpsertResult,
   WithDbFields,
   DatabaseEventInsert,
   DatabaseEventUpdate,
   DatabaseEventDelete,
+  DatabaseEventRestore,
+  DatabasePurgeDeletedOptions,
+  DatabaseReadOptions,
+  DatabaseSearchOptions,
+  DatabaseRestoreManyOptions,
+  DatabaseRestoreOneOptions,
   DatabaseSoftDeleteScope,
+  DatabaseBulkDeleteItem,
+  DatabaseBulkItemError,
+  DatabaseBulkItemResult,
+  DatabaseBulkUpdateItem,
+  DatabaseBulkUpsertItemResult,
+  DatabaseBulkUpsertOptions,
 } from './types.js';
 import type {
+  DatabaseActionPublishedNames,
   DatabaseMethodsOptions,
   KeyString,
   TenantParams,
 } from './mixin-types.js';
 import { createActions } from './actions/index.js';
+import {
+  EntityNotFoundError,
+  MissingUpsertKeyError,
+  VersionConflictError,
+} from './errors.js';
+import {
+  assertNoEncryptedFieldsInFilter,
+  assertNoEncryptedFieldsInSort,
+  type DecryptFn,
+  decryptDocumentFields,
+  type EncryptFn,
+  encryptDocumentFields,
+  encryptUpdateFields,
+} from './encryption.js';
+import {
+  type DatabaseHistoryChange,
+  type DatabaseHistoryOperation,
+  type DatabaseHistoryRecord,
+  diffDocuments,
+} from './history.js';
+import { DatabaseTransaction, getDatabaseTransaction } from './transaction.js';
+import { DatabaseCausalSession, getDatabaseCausalSession } from './session.js';
+import { DatabaseChangeStreamPublisher } from './change-stream.js';
+import {
+  DATABASE_CACHE_EVICT_EVENT,
+  type DatabaseCacheEvictPayload,
+  DatabaseDocumentCache,
+  getDatabaseCacheId,
+  getDatabaseCacheVariant,
+} from './cache.js';
+import { assignRelation, collectRelationIds } from './relations.js';
+import {
+  getProjectedVirtuals,
+  getVirtualsReadFields,
+  resolveVirtuals,
+  VIRTUALS_STREAM_BATCH_SIZE,
+} from './virtuals.js';
+import {
+  guardLookupStages,
+  prependMatchStage,
+  registerDatabaseCollection,
+} from './aggregate.js';
+import {
+  DATABASE_QUERY_ADVISOR_METRIC,
+  DatabaseQueryAdvisor,
+  getQueryPlanIssues,
+  getQueryShape,
+  hasQueryIssues,
+  type QueryAdvice,
+  type QueryShape,
+} from './advisor.js';
+import {
+  createSearchPipeline,
+  type DatabaseSearchResult,
+  parseSearchResult,
+} from './search.js';
+import { isOnAtlas } from './indexes/utils.js';
 import { wrapMixin } from '../../types/index.js';
 
 export function DatabaseMethodsMixin<
@@ -96,22 +189,35 @@ export function DatabaseMethodsMixin<
       },
 
       /**
-       * This method will automatically set the needed operators for our features (timestamps).
+       * This method will automatically set the needed operators for our features (timestamps, versioning).
        *
        * Limitations of this method:
        * - Dates are generated on the mongo server, except for `update` type with upsert.
        * - It doesn't support $replaceWith/$replaceRoot in an aggregation pipeline except when using type `replace`.
        * - Replaces (`replace` type) can only be done with an aggregation pipeline with a single $replaceWith stage.
        * - Update aggregation pipelines will be modified to let the createdAt field stay the same.
+       * - The version field can't be changed by the caller, it is incremented on each write (1 on insert).
        */
       _prepareUpdateFilter(
         changes: UpdateFilter<TSchema>,
         type: 'create' | 'update' | 'replace',
       ): UpdateFilter<TSchema> {
-        if (!opts.timestamps) {
+        if (!opts.timestamps && !opts.versioning) {
           return changes;
         }
 
+        // Fields computed in aggregation pipelines
+        const computedFields: Record<string, unknown> = {};
+        if (opts.timestamps) {
+          computedFields.createdAt = { $ifNull: ['$createdAt', '$$NOW'] };
+          computedFields.updatedAt = '$$NOW';
+        }
+        if (opts.versioning) {
+          computedFields.version = {
+            $add: [{ $ifNull: ['$version', 0] }, 1],
+          };
+        }
+
         // Replace operations are kind hard to handle with timestamps
         // The $replaceWith stage will remove all fields so we need to change it a bit to keep our createdAt
         if (type === 'replace') {
@@ -127,13 +233,7 @@ export function DatabaseMethodsMixin<
           return [
             {
               $replaceWith: {
-                $mergeObjects: [
-                  changes[0].$replaceWith,
-                  {
-                    createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
-                    updatedAt: '$$NOW',
-                  },
-                ],
+                $mergeObjects: [changes[0].$replaceWith, computedFields],
               },
             },
           ];
@@ -149,49 +249,51 @@ export function DatabaseMethodsMixin<
             );
           }
 
-          this._removeCreatedAtFromUpdateAggregationPipeline(changes);
+          if (opts.timestamps) {
+            this._removeCreatedAtFromUpdateAggregationPipeline(changes);
+          }
 
-          return [
-            ...changes,
-            {
-              $set: {
-                createdAt: { $ifNull: ['$createdAt', '$$NOW'] },
-                updatedAt: '$$NOW',
-              },
-            },
-          ];
+          return [...changes, { $set: computedFields }];
         }
 
         // If the changes is a classic update operator,
-        // delete from query every update operator that touch to createdAt or updatedAt
+        // delete from query every update operator that touch to our fields
         // before adding our own operators.
+        const managedFields = [
+          ...(opts.timestamps ? ['createdAt', 'updatedAt'] : []),
+          ...(opts.versioning ? ['version'] : []),
+        ];
         for (const operator of Object.values(changes)) {
           for (const key of Object.keys(operator)) {
-            if (key === 'createdAt' || key === 'updatedAt') {
+            if (managedFields.includes(key)) {
               delete operator[key];
             }
           }
         }
-        const $currentDate: Record<string, unknown> =
-          changes.$currentDate || {};
-        const $setOnInsert: Record<string, unknown> =
-          changes.$setOnInsert || {};
+        const res: Record<string, unknown> = { ...changes };
 
-        $currentDate.updatedAt = true;
-        if (type === 'create') {
-          $currentDate.createdAt = true;
-        } else {
-          // If we are updating, we need to be sure that createdAt is created on upsert
-          $setOnInsert.createdAt = new Date();
+        if (opts.timestamps) {
+          const $currentDate: Record<string, unknown> =
+            changes.$currentDate || {};
+          const $setOnInsert: Record<string, unknown> =
+            changes.$setOnInsert || {};
+
+          $currentDate.updatedAt = true;
+          if (type === 'create') {
+            $currentDate.createdAt = true;
+          } else {
+            // If we are updating, we need to be sure that createdAt is created on upsert
+            $setOnInsert.createdAt = new Date();
+          }
+          res.$currentDate = $currentDate;
+          res.$setOnInsert = $setOnInsert;
+        }
+        if (opts.versioning) {
+          // $inc on a missing field sets it to 1, which is what we want on insert
+          res.$inc = { ...changes.$inc, version: 1 };
         }
 
-        return {
-          ...changes,
-          // @ts-expect-error $currentDate is not always here for TS
-          $currentDate,
-          // @ts-expect-error $setOnInsert is not always here for TS
-          $setOnInsert,
-        };
+        return res as UpdateFilter<TSchema>;
       },
 
       /**
@@ -257,6 +359,9 @@ export function DatabaseMethodsMixin<
         scope?: DatabaseSoftDeleteScope,
         strictTenantFilter: boolean = true,
       ): Filter<TSchema> {
+        if (opts.encryptedFields?.length) {
+          assertNoEncryptedFieldsInFilter(query, opts.encryptedFields);
+        }
         return optimizeQuery({
           ...query,
           ...this._getTenantFilter(params, strictTenantFilter),
@@ -264,413 +369,2518 @@ export function DatabaseMethodsMixin<
         });
       },
 
+      /**
+       * Restrict a write filter to the expected version of the document (see versioning option).
+       */
+      _getVersionFilter(
+        filter: Filter<TSchema>,
+        expectedVersion: number | undefined,
+        upsert?: boolean,
+      ): Filter<TSchema> {
+        if (expectedVersion === undefined) {
+          return filter;
+        }
+        if (!opts.versioning) {
+          throw new Error('expectedVersion requires the versioning option');
+        }
+        if (upsert) {
+          throw new Error("expectedVersion can't be used with upsert");
+        }
+        return { ...filter, version: expectedVersion };
+      },
+
+      /**
+       * Called when a write with an expected version didn't match any document.
+       * Throw a VersionConflictError if the document exists with another version.
+       */
+      async _assertNoVersionConflict(
+        ctx: Context,
+        filter: Filter<TSchema>,
+        expectedVersion: number,
+        options: {
+          session?: ClientSession;
+          sort?: string[];
+          databaseTenant?: string;
+        } = {},
+      ): Promise<void> {
+        const { sort, databaseTenant, ...driverOptions } = options;
+        const current = await this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant ?? this._getDatabaseTenant(filter, ctx),
+        ).findOne(filter, {
+          ...this._getTransactionOptions(ctx),
+          ...driverOptions,
+          sort: getQueryFromList('sort', sort),
+          projection: { version: 1 },
+        });
+        if (current) {
+          throw new VersionConflictError(
+            current._id.toString(),
+            expectedVersion,
+            current.version,
+          );
+        }
+      },
+
       /**
        * INTERNAL, DO NOT USE.
        * Simple wrapper around the DatabaseConnectionMixin.getCollection method to have typed collection.
        */
       _getDatabaseMixinCollection(
         options?: CollectionOptions,
+        tenant?: string,
       ): Collection<TSchema> {
         // @ts-expect-error We expect the DatabaseConnectionMixin to be included
-        return this.getCollection(options);
+        return this.getCollection(options, tenant);
       },
 
       /**
-       * Create a find cursor with database mixin options applied.
+       * INTERNAL, DO NOT USE.
+       * Simple wrapper around the DatabaseConnectionMixin.getTenantsCollections method to have typed collections.
        */
-      _createFindCursor(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        options: DatabaseFindOptions = {},
-      ): FindCursor<WithDbFields<TSchema>> {
-        const {
-          sort,
-          fields,
-          scope,
-          strictTenantFilter = true,
-          ...driverOptions
-        } = options;
-
-        return this._getDatabaseMixinCollection().find(
-          this._getQueryFilter(query, params, scope, strictTenantFilter),
-          {
-            ...driverOptions,
-            sort: getQueryFromList('sort', sort),
-            projection: getQueryFromList('projection', fields),
-          },
-        ) as FindCursor<WithDbFields<TSchema>>;
+      _getDatabaseMixinTenantsCollections(): Promise<Collection<TSchema>[]> {
+        // @ts-expect-error We expect the DatabaseConnectionMixin to be included
+        return this.getTenantsCollections();
       },
 
-      async _findOne(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        options?: Omit<DatabaseFindOptions, 'limit' | 'batchSize'>,
-      ): Promise<WithDbFields<TSchema> | null> {
-        // Use batch size 1 and limit -1 same as https://github.com/mongodb/node-mongodb-native/blob/v6.3.0/src/collection.ts#L487-L495
-        const cursor = this._createFindCursor(query, params, {
-          ...options,
-          limit: -1,
-          batchSize: 1,
-        });
-        const res = await cursor.next();
-        await cursor.close();
-        return res;
+      /**
+       * INTERNAL, DO NOT USE.
+       * Return the tenant used to resolve the database (see DatabaseConnectionMixin tenancy option):
+       * the tenantField value of the given params or document, or the tenant in ctx.meta.
+       * It must be resolved before the query optimization, which can move the tenant field in $or branches.
+       * Throw if it can't be resolved while tenancy is enabled, rather than using the default database.
+       */
+      _getDatabaseTenant(
+        from?: Document | null,
+        ctx?: Context,
+      ): string | undefined {
+        const value: unknown = opts.tenantField
+          ? from?.[opts.tenantField as string]
+          : undefined;
+        // Ignore query operators, ObjectIds are converted to their hex string
+        if (
+          value !== undefined &&
+          value !== null &&
+          (typeof value !== 'object' || 'toHexString' in value)
+        ) {
+          return String(value);
+        }
+        // @ts-expect-error We expect the DatabaseConnectionMixin to be included
+        const tenant = this.getContextTenant(ctx) as string | undefined;
+        // @ts-expect-error We expect the DatabaseConnectionMixin to be included
+        if (tenant === undefined && this.isTenancyEnabled()) {
+          throw new Error(
+            'Unable to resolve the tenant database, the tenant must be in params or ctx.meta',
+          );
+        }
+        return tenant;
       },
 
-      _find(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        options?: DatabaseFindOptions,
-      ): Promise<WithDbFields<TSchema>[]> {
-        return this._createFindCursor(query, params, options).toArray();
+      /**
+       * INTERNAL, DO NOT USE.
+       * Return the tenant of documents written together.
+       * Throw if they belong to different tenants while each tenant has its own database.
+       */
+      _getDocumentsTenant(docs: Document[], ctx?: Context): string | undefined {
+        const tenants = new Set(
+          docs.map(doc => this._getDatabaseTenant(doc, ctx)),
+        );
+        // @ts-expect-error We expect the DatabaseConnectionMixin to be included
+        if (tenants.size > 1 && this.isTenancyEnabled()) {
+          throw new Error(
+            "Documents of different tenants can't be written together",
+          );
+        }
+        return tenants.values().next().value;
       },
 
-      _findStream(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        options?: DatabaseFindOptions,
-      ): Readable {
-        return this._createFindCursor(query, params, options).stream();
+      /**
+       * INTERNAL, DO NOT USE.
+       * Simple wrapper around the DatabaseConnectionMixin.getMongoClient method to have typed client.
+       */
+      _getDatabaseMixinClient(): MongoClient {
+        // @ts-expect-error We expect the DatabaseConnectionMixin to be included
+        return this.getMongoClient();
       },
 
-      _countDocuments(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        options: DatabaseCountOptions = {},
-      ): Promise<number> {
-        const { scope, strictTenantFilter = true, ...driverOptions } = options;
-        return this._getDatabaseMixinCollection().countDocuments(
-          this._getQueryFilter(query, params, scope, strictTenantFilter),
-          driverOptions,
-        );
+      /**
+       * Return the session options to use for a write operation done with this context.
+       * If the context is part of a transaction (see withTransaction), its session is returned.
+       * Otherwise, the causally consistent session of the context is returned (see withCausalConsistency).
+       */
+      _getTransactionOptions(ctx: Context): { session?: ClientSession } {
+        const client = this._getDatabaseMixinClient();
+        const tx = getDatabaseTransaction(ctx, client);
+        if (tx) {
+          return { session: tx.session };
+        }
+        const causalSession = getDatabaseCausalSession(ctx, client);
+        return causalSession ? { session: causalSession.session } : {};
       },
 
       /**
-       * Insert one document and return it.
+       * Return the options to use for a read operation done with this context,
+       * with the given read preference/concern (e.g. from the action options).
        *
-       * It differs from the driver's insertOne as it returns the inserted document and
-       * send an event with the new document.
+       * In a transaction, only its session is returned as reads must use the transaction
+       * read concern and the primary.
        */
-      async _insertOne(
+      _getReadOptions(
         ctx: Context,
-        doc: OptionalId<TSchema>,
-        options: DatabaseInsertOneOptions = {},
-      ): Promise<WithDbFields<TSchema>> {
-        const { fields, skipCreateEvent, ...driverOptions } = options;
-
-        if (opts.idGenerator && !doc._id) {
-          doc._id = opts.idGenerator(doc);
+        readOptions: DatabaseReadOptions = {},
+      ): DatabaseReadOptions & { session?: ClientSession } {
+        const { readPreference, readConcern } = readOptions;
+        const tx = getDatabaseTransaction(ctx, this._getDatabaseMixinClient());
+        if (tx) {
+          return { session: tx.session };
         }
+        return {
+          ...(readPreference && { readPreference }),
+          ...(readConcern && { readConcern }),
+          ...this._getTransactionOptions(ctx),
+        };
+      },
 
-        const res = await this._getDatabaseMixinCollection().findOneAndUpdate(
-          { _id: { $exists: false } },
-          this._prepareUpdateFilter(
-            { $setOnInsert: doc as Partial<TSchema> },
-            'create',
-          ),
-          {
-            ...driverOptions,
-            includeResultMetadata: false, // Document says it's true by default and will be false in a next major
-            upsert: true,
-            returnDocument: 'after',
-            projection: getQueryFromList('projection', fields),
-          },
+      /**
+       * Return the fields list to use for a published action (see hiddenFields and publicFields),
+       * restricting the requested fields.
+       */
+      _getPublishedFields(
+        action: DatabaseActionPublishedNames,
+        fields?: string[],
+      ): string[] | undefined {
+        const actionOptions = opts.actions?.[action];
+        return getPublishedFields(
+          opts.actions?.hiddenFields,
+          actionOptions && 'publicFields' in actionOptions
+            ? actionOptions.publicFields
+            : undefined,
+          fields,
         );
-        if (!res) {
-          throw new Error("Insert one didn't upsert any document");
+      },
+
+      /**
+       * Remove the fields that a published action must not return from a document
+       * (see hiddenFields and publicFields) and set its virtuals (see virtuals action option).
+       */
+      async _projectPublishedDocument<T extends Document>(
+        action: DatabaseActionPublishedNames,
+        doc: T,
+      ): Promise<T> {
+        const fields = this._getPublishedFields(action);
+        const [res] = await this._resolveVirtuals([doc], fields);
+        return projectDocument(res, fields);
+      },
+
+      /**
+       * Return the fields list to read for the given fields, with the dependencies
+       * of the returned virtuals (see virtuals action option).
+       */
+      _getVirtualsReadFields(fields?: string[]): string[] | undefined {
+        const virtuals = opts.actions?.virtuals;
+        if (!virtuals) {
+          return fields;
         }
+        return getVirtualsReadFields(
+          virtuals,
+          getProjectedVirtuals(virtuals, fields),
+          fields,
+        );
+      },
 
-        if (opts.eventPrefix && !skipCreateEvent) {
-          ctx.emit<DatabaseEventInsert<TSchema>>(
-            `${opts.eventPrefix}.created`,
-            { type: 'insert', document: res as WithDbFields<TSchema> },
-          );
+      /**
+       * Set the virtuals returned with the given fields on documents read with _getVirtualsReadFields (mutated),
+       * with one resolver call per virtual. The dependencies that were not requested are removed.
+       */
+      async _resolveVirtuals<T extends Document>(
+        docs: T[],
+        fields?: string[],
+      ): Promise<T[]> {
+        const virtuals = opts.actions?.virtuals;
+        if (!virtuals || !docs.length) {
+          return docs;
+        }
+        const names = getProjectedVirtuals(virtuals, fields);
+        if (!names.length) {
+          return docs;
         }
+        await resolveVirtuals(docs, virtuals, names);
+        if (getVirtualsReadFields(virtuals, names, fields) === fields) {
+          return docs;
+        }
+        return docs.map(doc => projectDocument(doc, fields));
+      },
 
-        return res as WithDbFields<TSchema>;
+      /**
+       * Emit a database event (if eventPrefix is set).
+       * If the context is part of a transaction, the event is deferred until the commit.
+       * Nothing is sent with the `changeStream` event source, events come from the change stream.
+       */
+      _emitDatabaseEvent<T>(
+        ctx: Context,
+        event: 'created' | 'updated' | 'deleted' | 'restored',
+        payload: T,
+      ): void {
+        if (!opts.eventPrefix || opts.eventSource === 'changeStream') {
+          return;
+        }
+        const eventName = `${opts.eventPrefix}.${event}`;
+        const tx = getDatabaseTransaction(ctx, this._getDatabaseMixinClient());
+        if (tx) {
+          tx.deferEvent(ctx, eventName, payload);
+        } else {
+          ctx.emit<T>(eventName, payload);
+        }
       },
 
       /**
-       * Insert many documents and return the list of inserted ids in the same order.
+       * Run the given function in a MongoDB transaction.
+       *
+       * Every write method receiving `ctx` (or a context created from it with ctx.call on the same node)
+       * will use the transaction session, even on other database services if they share the same MongoClient.
+       * Methods without context (reads, updateMany, deleteMany) must receive `tx.session` in their options.
+       *
+       * Events are emitted after the commit and dropped if the transaction is aborted.
+       * If a transaction is already running for this context, the function joins it.
+       *
+       * Note: the function may be called multiple times by the driver on transient errors.
        */
-      async _insertMany(
+      async withTransaction<T>(
         ctx: Context,
-        docs: OptionalId<TSchema>[],
-        options: DatabaseInsertManyOptions = {},
-      ): Promise<TSchema['_id'][]> {
-        const { skipCreateEvent, ...driverOptions } = options;
-        const res = await this._getDatabaseMixinCollection().bulkWrite(
-          docs.map(doc => {
-            if (opts.idGenerator && !doc._id) {
-              doc._id = opts.idGenerator(doc);
-            }
-            return {
-              updateOne: {
-                upsert: true,
-                filter: { _id: { $exists: false } },
-                update: this._prepareUpdateFilter(
-                  { $setOnInsert: doc as Partial<TSchema> },
-                  'create',
-                ),
-              },
-            };
-          }),
-          driverOptions,
-        );
+        fn: (tx: DatabaseTransaction) => Promise<T>,
+        options?: TransactionOptions,
+      ): Promise<T> {
+        const client = this._getDatabaseMixinClient();
+        const current = getDatabaseTransaction(ctx, client);
+        if (current) {
+          return fn(current);
+        }
 
-        if (opts.eventPrefix && !skipCreateEvent) {
-          docs.forEach((doc, i) =>
-            ctx.emit<DatabaseEventInsert<TSchema>>(
-              `${opts.eventPrefix}.created`,
-              {
-                type: 'insert',
-                document: {
-                  _id: doc._id || res.upsertedIds[i],
-                  ...doc,
-                } as WithDbFields<TSchema>,
-              },
-            ),
-          );
+        const session = client.startSession();
+        const tx = new DatabaseTransaction(client, session);
+        tx.attach(ctx);
+        try {
+          const res = await session.withTransaction(() => {
+            // Events from a previous attempt must not be emitted
+            tx.clearEvents();
+            return fn(tx);
+          }, options);
+          tx.detach(ctx);
+          await tx.runCommitCallbacks();
+          tx.emitEvents();
+          return res;
+        } finally {
+          tx.clearEvents();
+          tx.detach(ctx);
+          await session.endSession();
         }
-        return docs.map((doc, i) => res.upsertedIds[i]);
       },
 
       /**
-       * Update one document and return the after version by default.
-       * To have the before version, use the `returnDocument` option.
+       * Run the given function in a causally consistent session.
        *
-       * WARNING: Only send an event if returnDocument is 'after'.If returnDocument is 'before',
-       * you MUST pass skipUpdateEvent: true and optionally send the event yourself.
+       * Every write method receiving `ctx` (or a context created from it with ctx.call on the same node)
+       * and the read actions will use the session, so a read done after a write sees it,
+       * even when reading from secondaries. Other read methods must receive `session.session` in their options.
+       *
+       * Use a majority read/write concern to keep the guarantee through a primary election.
+       * If a causally consistent session is already running for this context, the function joins it.
        */
-      async _updateOne(
+      async withCausalConsistency<T>(
         ctx: Context,
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        changes: UpdateFilter<TSchema>,
-        options: DatabaseUpdateOneOptions = {},
-      ): Promise<WithDbFields<TSchema> | null> {
-        const {
-          fields,
-          sort,
-          strictTenantFilter = true,
-          returnDocument = 'after',
-          skipUpdateEvent,
-          ...driverOptions
-        } = options;
+        fn: (session: DatabaseCausalSession) => Promise<T>,
+      ): Promise<T> {
+        const client = this._getDatabaseMixinClient();
+        const current = getDatabaseCausalSession(ctx, client);
+        if (current) {
+          return fn(current);
+        }
 
-        if (
-          returnDocument === 'before' &&
-          opts.eventPrefix &&
-          !skipUpdateEvent
-        ) {
-          throw new Error(
-            'Cannot send update event with returnDocument: before option',
-          );
+        const session = client.startSession({ causalConsistency: true });
+        const causalSession = new DatabaseCausalSession(client, session);
+        causalSession.attach(ctx);
+        try {
+          return await fn(causalSession);
+        } finally {
+          causalSession.detach(ctx);
+          await session.endSession();
         }
+      },
 
-        const res = await this._getDatabaseMixinCollection().findOneAndUpdate(
-          this._getQueryFilter(query, params, 'no-deleted', strictTenantFilter),
-          this._prepareUpdateFilter(changes, 'update'),
-          {
-            ...driverOptions,
-            returnDocument,
-            includeResultMetadata: false, // Document says it's true by default and will be false in a next major
-            sort: getQueryFromList('sort', sort),
-            projection: getQueryFromList('projection', fields),
-          },
-        );
+      /**
+       * Return a copy of the document with encrypted fields encrypted (see encryptedFields option).
+       */
+      async _encryptDocument<T extends Document>(doc: T): Promise<T> {
+        if (!opts.encryptedFields?.length) {
+          return doc;
+        }
+        // We expect the EncryptorMixin to be included
+        const encrypt = this.encrypt as EncryptFn;
+        return encryptDocumentFields(doc, opts.encryptedFields, encrypt);
+      },
 
-        if (res && opts.eventPrefix && !skipUpdateEvent) {
-          ctx.emit<DatabaseEventUpdate<TSchema>>(
-            `${opts.eventPrefix}.updated`,
-            { type: 'update', document: res as WithDbFields<TSchema> },
-          );
+      /**
+       * Return a copy of the document with encrypted fields decrypted (see encryptedFields option).
+       */
+      async _decryptDocument<T extends Document>(doc: T): Promise<T> {
+        if (!opts.encryptedFields?.length) {
+          return doc;
         }
-        return res as WithDbFields<TSchema> | null;
+        // We expect the EncryptorMixin to be included
+        const decrypt = this.decrypt as DecryptFn;
+        return decryptDocumentFields(doc, opts.encryptedFields, decrypt);
       },
 
       /**
-       * Update many documents and return the number of updated documents.
-       *
-       * WARNING: Do not send any events. You'll have to send an event yourself.
+       * Return a copy of the update with encrypted fields encrypted (see encryptedFields option).
        */
-      async _updateMany(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
+      async _encryptUpdate(
         changes: UpdateFilter<TSchema>,
-        options: DatabaseUpdateManyOptions = {},
-      ): Promise<UpdateResult<TSchema>> {
-        const { strictTenantFilter = true, ...driverOptions } = options;
-        return this._getDatabaseMixinCollection().updateMany(
-          this._getQueryFilter(query, params, 'no-deleted', strictTenantFilter),
-          this._prepareUpdateFilter(changes, 'update'),
-          driverOptions,
-        );
+      ): Promise<UpdateFilter<TSchema>> {
+        if (!opts.encryptedFields?.length) {
+          return changes;
+        }
+        // We expect the EncryptorMixin to be included
+        const encrypt = this.encrypt as EncryptFn;
+        return encryptUpdateFields(
+          changes,
+          opts.encryptedFields,
+          encrypt,
+        ) as Promise<UpdateFilter<TSchema>>;
       },
 
       /**
-       * Replace one document and return the after version by default.
-       * To have the before version, use the `returnDocument` option.
-       *
-       * WARNING: Only send an event if returnDocument is 'after'.If returnDocument is 'before',
-       * you MUST pass skipUpdateEvent: true and optionally send the event yourself.
+       * INTERNAL, DO NOT USE.
+       * Return the history collection (see history option).
        */
-      async _replaceOne(
-        ctx: Context,
+      _getHistoryCollection(
+        tenant?: string,
+      ): Collection<DatabaseHistoryRecord<TSchema>> {
+        const collection = this._getDatabaseMixinCollection(undefined, tenant);
+        return collection.db.collection<DatabaseHistoryRecord<TSchema>>(
+          opts.history?.collectionName ||
+            `${collection.collectionName}_history`,
+        );
+      },
+
+      /**
+       * Add a record in the history collection for a write on a document (if history is enabled).
+       * `before` and `after` must be the stored documents (no projection, encrypted fields still encrypted).
+       * Methods without context (updateMany, deleteMany) create records without actor and requestID.
+       */
+      async _addHistoryRecord(
+        ctx: Context | undefined,
+        operation: DatabaseHistoryOperation,
+        before: WithDbFields<TSchema> | null,
+        after: WithDbFields<TSchema> | null,
+        options: { session?: ClientSession; databaseTenant?: string } = {},
+      ): Promise<void> {
+        const doc = after || before;
+        if (!opts.history || !doc) {
+          return;
+        }
+        const { mode = 'snapshot', actorMetaKeys = ['user'] } = opts.history;
+        const { databaseTenant, ...driverOptions } = options;
+        const collection = this._getHistoryCollection(
+          databaseTenant ?? this._getDatabaseTenant(doc, ctx),
+        );
+
+        const record: Omit<
+          DatabaseHistoryRecord<TSchema>,
+          '_id' | 'version'
+        > = {
+          documentId: doc._id,
+          operation,
+          ...(mode === 'diff'
+            ? { diff: diffDocuments(before, after) }
+            : {
+                ...(before ? { before } : {}),
+                ...(after ? { after } : {}),
+              }),
+          ...(ctx ? { actor: pick(ctx.meta, actorMetaKeys) } : {}),
+          ...(ctx?.requestID ? { requestID: ctx.requestID } : {}),
+          ...(opts.tenantField
+            ? { [opts.tenantField as string]: doc[opts.tenantField as string] }
+            : {}),
+          createdAt: new Date(),
+        };
+
+        // Versions are unique by document, retry if a concurrent write took the same one.
+        // In a transaction, the error aborts it so we let the driver retry the whole transaction.
+        for (let attempt = 1; ; attempt += 1) {
+          const last = await collection.findOne(
+            { documentId: doc._id } as Filter<DatabaseHistoryRecord<TSchema>>,
+            {
+              ...driverOptions,
+              sort: { version: -1 },
+              projection: { version: 1 },
+            },
+          );
+          try {
+            await collection.insertOne(
+              {
+                ...record,
+                version: (last?.version || 0) + 1,
+              } as DatabaseHistoryRecord<TSchema>,
+              driverOptions,
+            );
+            return;
+          } catch (err) {
+            if (
+              (err as MongoServerError)?.code !== 11000 ||
+              attempt >= 3 ||
+              driverOptions.session?.inTransaction()
+            ) {
+              throw err;
+            }
+          }
+        }
+      },
+
+      /**
+       * Return a copy of a history record with encrypted fields decrypted (see encryptedFields option).
+       */
+      async _decryptHistoryRecord(
+        record: DatabaseHistoryRecord<TSchema>,
+      ): Promise<DatabaseHistoryRecord<TSchema>> {
+        if (!opts.encryptedFields?.length) {
+          return record;
+        }
+        // Changes only contain the value at their path, so we decrypt it as a partial document
+        const decryptValue = async (path: string, value: unknown) =>
+          get(await this._decryptDocument(set({}, path, value)), path);
+        const decryptChange = async (change: DatabaseHistoryChange) => ({
+          ...change,
+          ...('value' in change
+            ? { value: await decryptValue(change.path, change.value) }
+            : {}),
+          ...('oldValue' in change
+            ? { oldValue: await decryptValue(change.path, change.oldValue) }
+            : {}),
+        });
+
+        return {
+          ...record,
+          ...(record.before
+            ? { before: await this._decryptDocument(record.before) }
+            : {}),
+          ...(record.after
+            ? { after: await this._decryptDocument(record.after) }
+            : {}),
+          ...(record.diff
+            ? { diff: await Promise.all(record.diff.map(decryptChange)) }
+            : {}),
+        };
+      },
+
+      /**
+       * Return the history records of a document, from the most recent to the oldest.
+       */
+      async _findHistory(
+        documentId: TSchema['_id'],
+        params: TenantParams<TSchema, TenantField>,
+        options: {
+          version?: number;
+          limit?: number;
+          skip?: number;
+          session?: ClientSession;
+          ctx?: Context;
+        } = {},
+      ): Promise<DatabaseHistoryRecord<TSchema>[]> {
+        const { version, ctx, ...driverOptions } = options;
+        if (!opts.history) {
+          throw new Error('History is not enabled on this service');
+        }
+
+        const records = await this._getHistoryCollection(
+          this._getDatabaseTenant(params, ctx),
+        )
+          .find(
+            {
+              documentId,
+              ...(version !== undefined ? { version } : {}),
+              ...this._getTenantFilter(params),
+            } as Filter<DatabaseHistoryRecord<TSchema>>,
+            { ...driverOptions, sort: { version: -1 } },
+          )
+          .toArray();
+        return Promise.all(
+          records.map(record =>
+            this._decryptHistoryRecord(
+              record as DatabaseHistoryRecord<TSchema>,
+            ),
+          ),
+        );
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Wrapper around the driver's findOneAndUpdate (sort/fields options) that records the change in the history.
+       *
+       * With history enabled, the matched document is read first and the update is restricted to it,
+       * so both versions are known. `operation` is used when a document matched, `insert` otherwise (upsert).
+       */
+      async _findOneAndUpdate(
+        ctx: Context,
+        filter: Filter<TSchema>,
+        changes: UpdateFilter<TSchema> | Document[],
+        operation: DatabaseHistoryOperation,
+        options: Omit<
+          FindOneAndUpdateOptions,
+          'sort' | 'projection' | 'includeResultMetadata'
+        > & { fields?: string[]; sort?: string[]; databaseTenant?: string },
+      ): Promise<WithDbFields<TSchema> | null> {
+        const { document } = await this._findOneAndUpdateWithResult(
+          ctx,
+          filter,
+          changes,
+          operation,
+          options,
+        );
+        return document;
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Same as _findOneAndUpdate, but also tells if the document was inserted by an upsert.
+       */
+      async _findOneAndUpdateWithResult(
+        ctx: Context,
+        filter: Filter<TSchema>,
+        changes: UpdateFilter<TSchema> | Document[],
+        operation: DatabaseHistoryOperation,
+        options: Omit<
+          FindOneAndUpdateOptions,
+          'sort' | 'projection' | 'includeResultMetadata'
+        > & { fields?: string[]; sort?: string[]; databaseTenant?: string },
+      ): Promise<{
+        document: WithDbFields<TSchema> | null;
+        upserted: boolean;
+      }> {
+        const {
+          fields,
+          sort,
+          returnDocument,
+          databaseTenant,
+          ...driverOptions
+        } = options;
+        const tenant = databaseTenant ?? this._getDatabaseTenant(filter, ctx);
+        const collection = this._getDatabaseMixinCollection(undefined, tenant);
+        const writeOptions = {
+          ...this._getTransactionOptions(ctx),
+          ...driverOptions,
+          sort: getQueryFromList('sort', sort),
+        };
+
+        if (!opts.history) {
+          const res = await collection.findOneAndUpdate(filter, changes, {
+            ...writeOptions,
+            // Needed to know if the document was upserted
+            includeResultMetadata: true,
+            returnDocument,
+            // The cache needs the _id of the document, fields are applied after
+            projection: opts.cache
+              ? undefined
+              : getQueryFromList('projection', fields),
+          });
+          const document = res.value as WithDbFields<TSchema> | null;
+          if (document && opts.cache) {
+            await this._evictCachedDocuments([document._id], ctx);
+          }
+          return {
+            document:
+              document && opts.cache
+                ? projectDocument(document, fields)
+                : document,
+            upserted: Boolean(res.lastErrorObject?.upserted),
+          };
+        }
+
+        // The before version is returned by the write itself, the after one is read again
+        const res = await collection.findOneAndUpdate(filter, changes, {
+          ...writeOptions,
+          includeResultMetadata: true,
+          returnDocument: 'before',
+        });
+        const before = res.value as WithDbFields<TSchema> | null;
+        const upsertedId: unknown = res.lastErrorObject?.upserted;
+        if (!before && !upsertedId) {
+          return { document: null, upserted: false };
+        }
+        const id = before ? before._id : upsertedId;
+        await this._evictCachedDocuments([id], ctx);
+
+        const after = (await collection.findOne(
+          { _id: id } as Filter<TSchema>,
+          { session: writeOptions.session },
+        )) as WithDbFields<TSchema> | null;
+        if (after) {
+          await this._addHistoryRecord(
+            ctx,
+            before ? operation : 'insert',
+            before,
+            after,
+            { session: writeOptions.session, databaseTenant: tenant },
+          );
+        }
+
+        const document = returnDocument === 'before' ? before : after;
+        return {
+          document: document && projectDocument(document, fields),
+          upserted: Boolean(upsertedId),
+        };
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Delete (or soft delete) the first document matching the filter, record it in the history
+       * and return it as it was before the deletion.
+       */
+      async _findOneAndDelete(
+        ctx: Context,
+        filter: Filter<TSchema>,
+        options: Omit<FindOneAndDeleteOptions, 'sort' | 'projection'> & {
+          fields?: string[];
+          sort?: string[];
+          databaseTenant?: string;
+        },
+      ): Promise<WithDbFields<TSchema> | null> {
+        const { fields, sort, databaseTenant, ...driverOptions } = options;
+
+        if (opts.softDelete) {
+          return this._findOneAndUpdate(
+            ctx,
+            filter,
+            this._prepareUpdateFilter(
+              // @ts-expect-error deletedAt is not always here for TS
+              { $currentDate: { deletedAt: true } },
+              'update',
+            ),
+            'delete',
+            {
+              ...driverOptions,
+              sort,
+              fields,
+              returnDocument: 'before',
+              databaseTenant,
+            },
+          );
+        }
+
+        const writeOptions = {
+          ...this._getTransactionOptions(ctx),
+          ...driverOptions,
+        };
+        const tenant = databaseTenant ?? this._getDatabaseTenant(filter, ctx);
+        const res = (await this._getDatabaseMixinCollection(
+          undefined,
+          tenant,
+        ).findOneAndDelete(filter, {
+          ...writeOptions,
+          sort: getQueryFromList('sort', sort),
+          // History and cache need the whole document, fields are applied after
+          projection:
+            opts.history || opts.cache
+              ? undefined
+              : getQueryFromList('projection', fields),
+        })) as WithDbFields<TSchema> | null;
+        if (res && opts.cache) {
+          await this._evictCachedDocuments([res._id], ctx);
+        }
+        if (res && opts.history) {
+          await this._addHistoryRecord(ctx, 'delete', res, null, {
+            session: writeOptions.session,
+            databaseTenant: tenant,
+          });
+        }
+        return res && (opts.history || opts.cache)
+          ? projectDocument(res, fields)
+          : res;
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Add the history records of documents written by updateMany/deleteMany.
+       * `before` are the documents matched before the write, `after` versions are read again
+       * (except for hard deletes).
+       */
+      async _addManyHistoryRecords(
+        operation: DatabaseHistoryOperation,
+        before: WithDbFields<TSchema>[],
+        options: { session?: ClientSession; databaseTenant?: string } = {},
+      ): Promise<void> {
+        const { databaseTenant, ...driverOptions } = options;
+        const afterById = new Map<string, WithDbFields<TSchema>>();
+        if (operation !== 'delete' || opts.softDelete) {
+          const afterDocs = await this._getDatabaseMixinCollection(
+            undefined,
+            databaseTenant ?? this._getDatabaseTenant(before[0]),
+          )
+            .find(
+              { _id: { $in: before.map(doc => doc._id) } } as Filter<TSchema>,
+              driverOptions,
+            )
+            .toArray();
+          for (const doc of afterDocs) {
+            afterById.set(String(doc._id), doc as WithDbFields<TSchema>);
+          }
+        }
+        for (const doc of before) {
+          await this._addHistoryRecord(
+            undefined,
+            operation,
+            doc,
+            afterById.get(String(doc._id)) || null,
+            options,
+          );
+        }
+      },
+
+      /**
+       * Create a find cursor with database mixin options applied.
+       */
+      _createFindCursor(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options: DatabaseFindOptions = {},
+      ): FindCursor<WithDbFields<TSchema>> {
+        const {
+          sort,
+          fields: requestedFields,
+          scope,
+          strictTenantFilter = true,
+          publishedAction,
+          ctx,
+          ...driverOptions
+        } = options;
+        const fields = this._getVirtualsReadFields(
+          publishedAction
+            ? this._getPublishedFields(publishedAction, requestedFields)
+            : requestedFields,
+        );
+
+        if (opts.encryptedFields?.length && sort) {
+          assertNoEncryptedFieldsInSort(sort, opts.encryptedFields);
+        }
+
+        const filter = this._getQueryFilter(
+          query,
+          params,
+          scope,
+          strictTenantFilter,
+        );
+        const sortQuery = getQueryFromList('sort', sort);
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        this._sampleQuery('find', filter, sortQuery, databaseTenant);
+
+        const cursor = this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant,
+        ).find(filter, {
+          ...driverOptions,
+          sort: sortQuery,
+          projection: getFieldsProjection(fields),
+        }) as FindCursor<WithDbFields<TSchema>>;
+        return hasUnprojectedFields(fields)
+          ? cursor.map(doc => projectDocument(doc, fields))
+          : cursor;
+      },
+
+      async _findOne(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options?: Omit<DatabaseFindOptions, 'limit' | 'batchSize'>,
+      ): Promise<WithDbFields<TSchema> | null> {
+        const cache = this.databaseCache as DatabaseDocumentCache | undefined;
+        if (cache && this._isCacheableQuery(query, options)) {
+          return this._findOneCached(cache, query, params, options);
+        }
+
+        // Use batch size 1 and limit -1 same as https://github.com/mongodb/node-mongodb-native/blob/v6.3.0/src/collection.ts#L487-L495
+        const cursor = this._createFindCursor(query, params, {
+          ...options,
+          limit: -1,
+          batchSize: 1,
+        });
+        const res = await cursor.next();
+        await cursor.close();
+        if (!res) {
+          return null;
+        }
+        const [doc] = await this._resolveVirtuals(
+          [await this._decryptDocument(res)],
+          this._getFindFields(options),
+        );
+        return doc;
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Return the fields returned by a find method (see hiddenFields and publicFields).
+       */
+      _getFindFields(options: DatabaseFindOptions = {}): string[] | undefined {
+        return options.publishedAction
+          ? this._getPublishedFields(options.publishedAction, options.fields)
+          : options.fields;
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Return true if _findOne can use the cache (see cache option): a `{ _id }` query
+       * read outside of a session with the strict tenant filter.
+       */
+      _isCacheableQuery(
+        query: Filter<TSchema>,
+        options: Omit<DatabaseFindOptions, 'limit' | 'batchSize'> = {},
+      ): boolean {
+        const keys = Object.keys(query);
+        const id: unknown = query._id;
+        return (
+          keys.length === 1 &&
+          keys[0] === '_id' &&
+          id !== undefined &&
+          id !== null &&
+          !(
+            typeof id === 'object' &&
+            Object.keys(id).some(k => k.startsWith('$'))
+          ) &&
+          !options.session &&
+          options.strictTenantFilter !== false
+        );
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * _findOne with the cache: the whole stored document is cached and fields are applied after.
+       */
+      async _findOneCached(
+        cache: DatabaseDocumentCache,
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options: Omit<DatabaseFindOptions, 'limit' | 'batchSize'> = {},
+      ): Promise<WithDbFields<TSchema> | null> {
+        // The whole document is cached
+        const findOptions = {
+          ...options,
+          fields: undefined,
+          publishedAction: undefined,
+        };
+        // Validate the tenant filter even when the document is cached
+        this._getQueryFilter(
+          query,
+          params,
+          findOptions.scope,
+          findOptions.strictTenantFilter,
+        );
+        const id = getDatabaseCacheId(query._id);
+        const variant = getDatabaseCacheVariant(
+          this._getDatabaseTenant(params, options.ctx),
+          findOptions.scope || 'no-deleted',
+        );
+
+        let res = await cache.get<WithDbFields<TSchema>>(id, variant);
+        if (!res) {
+          const cursor = this._createFindCursor(query, params, {
+            ...findOptions,
+            limit: -1,
+            batchSize: 1,
+          });
+          res = await cursor.next();
+          await cursor.close();
+          if (!res) {
+            return null;
+          }
+          await cache.set(id, variant, res);
+        }
+
+        const fields = this._getFindFields(options);
+        const [doc] = await this._resolveVirtuals(
+          [
+            await this._decryptDocument(
+              projectDocument(res, this._getVirtualsReadFields(fields)),
+            ),
+          ],
+          fields,
+        );
+        return doc;
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Evict written documents from the cache (see cache option).
+       * With the memory store, the eviction is broadcast to the other nodes.
+       * In a transaction, documents are evicted again after the commit as concurrent reads
+       * can cache the committed versions until then.
+       */
+      async _evictCachedDocuments(
+        ids: unknown[],
+        ctx?: Context,
+      ): Promise<void> {
+        const cache = this.databaseCache as DatabaseDocumentCache | undefined;
+        if (!cache) {
+          return;
+        }
+        const cacheIds = ids
+          .filter(id => id !== undefined && id !== null)
+          .map(getDatabaseCacheId);
+        if (!cacheIds.length) {
+          return;
+        }
+        getDatabaseTransaction(ctx, this._getDatabaseMixinClient())?.onCommit(
+          () => this._evictCachedDocuments(ids),
+        );
+        await cache.evict(cacheIds);
+        if (!cache.isShared) {
+          await this.broker.broadcast(DATABASE_CACHE_EVICT_EVENT, {
+            service: this.fullName,
+            ids: cacheIds,
+          } satisfies DatabaseCacheEvictPayload);
+        }
+      },
+
+      async _find(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options?: DatabaseFindOptions,
+      ): Promise<WithDbFields<TSchema>[]> {
+        const docs = await this._createFindCursor(
+          query,
+          params,
+          options,
+        ).toArray();
+        return this._resolveVirtuals(
+          opts.encryptedFields?.length
+            ? await Promise.all(docs.map(doc => this._decryptDocument(doc)))
+            : docs,
+          this._getFindFields(options),
+        );
+      },
+
+      _findStream(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options?: DatabaseFindOptions,
+      ): Readable {
+        const cursor = this._createFindCursor(query, params, options);
+        if (!opts.encryptedFields?.length && !opts.actions?.virtuals) {
+          return cursor.stream();
+        }
+        const decrypt = (doc: WithDbFields<TSchema>) =>
+          this._decryptDocument(doc);
+        const fields = this._getFindFields(options);
+        const resolve = (docs: WithDbFields<TSchema>[]) =>
+          this._resolveVirtuals(docs, fields);
+        return Readable.from(
+          (async function* decryptCursor() {
+            // Virtuals are resolved by batch
+            let batch: WithDbFields<TSchema>[] = [];
+            for await (const doc of cursor) {
+              batch.push(await decrypt(doc));
+              if (batch.length >= VIRTUALS_STREAM_BATCH_SIZE) {
+                yield* await resolve(batch);
+                batch = [];
+              }
+            }
+            yield* await resolve(batch);
+          })(),
+        );
+      },
+
+      _countDocuments(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options: DatabaseCountOptions = {},
+      ): Promise<number> {
+        const {
+          scope,
+          strictTenantFilter = true,
+          ctx,
+          ...driverOptions
+        } = options;
+        const filter = this._getQueryFilter(
+          query,
+          params,
+          scope,
+          strictTenantFilter,
+        );
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        this._sampleQuery('count', filter, undefined, databaseTenant);
+
+        return this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant,
+        ).countDocuments(filter, driverOptions);
+      },
+
+      /**
+       * Full-text search (see search option) with tenant and soft delete filters applied.
+       * Rows are sorted by relevance, facets must be allowed in the search option.
+       */
+      async _search(
+        query: string,
+        params: TenantParams<TSchema, TenantField>,
+        options: DatabaseSearchOptions = {},
+      ): Promise<DatabaseSearchResult<WithDbFields<TSchema>>> {
+        if (!opts.search) {
+          throw new Error('Search requires the search option');
+        }
+        const {
+          facets,
+          highlight,
+          limit,
+          skip,
+          fields: requestedFields,
+          scope,
+          strictTenantFilter = true,
+          publishedAction,
+          ctx,
+          ...driverOptions
+        } = options;
+        const fields = publishedAction
+          ? this._getPublishedFields(publishedAction, requestedFields)
+          : requestedFields;
+        const unknownFacet = facets?.find(
+          f => !opts.search?.facets?.includes(f),
+        );
+        if (unknownFacet) {
+          throw new Error(`Unknown search facet "${unknownFacet}"`);
+        }
+
+        const pipeline = createSearchPipeline({
+          mode: opts.search.mode || (isOnAtlas() ? 'atlas' : 'text'),
+          index: opts.search.index || 'default',
+          paths: opts.search.paths,
+          query,
+          filter: this._getQueryFilter({}, params, scope, strictTenantFilter),
+          facets,
+          highlight,
+          skip,
+          limit,
+        });
+        const [raw] = await this._getDatabaseMixinCollection(
+          undefined,
+          this._getDatabaseTenant(params, ctx),
+        )
+          .aggregate(pipeline, driverOptions)
+          .toArray();
+
+        const res = parseSearchResult<WithDbFields<TSchema>>(raw, facets);
+        const docs = await this._resolveVirtuals(
+          await Promise.all(
+            res.rows.map(row => this._decryptDocument(row.document)),
+          ),
+          fields,
+        );
+        res.rows.forEach((row, i) => {
+          row.document = projectDocument(docs[i], fields);
+          if (row.highlights) {
+            // Highlights contain the values of their field
+            row.highlights = row.highlights.filter(h =>
+              isPathProjected(h.path, fields),
+            );
+          }
+        });
+        return res;
+      },
+
+      /**
+       * Explain a sample of the queries in the background (see queryAdvisor option).
+       */
+      _sampleQuery(
+        operation: QueryShape['operation'],
+        filter: Filter<TSchema>,
+        sort?: Record<string, 1 | -1>,
+        databaseTenant?: string,
+      ): void {
+        if (
+          !opts.queryAdvisor ||
+          Math.random() >= (opts.queryAdvisor.sampleRate ?? 0.01)
+        ) {
+          return;
+        }
+        this._adviseQuery(operation, filter, sort, databaseTenant).catch(
+          (err: unknown) => {
+            this.logger.debug('Unable to explain sampled query', { err });
+          },
+        );
+      },
+
+      async _adviseQuery(
+        operation: QueryShape['operation'],
+        filter: Filter<TSchema>,
+        sort?: Record<string, 1 | -1>,
+        databaseTenant?: string,
+      ): Promise<void> {
+        const advisor = this.queryAdvisor as DatabaseQueryAdvisor | undefined;
+        if (!advisor) {
+          return;
+        }
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant,
+        );
+        // Count uses the same plan than a find with the same filter
+        const explain = await collection
+          .find(filter, { sort })
+          .explain('queryPlanner');
+
+        const advice = advisor.record(
+          getQueryShape(operation, filter, sort),
+          getQueryPlanIssues(explain),
+        );
+        if (!advice || !hasQueryIssues(advice)) {
+          return;
+        }
+        // Only warn the first time the shape is sampled
+        if (advice.count === 1) {
+          this.logger.warn(
+            `Query on ${collection.collectionName} has no efficient index`,
+            { advice },
+          );
+        }
+
+        if (this.broker.isMetricsEnabled()) {
+          const issues = [
+            advice.collectionScan && 'collectionScan',
+            advice.inMemorySort && 'inMemorySort',
+            !advice.declaredIndex && 'noDeclaredIndex',
+          ].filter(Boolean);
+          for (const issue of issues) {
+            this.broker.metrics.increment(DATABASE_QUERY_ADVISOR_METRIC, {
+              service: this.fullName,
+              collection: collection.collectionName,
+              issue,
+            });
+          }
+        }
+      },
+
+      /**
+       * Return the advices of the sampled queries (see queryAdvisor option).
+       */
+      _getQueryAdvisorReport(): QueryAdvice[] {
+        const advisor = this.queryAdvisor as DatabaseQueryAdvisor | undefined;
+        return advisor?.getReport() || [];
+      },
+
+      /**
+       * Load the given relations (see relations option) of the documents, with one call per relation,
+       * and set them on the documents (mutated).
+       * The tenant value of params is sent to the find actions of the related services.
+       * With published, related documents are returned as the get actions of the related services do
+       * (see hiddenFields and publicFields), as published actions must.
+       */
+      async _populate<T extends Document>(
+        ctx: Context,
+        docs: T[],
+        populate: string[] | undefined,
+        params: TenantParams<TSchema, TenantField>,
+        published = false,
+      ): Promise<T[]> {
+        if (!populate?.length || !docs.length) {
+          return docs;
+        }
+
+        await Promise.all(
+          populate.map(async name => {
+            const relation = opts.relations?.[name];
+            if (!relation) {
+              throw new Error(`Unknown relation "${name}"`);
+            }
+            const ids = collectRelationIds(docs, relation);
+            if (!ids.length) {
+              assignRelation(docs, name, relation, []);
+              return;
+            }
+
+            const callParams: Record<string, unknown> = {
+              query: { [relation.foreignField || '_id']: { $in: ids } },
+              fields: relation.fields,
+              ...(published && { published }),
+            };
+            const tenantField = relation.tenantField ?? opts.tenantField;
+            if (opts.tenantField && tenantField) {
+              // @ts-expect-error tenantField is not always here for TS
+              callParams[tenantField] = params?.[opts.tenantField];
+            }
+            const related = await ctx.call<Document[], typeof callParams>(
+              relation.action,
+              callParams,
+            );
+            assignRelation(docs, name, relation, related);
+          }),
+        );
+        return docs;
+      },
+
+      /**
+       * Create an aggregation cursor with the tenant and soft delete filters applied:
+       * - A $match stage is added at the start of the pipeline.
+       * - $lookup, $unionWith and $graphLookup stages (nested ones included) on collections of other
+       *   database mixins (on this process) are filtered with their own tenant field
+       *   (using the tenant value of params) and soft delete.
+       *
+       * Note that encrypted fields are returned encrypted.
+       */
+      _createAggregationCursor<T extends Document = WithDbFields<TSchema>>(
+        pipeline: Document[],
+        params: TenantParams<TSchema, TenantField>,
+        options: DatabaseAggregateOptions = {},
+      ): AggregationCursor<T> {
+        const {
+          scope,
+          strictTenantFilter = true,
+          ctx,
+          ...driverOptions
+        } = options;
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          this._getDatabaseTenant(params, ctx),
+        );
+
+        const guardedPipeline = guardLookupStages(
+          prependMatchStage(
+            pipeline,
+            this._getQueryFilter({}, params, scope, strictTenantFilter),
+          ),
+          // Collections are registered with the default database name
+          this._getDatabaseMixinCollection().dbName,
+          // @ts-expect-error tenantField is not always here for TS
+          opts.tenantField ? params?.[opts.tenantField] : undefined,
+          strictTenantFilter,
+        );
+        return collection.aggregate<T>(guardedPipeline, driverOptions);
+      },
+
+      async _aggregate<T extends Document = WithDbFields<TSchema>>(
+        pipeline: Document[],
+        params: TenantParams<TSchema, TenantField>,
+        options?: DatabaseAggregateOptions,
+      ): Promise<T[]> {
+        return this._createAggregationCursor<T>(
+          pipeline,
+          params,
+          options,
+        ).toArray();
+      },
+
+      _aggregateStream(
+        pipeline: Document[],
+        params: TenantParams<TSchema, TenantField>,
+        options?: DatabaseAggregateOptions,
+      ): Readable {
+        return this._createAggregationCursor(
+          pipeline,
+          params,
+          options,
+        ).stream();
+      },
+
+      /**
+       * Insert one document and return it.
+       *
+       * It differs from the driver's insertOne as it returns the inserted document and
+       * send an event with the new document.
+       */
+      async _insertOne(
+        ctx: Context,
+        doc: OptionalId<TSchema>,
+        options: DatabaseInsertOneOptions = {},
+      ): Promise<WithDbFields<TSchema>> {
+        const { fields, skipCreateEvent, ...driverOptions } = options;
+
+        if (opts.idGenerator && !doc._id) {
+          doc._id = opts.idGenerator(doc);
+        }
+
+        const res = await this._findOneAndUpdate(
+          ctx,
+          { _id: { $exists: false } },
+          this._prepareUpdateFilter(
+            {
+              $setOnInsert: (await this._encryptDocument(
+                doc,
+              )) as Partial<TSchema>,
+            },
+            'create',
+          ),
+          'insert',
+          {
+            ...driverOptions,
+            upsert: true,
+            returnDocument: 'after',
+            fields,
+            databaseTenant: this._getDatabaseTenant(doc, ctx),
+          },
+        );
+        if (!res) {
+          throw new Error("Insert one didn't upsert any document");
+        }
+
+        if (!skipCreateEvent) {
+          this._emitDatabaseEvent<DatabaseEventInsert<TSchema>>(
+            ctx,
+            'created',
+            { type: 'insert', document: res },
+          );
+        }
+
+        return this._decryptDocument(res);
+      },
+
+      /**
+       * Insert many documents and return the list of inserted ids in the same order.
+       */
+      async _insertMany(
+        ctx: Context,
+        docs: OptionalId<TSchema>[],
+        options: DatabaseInsertManyOptions = {},
+      ): Promise<TSchema['_id'][]> {
+        const { skipCreateEvent, ...driverOptions } = options;
+        for (const doc of docs) {
+          if (opts.idGenerator && !doc._id) {
+            doc._id = opts.idGenerator(doc);
+          }
+        }
+        const storedDocs: OptionalId<TSchema>[] = await Promise.all(
+          docs.map(doc => this._encryptDocument(doc)),
+        );
+
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          this._getDocumentsTenant(docs, ctx),
+        );
+        const writeOptions = {
+          ...this._getTransactionOptions(ctx),
+          ...driverOptions,
+        };
+        const res = await collection.bulkWrite(
+          storedDocs.map(doc => ({
+            updateOne: {
+              upsert: true,
+              filter: { _id: { $exists: false } },
+              update: this._prepareUpdateFilter(
+                { $setOnInsert: doc as Partial<TSchema> },
+                'create',
+              ),
+            },
+          })),
+          writeOptions,
+        );
+
+        if (opts.history) {
+          const inserted = await collection
+            .find(
+              {
+                _id: { $in: Object.values(res.upsertedIds) },
+              } as Filter<TSchema>,
+              { session: writeOptions.session },
+            )
+            .toArray();
+          for (const doc of inserted) {
+            await this._addHistoryRecord(
+              ctx,
+              'insert',
+              null,
+              doc as WithDbFields<TSchema>,
+              { session: writeOptions.session },
+            );
+          }
+        }
+
+        if (!skipCreateEvent) {
+          storedDocs.forEach((doc, i) =>
+            this._emitDatabaseEvent<DatabaseEventInsert<TSchema>>(
+              ctx,
+              'created',
+              {
+                type: 'insert',
+                document: {
+                  _id: doc._id || res.upsertedIds[i],
+                  ...doc,
+                } as WithDbFields<TSchema>,
+              },
+            ),
+          );
+        }
+        return docs.map((doc, i) => res.upsertedIds[i]);
+      },
+
+      /**
+       * Update one document and return the after version by default.
+       * To have the before version, use the `returnDocument` option.
+       *
+       * WARNING: Only send an event if returnDocument is 'after'.If returnDocument is 'before',
+       * you MUST pass skipUpdateEvent: true and optionally send the event yourself.
+       */
+      async _updateOne(
+        ctx: Context,
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        changes: UpdateFilter<TSchema>,
+        options: DatabaseUpdateOneOptions = {},
+      ): Promise<WithDbFields<TSchema> | null> {
+        const {
+          fields,
+          sort,
+          strictTenantFilter = true,
+          returnDocument = 'after',
+          skipUpdateEvent,
+          expectedVersion,
+          ...driverOptions
+        } = options;
+
+        if (
+          returnDocument === 'before' &&
+          opts.eventPrefix &&
+          !skipUpdateEvent
+        ) {
+          throw new Error(
+            'Cannot send update event with returnDocument: before option',
+          );
+        }
+
+        const filter = this._getQueryFilter(
+          query,
+          params,
+          'no-deleted',
+          strictTenantFilter,
+        );
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        const res = await this._findOneAndUpdate(
+          ctx,
+          this._getVersionFilter(filter, expectedVersion, driverOptions.upsert),
+          this._prepareUpdateFilter(
+            await this._encryptUpdate(changes),
+            'update',
+          ),
+          'update',
+          { ...driverOptions, returnDocument, sort, fields, databaseTenant },
+        );
+        if (!res && expectedVersion !== undefined) {
+          await this._assertNoVersionConflict(ctx, filter, expectedVersion, {
+            session: driverOptions.session,
+            sort,
+            databaseTenant,
+          });
+        }
+
+        if (res && !skipUpdateEvent) {
+          this._emitDatabaseEvent<DatabaseEventUpdate<TSchema>>(
+            ctx,
+            'updated',
+            { type: 'update', document: res },
+          );
+        }
+        return res && this._decryptDocument(res);
+      },
+
+      /**
+       * Update many documents and return the number of updated documents.
+       *
+       * WARNING: Do not send any events. You'll have to send an event yourself.
+       */
+      async _updateMany(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        changes: UpdateFilter<TSchema>,
+        options: DatabaseUpdateManyOptions = {},
+      ): Promise<UpdateResult<TSchema>> {
+        const { strictTenantFilter = true, ctx, ...driverOptions } = options;
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant,
+        );
+        let filter = this._getQueryFilter(
+          query,
+          params,
+          'no-deleted',
+          strictTenantFilter,
+        );
+
+        let before: WithDbFields<TSchema>[] = [];
+        if (opts.history) {
+          // Read matched documents first and only update them to know their before versions
+          before = (await collection
+            .find(filter, { session: driverOptions.session })
+            .toArray()) as WithDbFields<TSchema>[];
+          filter = { ...filter, _id: { $in: before.map(doc => doc._id) } };
+        } else if (opts.cache) {
+          // Only the _id of the matched documents are needed to evict them from the cache
+          before = (await collection
+            .find(filter, {
+              session: driverOptions.session,
+              projection: { _id: 1 },
+            })
+            .toArray()) as WithDbFields<TSchema>[];
+        }
+
+        const res = await collection.updateMany(
+          filter,
+          this._prepareUpdateFilter(
+            await this._encryptUpdate(changes),
+            'update',
+          ),
+          driverOptions,
+        );
+        await this._evictCachedDocuments(
+          before.map(doc => doc._id),
+          ctx,
+        );
+
+        if (opts.history) {
+          const historyOptions = {
+            session: driverOptions.session,
+            databaseTenant,
+          };
+          await this._addManyHistoryRecords('update', before, historyOptions);
+          if (res.upsertedId) {
+            const upserted = await collection.findOne(
+              { _id: res.upsertedId } as Filter<TSchema>,
+              historyOptions,
+            );
+            await this._addHistoryRecord(
+              undefined,
+              'insert',
+              null,
+              upserted as WithDbFields<TSchema> | null,
+              historyOptions,
+            );
+          }
+        }
+        return res;
+      },
+
+      /**
+       * Replace one document and return the after version by default.
+       * To have the before version, use the `returnDocument` option.
+       *
+       * WARNING: Only send an event if returnDocument is 'after'.If returnDocument is 'before',
+       * you MUST pass skipUpdateEvent: true and optionally send the event yourself.
+       */
+      async _replaceOne(
+        ctx: Context,
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        doc: TSchema,
+        options: DatabaseReplaceOneOptions = {},
+      ): Promise<WithDbFields<TSchema> | null> {
+        const {
+          fields,
+          sort,
+          strictTenantFilter = true,
+          returnDocument = 'after',
+          skipUpdateEvent,
+          expectedVersion,
+          ...driverOptions
+        } = options;
+
+        if (
+          returnDocument === 'before' &&
+          opts.eventPrefix &&
+          !skipUpdateEvent
+        ) {
+          throw new Error(
+            'Cannot send update event with returnDocument: before option',
+          );
+        }
+
+        const filter = this._getQueryFilter(
+          query,
+          params,
+          'no-deleted',
+          strictTenantFilter,
+        );
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        const res = await this._findOneAndUpdate(
+          ctx,
+          this._getVersionFilter(filter, expectedVersion, driverOptions.upsert),
+          this._prepareUpdateFilter(
+            [{ $replaceWith: { $literal: await this._encryptDocument(doc) } }],
+            'replace',
+          ),
+          'replace',
+          { ...driverOptions, returnDocument, sort, fields, databaseTenant },
+        );
+        if (!res && expectedVersion !== undefined) {
+          await this._assertNoVersionConflict(ctx, filter, expectedVersion, {
+            session: driverOptions.session,
+            sort,
+            databaseTenant,
+          });
+        }
+
+        if (res && !skipUpdateEvent) {
+          this._emitDatabaseEvent<DatabaseEventUpdate<TSchema>>(
+            ctx,
+            'updated',
+            { type: 'replace', document: res },
+          );
+        }
+        return res && this._decryptDocument(res);
+      },
+
+      /**
+       * Return the filter and the update of the upsert of a document by the given keys (see _upsertOne).
+       * Throw a MissingUpsertKeyError if a key is missing.
+       */
+      async _prepareUpsert(
+        doc: OptionalId<TSchema>,
+        keys: string[],
+      ): Promise<{ filter: Filter<TSchema>; update: UpdateFilter<TSchema> }> {
+        const query: Document = {};
+        for (const key of keys) {
+          const value: unknown = get(doc, key);
+          if (value === undefined || value === null) {
+            throw new MissingUpsertKeyError(key);
+          }
+          query[key] = value;
+        }
+        let params: TenantParams<TSchema, TenantField> = null;
+        if (opts.tenantField) {
+          // @ts-expect-error tenantField is not always here for TS
+          params = { [opts.tenantField]: doc[opts.tenantField] };
+        }
+
+        // _id can't be changed on updates
+        const { _id, ...changes } = doc as Document;
+        const insertedId =
+          _id ?? opts.idGenerator?.(changes as WithoutId<TSchema>);
+        const update = await this._encryptUpdate({
+          $set: changes as Partial<TSchema>,
+        });
+        if (insertedId) {
+          update.$setOnInsert = { _id: insertedId } as Partial<TSchema>;
+        }
+
+        return {
+          filter: this._getQueryFilter(
+            query as Filter<TSchema>,
+            params,
+            'no-deleted',
+          ),
+          update: this._prepareUpdateFilter(update, 'update'),
+        };
+      },
+
+      /**
+       * Insert a document or update the one with the same keys (see upsertKeys option) and return it,
+       * with `created` telling which one happened. The matching event (created or updated) is sent.
+       *
+       * Keys and the tenant field are matched in the filter (and set on insert), other fields are set.
+       * _id is only set on insert (or generated with idGenerator), timestamps and version are handled
+       * like other writes. Deleted documents (soft delete) are not matched, so an upsert on a deleted
+       * document inserts a new one.
+       */
+      async _upsertOne(
+        ctx: Context,
+        doc: OptionalId<TSchema>,
+        options: DatabaseUpsertOneOptions = {},
+      ): Promise<DatabaseUpsertResult<TSchema>> {
+        const {
+          fields,
+          keys = opts.upsertKeys,
+          skipCreateEvent,
+          skipUpdateEvent,
+          ...driverOptions
+        } = options;
+        if (!keys?.length) {
+          throw new Error('Missing upsert keys (see upsertKeys option)');
+        }
+
+        const { filter, update } = await this._prepareUpsert(doc, keys);
+        const { document, upserted } = await this._findOneAndUpdateWithResult(
+          ctx,
+          filter,
+          update,
+          'update',
+          {
+            ...driverOptions,
+            upsert: true,
+            returnDocument: 'after',
+            fields,
+            databaseTenant: this._getDatabaseTenant(doc, ctx),
+          },
+        );
+        if (!document) {
+          throw new Error("Upsert one didn't return any document");
+        }
+
+        if (upserted && !skipCreateEvent) {
+          this._emitDatabaseEvent<DatabaseEventInsert<TSchema>>(
+            ctx,
+            'created',
+            { type: 'insert', document },
+          );
+        } else if (!upserted && !skipUpdateEvent) {
+          this._emitDatabaseEvent<DatabaseEventUpdate<TSchema>>(
+            ctx,
+            'updated',
+            { type: 'update', document },
+          );
+        }
+
+        return {
+          document: await this._decryptDocument(document),
+          created: upserted,
+        };
+      },
+
+      /**
+       * Delete one document and return it.
+       * If soft delete is enabled, it will only set the deleted field to true (hiding it from future requests).
+       */
+      async _deleteOne(
+        ctx: Context,
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options?: DatabaseDeleteOneOptions,
+      ): Promise<WithDbFields<TSchema> | null> {
+        const {
+          sort,
+          fields,
+          strictTenantFilter = true,
+          skipDeleteEvent,
+          ...driverOptions
+        } = options || {};
+
+        const res = await this._findOneAndDelete(
+          ctx,
+          this._getQueryFilter(query, params, 'no-deleted', strictTenantFilter),
+          {
+            ...driverOptions,
+            sort,
+            fields,
+            databaseTenant: this._getDatabaseTenant(params, ctx),
+          },
+        );
+
+        if (res && !skipDeleteEvent) {
+          this._emitDatabaseEvent<DatabaseEventDelete<TSchema>>(
+            ctx,
+            'deleted',
+            { type: 'delete', document: res },
+          );
+        }
+        return res && this._decryptDocument(res);
+      },
+
+      /**
+       * Delete many documents and return the number of deleted documents.
+       * If soft delete is enabled, it will only set the deleted field to true (hiding it from future requests).
+       *
+       * WARNING: Do not send any events. You'll have to send an event yourself.
+       */
+      async _deleteMany(
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options?: DatabaseDeleteManyOptions,
+      ): Promise<number> {
+        const {
+          strictTenantFilter = true,
+          ctx,
+          ...driverOptions
+        } = options || {};
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant,
+        );
+        let filter = this._getQueryFilter(
+          query,
+          params,
+          'no-deleted',
+          strictTenantFilter,
+        );
+
+        let before: WithDbFields<TSchema>[] = [];
+        if (opts.history) {
+          // Read matched documents first and only delete them to know their before versions
+          before = (await collection
+            .find(filter, { session: driverOptions.session })
+            .toArray()) as WithDbFields<TSchema>[];
+          filter = { ...filter, _id: { $in: before.map(doc => doc._id) } };
+        } else if (opts.cache) {
+          // Only the _id of the matched documents are needed to evict them from the cache
+          before = (await collection
+            .find(filter, {
+              session: driverOptions.session,
+              projection: { _id: 1 },
+            })
+            .toArray()) as WithDbFields<TSchema>[];
+        }
+
+        let count: number;
+        if (opts.softDelete) {
+          const res = await collection.updateMany(
+            filter,
+            this._prepareUpdateFilter(
+              // @ts-expect-error deletedAt is not always here for TS
+              { $currentDate: { deletedAt: true } },
+              'update',
+            ),
+            driverOptions,
+          );
+          count = res.modifiedCount;
+        } else {
+          const res = await collection.deleteMany(filter, driverOptions);
+          count = res.deletedCount;
+        }
+        await this._evictCachedDocuments(
+          before.map(doc => doc._id),
+          ctx,
+        );
+
+        if (opts.history) {
+          await this._addManyHistoryRecords('delete', before, {
+            session: driverOptions.session,
+            databaseTenant,
+          });
+        }
+        return count;
+      },
+
+      /**
+       * INTERNAL, DO NOT USE.
+       * Query filter of restore operations, matching soft-deleted documents only.
+       */
+      _getRestoreFilter(
         query: Filter<TSchema>,
         params: TenantParams<TSchema, TenantField>,
-        doc: TSchema,
-        options: DatabaseReplaceOneOptions = {},
+        strictTenantFilter: boolean,
+      ): Filter<TSchema> {
+        return {
+          ...this._getQueryFilter(
+            query,
+            params,
+            'include-deleted',
+            strictTenantFilter,
+          ),
+          // The only-deleted scope compares with a number, which never matches the deletedAt dates.
+          deletedAt: { $type: 'date' },
+        };
+      },
+
+      /**
+       * Restore one soft-deleted document and return it.
+       */
+      async _restoreOne(
+        ctx: Context,
+        query: Filter<TSchema>,
+        params: TenantParams<TSchema, TenantField>,
+        options: DatabaseRestoreOneOptions = {},
       ): Promise<WithDbFields<TSchema> | null> {
+        if (!opts.softDelete) {
+          throw new Error('Restore requires the softDelete option');
+        }
         const {
           fields,
           sort,
           strictTenantFilter = true,
-          returnDocument = 'after',
-          skipUpdateEvent,
+          skipRestoreEvent,
           ...driverOptions
         } = options;
 
-        if (
-          returnDocument === 'before' &&
-          opts.eventPrefix &&
-          !skipUpdateEvent
-        ) {
-          throw new Error(
-            'Cannot send update event with returnDocument: before option',
-          );
-        }
-
-        const res = await this._getDatabaseMixinCollection().findOneAndUpdate(
-          this._getQueryFilter(query, params, 'no-deleted', strictTenantFilter),
+        const res = await this._findOneAndUpdate(
+          ctx,
+          this._getRestoreFilter(query, params, strictTenantFilter),
           this._prepareUpdateFilter(
-            [{ $replaceWith: { $literal: doc } }],
-            'replace',
+            // @ts-expect-error deletedAt is not always here for TS
+            { $unset: { deletedAt: '' } },
+            'update',
           ),
+          'restore',
           {
             ...driverOptions,
-            returnDocument,
-            includeResultMetadata: false, // Document says it's true by default and will be false in a next major
-            sort: getQueryFromList('sort', sort),
-            projection: getQueryFromList('projection', fields),
+            returnDocument: 'after',
+            sort,
+            fields,
+            databaseTenant: this._getDatabaseTenant(params, ctx),
           },
         );
 
-        if (res && opts.eventPrefix && !skipUpdateEvent) {
-          ctx.emit<DatabaseEventUpdate<TSchema>>(
-            `${opts.eventPrefix}.updated`,
-            { type: 'replace', document: res as WithDbFields<TSchema> },
+        if (res && !skipRestoreEvent) {
+          this._emitDatabaseEvent<DatabaseEventRestore<TSchema>>(
+            ctx,
+            'restored',
+            { type: 'restore', document: res },
           );
         }
-        return res as WithDbFields<TSchema> | null;
+        return res && this._decryptDocument(res);
       },
 
       /**
-       * Delete one document and return it.
-       * If soft delete is enabled, it will only set the deleted field to true (hiding it from future requests).
+       * Restore many soft-deleted documents and return the number of restored documents.
+       *
+       * WARNING: Do not send any events. You'll have to send an event yourself.
        */
-      async _deleteOne(
-        ctx: Context,
+      async _restoreMany(
         query: Filter<TSchema>,
         params: TenantParams<TSchema, TenantField>,
-        options?: DatabaseDeleteOneOptions,
-      ): Promise<WithDbFields<TSchema> | null> {
+        options: DatabaseRestoreManyOptions = {},
+      ): Promise<number> {
+        if (!opts.softDelete) {
+          throw new Error('Restore requires the softDelete option');
+        }
+        const { strictTenantFilter = true, ctx, ...driverOptions } = options;
+        const databaseTenant = this._getDatabaseTenant(params, ctx);
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          databaseTenant,
+        );
+        let filter = this._getRestoreFilter(query, params, strictTenantFilter);
+
+        let before: WithDbFields<TSchema>[] = [];
+        if (opts.history) {
+          // Read matched documents first and only restore them to know their before versions
+          before = (await collection
+            .find(filter, { session: driverOptions.session })
+            .toArray()) as WithDbFields<TSchema>[];
+          filter = { ...filter, _id: { $in: before.map(doc => doc._id) } };
+        } else if (opts.cache) {
+          // Only the _id of the matched documents are needed to evict them from the cache
+          before = (await collection
+            .find(filter, {
+              session: driverOptions.session,
+              projection: { _id: 1 },
+            })
+            .toArray()) as WithDbFields<TSchema>[];
+        }
+
+        const res = await collection.updateMany(
+          filter,
+          this._prepareUpdateFilter(
+            // @ts-expect-error deletedAt is not always here for TS
+            { $unset: { deletedAt: '' } },
+            'update',
+          ),
+          driverOptions,
+        );
+        await this._evictCachedDocuments(
+          before.map(doc => doc._id),
+          ctx,
+        );
+
+        if (opts.history) {
+          await this._addManyHistoryRecords('restore', before, {
+            session: driverOptions.session,
+            databaseTenant,
+          });
+        }
+        return res.modifiedCount;
+      },
+
+      /**
+       * Hard delete the soft-deleted documents older than the retention period
+       * and return the number of purged documents.
+       * It is not restricted to a tenant and is meant to be run periodically (with QueueStaticRepeatableJobs for example).
+       *
+       * WARNING: Do not send any events nor record the purge in the history (the delete already is).
+       */
+      async _purgeDeleted(
+        options: DatabasePurgeDeletedOptions,
+      ): Promise<number> {
+        if (!opts.softDelete) {
+          throw new Error('Purge requires the softDelete option');
+        }
+        const { olderThan, ...driverOptions } = options;
+        const deletedBefore =
+          olderThan instanceof Date
+            ? olderThan
+            : new Date(Date.now() - olderThan);
+
+        // Purge every tenant database (see DatabaseConnectionMixin tenancy option)
+        const collections = await this._getDatabaseMixinTenantsCollections();
+        let deletedCount = 0;
+        for (const collection of collections) {
+          // @ts-expect-error deletedAt is not always here for TS
+          let filter: Filter<TSchema> = { deletedAt: { $lt: deletedBefore } };
+          let ids: unknown[] = [];
+          if (opts.cache) {
+            // Read purged documents first to evict them from the cache
+            ids = await collection.distinct('_id', filter, {
+              session: driverOptions.session,
+            });
+            filter = { ...filter, _id: { $in: ids } };
+          }
+          const res = await collection.deleteMany(filter, driverOptions);
+          await this._evictCachedDocuments(ids);
+          deletedCount += res.deletedCount;
+        }
+        return deletedCount;
+      },
+
+      /**
+       * Insert many documents and return one result per document (in the same order).
+       * Unlike insertMany, a failing document (duplicate _id for example) doesn't stop the others.
+       *
+       * Created events are sent once all documents are written.
+       */
+      async _bulkInsert(
+        ctx: Context,
+        docs: OptionalId<TSchema>[],
+        options: DatabaseInsertManyOptions = {},
+      ): Promise<DatabaseBulkItemResult<WithDbFields<TSchema>>[]> {
+        const { skipCreateEvent, ...driverOptions } = options;
+        if (!docs.length) {
+          return [];
+        }
+        for (const doc of docs) {
+          if (opts.idGenerator && !doc._id) {
+            doc._id = opts.idGenerator(doc);
+          }
+        }
+        const storedDocs: OptionalId<TSchema>[] = await Promise.all(
+          docs.map(doc => this._encryptDocument(doc)),
+        );
+
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          this._getDocumentsTenant(docs, ctx),
+        );
+        const writeOptions = {
+          ...this._getTransactionOptions(ctx),
+          ...driverOptions,
+          ordered: false,
+        };
+
+        let upsertedIds: Record<number, TSchema['_id']>;
+        const errors = new Map<number, DatabaseBulkItemError>();
+        try {
+          const res = await collection.bulkWrite(
+            storedDocs.map(doc => ({
+              updateOne: {
+                upsert: true,
+                filter: { _id: { $exists: false } },
+                update: this._prepareUpdateFilter(
+                  { $setOnInsert: doc as Partial<TSchema> },
+                  'create',
+                ),
+              },
+            })),
+            writeOptions,
+          );
+          upsertedIds = res.upsertedIds;
+        } catch (err) {
+          if (!(err instanceof MongoBulkWriteError)) {
+            throw err;
+          }
+          upsertedIds = err.result.upsertedIds;
+          const writeErrors = Array.isArray(err.writeErrors)
+            ? err.writeErrors
+            : [err.writeErrors];
+          for (const writeError of writeErrors) {
+            errors.set(writeError.index, {
+              name: 'MongoBulkWriteError',
+              message: writeError.errmsg || 'Write error',
+              code: writeError.code,
+            });
+          }
+        }
+
+        // Read documents back to have the generated fields (timestamps, version)
+        const inserted = await collection
+          .find(
+            { _id: { $in: Object.values(upsertedIds) } } as Filter<TSchema>,
+            { session: writeOptions.session },
+          )
+          .toArray();
+        const insertedById = new Map(
+          inserted.map(doc => [String(doc._id), doc as WithDbFields<TSchema>]),
+        );
+
+        const results: DatabaseBulkItemResult<WithDbFields<TSchema>>[] = [];
+        const created: WithDbFields<TSchema>[] = [];
+        for (let i = 0; i < docs.length; i += 1) {
+          const doc = insertedById.get(String(upsertedIds[i]));
+          if (!doc) {
+            results.push({
+              success: false,
+              error: errors.get(i) || {
+                name: 'Error',
+                message: "Document wasn't inserted",
+              },
+            });
+            continue;
+          }
+          await this._addHistoryRecord(ctx, 'insert', null, doc, {
+            session: writeOptions.session,
+          });
+          created.push(doc);
+          results.push({
+            success: true,
+            document: await this._decryptDocument(doc),
+          });
+        }
+
+        if (!skipCreateEvent) {
+          for (const doc of created) {
+            this._emitDatabaseEvent<DatabaseEventInsert<TSchema>>(
+              ctx,
+              'created',
+              { type: 'insert', document: doc },
+            );
+          }
+        }
+        return results;
+      },
+
+      /**
+       * Upsert many documents by their keys (see _upsertOne) with one bulk write,
+       * and return one result per document (in the same order).
+       * A failing document (missing key, duplicate key, etc.) doesn't stop the others.
+       *
+       * Created and updated events are sent once all documents are written.
+       */
+      async _bulkUpsert(
+        ctx: Context,
+        docs: OptionalId<TSchema>[],
+        options: DatabaseBulkUpsertOptions = {},
+      ): Promise<DatabaseBulkUpsertItemResult<TSchema>[]> {
         const {
-          sort,
-          fields,
-          strictTenantFilter = true,
-          skipDeleteEvent,
+          keys = opts.upsertKeys,
+          skipCreateEvent,
+          skipUpdateEvent,
           ...driverOptions
-        } = options || {};
+        } = options;
+        if (!keys?.length) {
+          throw new Error('Missing upsert keys (see upsertKeys option)');
+        }
+        if (!docs.length) {
+          return [];
+        }
 
-        let res;
+        const errors = new Map<number, DatabaseBulkItemError>();
+        const writes: Array<{
+          index: number;
+          filter: Filter<TSchema>;
+          update: UpdateFilter<TSchema>;
+        }> = [];
+        for (const [index, doc] of docs.entries()) {
+          try {
+            writes.push({ index, ...(await this._prepareUpsert(doc, keys)) });
+          } catch (err) {
+            errors.set(index, toBulkItemError(err));
+          }
+        }
 
-        if (opts.softDelete) {
-          res = await this._getDatabaseMixinCollection().findOneAndUpdate(
-            this._getQueryFilter(
-              query,
-              params,
-              'no-deleted',
-              strictTenantFilter,
-            ),
-            this._prepareUpdateFilter(
-              // @ts-expect-error deletedAt is not always here for TS
-              { $currentDate: { deletedAt: true } },
-              'update',
-            ),
-            {
-              ...driverOptions,
-              includeResultMetadata: false, // Document says it's true by default and will be false in a next major
-              sort: getQueryFromList('sort', sort),
-              projection: getQueryFromList('projection', fields),
-              returnDocument: 'before',
-            },
-          );
-        } else {
-          res = await this._getDatabaseMixinCollection().findOneAndDelete(
-            this._getQueryFilter(
-              query,
-              params,
-              'no-deleted',
-              strictTenantFilter,
-            ),
-            {
-              ...driverOptions,
-              sort: getQueryFromList('sort', sort),
-              projection: getQueryFromList('projection', fields),
-            },
-          );
+        const collection = this._getDatabaseMixinCollection(
+          undefined,
+          this._getDocumentsTenant(docs, ctx),
+        );
+        const writeOptions = {
+          ...this._getTransactionOptions(ctx),
+          ...driverOptions,
+          ordered: false,
+        };
+        // Documents are matched by their keys (and tenant) as they have no _id yet
+        const matchedFields: string[] = opts.tenantField
+          ? [...keys, opts.tenantField]
+          : keys;
+        const getMatchKey = (doc: Document) =>
+          JSON.stringify(matchedFields.map(field => String(get(doc, field))));
+
+        // Previous versions of the updated documents, for the history records
+        const beforeByKey = new Map<string, WithDbFields<TSchema>>();
+        if (opts.history && writes.length) {
+          const before = await collection
+            .find(
+              { $or: writes.map(write => write.filter) } as Filter<TSchema>,
+              {
+                session: writeOptions.session,
+              },
+            )
+            .toArray();
+          for (const doc of before) {
+            beforeByKey.set(getMatchKey(doc), doc as WithDbFields<TSchema>);
+          }
+        }
+
+        let upsertedIds: Record<number, unknown> = {};
+        if (writes.length) {
+          try {
+            const res = await collection.bulkWrite(
+              writes.map(({ filter, update }) => ({
+                updateOne: { filter, update, upsert: true },
+              })),
+              writeOptions,
+            );
+            upsertedIds = res.upsertedIds;
+          } catch (err) {
+            if (!(err instanceof MongoBulkWriteError)) {
+              throw err;
+            }
+            upsertedIds = err.result.upsertedIds;
+            const writeErrors = Array.isArray(err.writeErrors)
+              ? err.writeErrors
+              : [err.writeErrors];
+            for (const writeError of writeErrors) {
+              errors.set(writes[writeError.index].index, {
+                name: 'MongoBulkWriteError',
+                message: writeError.errmsg || 'Write error',
+                code: writeError.code,
+              });
+            }
+          }
         }
 
-        if (res && opts.eventPrefix && !skipDeleteEvent) {
-          ctx.emit<DatabaseEventDelete<TSchema>>(
-            `${opts.eventPrefix}.deleted`,
-            { type: 'delete', document: res as WithDbFields<TSchema> },
+        const written = writes.filter(({ index }) => !errors.has(index));
+        // Read documents back to have the written fields (_id, timestamps, version)
+        const after = written.length
+          ? await collection
+              .find(
+                { $or: written.map(write => write.filter) } as Filter<TSchema>,
+                { session: writeOptions.session },
+              )
+              .toArray()
+          : [];
+        const afterByKey = new Map(
+          after.map(doc => [getMatchKey(doc), doc as WithDbFields<TSchema>]),
+        );
+        const createdIndexes = new Set(
+          Object.keys(upsertedIds).map(i => writes[Number(i)].index),
+        );
+
+        const results: DatabaseBulkUpsertItemResult<TSchema>[] = [];
+        const created: WithDbFields<TSchema>[] = [];
+        const updated: WithDbFields<TSchema>[] = [];
+        for (let i = 0; i < docs.length; i += 1) {
+          const doc = !errors.has(i)
+            ? afterByKey.get(getMatchKey(docs[i]))
+            : undefined;
+          if (!doc) {
+            results.push({
+              success: false,
+              error: errors.get(i) || {
+                name: 'Error',
+                message: "Document wasn't upserted",
+              },
+            });
+            continue;
+          }
+          const isCreated = createdIndexes.has(i);
+          await this._addHistoryRecord(
+            ctx,
+            isCreated ? 'insert' : 'update',
+            isCreated ? null : beforeByKey.get(getMatchKey(doc)) || null,
+            doc,
+            { session: writeOptions.session },
           );
+          (isCreated ? created : updated).push(doc);
+          results.push({
+            success: true,
+            document: await this._decryptDocument(doc),
+            created: isCreated,
+          });
+        }
+        await this._evictCachedDocuments(
+          updated.map(doc => doc._id),
+          ctx,
+        );
+
+        if (!skipCreateEvent) {
+          for (const doc of created) {
+            this._emitDatabaseEvent<DatabaseEventInsert<TSchema>>(
+              ctx,
+              'created',
+              { type: 'insert', document: doc },
+            );
+          }
+        }
+        if (!skipUpdateEvent) {
+          for (const doc of updated) {
+            this._emitDatabaseEvent<DatabaseEventUpdate<TSchema>>(
+              ctx,
+              'updated',
+              { type: 'update', document: doc },
+            );
+          }
         }
-        return res as WithDbFields<TSchema> | null;
+        return results;
       },
 
       /**
-       * Delete many documents and return the number of deleted documents.
-       * If soft delete is enabled, it will only set the deleted field to true (hiding it from future requests).
+       * Update many documents (each one with its own changes) and return one result per item (in the same order).
+       * Items are written one by one, a failing item (not found, version conflict, etc.) doesn't stop the others.
        *
-       * WARNING: Do not send any events. You'll have to send an event yourself.
+       * Updated events are sent once all items are written.
        */
-      async _deleteMany(
-        query: Filter<TSchema>,
-        params: TenantParams<TSchema, TenantField>,
-        options?: DatabaseDeleteManyOptions,
-      ): Promise<number> {
-        const { strictTenantFilter = true, ...driverOptions } = options || {};
+      async _bulkUpdate(
+        ctx: Context,
+        items: DatabaseBulkUpdateItem<TSchema, TenantField>[],
+        options: { skipUpdateEvent?: boolean } = {},
+      ): Promise<DatabaseBulkItemResult<WithDbFields<TSchema>>[]> {
+        const results: DatabaseBulkItemResult<WithDbFields<TSchema>>[] = [];
+        const updated: WithDbFields<TSchema>[] = [];
 
-        if (opts.softDelete) {
-          const res = await this._getDatabaseMixinCollection().updateMany(
-            this._getQueryFilter(
-              query,
+        for (const { _id, params, changes, expectedVersion } of items) {
+          try {
+            const filter = this._getQueryFilter(
+              { _id } as Filter<TSchema>,
               params,
               'no-deleted',
-              strictTenantFilter,
-            ),
-            this._prepareUpdateFilter(
-              // @ts-expect-error deletedAt is not always here for TS
-              { $currentDate: { deletedAt: true } },
+            );
+            const databaseTenant = this._getDatabaseTenant(params, ctx);
+            const doc = await this._findOneAndUpdate(
+              ctx,
+              this._getVersionFilter(filter, expectedVersion),
+              this._prepareUpdateFilter(
+                await this._encryptUpdate(changes),
+                'update',
+              ),
               'update',
-            ),
-            driverOptions,
-          );
-          return res.modifiedCount;
+              { returnDocument: 'after', databaseTenant },
+            );
+            if (!doc) {
+              if (expectedVersion !== undefined) {
+                await this._assertNoVersionConflict(
+                  ctx,
+                  filter,
+                  expectedVersion,
+                  { databaseTenant },
+                );
+              }
+              throw new EntityNotFoundError(String(_id));
+            }
+            updated.push(doc);
+            results.push({
+              success: true,
+              document: await this._decryptDocument(doc),
+            });
+          } catch (err) {
+            results.push({ success: false, error: toBulkItemError(err) });
+          }
         }
-        const res = await this._getDatabaseMixinCollection().deleteMany(
-          this._getQueryFilter(query, params, 'no-deleted', strictTenantFilter),
-          driverOptions,
-        );
-        return res.deletedCount;
+
+        if (!options.skipUpdateEvent) {
+          for (const doc of updated) {
+            this._emitDatabaseEvent<DatabaseEventUpdate<TSchema>>(
+              ctx,
+              'updated',
+              { type: 'update', document: doc },
+            );
+          }
+        }
+        return results;
+      },
+
+      /**
+       * Delete (or soft delete) many documents and return one result per item (in the same order).
+       * Items are deleted one by one, a failing item (not found, etc.) doesn't stop the others.
+       *
+       * Deleted events are sent once all items are deleted.
+       */
+      async _bulkDelete(
+        ctx: Context,
+        items: DatabaseBulkDeleteItem<TSchema, TenantField>[],
+        options: { skipDeleteEvent?: boolean } = {},
+      ): Promise<DatabaseBulkItemResult<WithDbFields<TSchema>>[]> {
+        const results: DatabaseBulkItemResult<WithDbFields<TSchema>>[] = [];
+        const deleted: WithDbFields<TSchema>[] = [];
+
+        for (const { _id, params } of items) {
+          try {
+            const doc = await this._findOneAndDelete(
+              ctx,
+              this._getQueryFilter(
+                { _id } as Filter<TSchema>,
+                params,
+                'no-deleted',
+              ),
+              { databaseTenant: this._getDatabaseTenant(params, ctx) },
+            );
+            if (!doc) {
+              throw new EntityNotFoundError(String(_id));
+            }
+            deleted.push(doc);
+            results.push({
+              success: true,
+              document: await this._decryptDocument(doc),
+            });
+          } catch (err) {
+            results.push({ success: false, error: toBulkItemError(err) });
+          }
+        }
+
+        if (!options.skipDeleteEvent) {
+          for (const doc of deleted) {
+            this._emitDatabaseEvent<DatabaseEventDelete<TSchema>>(
+              ctx,
+              'deleted',
+              { type: 'delete', document: doc },
+            );
+          }
+        }
+        return results;
       },
     },
 
     actions: createActions(opts),
 
+    events: {
+      [DATABASE_CACHE_EVICT_EVENT]: {
+        handler(ctx: Context<DatabaseCacheEvictPayload>): Promise<void> | void {
+          const cache = this.databaseCache as DatabaseDocumentCache | undefined;
+          if (cache && ctx.params.service === this.fullName) {
+            return cache.evict(ctx.params.ids);
+          }
+        },
+      },
+      '$broker.started': {
+        handler(): void {
+          if (opts.eventSource !== 'changeStream' || !opts.eventPrefix) {
+            return;
+          }
+          // Started once every service is, as the Redis client is created in RedisMixin.started
+          const publisher = new DatabaseChangeStreamPublisher({
+            collection:
+              this._getDatabaseMixinCollection() as unknown as Collection,
+            // We expect the RedisMixin to be included
+            getRedis: () => (this.getRedis as () => Redis)(),
+            key:
+              opts.changeStream?.key ||
+              `database-change-stream:${this.fullName}`,
+            nodeID: this.broker.nodeID,
+            leaseTTL: opts.changeStream?.leaseTTL || 30000,
+            preImages: opts.changeStream?.preImages || false,
+            softDelete: opts.softDelete,
+            logger: this.logger,
+            emit: ({ event, payload }) =>
+              this.broker.emit(`${opts.eventPrefix}.${event}`, payload),
+          });
+          this.changeStreamPublisher = publisher;
+          publisher.start();
+        },
+      },
+    },
+
+    async stopped() {
+      await (
+        this.changeStreamPublisher as DatabaseChangeStreamPublisher | undefined
+      )?.stop();
+    },
+
+    async started() {
+      const collection = this._getDatabaseMixinCollection();
+      registerDatabaseCollection(collection.dbName, collection.collectionName, {
+        tenantField: opts.tenantField,
+        softDelete: opts.softDelete,
+      });
+
+      if (opts.history) {
+        const collections = await this._getDatabaseMixinTenantsCollections();
+        for (const { db, collectionName } of collections) {
+          // Also used to find the last version of a document
+          await db
+            .collection(
+              opts.history.collectionName || `${collectionName}_history`,
+            )
+            .createIndex({ documentId: 1, version: 1 }, { unique: true });
+        }
+      }
+    },
+
     created() {
       // Simple sanity check to have the required mixin setup
       if (!('getMongoClient' in this)) {
@@ -678,6 +2888,69 @@ export function DatabaseMethodsMixin<
           'DatabaseConnectionMixin is required to use DatabaseMethodsMixin',
         );
       }
+      if (opts.queryAdvisor) {
+        this.queryAdvisor = new DatabaseQueryAdvisor(
+          opts.queryAdvisor.indexes || [],
+          opts.queryAdvisor.maxShapes || 100,
+        );
+        if (
+          this.broker.isMetricsEnabled() &&
+          !this.broker.metrics.getMetric(DATABASE_QUERY_ADVISOR_METRIC)
+        ) {
+          this.broker.metrics.register({
+            name: DATABASE_QUERY_ADVISOR_METRIC,
+            type: 'counter',
+            labelNames: ['service', 'collection', 'issue'],
+            description: 'Number of sampled queries without efficient index',
+          });
+        }
+      }
+      if (opts.eventSource === 'changeStream' && !('getRedis' in this)) {
+        throw new Error(
+          'RedisMixin is required to use the changeStream event source in DatabaseMethodsMixin',
+        );
+      }
+      // @ts-expect-error We expect the DatabaseConnectionMixin to be included
+      if (opts.eventSource === 'changeStream' && this.isTenancyEnabled()) {
+        throw new Error(
+          "The changeStream event source can't be used with the DatabaseConnectionMixin tenancy option",
+        );
+      }
+      if (opts.cache) {
+        if (opts.cache.store === 'redis' && !('getRedis' in this)) {
+          throw new Error(
+            'RedisMixin is required to use the redis cache store in DatabaseMethodsMixin',
+          );
+        }
+        this.databaseCache = new DatabaseDocumentCache({
+          store: opts.cache.store || 'memory',
+          // We expect the RedisMixin to be included
+          getRedis: () => (this.getRedis as () => Redis)(),
+          key: opts.cache.key || `database-cache:${this.fullName}`,
+          ttl: opts.cache.ttl || 60000,
+          maxEntries: opts.cache.maxEntries || 1000,
+        });
+      }
+      if (opts.encryptedFields?.length) {
+        if (!('encrypt' in this) || !('decrypt' in this)) {
+          throw new Error(
+            'EncryptorMixin is required to use encryptedFields in DatabaseMethodsMixin',
+          );
+        }
+        const reserved = [
+          '_id',
+          'createdAt',
+          'updatedAt',
+          'deletedAt',
+          'version',
+          opts.tenantField,
+        ];
+        for (const field of opts.encryptedFields) {
+          if (reserved.includes(field.split('.')[0])) {
+            throw new Error(`Field "${field}" can't be encrypted`);
+          }
+        }
+      }
     },
   });
 }
@@ -0,0 +1,243 @@
+import type { Collection } from 'mongodb';
+import { Errors, type Context } from 'moleculer';
+import { wrapMixin } from '../../../types/index.js';
+import {
+  assertValidMigrations,
+  getMigrationsState,
+  shouldAutoRunMigrations,
+} from './utils.js';
+import {
+  type DatabaseMigration,
+  type DatabaseMigrationContext,
+  type DatabaseMigrationRecord,
+  type MigrationState,
+  MigrationStatus,
+} from './types.js';
+
+export type DatabaseMigrationsOptions = {
+  // Ordered list of migrations, applied in this order.
+  migrations: DatabaseMigration[];
+  // Collection where applied migrations are recorded, in the same DB (default: _migrations).
+  migrationsCollectionName?: string;
+  // TTL of the lock taken while running migrations, it is extended while running (default: 60000).
+  lockTTL?: number;
+};
+
+export type RunMigrationsOptions = {
+  // Only log and return the migrations that would be applied.
+  dryRun?: boolean;
+};
+
+export type RevertMigrationsOptions = {
+  // Number of applied migrations to revert, starting from the last one (default: 1).
+  count?: number;
+  // Only log and return the migrations that would be reverted.
+  dryRun?: boolean;
+};
+
+export const DATABASE_MIGRATIONS_MIXIN_RUN_EVENT =
+  'database-migrations-mixin.run';
+
+/**
+ * Apply the declared migrations that are not applied yet on the collection of the service.
+ *
+ * Migrations are run on start (see shouldAutoRunMigrations) or with the DATABASE_MIGRATIONS_MIXIN_RUN_EVENT event,
+ * under a lock so only one node runs them (RedlockMixin is required). Other nodes skip them.
+ * Migrations are not run in a transaction: if one fails, the next ones are not applied
+ * and it will be retried on the next run, so they should be idempotent.
+ */
+export function DatabaseMigrationsMixin(opts: DatabaseMigrationsOptions) {
+  assertValidMigrations(opts.migrations);
+
+  return wrapMixin({
+    methods: {
+      _getMigratedCollection(): Collection {
+        if (typeof this.getCollection !== 'function') {
+          throw new Error(
+            'getCollection method not found, did you add the DatabaseConnectionMixin?',
+          );
+        }
+        return this.getCollection() as Collection;
+      },
+
+      _getMigrationsCollection(): Collection<DatabaseMigrationRecord> {
+        return this._getMigratedCollection().db.collection<DatabaseMigrationRecord>(
+          opts.migrationsCollectionName || '_migrations',
+        );
+      },
+
+      async _getMigrationsState(): Promise<MigrationState[]> {
+        const collection = this._getMigratedCollection();
+        const records = await this._getMigrationsCollection()
+          .find({ collectionName: collection.collectionName })
+          .toArray();
+        return getMigrationsState(opts.migrations, records);
+      },
+
+      /**
+       * Run the callback under the migrations lock of the collection.
+       */
+      async _withMigrationsLock<T>(action: () => Promise<T>): Promise<T> {
+        if (typeof this.withLock !== 'function') {
+          throw new Error(
+            'withLock method not found, did you add the RedlockMixin?',
+          );
+        }
+        const collection = this._getMigratedCollection();
+        return this.withLock(
+          `database-migrations:${collection.dbName}.${collection.collectionName}`,
+          opts.lockTTL || 60000,
+          action,
+        ) as Promise<T>;
+      },
+
+      /**
+       * Apply pending migrations in the declared order and return the applied ones.
+       */
+      async _runMigrations({ dryRun }: RunMigrationsOptions = {}): Promise<
+        MigrationState[]
+      > {
+        return this._withMigrationsLock(async () => {
+          const collection = this._getMigratedCollection();
+          const states = await this._getMigrationsState();
+          const pending = states.filter(
+            s => s.status === MigrationStatus.PENDING,
+          );
+
+          if (!pending.length) {
+            this.logger.info(
+              `Collection ${collection.collectionName} is migrated (${states.length} migrations)`,
+            );
+            return [];
+          }
+          this.logger.info(
+            `Collection ${collection.collectionName} has ${pending.length} pending migrations`,
+            { pending: pending.map(s => s.id), dryRun },
+          );
+          if (dryRun) {
+            return pending;
+          }
+
+          const migrationCtx: DatabaseMigrationContext = {
+            collection,
+            service: this,
+            logger: this.logger,
+          };
+          const applied: MigrationState[] = [];
+          for (const state of pending) {
+            const migration = opts.migrations.find(m => m.id === state.id)!;
+            this.logger.info(`Applying migration ${migration.id}`);
+
+            const start = Date.now();
+            await migration.up(migrationCtx);
+            const record: DatabaseMigrationRecord = {
+              collectionName: collection.collectionName,
+              migrationId: migration.id,
+              appliedAt: new Date(),
+              durationMs: Date.now() - start,
+            };
+            await this._getMigrationsCollection().insertOne(record);
+            applied.push({
+              id: migration.id,
+              status: MigrationStatus.APPLIED,
+              appliedAt: record.appliedAt,
+            });
+          }
+          return applied;
+        });
+      },
+
+      /**
+       * Revert the last applied migrations (in the reverse declared order) and return the reverted ones.
+       * Throw if one of them has no down function.
+       */
+      async _revertMigrations({
+        count = 1,
+        dryRun,
+      }: RevertMigrationsOptions = {}): Promise<MigrationState[]> {
+        return this._withMigrationsLock(async () => {
+          const collection = this._getMigratedCollection();
+          const states = await this._getMigrationsState();
+          const toRevert = states
+            .filter(s => s.status === MigrationStatus.APPLIED)
+            .reverse()
+            .slice(0, count);
+
+          const migrations = toRevert.map(
+            s => opts.migrations.find(m => m.id === s.id)!,
+          );
+          const notRevertable = migrations.find(m => !m.down);
+          if (notRevertable) {
+            throw new Error(
+              `Migration '${notRevertable.id}' can't be reverted, it has no down function`,
+            );
+          }
+          this.logger.info(
+            `Reverting ${toRevert.length} migrations of collection ${collection.collectionName}`,
+            { migrations: toRevert.map(s => s.id), dryRun },
+          );
+          if (dryRun) {
+            return toRevert;
+          }
+
+          const migrationCtx: DatabaseMigrationContext = {
+            collection,
+            service: this,
+            logger: this.logger,
+          };
+          for (const migration of migrations) {
+            this.logger.info(`Reverting migration ${migration.id}`);
+            await migration.down!(migrationCtx);
+            await this._getMigrationsCollection().deleteOne({
+              collectionName: collection.collectionName,
+              migrationId: migration.id,
+            });
+          }
+          return toRevert;
+        });
+      },
+
+      /**
+       * Run the migrations, skipping them if another node is already running them.
+       */
+      async _runMigrationsIfUnlocked(
+        options: RunMigrationsOptions,
+      ): Promise<void> {
+        try {
+          await this._runMigrations(options);
+        } catch (err) {
+          if (err instanceof Errors.MoleculerRetryableError) {
+            this.logger.info('Migrations are already running on another node');
+            return;
+          }
+          this.logger.error('Error while running migrations', { err });
+        }
+      },
+    },
+
+    events: {
+      [DATABASE_MIGRATIONS_MIXIN_RUN_EVENT]: {
+        async handler(ctx: Context<RunMigrationsOptions | undefined>) {
+          ctx.logger.info(
+            `Received run migrations event for service ${this.name}`,
+          );
+          await this._runMigrationsIfUnlocked({ dryRun: ctx.params?.dryRun });
+        },
+      },
+      '$broker.started': {
+        async handler(): Promise<void> {
+          await this._runMigrationsIfUnlocked({
+            dryRun: !shouldAutoRunMigrations(),
+          });
+        },
+      },
+    },
+
+    async started() {
+      await this._getMigrationsCollection().createIndex(
+        { collectionName: 1, migrationId: 1 },
+        { unique: true },
+      );
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import type { Collection, Document } from 'mongodb';
+import type { Logger, Service } from 'moleculer';
+
+/**
+ * Given to the up/down functions of a migration.
+ */
+export type DatabaseMigrationContext = {
+  // Collection of the service (see DatabaseConnectionMixin).
+  collection: Collection<Document>;
+  service: Service;
+  logger: Logger;
+};
+
+export type DatabaseMigration = {
+  // Unique ID of the migration for the collection, never change it once applied.
+  id: string;
+  description?: string;
+  up: (ctx: DatabaseMigrationContext) => Promise<void>;
+  // Needed to revert the migration.
+  down?: (ctx: DatabaseMigrationContext) => Promise<void>;
+};
+
+/**
+ * Document stored in the migrations collection for each applied migration.
+ */
+export type DatabaseMigrationRecord = {
+  // Collection the migration was applied on.
+  collectionName: string;
+  migrationId: string;
+  appliedAt: Date;
+  // Duration of the up function.
+  durationMs: number;
+};
+
+export enum MigrationStatus {
+  APPLIED = 'APPLIED',
+  PENDING = 'PENDING',
+  // Applied but not declared anymore
+  NOT_DECLARED = 'NOT_DECLARED',
+}
+
+export type MigrationState = {
+  id: string;
+  status: MigrationStatus;
+  appliedAt?: Date;
+};
@@ -0,0 +1,55 @@
+import {
+  type DatabaseMigration,
+  type DatabaseMigrationRecord,
+  type MigrationState,
+  MigrationStatus,
+} from './types.js';
+
+const { DATABASE_MIGRATIONS_AUTO_RUN } = process.env;
+
+/**
+ * Migrations are run on start unless DATABASE_MIGRATIONS_AUTO_RUN is set to something else than 'yes'.
+ */
+export function shouldAutoRunMigrations(): boolean {
+  return (
+    !DATABASE_MIGRATIONS_AUTO_RUN || DATABASE_MIGRATIONS_AUTO_RUN === 'yes'
+  );
+}
+
+export function assertValidMigrations(migrations: DatabaseMigration[]): void {
+  const ids = new Set<string>();
+  for (const { id } of migrations) {
+    if (ids.has(id)) {
+      throw new Error(`Migration '${id}' is declared twice`);
+    }
+    ids.add(id);
+  }
+}
+
+/**
+ * Return the state of the declared migrations (in the declared order),
+ * followed by the applied migrations that are not declared anymore.
+ */
+export function getMigrationsState(
+  migrations: DatabaseMigration[],
+  records: DatabaseMigrationRecord[],
+): MigrationState[] {
+  const recordsById = new Map(records.map(r => [r.migrationId, r]));
+
+  const states: MigrationState[] = migrations.map(({ id }) => {
+    const record = recordsById.get(id);
+    recordsById.delete(id);
+    return record
+      ? { id, status: MigrationStatus.APPLIED, appliedAt: record.appliedAt }
+      : { id, status: MigrationStatus.PENDING };
+  });
+
+  for (const record of recordsById.values()) {
+    states.push({
+      id: record.migrationId,
+      status: MigrationStatus.NOT_DECLARED,
+      appliedAt: record.appliedAt,
+    });
+  }
+  return states;
+}
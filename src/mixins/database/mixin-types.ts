@@ -3,7 +3,14 @@ import type { ActionVisibility } from 'moleculer';
 import type { ZodObject, ZodType } from 'zod/v4';
 import type { JSONSchemaType } from '../../json-schema/index.js';
 import type { ValidationSchema } from '../../validator/types.js';
-import type { ActionSchemaFactory } from './actions/shared.js';
+import type {
+  ActionSchemaFactory,
+  ListPaginationMode,
+  QueryOp,
+} from './actions/shared.js';
+import type { IndexTuple } from './indexes/types.js';
+import type { DatabaseReadOptions, WithDbFields } from './types.js';
+import type { DatabaseSearchMode } from './search.js';
 
 /**
  * Utility type to extract the string keys of a type.
@@ -27,6 +34,7 @@ export type DatabaseMethodsOptions<
    * can only access documents that belong to the same tenant.
    *
    * This field can only be top-level and should probably be indexed.
+   * With the tenancy option of the DatabaseConnectionMixin, its value also selects the database.
    */
   tenantField: TenantField;
 
@@ -34,6 +42,8 @@ export type DatabaseMethodsOptions<
    * Enable soft-delete for the model.
    * The remove method will only set the deletedAt field to NOW.
    * And a new `scope` field will be read to be able to read deleted documents.
+   * Deleted documents can be restored (restoreOne/restoreMany) and hard-deleted after
+   * a retention period with purgeDeleted (or a TTL index, see getSoftDeleteTTLIndex).
    *
    * Note that if schema has a deletedAt field, you are required to set this option to true.
    */
@@ -51,19 +61,97 @@ export type DatabaseMethodsOptions<
       : false
     : false;
 
+  /**
+   * Enable optimistic concurrency control for the model.
+   * Will maintain a `version` field (1 on insert, incremented on each write), that can't be set by the caller.
+   *
+   * `expectedVersion` can then be given to updateOne/replaceOne, which will throw a VersionConflictError
+   * if the document was changed in the meantime, and the update action will require the `version` param.
+   */
+  versioning?: TSchema extends { version?: number } ? boolean : false;
+
   /**
    * Note that this function will be applied ONLY on insert operations.
    */
   idGenerator?: (doc: WithoutId<TSchema>) => InferIdType<TSchema>;
 
+  /**
+   * Fields (dot notation allowed) identifying a document for upserts (_upsertOne method and upsert action),
+   * like an ID from an external system. With a tenantField, documents are matched in the tenant only.
+   *
+   * These fields should be covered by a unique index, to prevent concurrent upserts from inserting duplicates.
+   */
+  upsertKeys?: Array<KeyString<TSchema> | `${string}.${string}`>;
+
+  /**
+   * List of fields (dot notation allowed) encrypted with the EncryptorMixin, which must be included in the service.
+   *
+   * Values are transparently encrypted on insert/update/replace and decrypted on reads
+   * (and on documents returned by write methods). Events contain the stored (encrypted) values.
+   * Encrypted fields can't be used in filters or sorts, and can only be written with $set/$setOnInsert
+   * (or removed with $unset).
+   */
+  encryptedFields?: string[];
+
+  /**
+   * Enable the history (audit trail) of the documents.
+   * See DatabaseHistoryOptions.
+   */
+  history?: DatabaseHistoryOptions;
+
+  /**
+   * Relations that can be populated on reads, by name (see DatabaseRelation).
+   * The `populate` param of get, getInternal, find and list actions is a list of these names,
+   * `_populate` can be used in other actions.
+   */
+  relations?: Record<string, DatabaseRelation>;
+
+  /**
+   * Source of the events (default: method).
+   * - `method`: events are sent by the write methods, so writes done with updateMany/deleteMany,
+   *   by other services or by scripts are not sent.
+   * - `changeStream`: events are sent from a change stream on the collection, for every write.
+   *   See DatabaseChangeStreamOptions. Only the default database is watched, so it can't be used
+   *   with the DatabaseConnectionMixin tenancy option.
+   */
+  eventSource?: 'method' | 'changeStream';
+
+  /**
+   * Options of the `changeStream` event source.
+   */
+  changeStream?: DatabaseChangeStreamOptions;
+
+  /**
+   * Enable full-text search (_search method and search action).
+   * See DatabaseSearchIndexOptions.
+   */
+  search?: DatabaseSearchIndexOptions;
+
+  /**
+   * Sample the queries of find/count methods to find the ones without a matching index.
+   * See DatabaseQueryAdvisorOptions.
+   */
+  queryAdvisor?: DatabaseQueryAdvisorOptions;
+
+  /**
+   * Cache the documents read by _id with _findOne (getInternal and get actions for example).
+   * See DatabaseCacheOptions.
+   */
+  cache?: DatabaseCacheOptions;
+
   /**
    * Prefix used for events.
    * If not specified, will disable events.
    *
    * Here is the list of events:
-   * - `${eventPrefix}.created`: Sent on insertOne and insertMany
-   * - `${eventPrefix}.updated`: Sent on updateOne and replaceOne
+   * - `${eventPrefix}.created`: Sent on insertOne, insertMany and upsertOne (when inserted)
+   * - `${eventPrefix}.updated`: Sent on updateOne, replaceOne and upsertOne (when updated)
    * - `${eventPrefix}.deleted`: Sent on deleteOne
+   * - `${eventPrefix}.restored`: Sent on restoreOne
+   *
+   * Events sent inside a transaction (see withTransaction) are only emitted after the commit.
+   * With the `changeStream` event source, events are also sent for updateMany/deleteMany
+   * (one per document) and writes done outside the service.
    */
   eventPrefix?: string;
 
@@ -73,25 +161,48 @@ export type DatabaseMethodsOptions<
    * If omitted, sQuery will be silently discarded.
    * It uses the same validator than on actions.
    * The schema will not be published on the openAPI.
-   * See addQueryOps for easy support of some mongo operators.
+   * See addQueryOps for easy support of some mongo operators, or sQueryFields to generate it.
    */
   sQuerySchema?: ValidationSchema | ZodType;
 
+  /**
+   * Fields that can be filtered in sQuery, with their allowed operators (equality is always allowed).
+   * The sQuery schema is generated from the actions schema (ignored if sQuerySchema is set):
+   * unknown fields and operators ($where, $expr...) are rejected, and the grammar is described in OpenAPI.
+   *
+   * @example { name: [QueryOp.CONTAINS], createdAt: [QueryOp.GTE, QueryOp.LT] }
+   */
+  sQueryFields?: {
+    [field in KeyString<TSchema> | `${string}.${string}`]?: QueryOp[];
+  };
+
   /**
    * Create the actions for the database mixin.
    * Read operations:
    * - find (max public)
    * - findStream (max public)
+   * - aggregate (max public)
+   * - queryAdvisorReport (max public, requires queryAdvisor option)
    * - getInternal (max public)
    * - get
    * - countInternal (max public)
    * - count
    * - list
+   * - search (requires search option)
+   * - export (NDJSON or CSV stream)
+   * - getHistory (requires history option)
+   * - getVersion (requires history option)
    *
    * Write operations:
    * - create
    * - update
+   * - upsert (requires upsertKeys option)
    * - remove
+   * - createMany
+   * - updateMany
+   * - removeMany
+   * - restore (requires softDelete option)
+   * - import (NDJSON or CSV stream, inserted or upserted with the upsert option)
    *
    * If some actions are not provided here, it probably means that they are not necessary.
    * For example, there is no `findAllStream` or `updateMany` actions. This is because they are not used
@@ -100,6 +211,165 @@ export type DatabaseMethodsOptions<
   actions?: DatabaseActionOptions<TSchema>;
 };
 
+/**
+ * Every write done through the mixin methods (insert, update, replace, delete) adds
+ * a versioned record in a sibling collection (`<collection>_history` by default),
+ * in the same transaction when there is one.
+ * Records contain the operation, the before/after snapshots (or the diff between them),
+ * the actor picked from ctx.meta and the requestID.
+ *
+ * Note that writes done outside the mixin methods are not tracked, and that updateMany/deleteMany
+ * need to read the matched documents before and after the write.
+ * Encrypted fields stay encrypted in the history collection and are decrypted when read with _findHistory.
+ */
+export type DatabaseHistoryOptions = {
+  // Store full snapshots or only the list of changes (default: snapshot).
+  mode?: 'snapshot' | 'diff';
+  // Name of the history collection (default: `${collectionName}_history`).
+  collectionName?: string;
+  // Keys of ctx.meta stored as the actor of the change (default: ['user']).
+  actorMetaKeys?: string[];
+};
+
+/**
+ * With the `changeStream` event source, a single node per service (holding a lease in Redis) watches the collection
+ * and sends the same events than the write methods (which don't send any).
+ * The resume token is saved in Redis after each change, so no change is lost across restarts
+ * (as long as it is still in the oplog).
+ *
+ * The RedisMixin is required and MongoDB must run as a replica set.
+ * With the tenancy option of the DatabaseConnectionMixin, only the default database is watched.
+ * Note that the events of a soft delete contain the document after the delete, unless pre-images are enabled.
+ */
+export type DatabaseChangeStreamOptions = {
+  // Prefix of the Redis keys (default: `database-change-stream:${service.fullName}`).
+  key?: string;
+  // Duration of the lease in ms, renewed every third of it (default: 30000).
+  leaseTTL?: number;
+  // Send the document before the change on delete events (default: false).
+  // Requires changeStreamPreAndPostImages to be enabled on the collection.
+  preImages?: boolean;
+};
+
+/**
+ * Full-text search on a declared Atlas search index (see DatabaseIndexesMixin searchIndexes).
+ * On a plain mongod (local and test environments), a text index is used instead with $text.
+ * It must be declared in the indexes too (e.g. `[{ name: 'text', description: 'text' }]`).
+ * Highlights are only available on Atlas.
+ */
+export type DatabaseSearchIndexOptions = {
+  // Name of the search index (default: default).
+  index?: string;
+  // Searched fields (default: every field of the search index), the text mode uses the text index fields.
+  paths?: string[];
+  // Fields that can be requested as facets by the search action.
+  facets?: string[];
+  // Default: atlas on MongoDB Atlas (see isOnAtlas), text otherwise.
+  mode?: DatabaseSearchMode;
+};
+
+/**
+ * A sample of the queries done with _createFindCursor (find, findOne, list, etc.) and _countDocuments
+ * is explained (queryPlanner verbosity) in the background, to record the ones doing a collection scan
+ * or an in-memory sort, and compared with the declared indexes.
+ *
+ * The report is returned by _getQueryAdvisorReport and the queryAdvisorReport action.
+ * When metrics are enabled, sampled queries with issues also increment the
+ * `database.query_advisor.issues` counter (labels: service, collection, issue).
+ */
+export type DatabaseQueryAdvisorOptions = {
+  // Ratio of queries sampled, between 0 and 1 (default: 0.01).
+  sampleRate?: number;
+  // Declared indexes of the collection, usually the ones given to DatabaseIndexesMixin.
+  indexes?: IndexTuple[];
+  // Maximum number of query shapes kept in the report (default: 100).
+  maxShapes?: number;
+};
+
+/**
+ * Documents read with a `{ _id }` query by _findOne are cached, one entry per tenant and soft-delete scope.
+ * The cached documents are the stored ones (encrypted fields stay encrypted), fields are applied on read.
+ * Reads in a transaction or a causally consistent session, and reads without strict tenant filter, skip the cache.
+ *
+ * The entries of a document are evicted by the write methods of the mixin (_updateOne, _replaceOne,
+ * _deleteOne, _updateMany...). With the memory store, evictions are broadcast to the other nodes.
+ * Writes done outside the mixin methods (and _purgeDeleted) are only seen once the entry expires.
+ */
+export type DatabaseCacheOptions = {
+  // Storage of the entries (default: memory). The redis store is shared by the nodes and requires the RedisMixin.
+  store?: 'memory' | 'redis';
+  // Duration of an entry in ms (default: 60000).
+  ttl?: number;
+  // Maximum number of cached documents of the memory store, the least recently read are evicted (default: 1000).
+  maxEntries?: number;
+  // Prefix of the Redis keys (default: `database-cache:${service.fullName}`).
+  key?: string;
+};
+
+/**
+ * Documents of another service referenced by a field, loaded with one call to a find action
+ * of this service (see DatabaseMethodsMixin actions) per populated page.
+ * Related documents are set on the relation name, next to the field.
+ *
+ * The tenant value of the params is sent to the find action, so the related documents
+ * are also restricted to the tenant.
+ * Published actions load them as the get action of the related service returns them
+ * (without its hiddenFields, only its publicFields).
+ */
+export type DatabaseRelation = {
+  // Field (dot notation allowed) with the id of the related document (or the array of ids, see many).
+  field: string;
+  // Full name of the find action of the related service (e.g. `v1.venues.find`).
+  action: string;
+  // Field of the related documents matched with the field values (default: _id).
+  foreignField?: string;
+  // The field is an array of ids, populated as an array of documents (default: false).
+  many?: boolean;
+  // Fields of the related documents to load (must include foreignField).
+  fields?: string[];
+  // Name of the tenant field in the find action params (default: tenantField option), false to not send it.
+  tenantField?: string | false;
+  // Schema of a related document, used in the actions schemas and OpenAPI.
+  schema?: ValidationSchema | ZodType;
+};
+
+/**
+ * Top-level field computed from the stored fields of the documents (e.g. fullName, isActive), never stored.
+ *
+ * Virtuals are set on the documents returned by _find, _findOne, _findStream and _search (so by the read actions)
+ * and by the create, update, upsert, remove and restore actions, after encrypted fields are decrypted.
+ * The resolver is called once per call of these methods (per batch of 100 documents with _findStream),
+ * only when the virtual is returned with the requested fields (and hiddenFields / publicFields).
+ * Virtuals can't be used in queries or sorts.
+ */
+export type DatabaseVirtual<TSchema extends Document> = {
+  // Return the values of the documents, in the same order (undefined values are not set). Can be async.
+  resolve(docs: WithDbFields<TSchema>[]): unknown[] | Promise<unknown[]>;
+  // Stored fields (dot notation allowed) read by resolve, loaded even if not requested.
+  dependsOn?: string[];
+  // Schema of the value, used in the actions schemas and OpenAPI.
+  schema?: ValidationSchema | ZodType;
+};
+
+// Actions reading documents, which can be routed to secondaries
+type DatabaseActionReadNames =
+  | 'find'
+  | 'findStream'
+  | 'aggregate'
+  | 'getInternal'
+  | 'get'
+  | 'countInternal'
+  | 'count'
+  | 'list'
+  | 'search'
+  | 'export';
+
+// Published actions returning documents (see publicFields)
+type DatabaseActionDocumentNames = Exclude<
+  DatabaseActionPublishedNames,
+  'count' | 'import'
+>;
+
 type DatabaseActionVisibility<T extends DatabaseActionNames> =
   T extends DatabaseActionInternalNames
     ? Exclude<ActionVisibility, 'published'>
@@ -111,28 +381,87 @@ export type DatabaseActionOptions<
   [key in DatabaseActionNames]?: {
     visibility: DatabaseActionVisibility<key>;
   } & (key extends 'list'
-    ? { maxPageSize?: number; defaultPageSize?: number; defaultSort?: string[] }
+    ? {
+        maxPageSize?: number;
+        defaultPageSize?: number;
+        defaultSort?: string[];
+        // Pagination mode (default: page). See ListPaginationMode.
+        pagination?: ListPaginationMode;
+      }
     : NonNullable<unknown>) &
-    (key extends 'create' ? { allowClientId?: boolean } : NonNullable<unknown>);
+    (key extends 'search'
+      ? { maxPageSize?: number; defaultPageSize?: number }
+      : NonNullable<unknown>) &
+    (key extends DatabaseActionReadNames
+      ? DatabaseReadOptions
+      : NonNullable<unknown>) &
+    (key extends 'create' | 'createMany' | 'import' | 'upsert'
+      ? { allowClientId?: boolean }
+      : NonNullable<unknown>) &
+    (key extends 'import'
+      ? {
+          // Number of documents written at once (default: 100).
+          batchSize?: number;
+          // Upsert the rows by the upsertKeys option (by _id without it) instead of inserting them,
+          // so a file can be imported again (default: false).
+          upsert?: boolean;
+        }
+      : NonNullable<unknown>) &
+    (key extends 'createMany' | 'updateMany' | 'removeMany'
+      ? {
+          // Maximum number of items per call (default: 100).
+          maxItems?: number;
+        }
+      : NonNullable<unknown>) &
+    (key extends DatabaseActionDocumentNames
+      ? {
+          // Only fields returned by the action (hiddenFields are still removed).
+          // With cursor pagination, the sort fields must be included.
+          publicFields?: string[];
+        }
+      : NonNullable<unknown>);
 } & {
   schema?: JSONSchemaType<TSchema> | ZodObject;
   schemaFactory?: ActionSchemaFactory;
   schemaName?: string;
+  /**
+   * Fields never returned by published actions (password hashes, internal notes...),
+   * whatever the requested fields. Internal actions and methods still return them.
+   * They are removed from the response schemas too (top-level fields only).
+   */
+  hiddenFields?: string[];
+  /**
+   * Fields computed from the stored ones, by name (see DatabaseVirtual).
+   * They are added to the response schemas as optional fields.
+   */
+  virtuals?: Record<string, DatabaseVirtual<TSchema>>;
 };
 
 export type DatabaseActionInternalNames =
   | 'find'
   | 'findStream'
+  | 'aggregate'
+  | 'queryAdvisorReport'
   | 'getInternal'
   | 'countInternal';
 
 export type DatabaseActionPublishedNames =
   | 'count'
   | 'list'
+  | 'search'
+  | 'export'
   | 'get'
   | 'create'
   | 'update'
-  | 'remove';
+  | 'upsert'
+  | 'remove'
+  | 'createMany'
+  | 'updateMany'
+  | 'removeMany'
+  | 'restore'
+  | 'import'
+  | 'getHistory'
+  | 'getVersion';
 
 export type DatabaseActionNames =
   | DatabaseActionInternalNames
@@ -0,0 +1,55 @@
+import { get } from 'es-toolkit/compat';
+import type { Document } from 'mongodb';
+import type { DatabaseRelation } from './mixin-types.js';
+
+/**
+ * Return the distinct ids of the related documents referenced by the documents.
+ */
+export function collectRelationIds(
+  docs: Document[],
+  relation: DatabaseRelation,
+): unknown[] {
+  const ids = new Map<string, unknown>();
+  for (const doc of docs) {
+    const value: unknown = get(doc, relation.field);
+    const values = relation.many && Array.isArray(value) ? value : [value];
+    for (const id of values) {
+      if (id !== undefined && id !== null) {
+        ids.set(String(id), id);
+      }
+    }
+  }
+  return [...ids.values()];
+}
+
+/**
+ * Set the related documents on the documents (mutated), under the relation name.
+ * Missing related documents are skipped: the key is not set for single relations
+ * and the document is not in the array for many relations.
+ */
+export function assignRelation(
+  docs: Document[],
+  name: string,
+  relation: DatabaseRelation,
+  related: Document[],
+): void {
+  const foreignField = relation.foreignField || '_id';
+  const relatedById = new Map<string, Document>();
+  for (const doc of related) {
+    relatedById.set(String(get(doc, foreignField)), doc);
+  }
+
+  for (const doc of docs) {
+    const value: unknown = get(doc, relation.field);
+    if (relation.many) {
+      doc[name] = (Array.isArray(value) ? value : [])
+        .map(id => relatedById.get(String(id)))
+        .filter(Boolean);
+    } else if (value !== undefined && value !== null) {
+      const res = relatedById.get(String(value));
+      if (res) {
+        doc[name] = res;
+      }
+    }
+  }
+}
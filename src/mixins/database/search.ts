@@ -0,0 +1,157 @@
+import type { Document } from 'mongodb';
+import { prependMatchStage } from './aggregate.js';
+
+// Maximum number of values returned per facet
+const MAX_FACET_VALUES = 20;
+
+/**
+ * - atlas: $search on an Atlas search index (see DatabaseIndexesMixin searchIndexes)
+ * - text: $text on a classic text index, for plain mongod (local and test environments)
+ */
+export type DatabaseSearchMode = 'atlas' | 'text';
+
+/**
+ * Highlight of a field returned by Atlas search (not available in text mode).
+ */
+export type DatabaseSearchHighlight = {
+  path: string;
+  score: number;
+  texts: Array<{ value: string; type: 'hit' | 'text' }>;
+};
+
+export type DatabaseSearchHit<T> = {
+  document: T;
+  // Relevance score of the document
+  score: number;
+  highlights?: DatabaseSearchHighlight[];
+};
+
+export type DatabaseSearchFacetValue = {
+  value: unknown;
+  count: number;
+};
+
+export type DatabaseSearchResult<T> = {
+  rows: DatabaseSearchHit<T>[];
+  // Number of documents matching the search
+  total: number;
+  // Most frequent values (max 20) of the requested facets, by field
+  facets: Record<string, DatabaseSearchFacetValue[]>;
+};
+
+export type SearchPipelineOptions = {
+  mode: DatabaseSearchMode;
+  // Name of the Atlas search index
+  index: string;
+  // Searched fields (atlas mode only, all the indexed fields by default)
+  paths?: string[];
+  query: string;
+  // Tenant and soft delete filters
+  filter: Document;
+  facets?: string[];
+  highlight?: boolean;
+  skip?: number;
+  limit?: number;
+};
+
+/**
+ * Create the search aggregation pipeline, returning a single document with
+ * the page of rows, the total and the facets (see parseSearchResult).
+ *
+ * The tenant and soft delete filters are applied in a $match stage, so totals and facets
+ * are computed with $facet (and not $searchMeta, which can't see these filters).
+ */
+export function createSearchPipeline({
+  mode,
+  index,
+  paths,
+  query,
+  filter,
+  facets = [],
+  highlight,
+  skip = 0,
+  limit = 10,
+}: SearchPipelineOptions): Document[] {
+  let pipeline: Document[];
+  if (mode === 'atlas') {
+    const path = paths?.length ? paths : { wildcard: '*' };
+    pipeline = prependMatchStage(
+      [
+        {
+          $search: {
+            index,
+            text: { query, path },
+            ...(highlight ? { highlight: { path } } : {}),
+          },
+        },
+      ],
+      filter,
+    );
+    pipeline.push({
+      $addFields: {
+        __searchScore: { $meta: 'searchScore' },
+        ...(highlight
+          ? { __searchHighlights: { $meta: 'searchHighlights' } }
+          : {}),
+      },
+    });
+  } else {
+    // $text must be in the first stage
+    pipeline = [
+      { $match: { ...filter, $text: { $search: query } } },
+      { $addFields: { __searchScore: { $meta: 'textScore' } } },
+      { $sort: { __searchScore: -1 } },
+    ];
+  }
+
+  const facetStages = Object.fromEntries(
+    facets.map((field, i) => [
+      `facet${i}`,
+      [
+        { $unwind: `$${field}` },
+        { $sortByCount: `$${field}` },
+        { $limit: MAX_FACET_VALUES },
+      ],
+    ]),
+  );
+
+  pipeline.push({
+    $facet: {
+      rows: [{ $skip: skip }, { $limit: limit }],
+      total: [{ $count: 'count' }],
+      ...facetStages,
+    },
+  });
+  return pipeline;
+}
+
+/**
+ * Convert the document returned by the search pipeline (see createSearchPipeline).
+ */
+export function parseSearchResult<T extends Document>(
+  raw: Document | undefined,
+  facets: string[] = [],
+): DatabaseSearchResult<T> {
+  const rows = ((raw?.rows || []) as Document[]).map(row => {
+    const { __searchScore, __searchHighlights, ...document } = row;
+    return {
+      document: document as T,
+      score: __searchScore as number,
+      ...(__searchHighlights ? { highlights: __searchHighlights } : {}),
+    };
+  });
+
+  return {
+    rows,
+    total: raw?.total?.[0]?.count || 0,
+    facets: Object.fromEntries(
+      facets.map((field, i) => [
+        field,
+        ((raw?.[`facet${i}`] || []) as Document[]).map(({ _id, count }) => ({
+          value: _id,
+          count,
+        })),
+      ]),
+    ),
+  };
+}
@@ -0,0 +1,54 @@
+import { randomUUID } from 'node:crypto';
+import type { ClientSession, MongoClient } from 'mongodb';
+import type { Context } from 'moleculer';
+import { ContextRegistry } from './context-registry.js';
+
+/**
+ * Key used in ctx.meta to find the causally consistent session of a context (see ContextRegistry).
+ */
+export const DATABASE_CAUSAL_SESSION_META_KEY = '$databaseCausalSessionID';
+
+// Running causally consistent sessions on this process
+const sessions = new ContextRegistry<DatabaseCausalSession>(
+  DATABASE_CAUSAL_SESSION_META_KEY,
+);
+
+/**
+ * Causally consistent session created by the `withCausalConsistency` method of the DatabaseMethodsMixin.
+ *
+ * Every database mixin method receiving a context linked to this session (and the read actions)
+ * will use it, so reads see the writes done before them, even on secondaries.
+ */
+export class DatabaseCausalSession {
+  readonly id: string = randomUUID();
+
+  constructor(
+    readonly client: MongoClient,
+    readonly session: ClientSession,
+  ) {}
+
+  /**
+   * Link the session to a context (and its future child contexts).
+   */
+  attach(ctx: Context): void {
+    sessions.attach(ctx, this);
+  }
+
+  /**
+   * Unlink the session from a context.
+   */
+  detach(ctx: Context): void {
+    sessions.detach(ctx, this);
+  }
+}
+
+/**
+ * Return the causally consistent session of a context if it uses the given client.
+ */
+export function getDatabaseCausalSession(
+  ctx: Context | undefined,
+  client: MongoClient,
+): DatabaseCausalSession | undefined {
+  const causalSession = sessions.get(ctx);
+  return causalSession?.client === client ? causalSession : undefined;
+}
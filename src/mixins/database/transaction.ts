@@ -0,0 +1,111 @@
+import { randomUUID } from 'node:crypto';
+import type { ClientSession, MongoClient } from 'mongodb';
+import type { Context } from 'moleculer';
+import { ContextRegistry } from './context-registry.js';
+
+/**
+ * Key used in ctx.meta to find the transaction of a context (see ContextRegistry).
+ * Services on other nodes will simply not find the transaction and run outside of it.
+ */
+export const DATABASE_TRANSACTION_META_KEY = '$databaseTransactionID';
+
+type DeferredEvent = { ctx: Context; eventName: string; payload: unknown };
+
+// Running transactions on this process
+const transactions = new ContextRegistry<DatabaseTransaction>(
+  DATABASE_TRANSACTION_META_KEY,
+);
+
+/**
+ * Unit of work created by the `withTransaction` method of the DatabaseMethodsMixin.
+ *
+ * Every database mixin method receiving a context linked to this transaction
+ * (directly or through ctx.call on the same node) will use its session,
+ * as long as the service uses the same MongoClient.
+ * Events are buffered and only emitted after the commit, like the commit callbacks (see onCommit).
+ */
+export class DatabaseTransaction {
+  readonly id: string = randomUUID();
+
+  private events: DeferredEvent[] = [];
+
+  private commitCallbacks: Array<() => Promise<void>> = [];
+
+  constructor(
+    readonly client: MongoClient,
+    readonly session: ClientSession,
+  ) {}
+
+  /**
+   * Buffer an event that will be emitted after the commit.
+   */
+  deferEvent<T>(ctx: Context, eventName: string, payload: T): void {
+    this.events.push({ ctx, eventName, payload });
+  }
+
+  /**
+   * Register a callback run after the commit, before the events are emitted
+   * (e.g. to evict written documents from a cache).
+   */
+  onCommit(callback: () => Promise<void>): void {
+    this.commitCallbacks.push(callback);
+  }
+
+  /**
+   * Drop buffered events and commit callbacks (used when the transaction is aborted or retried).
+   */
+  clearEvents(): void {
+    this.events = [];
+    this.commitCallbacks = [];
+  }
+
+  /**
+   * Run the commit callbacks, in the same order they were registered.
+   */
+  async runCommitCallbacks(): Promise<void> {
+    const callbacks = this.commitCallbacks;
+    this.commitCallbacks = [];
+    for (const callback of callbacks) {
+      await callback();
+    }
+  }
+
+  /**
+   * Emit buffered events, in the same order they were deferred.
+   * The transaction is removed from the contexts first (child contexts have a copy of the meta),
+   * so it doesn't leak into the contexts of the listeners.
+   */
+  emitEvents(): void {
+    const events = this.events;
+    this.events = [];
+    for (const { ctx, eventName, payload } of events) {
+      transactions.unlink(ctx);
+      ctx.emit(eventName, payload);
+    }
+  }
+
+  /**
+   * Link the transaction to a context (and its future child contexts).
+   */
+  attach(ctx: Context): void {
+    transactions.attach(ctx, this);
+  }
+
+  /**
+   * Unlink the transaction from a context.
+   */
+  detach(ctx: Context): void {
+    transactions.detach(ctx, this);
+  }
+}
+
+/**
+ * Return the running transaction of a context if it uses the given client.
+ */
+export function getDatabaseTransaction(
+  ctx: Context | undefined,
+  client: MongoClient,
+): DatabaseTransaction | undefined {
+  const tx = transactions.get(ctx);
+  return tx?.client === client ? tx : undefined;
+}
@@ -1,4 +1,6 @@
+import type { Context } from 'moleculer';
 import type {
+  AggregateOptions,
   BulkWriteOptions,
   CountDocumentsOptions,
   DeleteOptions,
@@ -6,20 +8,38 @@ import type {
   FindOneAndReplaceOptions,
   FindOneAndUpdateOptions,
   FindOptions,
+  UpdateFilter,
   UpdateOptions,
   Document,
   WithId,
   OptionalId,
+  ReadConcernLike,
+  ReadPreferenceLike,
 } from 'mongodb';
+import type {
+  DatabaseActionPublishedNames,
+  KeyString,
+  TenantParams,
+} from './mixin-types.js';
 
 export type DatabaseSoftDeleteScope =
   | 'include-deleted'
   | 'only-deleted'
   | 'no-deleted';
 
+/**
+ * Read preference and read concern of a read operation.
+ */
+export type DatabaseReadOptions = {
+  // Used to read from secondaries (e.g. 'secondaryPreferred').
+  readPreference?: ReadPreferenceLike;
+  readConcern?: ReadConcernLike;
+};
+
 /**
  * Options used on read only operations on the database mixin.
  * Wrapper around mongodb's FindOptions that is easier for us to use.
+ * readPreference/readConcern override the ones of the collection for this call.
  */
 export type DatabaseFindOptions = Omit<FindOptions, 'projection' | 'sort'> & {
   // Replace projection with fields that is similar to the sort option.
@@ -31,6 +51,10 @@ export type DatabaseFindOptions = Omit<FindOptions, 'projection' | 'sort'> & {
   scope?: DatabaseSoftDeleteScope;
   // If false, will allow to query documents without tenant field (default: true).
   strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
+  // Published action calling the method, its hiddenFields and publicFields are enforced.
+  publishedAction?: DatabaseActionPublishedNames;
 };
 
 /**
@@ -41,6 +65,42 @@ export type DatabaseCountOptions = CountDocumentsOptions & {
   scope?: DatabaseSoftDeleteScope;
   // If false, will allow to count documents without tenant field (default: true).
   strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
+};
+
+/**
+ * Options used on search operations on the database mixin (see search option).
+ */
+export type DatabaseSearchOptions = AggregateOptions & {
+  // Fields (must be in the search facets option) to return the most frequent values of.
+  facets?: string[];
+  // Return the highlights of the matched terms (Atlas only).
+  highlight?: boolean;
+  limit?: number;
+  skip?: number;
+  // Fields projection
+  fields?: string[];
+  // Scope used for soft delete. (no-deleted by default)
+  scope?: DatabaseSoftDeleteScope;
+  // If false, will allow to search documents without tenant field (default: true).
+  strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
+  // Published action calling the method, its hiddenFields and publicFields are enforced.
+  publishedAction?: DatabaseActionPublishedNames;
+};
+
+/**
+ * Options used on aggregate operations on the database mixin.
+ */
+export type DatabaseAggregateOptions = AggregateOptions & {
+  // Scope used for soft delete, on the aggregated collection only (no-deleted by default).
+  scope?: DatabaseSoftDeleteScope;
+  // If false, will allow to aggregate documents without tenant field (default: true).
+  strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
 };
 
 /**
@@ -82,6 +142,8 @@ export type DatabaseUpdateOneOptions = Omit<
   strictTenantFilter?: boolean;
   // Allow caller to skip update event (default: false).
   skipUpdateEvent?: boolean;
+  // Only update the document if its version matches (requires versioning option).
+  expectedVersion?: number;
 };
 
 /**
@@ -90,6 +152,8 @@ export type DatabaseUpdateOneOptions = Omit<
 export type DatabaseUpdateManyOptions = UpdateOptions & {
   // If false, will allow to update documents without tenant field in query (default: true).
   strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
 };
 
 /**
@@ -109,6 +173,43 @@ export type DatabaseReplaceOneOptions = Omit<
   strictTenantFilter?: boolean;
   // Allow caller to skip update event (default: false).
   skipUpdateEvent?: boolean;
+  // Only replace the document if its version matches (requires versioning option).
+  expectedVersion?: number;
+};
+
+/**
+ * Options used on upsertOne operations.
+ */
+export type DatabaseUpsertOneOptions = Omit<
+  FindOneAndUpdateOptions,
+  'upsert' | 'returnDocument' | 'sort' | 'projection'
+> & {
+  // Replace projection with fields that is similar to the sort option.
+  fields?: string[];
+  // Fields (dot notation allowed) identifying the document (default: upsertKeys option).
+  keys?: string[];
+  // Allow caller to skip create event (default: false).
+  skipCreateEvent?: boolean;
+  // Allow caller to skip update event (default: false).
+  skipUpdateEvent?: boolean;
+};
+
+export type DatabaseUpsertResult<TSchema extends Document> = {
+  document: WithDbFields<TSchema>;
+  // True if the document was inserted, false if an existing one was updated
+  created: boolean;
+};
+
+/**
+ * Options used on bulk upsert operations.
+ */
+export type DatabaseBulkUpsertOptions = BulkWriteOptions & {
+  // Fields (dot notation allowed) identifying the documents (default: upsertKeys option).
+  keys?: string[];
+  // Allow caller to skip create events (default: false).
+  skipCreateEvent?: boolean;
+  // Allow caller to skip update events (default: false).
+  skipUpdateEvent?: boolean;
 };
 
 /**
@@ -137,8 +238,98 @@ export type DatabaseDeleteOneOptions = Omit<
 export type DatabaseDeleteManyOptions = DeleteOptions & {
   // If false, will allow to delete documents without tenant field (default: true).
   strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
+};
+
+/**
+ * Options used on restoreOne operations (requires soft delete).
+ */
+export type DatabaseRestoreOneOptions = Omit<
+  FindOneAndUpdateOptions,
+  'upsert' | 'returnDocument' | 'sort' | 'projection'
+> & {
+  // Replace projection with fields that is similar to the sort option.
+  fields?: string[];
+  // Force sort option to be an array. This array is different from the driver's one.
+  // It is a list of fields to sort on, with a - prefix to sort in descending order.
+  sort?: string[];
+  // If false, will allow to restore documents without tenant field (default: true).
+  strictTenantFilter?: boolean;
+  // Allow caller to skip restore event (default: false).
+  skipRestoreEvent?: boolean;
+};
+
+/**
+ * Options used on restoreMany operations (requires soft delete).
+ */
+export type DatabaseRestoreManyOptions = Omit<UpdateOptions, 'upsert'> & {
+  // If false, will allow to restore documents without tenant field (default: true).
+  strictTenantFilter?: boolean;
+  // Context of the call, its tenant is used when params have none (see DatabaseConnectionMixin tenancy option).
+  ctx?: Context;
+};
+
+/**
+ * Options used on purgeDeleted operations (requires soft delete).
+ */
+export type DatabasePurgeDeletedOptions = DeleteOptions & {
+  // Documents deleted before this date are purged.
+  // A number is a retention period in milliseconds (deleted before now - olderThan).
+  olderThan: Date | number;
+};
+
+/**
+ * Item of a bulkUpdate operation, the document is found by _id.
+ */
+export type DatabaseBulkUpdateItem<
+  TSchema extends Document,
+  TenantField extends KeyString<TSchema> | false,
+> = {
+  _id: TSchema['_id'];
+  params: TenantParams<TSchema, TenantField>;
+  changes: UpdateFilter<TSchema>;
+  // Only update the document if its version matches (requires versioning option).
+  expectedVersion?: number;
+};
+
+/**
+ * Item of a bulkDelete operation, the document is found by _id.
+ */
+export type DatabaseBulkDeleteItem<
+  TSchema extends Document,
+  TenantField extends KeyString<TSchema> | false,
+> = {
+  _id: TSchema['_id'];
+  params: TenantParams<TSchema, TenantField>;
 };
 
+/**
+ * Serializable error of a bulk operation item (see DatabaseBulkItemResult).
+ */
+export type DatabaseBulkItemError = {
+  name: string;
+  message: string;
+  code?: number;
+  type?: string;
+  data?: unknown;
+};
+
+/**
+ * Result of one item of a bulk operation, results are in the same order as the items.
+ * A failing item doesn't stop the others.
+ */
+export type DatabaseBulkItemResult<T> =
+  | { success: true; document: T }
+  | { success: false; error: DatabaseBulkItemError };
+
+/**
+ * Result of one document of a bulk upsert (see DatabaseBulkItemResult), with `created` on success.
+ */
+export type DatabaseBulkUpsertItemResult<TSchema extends Document> =
+  | ({ success: true } & DatabaseUpsertResult<TSchema>)
+  | { success: false; error: DatabaseBulkItemError };
+
 /**
  * Type of the event sent by the database mixin on insert.
  * For insertMany, it will be sent once per document.
@@ -151,7 +342,7 @@ export type DatabaseEventInsert<TSchema extends Document> = {
 
 /**
  * Type of the event sent by the database mixin on update.
- * No event is sent on updateMany.
+ * No event is sent on updateMany (but one per document on bulkUpdate).
  */
 export type DatabaseEventUpdate<TSchema extends Document> = {
   type: 'update' | 'replace';
@@ -160,7 +351,7 @@ export type DatabaseEventUpdate<TSchema extends Document> = {
 };
 /**
  * Type of the event sent by the database mixin on update.
- * No event is sent on deleteMany.
+ * No event is sent on deleteMany (but one per document on bulkDelete).
  */
 export type DatabaseEventDelete<TSchema extends Document> = {
   type: 'delete';
@@ -168,6 +359,16 @@ export type DatabaseEventDelete<TSchema extends Document> = {
   document: WithDbFields<TSchema>;
 };
 
+/**
+ * Type of the event sent by the database mixin on restore.
+ * No event is sent on restoreMany.
+ */
+export type DatabaseEventRestore<TSchema extends Document> = {
+  type: 'restore';
+  // The document AFTER the restore.
+  document: WithDbFields<TSchema>;
+};
+
 /**
  * Helper function that gives the type of document returned from the database.
  * It will add _id, createdAt and updatedAt fields if they are not already present.
@@ -0,0 +1,85 @@
+import type { Document } from 'mongodb';
+import { isPathProjected, isSameOrNestedPath } from './helpers.js';
+import type { DatabaseVirtual } from './mixin-types.js';
+import type { WithDbFields } from './types.js';
+
+// Number of documents of a _findStream resolver call
+export const VIRTUALS_STREAM_BATCH_SIZE = 100;
+
+/**
+ * Return the names of the virtuals returned with the given fields list.
+ */
+export function getProjectedVirtuals<TSchema extends Document>(
+  virtuals: Record<string, DatabaseVirtual<TSchema>>,
+  fields?: string[],
+): string[] {
+  return Object.keys(virtuals).filter(name => isPathProjected(name, fields));
+}
+
+/**
+ * Return the fields list to read so the given virtuals can be resolved:
+ * their dependencies are removed from the excluded fields and added to the included ones.
+ * The same list is returned when nothing changes.
+ */
+export function getVirtualsReadFields<TSchema extends Document>(
+  virtuals: Record<string, DatabaseVirtual<TSchema>>,
+  names: string[],
+  fields?: string[],
+): string[] | undefined {
+  const deps = names.flatMap(name => virtuals[name].dependsOn || []);
+  if (!fields?.length || deps.every(dep => isPathProjected(dep, fields))) {
+    return fields;
+  }
+  const isRelated = (a: string, b: string) =>
+    isSameOrNestedPath(a, b) || isSameOrNestedPath(b, a);
+
+  let res = fields.filter(
+    f => !f.startsWith('-') || !deps.some(dep => isRelated(f.slice(1), dep)),
+  );
+  if (res.some(f => !f.startsWith('-'))) {
+    const added = deps.filter(
+      (dep, i) =>
+        deps.indexOf(dep) === i &&
+        !isPathProjected(dep, res) &&
+        !deps.some(other => other !== dep && isSameOrNestedPath(dep, other)),
+    );
+    // Included children of the added fields would collide with them in the projection
+    res = [
+      ...res.filter(
+        f => f.startsWith('-') || !added.some(dep => f.startsWith(`${dep}.`)),
+      ),
+      ...added,
+    ];
+  }
+  return res.length ? res : undefined;
+}
+
+/**
+ * Set the given virtuals on the documents (mutated), with one resolver call per virtual.
+ * Resolvers run concurrently and don't see the values of the other virtuals.
+ */
+export async function resolveVirtuals<TSchema extends Document>(
+  docs: Document[],
+  virtuals: Record<string, DatabaseVirtual<TSchema>>,
+  names: string[],
+): Promise<void> {
+  const values = await Promise.all(
+    names.map(async name => {
+      const res = await virtuals[name].resolve(docs as WithDbFields<TSchema>[]);
+      if (!Array.isArray(res) || res.length !== docs.length) {
+        throw new Error(
+          `Virtual "${name}" must resolve one value per document (${docs.length})`,
+        );
+      }
+      return res;
+    }),
+  );
+
+  names.forEach((name, i) => {
+    docs.forEach((doc, j) => {
+      if (values[i][j] !== undefined) {
+        doc[name] = values[i][j];
+      }
+    });
+  });
+}
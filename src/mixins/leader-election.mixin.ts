@@ -0,0 +1,135 @@
+import type { Service } from 'moleculer';
+import type Redlock from 'redlock';
+import { wrapMixin } from '../types/index.js';
+import { LeaderElection } from './leader-election.js';
+
+export * from './leader-election.js';
+
+/**
+ * Event broadcast by the LeaderElectionMixin when a node is elected or demoted.
+ */
+export const LEADER_CHANGED_EVENT = 'leader-election.changed';
+
+export type LeaderChangedPayload = {
+  // Redis key of the election (see LeaderElectionMixinOptions)
+  key: string;
+  service: string;
+  nodeID: string;
+  leader: boolean;
+};
+
+export type LeadershipListener = {
+  onElected?: () => unknown;
+  onDemoted?: () => unknown;
+};
+
+export type LeaderElectionMixinOptions = {
+  // Redis key of the lease, nodes using the same key elect one leader (default: `leader-election:${service.fullName}`).
+  key?: string;
+  // Duration of the lease in ms, renewed every third of it (default: 15000).
+  ttl?: number;
+  // Delay between two election attempts of the other nodes in ms (default: ttl / 3).
+  retryInterval?: number;
+  onElected?: <TService extends Service = Service>(
+    svc: TService,
+  ) => unknown | Promise<unknown>;
+  onDemoted?: <TService extends Service = Service>(
+    svc: TService,
+  ) => unknown | Promise<unknown>;
+};
+
+const kElection = Symbol('Leader Election Symbol');
+const kListeners = Symbol('Leader Election Listeners Symbol');
+
+/**
+ * Elect one leader among the nodes running the service, for work that must be done once globally
+ * (RedlockMixin.withLock only covers a short critical section).
+ * The leader holds a renewable lease in Redis (see LeaderElection), which is released in stopped().
+ *
+ * It requires the RedlockMixin, listed before this mixin so the lease is released before its client is closed.
+ * The onElected/onDemoted hooks (and listeners added with addLeadershipListener) are called on changes,
+ * then LEADER_CHANGED_EVENT is broadcast.
+ */
+export function LeaderElectionMixin(opts: LeaderElectionMixinOptions = {}) {
+  return wrapMixin({
+    methods: {
+      isLeader(): boolean {
+        return !!(this[kElection] as LeaderElection | undefined)?.isLeader;
+      },
+
+      /**
+       * Add hooks called when the node is elected or demoted.
+       * onElected is called right away if the node is already the leader.
+       */
+      addLeadershipListener(listener: LeadershipListener): void {
+        (this[kListeners] as LeadershipListener[]).push(listener);
+        if (this.isLeader()) {
+          void this._callLeadershipListener(listener, true);
+        }
+      },
+
+      async _callLeadershipListener(
+        listener: LeadershipListener,
+        leader: boolean,
+      ): Promise<void> {
+        try {
+          await (leader ? listener.onElected : listener.onDemoted)?.();
+        } catch (err) {
+          this.logger.error(
+            `Leadership ${leader ? 'onElected' : 'onDemoted'} hook failed`,
+            { err },
+          );
+        }
+      },
+    },
+
+    created() {
+      if (typeof this.getRedlock !== 'function') {
+        throw new Error(
+          'getRedlock method not found, did you add the RedlockMixin?',
+        );
+      }
+      this[kListeners] = [
+        {
+          onElected: () => opts.onElected?.(this),
+          onDemoted: () => opts.onDemoted?.(this),
+        },
+      ];
+    },
+
+    async started() {
+      const key = opts.key || `leader-election:${this.fullName}`;
+      const ttl = opts.ttl || 15000;
+      const election = new LeaderElection({
+        key,
+        ttl,
+        retryInterval: opts.retryInterval || ttl / 3,
+        // We expect the RedlockMixin to be included
+        getRedlock: () => (this.getRedlock as () => Redlock)(),
+        logger: this.logger,
+        onChange: async leader => {
+          this.logger.info(
+            leader
+              ? `Elected leader of ${key}`
+              : `Demoted from leader of ${key}`,
+          );
+          for (const listener of this[kListeners] as LeadershipListener[]) {
+            await this._callLeadershipListener(listener, leader);
+          }
+          await this.broker.broadcast(LEADER_CHANGED_EVENT, {
+            key,
+            service: this.fullName,
+            nodeID: this.broker.nodeID,
+            leader,
+          } satisfies LeaderChangedPayload);
+        },
+      });
+      this[kElection] = election;
+      election.start();
+    },
+
+    async stopped() {
+      await (this[kElection] as LeaderElection | undefined)?.stop();
+    },
+  });
+}
@@ -0,0 +1,120 @@
+import type { Logger } from 'moleculer';
+
+/**
+ * Lease lock, as returned by Redlock.acquire.
+ */
+export type LeaderElectionLock = {
+  extend: (ttl: number) => Promise<LeaderElectionLock>;
+  unlock: () => Promise<unknown>;
+};
+
+export type LeaderElectionOptions = {
+  key: string;
+  ttl: number;
+  retryInterval: number;
+  // Redlock or any client with the same acquire method.
+  // Called on each attempt (the client may not be ready before the service is started)
+  getRedlock: () => {
+    acquire: (key: string, ttl: number) => Promise<LeaderElectionLock>;
+  };
+  onChange: (leader: boolean) => Promise<void>;
+  logger: Logger;
+};
+
+/**
+ * Lease held by one node at a time: a lock renewed every third of its ttl.
+ * Other nodes try to acquire it every retryInterval, so a crashed leader is replaced once its lease expires.
+ * A leader failing to renew its lease is demoted, another node may already be elected.
+ *
+ * onChange calls run in order but outside of the renewals, so slow hooks don't delay them.
+ */
+export class LeaderElection {
+  private lock: LeaderElectionLock | null = null;
+
+  private timer: NodeJS.Timeout | undefined;
+
+  private running: Promise<void> | undefined;
+
+  private changes: Promise<void> = Promise.resolve();
+
+  private stopped = true;
+
+  constructor(private readonly opts: LeaderElectionOptions) {}
+
+  get isLeader(): boolean {
+    return !!this.lock;
+  }
+
+  start(): void {
+    this.stopped = false;
+    this.attempt();
+  }
+
+  /**
+   * Stop the attempts and release the lease (if held), so another node can be elected right away.
+   * Resolve once the pending onChange calls are done.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.running;
+
+    const { lock } = this;
+    if (lock) {
+      this.lock = null;
+      try {
+        await lock.unlock();
+      } catch (err) {
+        this.opts.logger.warn(`Unable to release lease ${this.opts.key}`, {
+          err,
+        });
+      }
+      this.notify(false);
+    }
+    await this.changes;
+  }
+
+  private attempt(): void {
+    this.running = this.run().finally(() => {
+      this.running = undefined;
+      if (!this.stopped) {
+        this.timer = setTimeout(
+          () => this.attempt(),
+          this.lock ? this.opts.ttl / 3 : this.opts.retryInterval,
+        );
+      }
+    });
+  }
+
+  private async run(): Promise<void> {
+    const { key, ttl, logger } = this.opts;
+    if (this.lock) {
+      try {
+        this.lock = await this.lock.extend(ttl);
+      } catch (err) {
+        logger.warn(`Unable to renew lease ${key}`, { err });
+        this.lock = null;
+        this.notify(false);
+      }
+      return;
+    }
+
+    try {
+      this.lock = await this.opts.getRedlock().acquire(key, ttl);
+    } catch {
+      // Another node is the leader
+      return;
+    }
+    this.notify(true);
+  }
+
+  private notify(leader: boolean): void {
+    this.changes = this.changes
+      .then(() => this.opts.onChange(leader))
+      .catch((err: unknown) => {
+        this.opts.logger.error(`Leadership change of ${this.opts.key} failed`, {
+          err,
+        });
+      });
+  }
+}
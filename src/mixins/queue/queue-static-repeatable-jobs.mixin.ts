@@ -3,6 +3,7 @@ import type { Redis } from 'ioredis';
 import { wrapMixin } from '../../types/index.js';
 import { GlobalStoreMixin } from '../global-store.mixin.js';
 import { createRedisConnection } from './queue-utils.js';
+import type { LeadershipListener } from '../leader-election.mixin.js';
 import type { QueueMixinOptions } from './types.js';
 
 export type RepeatableJob = { name: string; data?: unknown } & RepeatOptions;
@@ -57,6 +58,12 @@ export type QueueStaticRepeatableJobsOptions = {
    * Set to `false` to prevent deleting repeatable jobs not registered.
    */
   autoRemove?: boolean;
+  /**
+   * Only register the jobs on the leader of the service, each time a node is elected.
+   * Requires the LeaderElectionMixin in the service.
+   * Otherwise, every node registers them when the broker is started.
+   */
+  leaderOnly?: boolean;
 };
 
 // Convert it to any because moleculer doesn't support symbol on Service instance
@@ -122,6 +129,11 @@ export function QueueStaticRepeatableJobs(
     },
 
     created() {
+      if (opts.leaderOnly && typeof this.addLeadershipListener !== 'function') {
+        throw new Error(
+          'addLeadershipListener method not found, did you add the LeaderElectionMixin?',
+        );
+      }
       if (!this[mixinStore]) {
         this[mixinStore] = new Set();
       }
@@ -134,10 +146,19 @@ export function QueueStaticRepeatableJobs(
     },
 
     events: {
-      // TODO Improve this to only be run once in a while globally on the cluster
       '$broker.started': {
         async handler() {
-          await this.registerRepeatableJobs();
+          if (!opts.leaderOnly) {
+            await this.registerRepeatableJobs();
+            return;
+          }
+          // We expect the LeaderElectionMixin to be included
+          const addLeadershipListener = this.addLeadershipListener as (
+            listener: LeadershipListener,
+          ) => void;
+          addLeadershipListener({
+            onElected: () => this.registerRepeatableJobs(),
+          });
         },
       },
     },